@@ -2,7 +2,9 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { Layout, PageContainer, Section } from "@/components/Layout";
-import { useMoodEntries } from '@/hooks/useLocalStorage';
+import { QuarantineReview } from "@/components/QuarantineReview";
+import { TrashBin } from "@/components/TrashBin";
+import { useMoodEntries, useScoringProfiles, useAppSettings, useMigrationLog, useEntryHistory } from '@/hooks/useLocalStorage';
 import {
   Shield,
   Download,
@@ -21,7 +23,9 @@ import {
   RefreshCw,
   Calendar,
   BarChart3,
-  Activity
+  Activity,
+  History,
+  Eye
 } from 'lucide-react';
 import {
   CSVExporter,
@@ -31,6 +35,7 @@ import {
   ImportResult,
   type StorageUsage
 } from '@/lib/export';
+import { STORAGE_CONFIG } from '@/lib/storage';
 import { format, subDays } from 'date-fns';
 
 /**
@@ -38,6 +43,18 @@ import { format, subDays } from 'date-fns';
  */
 type RetentionPeriod = '7d' | '14d' | '30d' | '90d' | '1y' | 'forever';
 
+/**
+ * Days kept for each retention period (0 keeps entries forever)
+ */
+const RETENTION_DAYS: Record<RetentionPeriod, number> = {
+  '7d': 7,
+  '14d': 14,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+  'forever': 0
+};
+
 /**
  * Privacy explanation component
  */
@@ -56,8 +73,8 @@ function PrivacyExplanation() {
             <div>
               <h4 className="font-medium text-green-800 dark:text-green-200 mb-2">100% Local Storage</h4>
               <p className="text-sm text-green-700 dark:text-green-300">
-                All your wellness data is stored locally on your device using browser localStorage. 
-                Nothing is sent to external servers or cloud services.
+                All your wellness data is stored locally on your device in the browser&apos;s IndexedDB
+                (or localStorage where IndexedDB is unavailable). Nothing is sent to external servers or cloud services.
               </p>
             </div>
           </div>
@@ -95,7 +112,7 @@ function PrivacyExplanation() {
             <div>
               <h4 className="font-medium text-yellow-800 dark:text-yellow-200 mb-1">Important Note</h4>
               <p className="text-sm text-yellow-700 dark:text-yellow-300">
-                Data is stored in your browser&apos;s localStorage. Clearing browser data or using incognito mode 
+                Data is stored in your browser&apos;s local storage. Clearing browser data or using incognito mode 
                 will remove your data. Export your data regularly for backup.
               </p>
             </div>
@@ -441,7 +458,7 @@ function DataRetentionSettings({
       
       <div className="space-y-4">
         <p className="text-sm text-muted-foreground">
-          Choose how long to keep your wellness data. Older entries will be automatically cleaned up.
+          Choose how long to keep your wellness data. Older entries are moved to the trash automatically.
         </p>
         
         <div className="space-y-2">
@@ -472,7 +489,7 @@ function DataRetentionSettings({
             Clean Up Old Data Now
           </button>
           <p className="text-xs text-muted-foreground mt-2">
-            Manually remove entries older than your retention period
+            Move entries older than your retention period to the trash now
           </p>
         </div>
       </div>
@@ -480,6 +497,90 @@ function DataRetentionSettings({
   );
 }
 
+/**
+ * Migration history component
+ */
+function MigrationHistory() {
+  const { log, storedVersion, currentVersion, dryRun, loading } = useMigrationLog();
+  const [preview, setPreview] = useState<ReturnType<typeof dryRun> | null>(null);
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <History className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold text-foreground">Data Migrations</h3>
+      </div>
+
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          When an update changes how data is stored, your data is migrated automatically. A snapshot is taken
+          first, and if anything fails the snapshot is restored.
+        </p>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="text-sm text-foreground">
+            Stored data version <span className="font-medium">{loading ? '…' : storedVersion}</span>
+            {' '}· App version <span className="font-medium">{currentVersion}</span>
+          </div>
+          <button onClick={() => setPreview(dryRun())} className="btn btn-outline btn-sm flex items-center gap-2">
+            <Eye className="w-4 h-4" />
+            Preview Pending Migrations
+          </button>
+        </div>
+
+        {preview && (
+          <div className="p-4 bg-muted rounded-lg text-sm">
+            {!preview.success ? (
+              <p className="text-red-600">{preview.error.message}</p>
+            ) : preview.data.steps.length === 0 ? (
+              <p className="text-muted-foreground">Your data is up to date; nothing would change.</p>
+            ) : (
+              <ul className="space-y-2">
+                {preview.data.steps.map(step => (
+                  <li key={step.version}>
+                    <span className="font-medium text-foreground">{step.version}</span>
+                    <span className="text-muted-foreground"> – {step.description}</span>
+                    <div className="text-xs text-muted-foreground">
+                      {step.changedKeys.length > 0 ? `Would change: ${step.changedKeys.join(', ')}` : 'No changes to your data'}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {log.length > 0 ? (
+          <ul className="space-y-2">
+            {log.map(run => (
+              <li key={run.id} className="flex items-start gap-3 p-3 rounded-lg border border-border">
+                {run.status === 'success' ? (
+                  <CheckCircle className="w-5 h-5 text-green-600 mt-0.5" />
+                ) : (
+                  <XCircle className="w-5 h-5 text-red-600 mt-0.5" />
+                )}
+                <div className="text-sm">
+                  <div className="font-medium text-foreground">
+                    {run.fromVersion} → {run.toVersion}
+                    {run.status === 'rolledBack' && <span className="text-red-600"> (rolled back)</span>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {format(run.startedAt, 'MMM d, yyyy HH:mm')} · {run.steps.length} step{run.steps.length === 1 ? '' : 's'}
+                    {run.changedKeys.length > 0 && ` · changed ${run.changedKeys.join(', ')}`}
+                  </div>
+                  {run.error && <div className="text-xs text-red-600 mt-1">{run.error}</div>}
+                </div>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No migrations have run on this device.</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
 /**
  * Complete data deletion component
  */
@@ -513,10 +614,10 @@ function DataDeletion({
           <div className="flex items-start gap-3">
             <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
             <div>
-              <h4 className="font-medium text-red-800 dark:text-red-200 mb-2">Permanent Deletion</h4>
+              <h4 className="font-medium text-red-800 dark:text-red-200 mb-2">Delete Everything</h4>
               <p className="text-sm text-red-700 dark:text-red-300">
-                This will permanently delete all your wellness data from this device. 
-                This action cannot be undone. Make sure to export your data first if you want to keep it.
+                This will move all your check-ins to the trash and delete your scores from this device. Your settings are kept.
+                Check-ins can be restored from the trash until its retention period runs out; empty the trash to remove them for good.
               </p>
             </div>
           </div>
@@ -529,7 +630,7 @@ function DataDeletion({
               <div>
                 <h4 className="font-medium text-yellow-800 dark:text-yellow-200 mb-2">Are you sure?</h4>
                 <p className="text-sm text-yellow-700 dark:text-yellow-300">
-                  This will delete all your entries, scores, and settings. Type &quot;DELETE&quot; to confirm.
+                  This will delete all your entries and scores. Entries stay in the trash until it is emptied.
                 </p>
               </div>
             </div>
@@ -568,7 +669,7 @@ function DataDeletion({
         </div>
 
         <div className="text-xs text-muted-foreground">
-          <strong>Warning:</strong> This action is irreversible. Export your data first if you want to keep it.
+          <strong>Warning:</strong> Settings cannot be restored. Export your data first if you want to keep it.
         </div>
       </div>
     </div>
@@ -647,7 +748,7 @@ function HelpDocumentation() {
               <div>
                 <h4 className="font-medium text-foreground mb-2">Local Storage Only</h4>
                 <p className="text-sm text-muted-foreground">
-                  All data is stored in your browser&apos;s localStorage. No data is sent to external servers or cloud services.
+                  All data is stored in your browser&apos;s IndexedDB or localStorage. No data is sent to external servers or cloud services.
                 </p>
               </div>
               
@@ -701,8 +802,12 @@ function HelpDocumentation() {
  * Main DataControlPage component
  */
 export default function DataControlPage() {
-  const { value: moodEntries, setValue: setMoodEntries } = useMoodEntries();
-  const [retentionPeriod, setRetentionPeriod] = useState<RetentionPeriod>('forever');
+  const { value: moodEntries, refresh: refreshMoodEntries } = useMoodEntries();
+  const { activeProfile } = useScoringProfiles();
+  const { value: appSettings, setValue: setAppSettings, refresh: refreshAppSettings } = useAppSettings();
+  const { importEntries, deleteEntries } = useEntryHistory();
+  const retentionPeriod = (Object.keys(RETENTION_DAYS) as RetentionPeriod[])
+    .find(period => RETENTION_DAYS[period] === appSettings.dataRetention.moodEntriesDays) ?? 'forever';
   const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -730,7 +835,7 @@ export default function DataControlPage() {
   const handleExportCSV = async () => {
     setIsExporting(true);
     try {
-      await CSVExporter.exportMoodEntries(moodEntries);
+      await CSVExporter.exportMoodEntries(moodEntries, activeProfile);
     } catch (error) {
       console.error('Error exporting CSV:', error);
     } finally {
@@ -756,12 +861,21 @@ export default function DataControlPage() {
     
     try {
       const result = await JSONImporter.importFromFile(file);
-      setImportResult(result);
       
       if (result.success) {
-        // Reload the page or refresh data after successful import
-        window.location.reload();
+        // Imports can be undone from the trash panel
+        const saveResult = importEntries(result.entries);
+        if (!saveResult.success) {
+          setImportResult({
+            ...result,
+            success: false,
+            message: 'Imported entries could not be saved',
+            errors: [saveResult.error.message]
+          });
+          return;
+        }
       }
+      setImportResult(result);
     } catch {
       setImportResult({
         success: false,
@@ -776,27 +890,50 @@ export default function DataControlPage() {
     }
   };
 
-  // Cleanup function
+  // Reload whatever a restored quarantined record went back into
+  const handleRestored = (key: string) => {
+    if (key === STORAGE_CONFIG.KEYS.MOOD_ENTRIES) refreshMoodEntries();
+    if (key === STORAGE_CONFIG.KEYS.SETTINGS) refreshAppSettings();
+  };
+
+  const handleTrashRetentionChange = (days: number) => {
+    setAppSettings(prev => ({
+      ...prev,
+      dataRetention: { ...prev.dataRetention, trashDays: days }
+    }));
+  };
+
+  const handleRetentionChange = (period: RetentionPeriod) => {
+    setAppSettings(prev => ({
+      ...prev,
+      dataRetention: { ...prev.dataRetention, moodEntriesDays: RETENTION_DAYS[period] }
+    }));
+  };
+
+  // Cleanup function; old entries go to the trash and can be restored or undone
   const handleCleanup = () => {
-    const cutoffDate = retentionPeriod === 'forever' 
-      ? null 
-      : subDays(new Date(), parseInt(retentionPeriod.replace(/\D/g, '')) * (retentionPeriod.includes('y') ? 365 : 1));
-    
-    const filteredEntries = cutoffDate 
-      ? moodEntries.filter(entry => new Date(entry.timestamp) >= cutoffDate)
-      : moodEntries;
-    
-    setMoodEntries(filteredEntries);
+    if (retentionPeriod === 'forever') return;
+
+    const cutoffDate = subDays(new Date(), RETENTION_DAYS[retentionPeriod]);
+    const expiredIds = moodEntries
+      .filter(entry => new Date(entry.timestamp) < cutoffDate)
+      .map(entry => entry.id);
+
+    const result = deleteEntries(expiredIds);
+    if (!result.success) {
+      console.error('Error cleaning up old entries:', result.error);
+    }
   };
 
   // Delete all function
   const handleDeleteAll = async () => {
     setIsDeleting(true);
     try {
-      setMoodEntries([]);
-      // Clear any other stored data
-      localStorage.removeItem('campusThrive_settings');
-      localStorage.removeItem('campusThrive_coachPreferences');
+      // Entries go to the trash; the entry hooks reload on their own
+      const result = StorageManager.clearAllData();
+      if (!result.success) {
+        console.error('Error deleting data:', result.error);
+      }
     } catch (error) {
       console.error('Error deleting data:', error);
     } finally {
@@ -852,10 +989,22 @@ export default function DataControlPage() {
         {/* Data Retention Settings */}
         <DataRetentionSettings
           retentionPeriod={retentionPeriod}
-          onRetentionChange={setRetentionPeriod}
+          onRetentionChange={handleRetentionChange}
           onCleanup={handleCleanup}
         />
 
+        {/* Trash and Undo */}
+        <TrashBin
+          retentionDays={appSettings.dataRetention.trashDays ?? STORAGE_CONFIG.TRASH_RETENTION_DAYS}
+          onRetentionChange={handleTrashRetentionChange}
+        />
+
+        {/* Quarantined Records */}
+        <QuarantineReview onRestored={handleRestored} />
+
+        {/* Migration History */}
+        <MigrationHistory />
+
         {/* Complete Data Deletion */}
         <DataDeletion
           onDeleteAll={handleDeleteAll}
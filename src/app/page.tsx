@@ -5,9 +5,16 @@ import { Layout, PageContainer, Section } from "@/components/Layout";
 import { DailyCheckin } from "@/components/DailyCheckin";
 import { ScoresDisplay } from "@/components/ScoresDisplay";
 import { CoachTips } from "@/components/CoachTips";
+import { AnomalyAlerts } from "@/components/AnomalyAlerts";
+import { Goals } from "@/components/Goals";
 import { DemoMode } from "@/components/DemoMode";
-import { useMoodEntries } from '@/hooks/useLocalStorage';
-import { MoodEntry } from '@/types';
+import { EntryEditor } from "@/components/EntryEditor";
+import { useMoodEntries, useScoringProfiles, useScoreCache, useDailySummaries, useStreakReport, useAnomalies } from '@/hooks/useLocalStorage';
+import type { StreakReport } from '@/lib/streaks';
+import { MoodEntry, ComputedScores, DailySummary } from '@/types';
+import { averageScores, getDayKey } from '@/lib/scoring';
+import { getDayDate } from '@/lib/daily';
+import { getActiveAnomalies } from '@/lib/anomalies';
 import { 
   Calendar,
   Target,
@@ -18,9 +25,10 @@ import {
   Plus,
   Activity,
   ArrowRight,
-  Loader2
+  Loader2,
+  Pencil
 } from 'lucide-react';
-import { format, isToday, isYesterday, differenceInDays, startOfDay } from 'date-fns';
+import { format, isToday, isYesterday, differenceInDays } from 'date-fns';
 
 /**
  * Dashboard statistics interface
@@ -38,8 +46,15 @@ interface DashboardStats {
 /**
  * Recent entry preview component
  */
-function RecentEntriesPreview({ entries }: { entries: MoodEntry[] }) {
+function RecentEntriesPreview({
+  entries,
+  scoresById
+}: {
+  entries: MoodEntry[];
+  scoresById: Map<string, ComputedScores>;
+}) {
   const recentEntries = entries.slice(-5).reverse();
+  const [editingId, setEditingId] = useState<string | null>(null);
 
   if (recentEntries.length === 0) {
     return (
@@ -78,13 +93,13 @@ function RecentEntriesPreview({ entries }: { entries: MoodEntry[] }) {
             dateLabel = format(entryDate, 'MMM dd');
           }
 
-          const mc = (entry.valence + entry.energy + entry.focus + (5 - entry.stress)) / 4;
+          const mc = scoresById.get(entry.id)?.MC ?? 0;
 
           return (
             <div key={entry.id} className="flex items-center justify-between p-3 bg-muted/80 backdrop-blur-sm rounded-lg border border-border/50">
               <div className="flex items-center gap-3">
                 <div className={`w-2 h-2 rounded-full ${
-                  mc >= 4 ? 'bg-green-500' : mc >= 3 ? 'bg-yellow-500' : 'bg-red-500'
+                  mc >= 0.5 ? 'bg-green-500' : mc >= -0.5 ? 'bg-yellow-500' : 'bg-red-500'
                 }`} />
                 <div>
                   <div className="font-medium text-foreground">{dateLabel}</div>
@@ -94,18 +109,29 @@ function RecentEntriesPreview({ entries }: { entries: MoodEntry[] }) {
                   </div>
                 </div>
               </div>
-              <div className="text-right">
-                <div className="text-sm font-medium text-foreground">
-                  MC: {mc.toFixed(1)}
-                </div>
-                <div className="text-xs text-muted-foreground">
-                  {format(entryDate, 'h:mm a')}
+              <div className="flex items-center gap-3">
+                <div className="text-right">
+                  <div className="text-sm font-medium text-foreground">
+                    MC: {mc.toFixed(1)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {format(entryDate, 'h:mm a')}
+                  </div>
                 </div>
+                <button
+                  onClick={() => setEditingId(entry.id)}
+                  aria-label="Edit entry"
+                  title="Edit entry"
+                  className="p-1.5 rounded-md text-muted-foreground hover:text-foreground hover:bg-background transition-colors"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
               </div>
             </div>
           );
         })}
       </div>
+      {editingId && <EntryEditor entryId={editingId} onClose={() => setEditingId(null)} />}
         </div>
   );
 }
@@ -226,7 +252,13 @@ function WelcomeMessage({ stats }: { stats: DashboardStats }) {
 /**
  * Dashboard statistics calculator
  */
-function calculateDashboardStats(entries: MoodEntry[]): DashboardStats {
+function calculateDashboardStats(
+  entries: MoodEntry[],
+  scoresById: Map<string, ComputedScores>,
+  summaries: DailySummary[],
+  dayStartHour: number,
+  streakReport: StreakReport
+): DashboardStats {
   if (entries.length === 0) {
     return {
       streak: 0,
@@ -245,46 +277,14 @@ function calculateDashboardStats(entries: MoodEntry[]): DashboardStats {
   );
 
   const lastEntryDate = new Date(sortedEntries[0]?.timestamp || '');
-  const hasEntryToday = isToday(lastEntryDate);
-
-  // Calculate streak
-  let streak = 0;
   const today = new Date();
-  let currentDate = startOfDay(today);
-  
-  for (const entry of sortedEntries) {
-    const entryDate = startOfDay(new Date(entry.timestamp));
-    if (entryDate.getTime() === currentDate.getTime()) {
-      streak++;
-      currentDate = new Date(currentDate.getTime() - 24 * 60 * 60 * 1000);
-    } else if (entryDate.getTime() < currentDate.getTime()) {
-      break;
-    }
-  }
+  const hasEntryToday = summaries[summaries.length - 1]?.date === getDayKey(today, dayStartHour);
 
-  // Calculate averages
-  const mcValues = entries.map(entry => 
-    (entry.valence + entry.energy + entry.focus + (5 - entry.stress)) / 4
-  );
-  const averageMC = mcValues.reduce((sum, mc) => sum + mc, 0) / mcValues.length;
-
-  const dssValues = entries.map(entry => {
-    const deepworkMinutes = entry.deepworkMinutes || 0;
-    const tasksCompleted = entry.tasksCompleted || 0;
-    const sleepHours = entry.sleepHours || 0;
-    const recoveryAction = entry.recoveryAction ? 1 : 0;
-    const socialTouchpoints = entry.socialTouchpoints || 0;
-    
-    const deepworkScore = Math.min(1, deepworkMinutes / 180);
-    const tasksScore = Math.min(1, tasksCompleted / 10);
-    const sleepScore = Math.min(1, sleepHours / 8);
-    const recoveryScore = recoveryAction;
-    const socialScore = Math.min(1, socialTouchpoints / 5);
-    
-    return (deepworkScore * 0.3) + (tasksScore * 0.3) + (sleepScore * 0.2) + 
-           (recoveryScore * 0.1) + (socialScore * 0.1);
-  });
-  const averageDSS = dssValues.reduce((sum, dss) => sum + dss, 0) / dssValues.length;
+  // Streak over logical days, with grace and partial days
+  const streak = streakReport.currentStreak;
+
+  // Calculate averages of the canonical scores
+  const { MC: averageMC, DSS: averageDSS } = averageScores(Array.from(scoresById.values()));
 
   // Calculate weekly entries
   const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000);
@@ -307,7 +307,19 @@ function calculateDashboardStats(entries: MoodEntry[]): DashboardStats {
  * Main Dashboard component
  */
 export default function Dashboard() {
-  const { value: moodEntries } = useMoodEntries();
+  const { value: moodEntries, loading: entriesLoading } = useMoodEntries();
+  const { activeProfile, loading: profilesLoading } = useScoringProfiles();
+  const scoresById = useScoreCache(moodEntries, activeProfile, !entriesLoading && !profilesLoading);
+  const { summaries, dayStartHour } = useDailySummaries(moodEntries, activeProfile, !entriesLoading && !profilesLoading);
+  const streakReport = useStreakReport(summaries, dayStartHour);
+  const { anomalies, dismissAnomaly } = useAnomalies(
+    moodEntries,
+    scoresById,
+    summaries,
+    dayStartHour,
+    !entriesLoading && !profilesLoading
+  );
+  const activeAnomalies = useMemo(() => getActiveAnomalies(anomalies, dayStartHour), [anomalies, dayStartHour]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDataLoading, setIsDataLoading] = useState(false);
   const [showGetStarted, setShowGetStarted] = useState(false);
@@ -315,7 +327,10 @@ export default function Dashboard() {
   const [justCompletedCheckin, setJustCompletedCheckin] = useState(false);
 
   // Calculate dashboard statistics
-  const stats = useMemo(() => calculateDashboardStats(moodEntries), [moodEntries]);
+  const stats = useMemo(
+    () => calculateDashboardStats(moodEntries, scoresById, summaries, dayStartHour, streakReport),
+    [moodEntries, scoresById, summaries, dayStartHour, streakReport]
+  );
 
   // Simulate loading delay
   useEffect(() => {
@@ -430,6 +445,18 @@ export default function Dashboard() {
             <ScoresDisplay isDataLoading={isDataLoading} />
         </Section>
 
+        {/* Weekly Goals */}
+        <Section title="Weekly Goals" description="Targets you set for this week and how past weeks went">
+          <Goals />
+        </Section>
+
+        {/* Unusual Days */}
+        {activeAnomalies.length > 0 && (
+          <Section title="Unusual Days" description="Check-ins and patterns that stand out from your usual">
+            <AnomalyAlerts anomalies={activeAnomalies} onDismiss={dismissAnomaly} />
+          </Section>
+        )}
+
         {/* Coach Tips */}
         <Section title="Personalized Coaching" description="Get actionable tips based on your data">
           <CoachTips />
@@ -437,7 +464,7 @@ export default function Dashboard() {
 
         {/* Recent Entries & Quick Actions */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          <RecentEntriesPreview entries={moodEntries} />
+          <RecentEntriesPreview entries={moodEntries} scoresById={scoresById} />
           
           <div className="space-y-6">
             <div>
@@ -466,6 +493,32 @@ export default function Dashboard() {
                   <div className="text-sm text-muted-foreground">Avg MC</div>
                 </div>
               </div>
+
+              {/* Streak history */}
+              {streakReport.history.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-border space-y-2">
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>Longest streak: {streakReport.longestStreak} days</span>
+                    {streakReport.graceDaysRemaining > 0 && (
+                      <span>{streakReport.graceDaysRemaining} grace days left this week</span>
+                    )}
+                  </div>
+                  <ul className="space-y-1">
+                    {streakReport.history.slice(-3).reverse().map(period => (
+                      <li key={period.startDate} className="flex items-center justify-between text-xs">
+                        <span className="text-foreground">
+                          {format(getDayDate(period.startDate), 'MMM d')} – {format(getDayDate(period.endDate), 'MMM d')}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {period.length} days
+                          {period.graceDays.length > 0 && ` · ${period.graceDays.length} grace`}
+                          {period.partialDays.length > 0 && ` · ${period.partialDays.length} partial`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -4,8 +4,25 @@ import { useState, useEffect, useMemo } from 'react';
 import { Layout, PageContainer, Section } from "@/components/Layout";
 import { DriversTable } from "@/components/DriversTable";
 import { PowerHours } from "@/components/PowerHours";
-import { useMoodEntries } from "@/hooks/useLocalStorage";
+import { PhaseComparison, getPhaseFilterLabel } from "@/components/PhaseComparison";
+import {
+  useMoodEntries,
+  useScoringProfiles,
+  useScoreCache,
+  useDailySummaries,
+  useAppSettings
+} from "@/hooks/useLocalStorage";
 import { TestDataGenerator } from "@/lib/storage";
+import {
+  calculateTagCooccurrence,
+  analyzeTagInteractions,
+  regressOnTags,
+  type TagCooccurrence,
+  type TagInteraction,
+  type TagRegression
+} from "@/lib/drivers";
+import { getDayKey } from "@/lib/scoring";
+import { DEFAULT_ACADEMIC_CALENDAR, matchesPhaseFilter, type PhaseFilter } from "@/lib/phases";
 import { 
   Grid3X3, 
   Brain, 
@@ -23,10 +40,11 @@ import {
   BarChart3,
   AlertCircle,
   CheckCircle,
-  Info
+  Info,
+  Network
 } from "lucide-react";
 import { format, subDays } from 'date-fns';
-import { MoodEntry } from '@/types';
+import { MoodEntry, ComputedScores, AcademicPhase } from '@/types';
 
 /**
  * Date range filter options
@@ -87,12 +105,24 @@ interface TagUsageAnalysis {
   impact: number;
 }
 
+/**
+ * Tag combination analysis: co-occurrence, interactions and partial effects
+ */
+interface TagCombinationAnalysis {
+  cooccurrence: TagCooccurrence;
+  interactions: TagInteraction[];
+  regression: TagRegression | null;
+}
+
 /**
  * Filter controls component
  */
 function FilterControls({ 
   dateRange, 
   onDateRangeChange,
+  phases,
+  phaseFilter,
+  onPhaseFilterChange,
   tagCategory,
   onTagCategoryChange,
   showDrivers,
@@ -102,6 +132,9 @@ function FilterControls({
 }: {
   dateRange: DateRange;
   onDateRangeChange: (range: DateRange) => void;
+  phases: AcademicPhase[];
+  phaseFilter: PhaseFilter;
+  onPhaseFilterChange: (phase: PhaseFilter) => void;
   tagCategory: TagCategory;
   onTagCategoryChange: (category: TagCategory) => void;
   showDrivers: boolean;
@@ -116,6 +149,12 @@ function FilterControls({
     { key: 'all' as DateRange, label: 'All Time', description: 'Complete history' }
   ];
 
+  const phaseFilters: PhaseFilter[] = [
+    'all',
+    ...Array.from(new Set(phases.map(phase => phase.type))),
+    'none'
+  ];
+
   const tagCategories = [
     { key: 'all' as TagCategory, label: 'All Tags', icon: Grid3X3 },
     { key: 'academic' as TagCategory, label: 'Academic', icon: Brain },
@@ -132,7 +171,7 @@ function FilterControls({
         <h3 className="text-lg font-semibold text-foreground">Filter & View Options</h3>
       </div>
       
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className={`grid grid-cols-1 gap-6 ${phases.length > 0 ? 'md:grid-cols-2 xl:grid-cols-4' : 'md:grid-cols-3'}`}>
         {/* Date Range Filter */}
         <div className="space-y-3">
           <h4 className="font-medium text-foreground">Date Range</h4>
@@ -153,6 +192,28 @@ function FilterControls({
           </div>
         </div>
 
+        {/* Semester Phase Filter */}
+        {phases.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="font-medium text-foreground">Semester Phase</h4>
+            <div className="flex flex-wrap gap-2">
+              {phaseFilters.map((phase) => (
+                <button
+                  key={phase}
+                  onClick={() => onPhaseFilterChange(phase)}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    phaseFilter === phase
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-muted text-muted-foreground hover:bg-muted/80'
+                  }`}
+                >
+                  {getPhaseFilterLabel(phase)}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Tag Category Filter */}
         <div className="space-y-3">
           <h4 className="font-medium text-foreground">Tag Category</h4>
@@ -271,6 +332,160 @@ function TagUsageAnalysis({
   );
 }
 
+/**
+ * Tag combinations panel component
+ */
+function TagCombinations({ 
+  analysis, 
+  isLoading 
+}: { 
+  analysis: TagCombinationAnalysis;
+  isLoading: boolean;
+}) {
+  if (isLoading) {
+    return (
+      <div className="card p-6">
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      </div>
+    );
+  }
+
+  const { cooccurrence, interactions, regression } = analysis;
+
+  if (cooccurrence.tags.length < 2) {
+    return (
+      <div className="card p-6 text-center">
+        <Network className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <h3 className="text-lg font-semibold text-foreground mb-2">Not enough tags yet</h3>
+        <p className="text-muted-foreground">
+          Use at least two different tags to see how they combine.
+        </p>
+      </div>
+    );
+  }
+
+  const maxCount = Math.max(1, ...cooccurrence.counts.flatMap((row, i) => row.filter((_, j) => j !== i)));
+  const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+  return (
+    <div className="card p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <Network className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold text-foreground">Tag Combinations</h3>
+      </div>
+
+      {/* Co-occurrence matrix */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-foreground">Logged together</h4>
+        <div className="overflow-x-auto">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th />
+                {cooccurrence.tags.map(tag => (
+                  <th key={tag} className="px-2 py-1 font-medium text-muted-foreground">{tag}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {cooccurrence.tags.map((rowTag, i) => (
+                <tr key={rowTag}>
+                  <th className="px-2 py-1 text-left font-medium text-muted-foreground">{rowTag}</th>
+                  {cooccurrence.counts[i]!.map((count, j) => (
+                    <td
+                      key={cooccurrence.tags[j]}
+                      className={`px-2 py-1 text-center ${i === j ? 'text-muted-foreground' : 'text-foreground'}`}
+                      style={i === j ? undefined : { backgroundColor: `rgba(59, 130, 246, ${(count / maxCount) * 0.5})` }}
+                    >
+                      {count}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground">Diagonal shows how often each tag was used.</p>
+      </div>
+
+      {/* Pairwise interactions */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-foreground">Interactions (average MC)</h4>
+        {interactions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No pair has been logged together, apart and not at all often enough to compare.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {interactions.slice(0, 5).map(interaction => (
+              <div key={`${interaction.tagA}+${interaction.tagB}`} className="p-3 bg-background-alt rounded-lg text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-foreground">
+                    {interaction.tagA} + {interaction.tagB}
+                  </span>
+                  <span className={interaction.interactionMC >= 0 ? 'text-green-600' : 'text-red-600'}>
+                    {formatSigned(interaction.interactionMC)} interaction
+                  </span>
+                </div>
+                <div className="grid grid-cols-4 gap-2 mt-2 text-xs text-muted-foreground">
+                  <span>Both: {formatSigned(interaction.both.MC)} ({interaction.both.count})</span>
+                  <span>{interaction.tagA} only: {formatSigned(interaction.aOnly.MC)} ({interaction.aOnly.count})</span>
+                  <span>{interaction.tagB} only: {formatSigned(interaction.bOnly.MC)} ({interaction.bOnly.count})</span>
+                  <span>Neither: {formatSigned(interaction.neither.MC)} ({interaction.neither.count})</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Partial effects */}
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-foreground">Effect of each tag, others held fixed</h4>
+        {!regression ? (
+          <p className="text-sm text-muted-foreground">
+            Need more check-ins than tags to separate their effects.
+          </p>
+        ) : (
+          <>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground">
+                  <th className="text-left py-1 font-medium">Tag</th>
+                  <th className="text-right py-1 font-medium">MC effect</th>
+                  <th className="text-right py-1 font-medium">DSS effect</th>
+                  <th className="text-right py-1 font-medium">Evidence</th>
+                </tr>
+              </thead>
+              <tbody>
+                {regression.effects.map(effect => (
+                  <tr key={effect.tag} className="border-t border-border">
+                    <td className="py-1 text-foreground">{effect.tag}</td>
+                    <td className="py-1 text-right text-foreground">
+                      {formatSigned(effect.mcEffect)} <span className="text-xs text-muted-foreground">±{effect.mcStandardError.toFixed(2)}</span>
+                    </td>
+                    <td className="py-1 text-right text-foreground">
+                      {formatSigned(effect.dssEffect)} <span className="text-xs text-muted-foreground">±{effect.dssStandardError.toFixed(2)}</span>
+                    </td>
+                    <td className={`py-1 text-right text-xs ${effect.isSignificant ? 'text-foreground' : 'text-muted-foreground'}`}>
+                      {effect.isSignificant ? 'Significant' : 'Not significant'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-muted-foreground">
+              Fitted on {regression.observations} check-ins · R² {regression.mcRSquared.toFixed(2)} (MC), {regression.dssRSquared.toFixed(2)} (DSS)
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
 /**
  * Best vs worst day comparison component
  */
@@ -613,21 +828,19 @@ function DataManagement({
 /**
  * Calculate tag usage analysis
  */
-function calculateTagUsageAnalysis(entries: MoodEntry[], dateRange: DateRange, tagCategory: TagCategory): TagUsageAnalysis[] {
-  const now = new Date();
-  let filteredEntries = entries;
-  
-  if (dateRange !== 'all') {
-    const days = dateRange === '7d' ? 7 : dateRange === '14d' ? 14 : 30;
-    const cutoffDate = subDays(now, days);
-    filteredEntries = entries.filter(entry => new Date(entry.timestamp) >= cutoffDate);
-  }
+function calculateTagUsageAnalysis(
+  entries: MoodEntry[],
+  scoresById: Map<string, ComputedScores>,
+  dateRange: DateRange,
+  tagCategory: TagCategory
+): TagUsageAnalysis[] {
+  const filteredEntries = filterEntriesByRange(entries, dateRange);
 
   const tagMap = new Map<string, { count: number; mcSum: number; dssSum: number; entries: MoodEntry[] }>();
   
   filteredEntries.forEach(entry => {
-    const mc = (entry.valence + entry.energy + entry.focus + (5 - entry.stress)) / 4;
-    const dss = calculateDSS(entry);
+    const mc = scoresById.get(entry.id)?.MC ?? 0;
+    const dss = scoresById.get(entry.id)?.DSS ?? 0;
     
     entry.tags?.forEach(tag => {
       if (!tagMap.has(tag)) {
@@ -649,12 +862,12 @@ function calculateTagUsageAnalysis(entries: MoodEntry[], dateRange: DateRange, t
       // Calculate trend (simplified)
       const recentEntries = data.entries.slice(-3);
       const olderEntries = data.entries.slice(0, -3);
-      const recentAvg = recentEntries.reduce((sum, e) => sum + ((e.valence + e.energy + e.focus + (5 - e.stress)) / 4), 0) / recentEntries.length;
-      const olderAvg = olderEntries.reduce((sum, e) => sum + ((e.valence + e.energy + e.focus + (5 - e.stress)) / 4), 0) / olderEntries.length;
+      const recentAvg = recentEntries.reduce((sum, e) => sum + (scoresById.get(e.id)?.MC ?? 0), 0) / recentEntries.length;
+      const olderAvg = olderEntries.reduce((sum, e) => sum + (scoresById.get(e.id)?.MC ?? 0), 0) / olderEntries.length;
       const trend: 'up' | 'down' | 'stable' = recentAvg > olderAvg + 0.2 ? 'up' : recentAvg < olderAvg - 0.2 ? 'down' : 'stable';
       
-      // Calculate impact (simplified)
-      const impact = avgMC - 3.0; // Baseline of 3.0
+      // Impact relative to the personal baseline (canonical MC is 0 at baseline)
+      const impact = avgMC;
       
       return {
         tag,
@@ -672,6 +885,42 @@ function calculateTagUsageAnalysis(entries: MoodEntry[], dateRange: DateRange, t
   return tagUsage;
 }
 
+/**
+ * Keep entries inside the selected date range
+ */
+function filterEntriesByRange(entries: MoodEntry[], dateRange: DateRange): MoodEntry[] {
+  if (dateRange === 'all') {
+    return entries;
+  }
+
+  const days = dateRange === '7d' ? 7 : dateRange === '14d' ? 14 : 30;
+  const cutoffDate = subDays(new Date(), days);
+  return entries.filter(entry => new Date(entry.timestamp) >= cutoffDate);
+}
+
+/**
+ * Calculate tag combinations for the most used tags in the current filters
+ */
+function calculateTagCombinationAnalysis(
+  entries: MoodEntry[],
+  scoresById: Map<string, ComputedScores>,
+  dateRange: DateRange,
+  tagUsage: TagUsageAnalysis[]
+): TagCombinationAnalysis {
+  const tags = tagUsage.slice(0, 6).map(usage => usage.tag);
+  const observations = filterEntriesByRange(entries, dateRange).map(entry => ({
+    tags: entry.tags ?? [],
+    MC: scoresById.get(entry.id)?.MC ?? 0,
+    DSS: scoresById.get(entry.id)?.DSS ?? 0
+  }));
+
+  return {
+    cooccurrence: calculateTagCooccurrence(observations, tags),
+    interactions: analyzeTagInteractions(observations, tags),
+    regression: regressOnTags(observations, tags)
+  };
+}
+
 /**
  * Categorize tags
  */
@@ -693,35 +942,15 @@ function categorizeTag(tag: string): TagCategory {
   return 'lifestyle';
 }
 
-/**
- * Calculate DSS score
- */
-function calculateDSS(entry: MoodEntry): number {
-  const deepworkMinutes = entry.deepworkMinutes || 0;
-  const tasksCompleted = entry.tasksCompleted || 0;
-  const sleepHours = entry.sleepHours || 0;
-  const recoveryAction = entry.recoveryAction ? 1 : 0;
-  const socialTouchpoints = entry.socialTouchpoints || 0;
-  
-  const deepworkScore = Math.min(1, deepworkMinutes / 180);
-  const tasksScore = Math.min(1, tasksCompleted / 10);
-  const sleepScore = Math.min(1, sleepHours / 8);
-  const recoveryScore = recoveryAction;
-  const socialScore = Math.min(1, socialTouchpoints / 5);
-  
-  return (deepworkScore * 0.3) + (tasksScore * 0.3) + (sleepScore * 0.2) + 
-         (recoveryScore * 0.1) + (socialScore * 0.1);
-}
-
 /**
  * Calculate day comparison
  */
-function calculateDayComparison(entries: MoodEntry[]): DayComparison | null {
+function calculateDayComparison(entries: MoodEntry[], scoresById: Map<string, ComputedScores>): DayComparison | null {
   if (entries.length < 2) return null;
 
   const entriesWithScores = entries.map(entry => {
-    const mc = (entry.valence + entry.energy + entry.focus + (5 - entry.stress)) / 4;
-    const dss = calculateDSS(entry);
+    const mc = scoresById.get(entry.id)?.MC ?? 0;
+    const dss = scoresById.get(entry.id)?.DSS ?? 0;
     return { ...entry, mc, dss };
   });
 
@@ -758,7 +987,11 @@ function calculateDayComparison(entries: MoodEntry[]): DayComparison | null {
 /**
  * Generate pattern insights
  */
-function generatePatternInsights(entries: MoodEntry[], tagUsage: TagUsageAnalysis[]): PatternInsight[] {
+function generatePatternInsights(
+  entries: MoodEntry[],
+  scoresById: Map<string, ComputedScores>,
+  tagUsage: TagUsageAnalysis[]
+): PatternInsight[] {
   const insights: PatternInsight[] = [];
   
   if (entries.length < 5) return insights;
@@ -791,7 +1024,7 @@ function generatePatternInsights(entries: MoodEntry[], tagUsage: TagUsageAnalysi
   }
   
   // Consistency insight
-  const mcValues = entries.map(e => (e.valence + e.energy + e.focus + (5 - e.stress)) / 4);
+  const mcValues = entries.map(e => scoresById.get(e.id)?.MC ?? 0);
   const mcVariance = mcValues.reduce((sum, mc) => sum + Math.pow(mc - (mcValues.reduce((a, b) => a + b, 0) / mcValues.length), 2), 0) / mcValues.length;
   
   if (mcVariance < 0.5) {
@@ -821,28 +1054,49 @@ function generatePatternInsights(entries: MoodEntry[], tagUsage: TagUsageAnalysi
  * Main PatternsPage component
  */
 export default function PatternsPage() {
-  const { value: moodEntries, setValue: setMoodEntries } = useMoodEntries();
+  const { value: moodEntries, setValue: setMoodEntries, loading: entriesLoading } = useMoodEntries();
+  const { activeProfile, loading: profilesLoading } = useScoringProfiles();
+  const { value: appSettings } = useAppSettings();
   const [dateRange, setDateRange] = useState<DateRange>('14d');
+  const [phaseFilter, setPhaseFilter] = useState<PhaseFilter>('all');
   const [tagCategory, setTagCategory] = useState<TagCategory>('all');
   const [showDrivers, setShowDrivers] = useState(true);
   const [showPowerHours, setShowPowerHours] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Canonical scores shared by every analysis on this page
+  const scoresById = useScoreCache(moodEntries, activeProfile, !entriesLoading && !profilesLoading);
+  const { summaries, dayStartHour } = useDailySummaries(moodEntries, activeProfile, !entriesLoading && !profilesLoading);
+  const calendar = appSettings.academicCalendar ?? DEFAULT_ACADEMIC_CALENDAR;
+
+  // Entries logged in the selected semester phase
+  const phaseEntries = useMemo(() =>
+    moodEntries.filter(entry =>
+      matchesPhaseFilter(calendar.phases, getDayKey(entry.timestamp, dayStartHour), phaseFilter)
+    ),
+    [moodEntries, calendar.phases, dayStartHour, phaseFilter]
+  );
+
   // Calculate analyses
   const tagUsage = useMemo(() => 
-    calculateTagUsageAnalysis(moodEntries, dateRange, tagCategory),
-    [moodEntries, dateRange, tagCategory]
+    calculateTagUsageAnalysis(phaseEntries, scoresById, dateRange, tagCategory),
+    [phaseEntries, scoresById, dateRange, tagCategory]
+  );
+
+  const tagCombinations = useMemo(() => 
+    calculateTagCombinationAnalysis(phaseEntries, scoresById, dateRange, tagUsage),
+    [phaseEntries, scoresById, dateRange, tagUsage]
   );
 
   const dayComparison = useMemo(() => 
-    calculateDayComparison(moodEntries),
-    [moodEntries]
+    calculateDayComparison(phaseEntries, scoresById),
+    [phaseEntries, scoresById]
   );
 
   const patternInsights = useMemo(() => 
-    generatePatternInsights(moodEntries, tagUsage),
-    [moodEntries, tagUsage]
+    generatePatternInsights(phaseEntries, scoresById, tagUsage),
+    [phaseEntries, scoresById, tagUsage]
   );
 
   // Handle data generation
@@ -922,6 +1176,9 @@ export default function PatternsPage() {
         <FilterControls
           dateRange={dateRange}
           onDateRangeChange={setDateRange}
+          phases={calendar.phases}
+          phaseFilter={phaseFilter}
+          onPhaseFilterChange={setPhaseFilter}
           tagCategory={tagCategory}
           onTagCategoryChange={setTagCategory}
           showDrivers={showDrivers}
@@ -956,6 +1213,17 @@ export default function PatternsPage() {
               <DayComparison comparison={dayComparison} isLoading={isLoading} />
             </div>
 
+            {/* Tag Combinations */}
+            <TagCombinations analysis={tagCombinations} isLoading={isLoading} />
+
+            {/* Per-phase Comparison */}
+            <PhaseComparison
+              summaries={summaries}
+              phases={calendar.phases}
+              selected={phaseFilter}
+              samePhaseBaselines={calendar.samePhaseBaselines}
+            />
+
             {/* Drivers Analysis */}
             {showDrivers && (
               <Section title="Activity Drivers" description="Discover which activities help or hurt your daily success">
@@ -0,0 +1,19 @@
+'use client';
+
+import { Layout, PageContainer, Section } from "@/components/Layout";
+import { StudyPlanner } from "@/components/StudyPlanner";
+
+export default function SchedulePage() {
+  return (
+    <Layout>
+      <PageContainer>
+        <Section
+          title="Study Plan"
+          description="Turn your Power Hours into a weekly plan for deep work and recovery"
+        >
+          <StudyPlanner />
+        </Section>
+      </PageContainer>
+    </Layout>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { Layout, PageContainer, Section } from "@/components/Layout";
+import { ScoringProfiles } from "@/components/ScoringProfiles";
+import { DayBoundarySetting } from "@/components/DayBoundarySetting";
+import { StreakSettings } from "@/components/StreakSettings";
+import { SleepSettings } from "@/components/SleepSettings";
+import { AcademicCalendarSettings } from "@/components/AcademicCalendarSettings";
+
+export default function SettingsPage() {
+  return (
+    <Layout>
+      <PageContainer>
+        <Section
+          title="Settings"
+          description="Tune how your Mood Composite and Daily Success Score are weighted, when your day starts, and your streak, sleep and semester phase settings"
+        >
+          <div className="space-y-6">
+            <ScoringProfiles />
+            <DayBoundarySetting />
+            <StreakSettings />
+            <SleepSettings />
+            <AcademicCalendarSettings />
+          </div>
+        </Section>
+      </PageContainer>
+    </Layout>
+  );
+}
@@ -4,8 +4,14 @@ import { useState, useEffect, useMemo } from 'react';
 import { Layout, PageContainer, Section } from "@/components/Layout";
 import { TrendsChart } from "@/components/TrendsChart";
 import { SuccessCompass } from "@/components/SuccessCompass";
-import { useMoodEntries } from "@/hooks/useLocalStorage";
+import { PhaseComparison, getPhaseFilterLabel } from "@/components/PhaseComparison";
+import { useMoodEntries, useScoringProfiles, useDailySummaries, useAppSettings } from "@/hooks/useLocalStorage";
 import { TestDataGenerator } from "@/lib/storage";
+import { averageScores } from "@/lib/scoring";
+import { getDayDate } from "@/lib/daily";
+import { analyzeMetricTrend, WEEKDAY_LABELS, type MetricTrend } from "@/lib/trends";
+import { DEFAULT_ACADEMIC_CALENDAR, matchesPhaseFilter, type PhaseFilter } from "@/lib/phases";
+import type { AcademicPhase, DailySummary } from "@/types";
 import { 
   BarChart3, 
   Download, 
@@ -23,7 +29,6 @@ import {
   Minus
 } from "lucide-react";
 import { format, subDays, startOfWeek, endOfWeek, isWithinInterval } from 'date-fns';
-import { MoodEntry } from '@/types';
 
 /**
  * Time period options
@@ -38,6 +43,9 @@ interface TrendInsights {
   dssTrend: 'up' | 'down' | 'stable';
   mcChange: number;
   dssChange: number;
+  /** Confidence (0-1) that each trend is real */
+  mcConfidence: number;
+  dssConfidence: number;
   bestDay: string;
   worstDay: string;
   consistency: 'high' | 'medium' | 'low';
@@ -108,6 +116,51 @@ function TimePeriodSelector({
   );
 }
 
+/**
+ * Phase filter component, shown once academic phases are defined
+ */
+function PhaseFilterSelector({
+  phases,
+  selectedPhase,
+  onPhaseChange
+}: {
+  phases: AcademicPhase[];
+  selectedPhase: PhaseFilter;
+  onPhaseChange: (phase: PhaseFilter) => void;
+}) {
+  const options: PhaseFilter[] = [
+    'all',
+    ...Array.from(new Set(phases.map(phase => phase.type))),
+    'none'
+  ];
+
+  return (
+    <div className="card p-4">
+      <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-foreground mb-1">Semester Phase</h3>
+          <p className="text-sm text-muted-foreground">Limit insights and comparisons to one kind of phase</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {options.map((phase) => (
+            <button
+              key={phase}
+              onClick={() => onPhaseChange(phase)}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                selectedPhase === phase
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-muted-foreground hover:bg-muted/80'
+              }`}
+            >
+              {getPhaseFilterLabel(phase)}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 /**
  * Trend insights component
  */
@@ -147,6 +200,9 @@ function TrendInsights({ insights }: { insights: TrendInsights }) {
                 <span className={`text-sm font-medium ${getTrendColor(insights.mcTrend)}`}>
                   {insights.mcChange > 0 ? '+' : ''}{insights.mcChange.toFixed(1)}
                 </span>
+                <span className="text-xs text-muted-foreground">
+                  {Math.round(insights.mcConfidence * 100)}% conf.
+                </span>
               </div>
             </div>
             <div className="flex items-center justify-between">
@@ -156,6 +212,9 @@ function TrendInsights({ insights }: { insights: TrendInsights }) {
                 <span className={`text-sm font-medium ${getTrendColor(insights.dssTrend)}`}>
                   {insights.dssChange > 0 ? '+' : ''}{insights.dssChange.toFixed(1)}
                 </span>
+                <span className="text-xs text-muted-foreground">
+                  {Math.round(insights.dssConfidence * 100)}% conf.
+                </span>
               </div>
             </div>
           </div>
@@ -337,16 +396,47 @@ function DataManagement({
   );
 }
 
+/**
+ * Describe a metric's trend, change points and weekly pattern
+ */
+function describeMetricTrend(trend: MetricTrend | null, label: string): string[] {
+  if (!trend) return [];
+  const patterns: string[] = [];
+  const confidence = (value: number) => `${Math.round(value * 100)}% confidence`;
+
+  if (trend.analysis.direction !== 'stable') {
+    patterns.push(
+      `${label} ${trend.analysis.direction === 'up' ? 'improved' : 'declined'} by ${Math.abs(trend.change).toFixed(1)} points over time (${confidence(trend.analysis.confidence)})`
+    );
+  }
+
+  trend.changePoints.forEach(point => {
+    patterns.push(
+      `${label} shifted ${point.shift > 0 ? 'up' : 'down'} by ${Math.abs(point.shift).toFixed(1)} starting ${format(getDayDate(point.date), 'MMM dd')} (${confidence(point.confidence)})`
+    );
+  });
+
+  if (trend.seasonality?.isSignificant) {
+    patterns.push(
+      `${label} runs highest on ${WEEKDAY_LABELS[trend.seasonality.peakDay]}s and lowest on ${WEEKDAY_LABELS[trend.seasonality.lowDay]}s`
+    );
+  }
+
+  return patterns;
+}
+
 /**
  * Calculate trend insights
  */
-function calculateTrendInsights(entries: MoodEntry[], timePeriod: TimePeriod): TrendInsights {
-  if (entries.length < 3) {
+function calculateTrendInsights(summaries: DailySummary[], timePeriod: TimePeriod): TrendInsights {
+  if (summaries.length < 3) {
     return {
       mcTrend: 'stable',
       dssTrend: 'stable',
       mcChange: 0,
       dssChange: 0,
+      mcConfidence: 0,
+      dssConfidence: 0,
       bestDay: 'N/A',
       worstDay: 'N/A',
       consistency: 'low',
@@ -354,24 +444,26 @@ function calculateTrendInsights(entries: MoodEntry[], timePeriod: TimePeriod): T
     };
   }
 
-  // Filter entries based on time period
+  // Filter days based on time period
   const now = new Date();
-  let filteredEntries = entries;
+  let filteredDays = summaries;
   
   if (timePeriod === '7d') {
     const weekAgo = subDays(now, 7);
-    filteredEntries = entries.filter(entry => new Date(entry.timestamp) >= weekAgo);
+    filteredDays = summaries.filter(day => getDayDate(day.date) >= weekAgo);
   } else if (timePeriod === '14d') {
     const twoWeeksAgo = subDays(now, 14);
-    filteredEntries = entries.filter(entry => new Date(entry.timestamp) >= twoWeeksAgo);
+    filteredDays = summaries.filter(day => getDayDate(day.date) >= twoWeeksAgo);
   }
 
-  if (filteredEntries.length < 3) {
+  if (filteredDays.length < 3) {
     return {
       mcTrend: 'stable',
       dssTrend: 'stable',
       mcChange: 0,
       dssChange: 0,
+      mcConfidence: 0,
+      dssConfidence: 0,
       bestDay: 'N/A',
       worstDay: 'N/A',
       consistency: 'low',
@@ -379,24 +471,18 @@ function calculateTrendInsights(entries: MoodEntry[], timePeriod: TimePeriod): T
     };
   }
 
-  // Calculate MC and DSS for each entry
-  const scores = filteredEntries.map(entry => {
-    const mc = (entry.valence + entry.energy + entry.focus + (5 - entry.stress)) / 4;
-    const dss = calculateDSS(entry);
-    return { mc, dss, date: new Date(entry.timestamp) };
-  }).sort((a, b) => a.date.getTime() - b.date.getTime());
+  // Daily MC and DSS (already oldest first)
+  const scores = filteredDays.map(day => ({
+    mc: day.scores.MC,
+    dss: day.scores.DSS,
+    date: getDayDate(day.date)
+  }));
 
-  // Calculate trends
-  const firstHalf = scores.slice(0, Math.floor(scores.length / 2));
-  const secondHalf = scores.slice(Math.floor(scores.length / 2));
-  
-  const firstHalfMC = firstHalf.reduce((sum, s) => sum + s.mc, 0) / firstHalf.length;
-  const secondHalfMC = secondHalf.reduce((sum, s) => sum + s.mc, 0) / secondHalf.length;
-  const mcChange = secondHalfMC - firstHalfMC;
-  
-  const firstHalfDSS = firstHalf.reduce((sum, s) => sum + s.dss, 0) / firstHalf.length;
-  const secondHalfDSS = secondHalf.reduce((sum, s) => sum + s.dss, 0) / secondHalf.length;
-  const dssChange = secondHalfDSS - firstHalfDSS;
+  // Fitted trends, change points and weekly patterns
+  const mcTrend = analyzeMetricTrend(filteredDays, 'MC');
+  const dssTrend = analyzeMetricTrend(filteredDays, 'DSS');
+  const mcChange = mcTrend?.change ?? 0;
+  const dssChange = dssTrend?.change ?? 0;
 
   // Find best and worst days
   const bestDay = scores.reduce((best, current) => current.mc > best.mc ? current : best);
@@ -409,13 +495,8 @@ function calculateTrendInsights(entries: MoodEntry[], timePeriod: TimePeriod): T
   // Generate patterns
   const patterns: string[] = [];
   
-  if (Math.abs(mcChange) > 0.5) {
-    patterns.push(`Mood ${mcChange > 0 ? 'improved' : 'declined'} by ${Math.abs(mcChange).toFixed(1)} points over time`);
-  }
-  
-  if (Math.abs(dssChange) > 0.1) {
-    patterns.push(`Productivity ${dssChange > 0 ? 'increased' : 'decreased'} by ${Math.abs(dssChange).toFixed(1)} points`);
-  }
+  patterns.push(...describeMetricTrend(mcTrend, 'Mood'));
+  patterns.push(...describeMetricTrend(dssTrend, 'Productivity'));
   
   if (consistency === 'high') {
     patterns.push('Very consistent mood patterns - great stability!');
@@ -424,10 +505,12 @@ function calculateTrendInsights(entries: MoodEntry[], timePeriod: TimePeriod): T
   }
 
   return {
-    mcTrend: mcChange > 0.2 ? 'up' : mcChange < -0.2 ? 'down' : 'stable',
-    dssTrend: dssChange > 0.05 ? 'up' : dssChange < -0.05 ? 'down' : 'stable',
+    mcTrend: mcTrend?.analysis.direction ?? 'stable',
+    dssTrend: dssTrend?.analysis.direction ?? 'stable',
     mcChange,
     dssChange,
+    mcConfidence: mcTrend?.analysis.confidence ?? 0,
+    dssConfidence: dssTrend?.analysis.confidence ?? 0,
     bestDay: format(bestDay.date, 'MMM dd'),
     worstDay: format(worstDay.date, 'MMM dd'),
     consistency,
@@ -435,58 +518,35 @@ function calculateTrendInsights(entries: MoodEntry[], timePeriod: TimePeriod): T
   };
 }
 
-/**
- * Calculate DSS score
- */
-function calculateDSS(entry: MoodEntry): number {
-  const deepworkMinutes = entry.deepworkMinutes || 0;
-  const tasksCompleted = entry.tasksCompleted || 0;
-  const sleepHours = entry.sleepHours || 0;
-  const recoveryAction = entry.recoveryAction ? 1 : 0;
-  const socialTouchpoints = entry.socialTouchpoints || 0;
-  
-  const deepworkScore = Math.min(1, deepworkMinutes / 180);
-  const tasksScore = Math.min(1, tasksCompleted / 10);
-  const sleepScore = Math.min(1, sleepHours / 8);
-  const recoveryScore = recoveryAction;
-  const socialScore = Math.min(1, socialTouchpoints / 5);
-  
-  return (deepworkScore * 0.3) + (tasksScore * 0.3) + (sleepScore * 0.2) + 
-         (recoveryScore * 0.1) + (socialScore * 0.1);
-}
-
 /**
  * Calculate comparison metrics
  */
-function calculateComparisonMetrics(entries: MoodEntry[]): ComparisonMetrics {
+function calculateComparisonMetrics(summaries: DailySummary[]): ComparisonMetrics {
   const now = new Date();
   const thisWeekStart = startOfWeek(now, { weekStartsOn: 1 });
   const thisWeekEnd = endOfWeek(now, { weekStartsOn: 1 });
   const lastWeekStart = startOfWeek(subDays(now, 7), { weekStartsOn: 1 });
   const lastWeekEnd = endOfWeek(subDays(now, 7), { weekStartsOn: 1 });
 
-  const thisWeekEntries = entries.filter(entry => 
-    isWithinInterval(new Date(entry.timestamp), { start: thisWeekStart, end: thisWeekEnd })
+  const thisWeekDays = summaries.filter(day => 
+    isWithinInterval(getDayDate(day.date), { start: thisWeekStart, end: thisWeekEnd })
   );
   
-  const lastWeekEntries = entries.filter(entry => 
-    isWithinInterval(new Date(entry.timestamp), { start: lastWeekStart, end: lastWeekEnd })
+  const lastWeekDays = summaries.filter(day => 
+    isWithinInterval(getDayDate(day.date), { start: lastWeekStart, end: lastWeekEnd })
   );
 
-  const calculateWeekMetrics = (weekEntries: MoodEntry[]) => {
-    if (weekEntries.length === 0) return { mc: 0, dss: 0, entries: 0 };
+  const calculateWeekMetrics = (weekDays: DailySummary[]) => {
+    if (weekDays.length === 0) return { mc: 0, dss: 0, entries: 0 };
     
-    const mc = weekEntries.reduce((sum, entry) => 
-      sum + (entry.valence + entry.energy + entry.focus + (5 - entry.stress)) / 4, 0
-    ) / weekEntries.length;
+    const { MC, DSS } = averageScores(weekDays.map(day => day.scores));
+    const entries = weekDays.reduce((sum, day) => sum + day.entryIds.length, 0);
     
-    const dss = weekEntries.reduce((sum, entry) => sum + calculateDSS(entry), 0) / weekEntries.length;
-    
-    return { mc, dss, entries: weekEntries.length };
+    return { mc: MC, dss: DSS, entries };
   };
 
-  const thisWeek = calculateWeekMetrics(thisWeekEntries);
-  const lastWeek = calculateWeekMetrics(lastWeekEntries);
+  const thisWeek = calculateWeekMetrics(thisWeekDays);
+  const lastWeek = calculateWeekMetrics(lastWeekDays);
 
   return {
     thisWeek,
@@ -503,20 +563,33 @@ function calculateComparisonMetrics(entries: MoodEntry[]): ComparisonMetrics {
  * Main TrendsPage component
  */
 export default function TrendsPage() {
-  const { value: moodEntries, setValue: setMoodEntries } = useMoodEntries();
+  const { value: moodEntries, setValue: setMoodEntries, loading: entriesLoading } = useMoodEntries();
+  const { activeProfile, loading: profilesLoading } = useScoringProfiles();
+  const { value: appSettings } = useAppSettings();
   const [selectedPeriod, setSelectedPeriod] = useState<TimePeriod>('14d');
+  const [selectedPhase, setSelectedPhase] = useState<PhaseFilter>('all');
   const [isGenerating, setIsGenerating] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Daily summaries shared by insights and comparisons
+  const { summaries } = useDailySummaries(moodEntries, activeProfile, !entriesLoading && !profilesLoading);
+  const calendar = appSettings.academicCalendar ?? DEFAULT_ACADEMIC_CALENDAR;
+
+  // Days in the selected semester phase
+  const phaseSummaries = useMemo(() =>
+    summaries.filter(day => matchesPhaseFilter(calendar.phases, day.date, selectedPhase)),
+    [summaries, calendar.phases, selectedPhase]
+  );
+
   // Calculate insights and metrics
   const insights = useMemo(() => 
-    calculateTrendInsights(moodEntries, selectedPeriod), 
-    [moodEntries, selectedPeriod]
+    calculateTrendInsights(phaseSummaries, selectedPeriod), 
+    [phaseSummaries, selectedPeriod]
   );
 
   const comparisonMetrics = useMemo(() => 
-    calculateComparisonMetrics(moodEntries), 
-    [moodEntries]
+    calculateComparisonMetrics(phaseSummaries), 
+    [phaseSummaries]
   );
 
   // Handle data generation
@@ -545,9 +618,7 @@ export default function TrendsPage() {
   }, [moodEntries, selectedPeriod]);
 
   const totalEntries = moodEntries.length;
-  const uniqueDays = new Set(moodEntries.map(entry => 
-    new Date(entry.timestamp).toDateString()
-  )).size;
+  const uniqueDays = summaries.length;
 
   const hasEnoughData = totalEntries >= 3;
 
@@ -598,6 +669,15 @@ export default function TrendsPage() {
           onPeriodChange={setSelectedPeriod}
         />
 
+        {/* Phase Filter */}
+        {calendar.phases.length > 0 && (
+          <PhaseFilterSelector
+            phases={calendar.phases}
+            selectedPhase={selectedPhase}
+            onPhaseChange={setSelectedPhase}
+          />
+        )}
+
         {/* Empty State */}
         {!hasEnoughData ? (
           <TrendsEmptyState />
@@ -623,6 +703,14 @@ export default function TrendsPage() {
               <TrendInsights insights={insights} />
               <ComparisonMetrics metrics={comparisonMetrics} />
             </div>
+
+            {/* Per-phase Comparison */}
+            <PhaseComparison
+              summaries={summaries}
+              phases={calendar.phases}
+              selected={selectedPhase}
+              samePhaseBaselines={calendar.samePhaseBaselines}
+            />
           </>
         )}
 
@@ -0,0 +1,174 @@
+/**
+ * CampusThrive Academic Calendar Settings Component
+ *
+ * Features:
+ * - Adds semester phases (classes, midterms, finals, break) as date ranges
+ * - Rejects phases that overlap or end before they start
+ * - Lists phases in calendar order with a delete action
+ * - Opts into baselines computed within the same phase type
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useAppSettings } from '@/hooks/useLocalStorage';
+import { ACADEMIC_PHASE_LABELS, DEFAULT_ACADEMIC_CALENDAR, getAcademicPhaseErrors } from '@/lib/phases';
+import { getDayDate } from '@/lib/daily';
+import type { AcademicCalendar, AcademicPhase, AcademicPhaseType } from '@/types';
+import { GraduationCap, Plus, Trash2, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+const EMPTY_DRAFT: Omit<AcademicPhase, 'id'> = { type: 'classes', name: '', start: '', end: '' };
+
+/**
+ * Main AcademicCalendarSettings component
+ */
+export function AcademicCalendarSettings() {
+  const { value: appSettings, setValue: setAppSettings } = useAppSettings();
+  const calendar = appSettings.academicCalendar ?? DEFAULT_ACADEMIC_CALENDAR;
+  const [draft, setDraft] = useState<Omit<AcademicPhase, 'id'>>(EMPTY_DRAFT);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const sortedPhases = [...calendar.phases].sort((a, b) => a.start.localeCompare(b.start));
+
+  const updateCalendar = (updates: Partial<AcademicCalendar>) => {
+    setAppSettings(prev => ({
+      ...prev,
+      academicCalendar: { ...(prev.academicCalendar ?? DEFAULT_ACADEMIC_CALENDAR), ...updates }
+    }));
+  };
+
+  const handleAdd = () => {
+    const phase = { ...draft, name: draft.name.trim() };
+    const problems = getAcademicPhaseErrors(phase, calendar.phases);
+    setErrors(problems);
+    if (problems.length > 0) {
+      return;
+    }
+
+    updateCalendar({
+      phases: [...calendar.phases, { ...phase, id: `phase_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` }]
+    });
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleDelete = (phaseId: string) => {
+    updateCalendar({ phases: calendar.phases.filter(phase => phase.id !== phaseId) });
+  };
+
+  const inputClass = 'w-full px-3 py-2 rounded border border-border bg-background text-foreground text-sm';
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <GraduationCap className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold text-foreground">Academic Calendar</h3>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Mark the phases of your semester. Trends and Patterns can then be filtered and compared by phase,
+        and scores can be measured against earlier check-ins from the same kind of phase.
+      </p>
+
+      <label className="flex items-start gap-2 text-sm text-foreground cursor-pointer">
+        <input
+          type="checkbox"
+          checked={calendar.samePhaseBaselines}
+          onChange={(e) => updateCalendar({ samePhaseBaselines: e.target.checked })}
+          className="rounded mt-0.5"
+        />
+        <span>
+          Compare scores within the same phase
+          <span className="block text-xs text-muted-foreground">
+            Finals are scored against earlier finals, breaks against earlier breaks. Days outside every
+            phase are scored against each other.
+          </span>
+        </span>
+      </label>
+
+      {sortedPhases.length > 0 ? (
+        <ul className="space-y-2">
+          {sortedPhases.map(phase => (
+            <li key={phase.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-foreground">{phase.name}</span>
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+                    {ACADEMIC_PHASE_LABELS[phase.type]}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {format(getDayDate(phase.start), 'MMM d, yyyy')} – {format(getDayDate(phase.end), 'MMM d, yyyy')}
+                </p>
+              </div>
+              <button onClick={() => handleDelete(phase.id)} className="btn btn-outline btn-sm" aria-label={`Delete ${phase.name}`}>
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No phases yet.</p>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <label className="space-y-1 text-sm text-foreground">
+          <span>Name</span>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="Fall finals"
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1 text-sm text-foreground">
+          <span>Type</span>
+          <select
+            value={draft.type}
+            onChange={(e) => setDraft(prev => ({ ...prev, type: e.target.value as AcademicPhaseType }))}
+            className={inputClass}
+          >
+            {(Object.keys(ACADEMIC_PHASE_LABELS) as AcademicPhaseType[]).map(type => (
+              <option key={type} value={type}>{ACADEMIC_PHASE_LABELS[type]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-sm text-foreground">
+          <span>Start</span>
+          <input
+            type="date"
+            value={draft.start}
+            onChange={(e) => setDraft(prev => ({ ...prev, start: e.target.value }))}
+            className={inputClass}
+          />
+        </label>
+        <label className="space-y-1 text-sm text-foreground">
+          <span>End</span>
+          <input
+            type="date"
+            value={draft.end}
+            onChange={(e) => setDraft(prev => ({ ...prev, end: e.target.value }))}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="flex justify-end">
+        <button onClick={handleAdd} className="btn btn-primary flex items-center gap-2">
+          <Plus className="w-4 h-4" />
+          Add Phase
+        </button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mt-0.5" />
+          <ul>
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+/**
+ * CampusThrive Anomaly Alerts Component
+ *
+ * Features:
+ * - Lists recent unusual check-ins and days with a plain-language explanation
+ * - Separates single spikes from multi-day runs (e.g. rising stress)
+ * - Extreme anomalies highlighted ahead of notable ones
+ * - Dismissible; dismissals persist across visits
+ */
+
+'use client';
+
+import { Anomaly } from '@/types';
+import { ANOMALY_METRIC_LABELS } from '@/lib/anomalies';
+import { getDayDate } from '@/lib/daily';
+import { AlertTriangle, TrendingUp, TrendingDown, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface AnomalyAlertsProps {
+  anomalies: Anomaly[];
+  onDismiss: (anomalyId: string) => void;
+}
+
+/**
+ * Single anomaly alert
+ */
+function AnomalyAlert({ anomaly, onDismiss }: { anomaly: Anomaly; onDismiss: (anomalyId: string) => void }) {
+  const isExtreme = anomaly.severity === 'extreme';
+  const Icon = anomaly.kind === 'run'
+    ? (anomaly.direction === 'rising' ? TrendingUp : TrendingDown)
+    : AlertTriangle;
+
+  return (
+    <li
+      className={`flex items-start gap-3 p-4 rounded-lg border ${
+        isExtreme ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
+      }`}
+    >
+      <Icon className={`w-5 h-5 mt-0.5 flex-shrink-0 ${isExtreme ? 'text-red-600' : 'text-amber-600'}`} />
+      <div className="flex-1 space-y-1">
+        <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+          <span>{ANOMALY_METRIC_LABELS[anomaly.metric]}</span>
+          <span>·</span>
+          <span>{anomaly.kind === 'run' ? 'Pattern' : 'Unusual value'}</span>
+          <span>·</span>
+          <span>{format(getDayDate(anomaly.date), 'EEE, MMM d')}</span>
+        </div>
+        <p className="text-sm text-foreground">{anomaly.explanation}</p>
+      </div>
+      <button
+        onClick={() => onDismiss(anomaly.id)}
+        className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-black/5"
+        title="Dismiss"
+        aria-label="Dismiss alert"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </li>
+  );
+}
+
+/**
+ * Main AnomalyAlerts component
+ */
+export function AnomalyAlerts({ anomalies, onDismiss }: AnomalyAlertsProps) {
+  if (anomalies.length === 0) {
+    return null;
+  }
+
+  const sorted = [...anomalies].sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'extreme' ? -1 : 1) || b.date.localeCompare(a.date)
+  );
+
+  return (
+    <ul className="space-y-3">
+      {sorted.map(anomaly => (
+        <AnomalyAlert key={anomaly.id} anomaly={anomaly} onDismiss={onDismiss} />
+      ))}
+    </ul>
+  );
+}
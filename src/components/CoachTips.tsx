@@ -6,6 +6,10 @@
  * - Recent tags and patterns
  * - Time of day considerations
  * - User preferences and history
+ * - Recent anomalies, shown as the tip's trigger
+ * - Burnout risk over the last days
+ * - Sleep debt and regularity
+ * - Active goals at risk this week, named on the tips that help
  */
 
 'use client';
@@ -13,7 +17,10 @@
 import { useState, useEffect, useCallback } from 'react';
 import { CoachEngine, TipCategory } from '@/lib/coach';
 import { CoachTip } from '@/types';
-import { useMoodEntries } from '@/hooks/useLocalStorage';
+import { useMoodEntries, useAppSettings, useScoringProfiles, useDailySummaries, useBurnoutRisk, useSleepReport, useGoals, useGoalProgress } from '@/hooks/useLocalStorage';
+import { AnomalyManager } from '@/lib/storage';
+import { getActiveAnomalies } from '@/lib/anomalies';
+import { DEFAULT_DAY_START_HOUR } from '@/lib/daily';
 import { 
   Lightbulb, 
   CheckCircle, 
@@ -24,7 +31,9 @@ import {
   TrendingUp,
   AlertCircle,
   Loader2,
-  Sparkles
+  Sparkles,
+  AlertTriangle,
+  Target
 } from 'lucide-react';
 
 /**
@@ -133,6 +142,20 @@ function TipCard({ tip, isFavorited, isCompleted, onToggleFavorite, onMarkComple
 
         {/* Content */}
         <div className="space-y-4">
+          {tip.triggeredBy && (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <AlertTriangle className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-amber-800">
+                <span className="font-medium">Why now: </span>{tip.triggeredBy}
+              </p>
+            </div>
+          )}
+          {tip.relatedGoal && (
+            <div className="flex items-start gap-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+              <Target className="w-4 h-4 text-blue-600 mt-0.5 flex-shrink-0" />
+              <p className="text-sm text-blue-800">{tip.relatedGoal}</p>
+            </div>
+          )}
           <p className="text-foreground leading-relaxed">
             {tip.content}
           </p>
@@ -187,6 +210,15 @@ export function CoachTips() {
   });
 
   const moodEntries = useMoodEntries();
+  const { value: appSettings } = useAppSettings();
+  const dayStartHour = appSettings.dayStartHour ?? DEFAULT_DAY_START_HOUR;
+  const { activeProfile } = useScoringProfiles();
+  const { summaries } = useDailySummaries(moodEntries.value, activeProfile);
+  const { current: burnoutRisk } = useBurnoutRisk(summaries);
+  const sleepReport = useSleepReport(moodEntries.value, summaries);
+  const { value: goals } = useGoals();
+  // Goal history is synced by the Goals card; only this week's progress is needed here
+  const { current: goalReports } = useGoalProgress(goals, summaries, dayStartHour, false);
 
 
   // Load personalized tips using smart selection
@@ -211,7 +243,9 @@ export function CoachTips() {
       }
       
       // Use smart tip selection - get more tips for "show more" functionality
-      let allRelevantTips = coachEngine.selectRelevantTips(currentEntry || null, recentEntries, 8);
+      // Recent unusual days raise the tips that respond to them
+      const anomalies = getActiveAnomalies(AnomalyManager.getAnomalies(), dayStartHour);
+      let allRelevantTips = coachEngine.selectRelevantTips(currentEntry || null, recentEntries, 8, anomalies, burnoutRisk, sleepReport, goalReports);
       
       // Filter completed tips if needed
       if (!showCompleted) {
@@ -229,7 +263,7 @@ export function CoachTips() {
     } finally {
       setIsLoading(false);
     }
-  }, [coachEngine, moodEntries.value, showCompleted]);
+  }, [coachEngine, moodEntries.value, showCompleted, dayStartHour, burnoutRisk, sleepReport, goalReports]);
 
   // Load tips on mount and when dependencies change
   useEffect(() => {
@@ -15,8 +15,9 @@
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { MoodTracker, MoodDimension } from './ui/MoodSlider';
-import { useMoodEntries } from '@/hooks/useLocalStorage';
-import { calculateMC, calculateDSS } from '@/lib/scoring';
+import { useMoodEntries, useScoringProfiles } from '@/hooks/useLocalStorage';
+import { scoreEntry } from '@/lib/scoring';
+import { getSleepDurationHours } from '@/lib/sleep';
 import type { MoodEntry } from '@/types';
 import { 
   Clock, 
@@ -50,6 +51,8 @@ interface CheckinFormData {
   deepworkMinutes?: number;
   tasksCompleted?: number;
   sleepHours?: number;
+  bedTime?: string;
+  wakeTime?: string;
   recoveryAction: boolean;
   socialTouchpoints?: number;
 }
@@ -108,6 +111,7 @@ export function DailyCheckin({ onCheckinComplete }: { onCheckinComplete?: () =>
 
   // Hooks
   const moodEntries = useMoodEntries();
+  const { activeProfile } = useScoringProfiles();
 
   // Auto-detect current time bucket
   const getCurrentTimeBucket = useCallback((): TimeBucket => {
@@ -144,27 +148,10 @@ export function DailyCheckin({ onCheckinComplete }: { onCheckinComplete?: () =>
       socialTouchpoints: formData.socialTouchpoints || 0
     };
 
-    // Use historical data for z-score calculation
-    const historicalEntries = moodEntries.value;
-    
-    if (historicalEntries.length < 3) {
-      // Fallback to simple calculation when insufficient data
-      const MC = (valence + energy + focus + (5 - stress)) / 4;
-      const DSS = (formData.tasksCompleted || 0) * 0.4 + 
-                  (formData.deepworkMinutes || 0) * 0.01 + 
-                  MC * 0.3;
-      return { MC, DSS };
-    }
-
-    // Use centralized scoring system
-    const mcResult = calculateMC(tempEntry, historicalEntries, formData.timeBucket);
-    const dssResult = calculateDSS(tempEntry, historicalEntries);
-    
-    return { 
-      MC: mcResult.mc, 
-      DSS: dssResult.dss 
-    };
-  }, [formData, moodEntries.value]);
+    // Canonical scoring against everything logged so far; with too little
+    // history this returns the documented provisional fallback
+    return scoreEntry(tempEntry, moodEntries.value, activeProfile);
+  }, [formData, moodEntries.value, activeProfile]);
 
   // Auto-save draft functionality
   useEffect(() => {
@@ -245,6 +232,22 @@ export function DailyCheckin({ onCheckinComplete }: { onCheckinComplete?: () =>
     setHasUnsavedChanges(true);
   }, []);
 
+  // Handle bed/wake time changes; together they fill in sleep hours
+  const handleSleepTimeChange = useCallback((field: 'bedTime' | 'wakeTime', value: string) => {
+    setFormData(prev => {
+      const next: CheckinFormData = { ...prev };
+      if (value) {
+        next[field] = value;
+      } else {
+        delete next[field];
+      }
+
+      const duration = next.bedTime && next.wakeTime ? getSleepDurationHours(next.bedTime, next.wakeTime) : null;
+      return duration !== null ? { ...next, sleepHours: duration } : next;
+    });
+    setHasUnsavedChanges(true);
+  }, []);
+
   // Filter tag suggestions
   const filteredSuggestions = useMemo(() => {
     if (!tagInput) return STUDENT_TAGS.slice(0, 8);
@@ -270,6 +273,8 @@ export function DailyCheckin({ onCheckinComplete }: { onCheckinComplete?: () =>
         ...(formData.deepworkMinutes !== undefined && { deepworkMinutes: formData.deepworkMinutes }),
         ...(formData.tasksCompleted !== undefined && { tasksCompleted: formData.tasksCompleted }),
         ...(formData.sleepHours !== undefined && { sleepHours: formData.sleepHours }),
+        ...(formData.bedTime !== undefined && { bedTime: formData.bedTime }),
+        ...(formData.wakeTime !== undefined && { wakeTime: formData.wakeTime }),
         recoveryAction: formData.recoveryAction,
         ...(formData.socialTouchpoints !== undefined && { socialTouchpoints: formData.socialTouchpoints }),
       };
@@ -352,6 +357,11 @@ export function DailyCheckin({ onCheckinComplete }: { onCheckinComplete?: () =>
             <div className="text-sm text-muted-foreground">Daily Success Score</div>
           </div>
         </div>
+        {!computedScores.isValid && (
+          <p className="text-xs text-muted-foreground text-center mt-3">
+            Provisional — scores are relative to your baseline, which needs a few more check-ins
+          </p>
+        )}
       </div>
 
       {/* Time Bucket Selector */}
@@ -527,6 +537,30 @@ export function DailyCheckin({ onCheckinComplete }: { onCheckinComplete?: () =>
                 />
               </div>
 
+              {/* Bed and Wake Times */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground flex items-center gap-2">
+                  <Clock className="w-4 h-4" />
+                  Bedtime / Wake Time (Optional)
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="time"
+                    value={formData.bedTime ?? ''}
+                    onChange={(e) => handleSleepTimeChange('bedTime', e.target.value)}
+                    aria-label="Bedtime"
+                    className="input"
+                  />
+                  <input
+                    type="time"
+                    value={formData.wakeTime ?? ''}
+                    onChange={(e) => handleSleepTimeChange('wakeTime', e.target.value)}
+                    aria-label="Wake time"
+                    className="input"
+                  />
+                </div>
+              </div>
+
               {/* Social Touchpoints */}
               <div className="space-y-2">
                 <label className="text-sm font-medium text-foreground flex items-center gap-2">
@@ -2,7 +2,7 @@
  * CampusThrive Data Control Component
  * 
  * Features:
- * - Export options (CSV, JSON)
+ * - Export options (CSV, daily CSV, JSON)
  * - Import functionality with validation
  * - Privacy controls and storage management
  * - Drag-and-drop file import
@@ -13,7 +13,7 @@
 'use client';
 
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { useMoodEntries } from '@/hooks/useLocalStorage';
+import { useMoodEntries, useScoringProfiles, useDailySummaries, useEntryHistory } from '@/hooks/useLocalStorage';
 import { 
   Download,
   Upload,
@@ -26,7 +26,8 @@ import {
   XCircle,
   Info,
   HardDrive,
-  Loader2
+  Loader2,
+  CalendarDays
 } from 'lucide-react';
 import { 
   CSVExporter, 
@@ -141,11 +142,13 @@ function ExportSection({ moodEntries, onMessage }: {
   onMessage: (message: Message) => void;
 }) {
   const [isExporting, setIsExporting] = useState(false);
+  const { activeProfile } = useScoringProfiles();
+  const { summaries } = useDailySummaries(moodEntries, activeProfile);
 
   const handleCSVExport = async () => {
     setIsExporting(true);
     try {
-      const csvContent = CSVExporter.exportMoodEntries(moodEntries);
+      const csvContent = CSVExporter.exportMoodEntries(moodEntries, activeProfile);
       CSVExporter.downloadCSV(csvContent);
       
       onMessage({
@@ -164,6 +167,28 @@ function ExportSection({ moodEntries, onMessage }: {
     }
   };
 
+  const handleDailyCSVExport = async () => {
+    setIsExporting(true);
+    try {
+      const csvContent = CSVExporter.exportDailySummaries(summaries);
+      CSVExporter.downloadCSV(csvContent, `campus-thrive-daily-${new Date().toISOString().split('T')[0]}.csv`);
+      
+      onMessage({
+        type: 'success',
+        title: 'Daily CSV Export Complete',
+        content: `Exported ${summaries.length} days to CSV file`
+      });
+    } catch (error) {
+      onMessage({
+        type: 'error',
+        title: 'Export Failed',
+        content: `Failed to export daily CSV: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleJSONExport = async () => {
     setIsExporting(true);
     try {
@@ -198,7 +223,7 @@ function ExportSection({ moodEntries, onMessage }: {
         and your data never leaves your device.
       </p>
 
-      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
         <button
           onClick={handleCSVExport}
           disabled={isExporting || moodEntries.length === 0}
@@ -214,6 +239,21 @@ function ExportSection({ moodEntries, onMessage }: {
           )}
         </button>
 
+        <button
+          onClick={handleDailyCSVExport}
+          disabled={isExporting || summaries.length === 0}
+          className="px-4 py-2 text-sm font-medium text-foreground bg-background border border-border rounded-md hover:bg-muted hover:text-foreground transition-colors flex items-center gap-2 justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isExporting ? (
+            <LoadingSpinner message="Exporting..." />
+          ) : (
+            <>
+              <CalendarDays className="w-4 h-4" />
+              Export Daily CSV
+            </>
+          )}
+        </button>
+
         <button
           onClick={handleJSONExport}
           disabled={isExporting || moodEntries.length === 0}
@@ -392,14 +432,23 @@ function PrivacyControls({ onClearData, onMessage }: {
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
 
   const handleClearData = () => {
-    StorageManager.clearAllData();
-    onClearData();
+    const result = StorageManager.clearAllData();
     setShowConfirmDialog(false);
-    
+
+    if (!result.success) {
+      onMessage({
+        type: 'error',
+        title: 'Clear Failed',
+        content: result.error.message
+      });
+      return;
+    }
+
+    onClearData();
     onMessage({
       type: 'success',
       title: 'Data Cleared',
-      content: 'All local data has been permanently deleted'
+      content: 'All entries were moved to the trash. Restore them from the Data page until the trash is emptied.'
     });
   };
 
@@ -430,7 +479,7 @@ function PrivacyControls({ onClearData, onMessage }: {
             <div>
               <h4 className="font-medium text-yellow-800 dark:text-yellow-200">Clear All Data</h4>
               <p className="text-sm text-yellow-700 dark:text-yellow-300 mt-1">
-                Permanently delete all your wellness data from this device. This action cannot be undone.
+                Delete all your wellness data from this device. Entries are kept in the trash until it is emptied.
               </p>
               <button
                 onClick={() => setShowConfirmDialog(true)}
@@ -453,8 +502,8 @@ function PrivacyControls({ onClearData, onMessage }: {
               <h3 className="text-lg font-semibold text-foreground">Confirm Data Deletion</h3>
             </div>
             <p className="text-muted-foreground mb-6">
-              Are you sure you want to permanently delete all your wellness data? 
-              This action cannot be undone and you will lose all your entries, scores, and patterns.
+              Are you sure you want to delete all your wellness data? 
+              Your entries will be moved to the trash and scores and patterns are removed; settings are kept.
             </p>
             <div className="flex gap-3 justify-end">
               <button
@@ -482,7 +531,8 @@ function PrivacyControls({ onClearData, onMessage }: {
  * Main DataControl component
  */
 export function DataControl() {
-  const { value: moodEntries, setValue: setMoodEntries } = useMoodEntries();
+  const { value: moodEntries } = useMoodEntries();
+  const { importEntries } = useEntryHistory();
   const [messages, setMessages] = useState<Message[]>([]);
   const [storageUsage, setStorageUsage] = useState<StorageUsage>({
     totalSize: 0,
@@ -500,27 +550,25 @@ export function DataControl() {
   // Handle import result
   const handleImport = useCallback((result: ImportResult) => {
     if (result.success && result.importedEntries > 0 && result.entries.length > 0) {
-      // Merge imported entries with existing entries
-      const existingIds = new Set(moodEntries.map(e => e.id));
-      const newEntries = result.entries.filter(e => !existingIds.has(e.id));
+      // Merge imported entries with existing entries; the import can be undone
+      const saveResult = importEntries(result.entries);
       
-      if (newEntries.length > 0) {
-        const mergedEntries = [...moodEntries, ...newEntries];
-        setMoodEntries(mergedEntries);
+      if (!saveResult.success) {
+        console.error('Import could not be saved:', saveResult.error.message);
+      } else if (saveResult.data > 0) {
         updateStorageUsage();
         
-        console.log(`Import successful: Added ${newEntries.length} new entries (${result.importedEntries - newEntries.length} duplicates skipped)`);
+        console.log(`Import successful: Added ${saveResult.data} new entries (${result.importedEntries - saveResult.data} duplicates skipped)`);
       } else {
         console.log('Import successful but all entries were duplicates');
       }
     }
-  }, [moodEntries, setMoodEntries, updateStorageUsage]);
+  }, [importEntries, updateStorageUsage]);
 
-  // Handle clear data
+  // Handle clear data; the entries hook reloads once they are in the trash
   const handleClearData = useCallback(() => {
-    setMoodEntries([]);
     updateStorageUsage();
-  }, [setMoodEntries, updateStorageUsage]);
+  }, [updateStorageUsage]);
 
   // Add message
   const addMessage = useCallback((message: Message) => {
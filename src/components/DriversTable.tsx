@@ -5,6 +5,9 @@
  * - Analyzes tag impact on MC and DSS scores
  * - Shows only frequently used tags (3+ times)
  * - Sortable table with impact calculations
+ * - Welch t-tests, Cohen's d and bootstrap intervals per tag
+ * - Benjamini–Hochberg correction so noise is reported as neutral
+ * - Lag selector: same check-in, next check-in, next day or +2 days
  * - Filtering by positive/negative impact
  * - Mobile-responsive design
  * - Loading and empty states
@@ -13,8 +16,10 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-import { useMoodEntries } from '@/hooks/useLocalStorage';
-import { MoodEntry } from '@/types';
+import { useMoodEntries, useScoringProfiles, useScoreCache, useDailySummaries } from '@/hooks/useLocalStorage';
+import { MoodEntry, ComputedScores, DriverSignificance, DriverLag, DailySummary } from '@/types';
+import { testDriverEffect, adjustDriverSignificance } from '@/lib/scoring';
+import { buildLaggedObservations, DRIVER_LAGS } from '@/lib/drivers';
 import { 
   TrendingUp,
   TrendingDown,
@@ -27,7 +32,8 @@ import {
   Activity,
   AlertCircle,
   CheckCircle,
-  XCircle
+  XCircle,
+  Clock
 } from 'lucide-react';
 import { subWeeks, isAfter } from 'date-fns';
 
@@ -45,6 +51,10 @@ interface DriverAnalysis {
   mcWithoutTag: number;
   dssWithTag: number;
   dssWithoutTag: number;
+  mcSignificance: DriverSignificance;
+  dssSignificance: DriverSignificance;
+  /** Smaller of the two corrected p-values, for sorting by evidence */
+  adjustedPValue: number;
 }
 
 /**
@@ -66,44 +76,17 @@ interface FilterConfig {
  * Drivers analysis calculator
  */
 class DriversAnalyzer {
-  /**
-   * Calculate MC (Mood Composite) score for an entry
-   */
-  static calculateMC(entry: MoodEntry): number {
-    const valence = entry.valence;
-    const energy = entry.energy;
-    const focus = entry.focus;
-    const stress = entry.stress;
-    
-    // Simple MC calculation (can be enhanced with z-scores)
-    return (valence + energy + focus + (5 - stress)) / 4;
-  }
-
-  /**
-   * Calculate DSS (Daily Success Score) for an entry
-   */
-  static calculateDSS(entry: MoodEntry): number {
-    const deepworkMinutes = entry.deepworkMinutes || 0;
-    const tasksCompleted = entry.tasksCompleted || 0;
-    const sleepHours = entry.sleepHours || 0;
-    const recoveryAction = entry.recoveryAction ? 1 : 0;
-    const socialTouchpoints = entry.socialTouchpoints || 0;
-    
-    // Weighted DSS calculation
-    const deepworkScore = Math.min(1, deepworkMinutes / 180); // Max 3 hours
-    const tasksScore = Math.min(1, tasksCompleted / 10); // Max 10 tasks
-    const sleepScore = Math.min(1, sleepHours / 8); // Optimal 8 hours
-    const recoveryScore = recoveryAction;
-    const socialScore = Math.min(1, socialTouchpoints / 5); // Max 5 touchpoints
-    
-    return (deepworkScore * 0.3) + (tasksScore * 0.3) + (sleepScore * 0.2) + 
-           (recoveryScore * 0.1) + (socialScore * 0.1);
-  }
-
   /**
    * Analyze drivers from mood entries
    */
-  static analyzeDrivers(entries: MoodEntry[], minUsageCount: number = 3): DriverAnalysis[] {
+  static analyzeDrivers(
+    entries: MoodEntry[],
+    minUsageCount: number = 3,
+    scoresById: Map<string, ComputedScores> = new Map(),
+    lag: DriverLag = 'same-entry',
+    summaries: DailySummary[] = [],
+    dayStartHour?: number
+  ): DriverAnalysis[] {
     // Filter entries from last 2-4 weeks
     const cutoffDate = subWeeks(new Date(), 4);
     const recentEntries = entries.filter(entry => 
@@ -114,80 +97,108 @@ class DriversAnalyzer {
       return [];
     }
 
+    // Pair each tagged check-in (or day) with its outcome at the chosen lag.
+    // Canonical scores use the full history as baseline, not just the window.
+    const observations = buildLaggedObservations(recentEntries, lag, scoresById, summaries, dayStartHour)
+      .map(observation => ({ ...observation, tags: observation.tags.map(tag => tag.toLowerCase()) }));
+
+    const averageOf = (values: number[]) =>
+      values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
     // Collect all unique tags
     const allTags = new Set<string>();
-    recentEntries.forEach(entry => {
-      entry.tags.forEach(tag => allTags.add(tag.toLowerCase()));
+    observations.forEach(observation => {
+      observation.tags.forEach(tag => allTags.add(tag));
     });
 
     // Analyze each tag
     const analyses: DriverAnalysis[] = [];
 
     for (const tag of allTags) {
-      const entriesWithTag = recentEntries.filter(entry => 
-        entry.tags.some(t => t.toLowerCase() === tag)
-      );
-      const entriesWithoutTag = recentEntries.filter(entry => 
-        !entry.tags.some(t => t.toLowerCase() === tag)
-      );
+      const withTag = observations.filter(observation => observation.tags.includes(tag));
+      const withoutTag = observations.filter(observation => !observation.tags.includes(tag));
 
       // Skip if not used enough
-      if (entriesWithTag.length < minUsageCount) {
+      if (withTag.length < minUsageCount) {
         continue;
       }
 
-      // Calculate average scores
-      const mcWithTag = entriesWithTag.length > 0 
-        ? entriesWithTag.reduce((sum, entry) => sum + this.calculateMC(entry), 0) / entriesWithTag.length
-        : 0;
-      
-      const mcWithoutTag = entriesWithoutTag.length > 0
-        ? entriesWithoutTag.reduce((sum, entry) => sum + this.calculateMC(entry), 0) / entriesWithoutTag.length
-        : 0;
+      // Calculate average outcome scores
+      const mcValuesWith = withTag.map(observation => observation.MC);
+      const mcValuesWithout = withoutTag.map(observation => observation.MC);
+      const dssValuesWith = withTag.map(observation => observation.DSS);
+      const dssValuesWithout = withoutTag.map(observation => observation.DSS);
 
-      const dssWithTag = entriesWithTag.length > 0
-        ? entriesWithTag.reduce((sum, entry) => sum + this.calculateDSS(entry), 0) / entriesWithTag.length
-        : 0;
-
-      const dssWithoutTag = entriesWithoutTag.length > 0
-        ? entriesWithoutTag.reduce((sum, entry) => sum + this.calculateDSS(entry), 0) / entriesWithoutTag.length
-        : 0;
+      const mcWithTag = averageOf(mcValuesWith);
+      const mcWithoutTag = averageOf(mcValuesWithout);
+      const dssWithTag = averageOf(dssValuesWith);
+      const dssWithoutTag = averageOf(dssValuesWithout);
 
       // Calculate impacts
       const mcImpact = mcWithTag - mcWithoutTag;
       const dssImpact = dssWithTag - dssWithoutTag;
 
-      // Determine overall effect
-      const totalImpact = Math.abs(mcImpact) + Math.abs(dssImpact);
-      let overallEffect: 'positive' | 'negative' | 'neutral' = 'neutral';
-      
-      if (totalImpact > 0.1) { // Threshold for meaningful impact
-        if (mcImpact > 0 && dssImpact > 0) {
-          overallEffect = 'positive';
-        } else if (mcImpact < 0 && dssImpact < 0) {
-          overallEffect = 'negative';
-        } else if (Math.abs(mcImpact) > Math.abs(dssImpact)) {
-          overallEffect = mcImpact > 0 ? 'positive' : 'negative';
-        } else {
-          overallEffect = dssImpact > 0 ? 'positive' : 'negative';
-        }
-      }
-
       analyses.push({
         tag: tag.charAt(0).toUpperCase() + tag.slice(1),
-        usageCount: entriesWithTag.length,
+        usageCount: withTag.length,
         mcImpact,
         dssImpact,
-        overallEffect,
-        effectMagnitude: totalImpact,
+        overallEffect: 'neutral',
+        effectMagnitude: Math.abs(mcImpact) + Math.abs(dssImpact),
         mcWithTag,
         mcWithoutTag,
         dssWithTag,
-        dssWithoutTag
+        dssWithoutTag,
+        mcSignificance: testDriverEffect(mcValuesWith, mcValuesWithout, `${tag}:MC`),
+        dssSignificance: testDriverEffect(dssValuesWith, dssValuesWithout, `${tag}:DSS`),
+        adjustedPValue: 1
       });
     }
 
-    return analyses;
+    // Correct for testing every tag at once
+    const mcAdjusted = adjustDriverSignificance(analyses.map(a => a.mcSignificance));
+    const dssAdjusted = adjustDriverSignificance(analyses.map(a => a.dssSignificance));
+
+    return analyses.map((analysis, index) => {
+      const mcSignificance = mcAdjusted[index]!;
+      const dssSignificance = dssAdjusted[index]!;
+
+      return {
+        ...analysis,
+        mcSignificance,
+        dssSignificance,
+        adjustedPValue: Math.min(mcSignificance.adjustedPValue, dssSignificance.adjustedPValue),
+        overallEffect: this.getOverallEffect(mcSignificance, dssSignificance)
+      };
+    });
+  }
+
+  /**
+   * Overall effect from the metrics whose difference is significant
+   * 
+   * Tags with no significant difference are neutral, however large the raw
+   * difference looks.
+   */
+  private static getOverallEffect(
+    mc: DriverSignificance,
+    dss: DriverSignificance
+  ): DriverAnalysis['overallEffect'] {
+    const mcImpact = mc.isSignificant ? mc.meanDifference : 0;
+    const dssImpact = dss.isSignificant ? dss.meanDifference : 0;
+
+    if (mcImpact === 0 && dssImpact === 0) {
+      return 'neutral';
+    }
+    if (mcImpact > 0 && dssImpact > 0) {
+      return 'positive';
+    }
+    if (mcImpact < 0 && dssImpact < 0) {
+      return 'negative';
+    }
+    if (Math.abs(mcImpact) > Math.abs(dssImpact)) {
+      return mcImpact > 0 ? 'positive' : 'negative';
+    }
+    return dssImpact > 0 ? 'positive' : 'negative';
   }
 }
 
@@ -260,6 +271,30 @@ function ImpactIndicator({
   );
 }
 
+/**
+ * Evidence indicator for the better-supported of the two metrics
+ */
+function EvidenceIndicator({ analysis }: { analysis: DriverAnalysis }) {
+  const useMC = analysis.mcSignificance.adjustedPValue <= analysis.dssSignificance.adjustedPValue;
+  const test = useMC ? analysis.mcSignificance : analysis.dssSignificance;
+  const { lower, upper, level } = test.confidenceInterval;
+  const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+
+  return (
+    <div className="flex flex-col items-center gap-0.5">
+      <span className={`text-xs font-medium ${test.isSignificant ? 'text-foreground' : 'text-muted-foreground'}`}>
+        {test.isSignificant ? `Significant (${useMC ? 'MC' : 'DSS'})` : 'Not significant'}
+      </span>
+      <span className="text-xs text-muted-foreground">
+        p = {test.adjustedPValue < 0.001 ? '<0.001' : test.adjustedPValue.toFixed(3)} · d = {test.cohensD.toFixed(2)}
+      </span>
+      <span className="text-xs text-muted-foreground">
+        {Math.round(level * 100)}% CI [{formatSigned(lower)}, {formatSigned(upper)}]
+      </span>
+    </div>
+  );
+}
+
 /**
  * Overall effect indicator
  */
@@ -330,8 +365,12 @@ function SortButton({
  * Main DriversTable component
  */
 export function DriversTable() {
-  const { value: moodEntries } = useMoodEntries();
+  const { value: moodEntries, loading: entriesLoading } = useMoodEntries();
+  const { activeProfile, loading: profilesLoading } = useScoringProfiles();
+  const scoresById = useScoreCache(moodEntries, activeProfile, !entriesLoading && !profilesLoading);
+  const { summaries, dayStartHour } = useDailySummaries(moodEntries, activeProfile, !entriesLoading && !profilesLoading);
   const [isLoading, setIsLoading] = useState(true);
+  const [lag, setLag] = useState<DriverLag>('same-entry');
   const [sortConfig, setSortConfig] = useState<SortConfig | null>({
     key: 'effectMagnitude',
     direction: 'desc'
@@ -342,8 +381,8 @@ export function DriversTable() {
 
   // Analyze drivers
   const driverAnalyses = useMemo(() => {
-    return DriversAnalyzer.analyzeDrivers(moodEntries, 3);
-  }, [moodEntries]);
+    return DriversAnalyzer.analyzeDrivers(moodEntries, 3, scoresById, lag, summaries, dayStartHour);
+  }, [moodEntries, scoresById, lag, summaries, dayStartHour]);
 
   // Apply filtering
   const filteredAnalyses = useMemo(() => {
@@ -413,7 +452,7 @@ export function DriversTable() {
     return <DriversEmptyState />;
   }
 
-  if (driverAnalyses.length === 0) {
+  if (driverAnalyses.length === 0 && lag === 'same-entry') {
     return (
       <div className="flex flex-col items-center justify-center h-64 space-y-4 text-center">
         <AlertCircle className="w-12 h-12 text-muted-foreground" />
@@ -443,7 +482,32 @@ export function DriversTable() {
       </div>
 
       {/* Filters */}
-      <div className="card p-4">
+      <div className="card p-4 space-y-4">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Clock className="w-4 h-4 text-muted-foreground" />
+            <span className="text-sm font-medium text-foreground">Measure impact on:</span>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {DRIVER_LAGS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => setLag(option.value)}
+                title={option.description}
+                className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                  lag === option.value
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-muted text-muted-foreground hover:bg-muted/80'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {DRIVER_LAGS.find(option => option.value === lag)?.description}
+        </p>
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
           <div className="flex items-center gap-2">
             <Filter className="w-4 h-4 text-muted-foreground" />
@@ -514,6 +578,15 @@ export function DriversTable() {
                     DSS Impact
                   </SortButton>
                 </th>
+                <th className="text-center p-4 font-medium text-foreground">
+                  <SortButton
+                    column="adjustedPValue"
+                    sortConfig={sortConfig}
+                    onSort={handleSort}
+                  >
+                    Evidence
+                  </SortButton>
+                </th>
                 <th className="text-center p-4 font-medium text-foreground">
                   <SortButton
                     column="overallEffect"
@@ -526,6 +599,13 @@ export function DriversTable() {
               </tr>
             </thead>
             <tbody>
+              {sortedAnalyses.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="p-6 text-center text-sm text-muted-foreground">
+                    No tags have enough paired outcomes at this lag yet.
+                  </td>
+                </tr>
+              )}
               {sortedAnalyses.map((analysis, index) => (
                 <tr 
                   key={analysis.tag}
@@ -541,7 +621,7 @@ export function DriversTable() {
                   </td>
                   <td className="p-4 text-center">
                     <span className="text-sm text-muted-foreground">
-                      {analysis.usageCount} times
+                      {analysis.usageCount} {lag === 'next-day' || lag === 'two-days' ? 'days' : 'times'}
                     </span>
                   </td>
                   <td className="p-4 text-center">
@@ -554,6 +634,9 @@ export function DriversTable() {
                       impact={analysis.dssImpact}
                     />
                   </td>
+                  <td className="p-4 text-center">
+                    <EvidenceIndicator analysis={analysis} />
+                  </td>
                   <td className="p-4 text-center">
                     <OverallEffectIndicator effect={analysis.overallEffect} />
                   </td>
@@ -574,7 +657,8 @@ export function DriversTable() {
               <li>• <strong>MC Impact:</strong> How the activity affects your mood composite</li>
               <li>• <strong>DSS Impact:</strong> How the activity affects your daily success score</li>
               <li>• <strong>Usage Count:</strong> How often you&apos;ve used this tag</li>
-              <li>• <strong>Overall Effect:</strong> Combined impact across both metrics</li>
+              <li>• <strong>Evidence:</strong> Corrected p-value, effect size (d) and confidence interval</li>
+              <li>• <strong>Overall Effect:</strong> Combined impact of the significant metrics</li>
             </ul>
           </div>
           <div className="space-y-3">
@@ -582,7 +666,7 @@ export function DriversTable() {
             <ul className="space-y-2 text-muted-foreground">
               <li>• <strong>Positive drivers:</strong> Do more of these activities</li>
               <li>• <strong>Negative drivers:</strong> Reduce or modify these activities</li>
-              <li>• <strong>Neutral drivers:</strong> These don&apos;t significantly impact your scores</li>
+              <li>• <strong>Neutral drivers:</strong> Differences so far are within the range of noise</li>
               <li>• <strong>Sort by magnitude:</strong> Focus on the biggest impact drivers first</li>
             </ul>
           </div>
@@ -0,0 +1,371 @@
+/**
+ * CampusThrive Entry Editor Component
+ *
+ * Features:
+ * - Edits every field of a past check-in except its time
+ * - Validates changes before saving; saved edits can be undone
+ * - Revision history with changed fields and their previous values
+ * - Reverts an entry to how it was before any earlier edit
+ * - Moves the check-in to the trash
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useMoodEntries, useEntryHistory, useEntryRevisions } from '@/hooks/useLocalStorage';
+import { MoodTracker, type MoodDimension } from './ui/MoodSlider';
+import type { MoodEntry, TimeBucket } from '@/types';
+import { Pencil, History, RotateCcw, Trash2, X, AlertCircle, Save } from 'lucide-react';
+import { format } from 'date-fns';
+
+/**
+ * Labels for entry fields in the revision history
+ */
+const FIELD_LABELS: Partial<Record<keyof MoodEntry, string>> = {
+  timeBucket: 'Time of day',
+  valence: 'Mood',
+  energy: 'Energy',
+  focus: 'Focus',
+  stress: 'Stress',
+  tags: 'Tags',
+  deepworkMinutes: 'Deep work minutes',
+  tasksCompleted: 'Tasks completed',
+  sleepHours: 'Sleep hours',
+  bedTime: 'Bedtime',
+  wakeTime: 'Wake time',
+  recoveryAction: 'Recovery action',
+  socialTouchpoints: 'Social interactions'
+};
+
+const TIME_BUCKETS: TimeBucket[] = ['Morning', 'Midday', 'Evening', 'Night'];
+
+/**
+ * Show a field value in the history ("—" when unset)
+ */
+function formatFieldValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+/**
+ * Optional number field from an input ('' unsets it)
+ */
+function parseOptionalNumber(value: string): number | undefined {
+  return value === '' ? undefined : Number(value);
+}
+
+/**
+ * Form state: optional fields are kept as input strings
+ */
+interface EntryDraft {
+  timeBucket: TimeBucket;
+  moodValues: Record<MoodDimension, number>;
+  tags: string;
+  deepworkMinutes: string;
+  tasksCompleted: string;
+  sleepHours: string;
+  bedTime: string;
+  wakeTime: string;
+  recoveryAction: boolean;
+  socialTouchpoints: string;
+}
+
+function toDraft(entry: MoodEntry): EntryDraft {
+  return {
+    timeBucket: entry.timeBucket,
+    moodValues: { valence: entry.valence, energy: entry.energy, focus: entry.focus, stress: entry.stress },
+    tags: entry.tags.join(', '),
+    deepworkMinutes: entry.deepworkMinutes?.toString() ?? '',
+    tasksCompleted: entry.tasksCompleted?.toString() ?? '',
+    sleepHours: entry.sleepHours?.toString() ?? '',
+    bedTime: entry.bedTime ?? '',
+    wakeTime: entry.wakeTime ?? '',
+    recoveryAction: entry.recoveryAction ?? false,
+    socialTouchpoints: entry.socialTouchpoints?.toString() ?? ''
+  };
+}
+
+function fromDraft(entry: MoodEntry, draft: EntryDraft): MoodEntry {
+  const deepworkMinutes = parseOptionalNumber(draft.deepworkMinutes);
+  const tasksCompleted = parseOptionalNumber(draft.tasksCompleted);
+  const sleepHours = parseOptionalNumber(draft.sleepHours);
+  const socialTouchpoints = parseOptionalNumber(draft.socialTouchpoints);
+
+  return {
+    id: entry.id,
+    timestamp: entry.timestamp,
+    timeBucket: draft.timeBucket,
+    ...draft.moodValues,
+    tags: draft.tags.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean),
+    ...(deepworkMinutes !== undefined && { deepworkMinutes }),
+    ...(tasksCompleted !== undefined && { tasksCompleted }),
+    ...(sleepHours !== undefined && { sleepHours }),
+    ...(draft.bedTime && { bedTime: draft.bedTime }),
+    ...(draft.wakeTime && { wakeTime: draft.wakeTime }),
+    // Keep the field unset if it was never recorded and is still unticked
+    ...((entry.recoveryAction !== undefined || draft.recoveryAction) && { recoveryAction: draft.recoveryAction }),
+    ...(socialTouchpoints !== undefined && { socialTouchpoints })
+  };
+}
+
+/**
+ * Edit form for one entry
+ */
+function EntryForm({
+  entry,
+  onSaved,
+  onDeleted
+}: {
+  entry: MoodEntry;
+  onSaved: () => void;
+  onDeleted: () => void;
+}) {
+  const { saveEntry, deleteEntries } = useEntryHistory();
+  const [draft, setDraft] = useState(() => toDraft(entry));
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof EntryDraft>(field: K, value: EntryDraft[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = () => {
+    const result = saveEntry(fromDraft(entry, draft));
+    if (!result.success) {
+      setError(result.error.message);
+      return;
+    }
+    setError(null);
+    onSaved();
+  };
+
+  const handleDelete = () => {
+    const result = deleteEntries([entry.id]);
+    if (!result.success) {
+      setError(result.error.message);
+      return;
+    }
+    onDeleted();
+  };
+
+  const numberInput = (
+    field: 'deepworkMinutes' | 'tasksCompleted' | 'sleepHours' | 'socialTouchpoints',
+    step: string = '1'
+  ) => (
+    <label className="space-y-1 text-sm">
+      <span className="font-medium text-foreground">{FIELD_LABELS[field]}</span>
+      <input
+        type="number"
+        min="0"
+        step={step}
+        value={draft[field]}
+        onChange={(e) => update(field, e.target.value)}
+        className="input"
+      />
+    </label>
+  );
+
+  return (
+    <div className="space-y-4">
+      <label className="block space-y-1 text-sm">
+        <span className="font-medium text-foreground">{FIELD_LABELS.timeBucket}</span>
+        <select
+          value={draft.timeBucket}
+          onChange={(e) => update('timeBucket', e.target.value as TimeBucket)}
+          className="input"
+        >
+          {TIME_BUCKETS.map(bucket => (
+            <option key={bucket} value={bucket}>{bucket}</option>
+          ))}
+        </select>
+      </label>
+
+      <MoodTracker
+        values={draft.moodValues}
+        onChange={(dimension, value) => update('moodValues', { ...draft.moodValues, [dimension]: value })}
+        size="sm"
+        showLabels={true}
+        showSummary={false}
+      />
+
+      <label className="block space-y-1 text-sm">
+        <span className="font-medium text-foreground">{FIELD_LABELS.tags} (comma separated)</span>
+        <input
+          type="text"
+          value={draft.tags}
+          onChange={(e) => update('tags', e.target.value)}
+          className="input"
+        />
+      </label>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {numberInput('deepworkMinutes')}
+        {numberInput('tasksCompleted')}
+        {numberInput('sleepHours', '0.5')}
+        {numberInput('socialTouchpoints')}
+        <label className="space-y-1 text-sm">
+          <span className="font-medium text-foreground">{FIELD_LABELS.bedTime}</span>
+          <input type="time" value={draft.bedTime} onChange={(e) => update('bedTime', e.target.value)} className="input" />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="font-medium text-foreground">{FIELD_LABELS.wakeTime}</span>
+          <input type="time" value={draft.wakeTime} onChange={(e) => update('wakeTime', e.target.value)} className="input" />
+        </label>
+      </div>
+
+      <label className="flex items-center gap-3 text-sm">
+        <input
+          type="checkbox"
+          checked={draft.recoveryAction}
+          onChange={(e) => update('recoveryAction', e.target.checked)}
+          className="rounded border-border"
+        />
+        <span className="font-medium text-foreground">Took a recovery action</span>
+      </label>
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex justify-between gap-2 pt-4 border-t border-border">
+        <button onClick={handleDelete} className="btn btn-outline btn-sm flex items-center gap-2">
+          <Trash2 className="w-4 h-4" />
+          Move to Trash
+        </button>
+        <button onClick={handleSave} className="btn btn-primary btn-sm flex items-center gap-2">
+          <Save className="w-4 h-4" />
+          Save Changes
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Revision list for one entry
+ */
+function RevisionHistory({ entry }: { entry: MoodEntry }) {
+  const { revisions, getStateBefore, revert, loading } = useEntryRevisions(entry.id);
+  const [error, setError] = useState<string | null>(null);
+
+  if (loading) return null;
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-muted-foreground">This check-in has not been edited.</p>;
+  }
+
+  // Each revision's result is the state before the next newer one
+  const statesBefore = revisions.map(revision => getStateBefore(revision.id));
+
+  const handleRevert = (revisionId: string) => {
+    const result = revert(revisionId);
+    setError(result.success ? null : result.error.message);
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <ul className="space-y-3">
+        {revisions.map((revision, index) => {
+          const after = index === 0 ? entry : statesBefore[index - 1];
+          const isOldest = index === revisions.length - 1;
+
+          return (
+            <li key={revision.id} className="p-3 rounded-lg border border-border space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-sm font-medium text-foreground">
+                  Edited {format(revision.editedAt, 'MMM d, yyyy HH:mm')}
+                </span>
+                <button
+                  onClick={() => handleRevert(revision.id)}
+                  className="btn btn-outline btn-sm flex items-center gap-2"
+                >
+                  <RotateCcw className="w-4 h-4" />
+                  {isOldest ? 'Restore Original' : 'Revert to Before'}
+                </button>
+              </div>
+              <ul className="text-xs space-y-1">
+                {revision.changedFields.map(field => (
+                  <li key={field} className="text-muted-foreground">
+                    <span className="text-foreground">{FIELD_LABELS[field] ?? field}</span>:{' '}
+                    {formatFieldValue(revision.previousValues[field])} → {formatFieldValue(after?.[field])}
+                  </li>
+                ))}
+              </ul>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Main EntryEditor component, shown as a dialog
+ */
+export function EntryEditor({ entryId, onClose }: { entryId: string; onClose: () => void }) {
+  const { value: entries, loading } = useMoodEntries();
+  const { revisions } = useEntryRevisions(entryId);
+  const [tab, setTab] = useState<'edit' | 'history'>('edit');
+  const entry = entries.find(e => e.id === entryId);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Edit check-in"
+        className="bg-card border border-border rounded-lg p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-foreground">Edit Check-in</h3>
+            {entry && (
+              <p className="text-sm text-muted-foreground">{format(entry.timestamp, 'EEE, MMM d, yyyy h:mm a')}</p>
+            )}
+          </div>
+          <button onClick={onClose} aria-label="Close" className="p-1 text-muted-foreground hover:text-foreground">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => setTab('edit')}
+            className={`btn btn-sm flex items-center gap-2 ${tab === 'edit' ? 'btn-primary' : 'btn-outline'}`}
+          >
+            <Pencil className="w-4 h-4" />
+            Edit
+          </button>
+          <button
+            onClick={() => setTab('history')}
+            className={`btn btn-sm flex items-center gap-2 ${tab === 'history' ? 'btn-primary' : 'btn-outline'}`}
+          >
+            <History className="w-4 h-4" />
+            History{revisions.length > 0 && ` (${revisions.length})`}
+          </button>
+        </div>
+
+        {loading ? null : !entry ? (
+          <p className="text-sm text-muted-foreground">This check-in no longer exists. It may be in the trash.</p>
+        ) : tab === 'edit' ? (
+          // Remount after each edit or revert so the form shows the saved values
+          <EntryForm key={revisions[0]?.id ?? 'original'} entry={entry} onSaved={onClose} onDeleted={onClose} />
+        ) : (
+          <RevisionHistory entry={entry} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+/**
+ * CampusThrive Goals Component
+ *
+ * Features:
+ * - Weekly goals from templates or built from metric, aggregation and target
+ * - Progress bars for this week, colored by status (on track, at risk, met, missed)
+ * - Met/missed history of finished weeks per goal
+ * - Pause, resume and delete goals; paused goals keep their history
+ * - Validation before a goal is saved
+ */
+
+'use client';
+
+import { useState } from 'react';
+import {
+  useMoodEntries,
+  useScoringProfiles,
+  useDailySummaries,
+  useGoals,
+  useGoalProgress
+} from '@/hooks/useLocalStorage';
+import {
+  GOAL_METRIC_LABELS,
+  GOAL_TEMPLATES,
+  describeGoal,
+  getGoalErrors
+} from '@/lib/goals';
+import { getDayDate } from '@/lib/daily';
+import { Goal, GoalAggregation, GoalMetric, GoalProgress, GoalStatus } from '@/types';
+import { Target, Plus, Pause, Play, Trash2, AlertCircle, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+type GoalDraft = Omit<Goal, 'id' | 'active' | 'createdAt'>;
+
+const STATUS_STYLES: Record<GoalStatus, { label: string; bar: string; badge: string }> = {
+  met: { label: 'Met', bar: 'bg-green-500', badge: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300' },
+  'on-track': { label: 'On track', bar: 'bg-blue-500', badge: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300' },
+  'at-risk': { label: 'At risk', bar: 'bg-amber-500', badge: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' },
+  missed: { label: 'Missed', bar: 'bg-red-500', badge: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300' },
+  'no-data': { label: 'No data yet', bar: 'bg-muted-foreground', badge: 'bg-muted text-muted-foreground' }
+};
+
+const AGGREGATION_LABELS: Record<GoalAggregation, string> = {
+  average: 'Weekly average',
+  total: 'Weekly total',
+  days: 'Number of days'
+};
+
+const HISTORY_WEEKS = 8;
+
+/**
+ * Goal progress value as text, e.g. "2.8 of ≤ 2.5" or "3 of 5 days"
+ */
+function formatProgress(goal: Goal, progress: GoalProgress): string {
+  if (progress.value === null) {
+    return 'Nothing logged this week';
+  }
+  if (goal.aggregation === 'days') {
+    return `${progress.value} of ${goal.target} days`;
+  }
+  const unit = GOAL_METRIC_LABELS[goal.metric].unit;
+  const sign = goal.comparator === 'atMost' ? '≤' : '≥';
+  return `${progress.value}${unit ? ` ${unit}` : ''} (target ${sign} ${goal.target})`;
+}
+
+/**
+ * Form for adding a goal
+ */
+function GoalForm({ onAdd, onCancel }: { onAdd: (draft: GoalDraft) => void; onCancel: () => void }) {
+  const [draft, setDraft] = useState<GoalDraft>(GOAL_TEMPLATES[0]!);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const update = (updates: Partial<GoalDraft>) => {
+    const next = { ...draft, ...updates };
+    // A days goal needs a daily threshold; other goals must not carry one
+    if (next.aggregation === 'days' && next.dayThreshold === undefined) {
+      next.dayThreshold = next.metric === 'recoveryAction' ? 1 : next.target;
+    }
+    if (next.aggregation !== 'days') {
+      delete next.dayThreshold;
+    }
+    setDraft(next);
+    setErrors([]);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const problems = getGoalErrors(draft);
+    setErrors(problems);
+    if (problems.length === 0) {
+      onAdd(draft);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 rounded border border-border bg-background text-foreground text-sm';
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 p-4 rounded-lg border border-border bg-muted/30">
+      <div className="flex flex-wrap gap-2">
+        {GOAL_TEMPLATES.map(template => (
+          <button
+            key={template.title}
+            type="button"
+            onClick={() => { setDraft(template); setErrors([]); }}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+              draft.title === template.title
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-muted text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {template.title}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="space-y-1 text-sm text-foreground sm:col-span-2">
+          <span>Name</span>
+          <input type="text" value={draft.title} onChange={(e) => update({ title: e.target.value })} className={inputClass} />
+        </label>
+        <label className="space-y-1 text-sm text-foreground">
+          <span>Metric</span>
+          <select value={draft.metric} onChange={(e) => update({ metric: e.target.value as GoalMetric })} className={inputClass}>
+            {(Object.keys(GOAL_METRIC_LABELS) as GoalMetric[]).map(metric => (
+              <option key={metric} value={metric}>{GOAL_METRIC_LABELS[metric].label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-sm text-foreground">
+          <span>Measured as</span>
+          <select value={draft.aggregation} onChange={(e) => update({ aggregation: e.target.value as GoalAggregation })} className={inputClass}>
+            {(Object.keys(AGGREGATION_LABELS) as GoalAggregation[]).map(aggregation => (
+              <option key={aggregation} value={aggregation}>{AGGREGATION_LABELS[aggregation]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-sm text-foreground">
+          <span>{draft.aggregation === 'days' ? 'Each day' : 'Direction'}</span>
+          <select value={draft.comparator} onChange={(e) => update({ comparator: e.target.value as Goal['comparator'] })} className={inputClass}>
+            <option value="atLeast">At least</option>
+            <option value="atMost">At most</option>
+          </select>
+        </label>
+        {draft.aggregation === 'days' && (
+          <label className="space-y-1 text-sm text-foreground">
+            <span>Daily value</span>
+            <input
+              type="number"
+              step="any"
+              value={draft.dayThreshold ?? ''}
+              onChange={(e) => update({ dayThreshold: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+        )}
+        <label className="space-y-1 text-sm text-foreground">
+          <span>{draft.aggregation === 'days' ? 'Days per week' : 'Target'}</span>
+          <input
+            type="number"
+            step="any"
+            min={0}
+            value={draft.target}
+            onChange={(e) => update({ target: Number(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <p className="text-xs text-muted-foreground">{describeGoal(draft)}</p>
+
+      {errors.length > 0 && (
+        <ul className="space-y-1">
+          {errors.map(error => (
+            <li key={error} className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <button type="submit" className="px-4 py-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium">
+          Save goal
+        </button>
+        <button type="button" onClick={onCancel} className="px-4 py-2 rounded-lg bg-muted text-foreground text-sm font-medium">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Met/missed dots for a goal's finished weeks, oldest first
+ */
+function GoalHistory({ weeks }: { weeks: GoalProgress[] }) {
+  if (weeks.length === 0) {
+    return null;
+  }
+
+  const met = weeks.filter(week => week.status === 'met').length;
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      <div className="flex gap-1">
+        {[...weeks].reverse().map(week => (
+          <span
+            key={week.weekStart}
+            className={`w-3 h-3 rounded-full ${week.status === 'met' ? 'bg-green-500' : 'bg-red-400'}`}
+            title={`Week of ${format(getDayDate(week.weekStart), 'MMM d')}: ${STATUS_STYLES[week.status].label}`}
+          />
+        ))}
+      </div>
+      <span>Met {met} of the last {weeks.length} week{weeks.length === 1 ? '' : 's'}</span>
+    </div>
+  );
+}
+
+/**
+ * Main Goals component
+ */
+export function Goals() {
+  const { value: moodEntries, loading: entriesLoading } = useMoodEntries();
+  const { activeProfile, loading: profilesLoading } = useScoringProfiles();
+  const { summaries, dayStartHour, loading: summariesLoading } = useDailySummaries(
+    moodEntries,
+    activeProfile,
+    !entriesLoading && !profilesLoading
+  );
+  const { value: goals, setValue: setGoals, loading: goalsLoading } = useGoals();
+  const { current, history } = useGoalProgress(
+    goals,
+    summaries,
+    dayStartHour,
+    !goalsLoading && !entriesLoading && !summariesLoading
+  );
+  const [showForm, setShowForm] = useState(false);
+
+  const pausedGoals = goals.filter(goal => !goal.active);
+
+  const addGoal = (draft: GoalDraft) => {
+    setGoals(prev => [...prev, {
+      ...draft,
+      id: `goal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      active: true,
+      createdAt: new Date()
+    }]);
+    setShowForm(false);
+  };
+
+  const setActive = (goalId: string, active: boolean) => {
+    setGoals(prev => prev.map(goal => goal.id === goalId ? { ...goal, active } : goal));
+  };
+
+  const removeGoal = (goalId: string) => {
+    setGoals(prev => prev.filter(goal => goal.id !== goalId));
+  };
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Target className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">This Week&apos;s Goals</h3>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-primary text-primary-foreground text-sm font-medium"
+          >
+            <Plus className="w-4 h-4" />
+            Add goal
+          </button>
+        )}
+      </div>
+
+      {showForm && <GoalForm onAdd={addGoal} onCancel={() => setShowForm(false)} />}
+
+      {current.length === 0 && !showForm && (
+        <p className="text-sm text-muted-foreground">
+          Set a weekly target, such as average stress at most 2.5 or seven hours of sleep on five nights,
+          and track it here as you check in.
+        </p>
+      )}
+
+      <ul className="space-y-4">
+        {current.map(({ goal, progress }) => {
+          const style = STATUS_STYLES[progress.status];
+          const weeks = history.filter(week => week.goalId === goal.id).slice(0, HISTORY_WEEKS);
+
+          return (
+            <li key={goal.id} className="space-y-2">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <div className="font-medium text-foreground">{goal.title}</div>
+                  <div className="text-xs text-muted-foreground">{describeGoal(goal)}</div>
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${style.badge}`}>{style.label}</span>
+                  <button
+                    onClick={() => setActive(goal.id, false)}
+                    className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted"
+                    title="Pause goal"
+                    aria-label={`Pause ${goal.title}`}
+                  >
+                    <Pause className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => removeGoal(goal.id)}
+                    className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted"
+                    title="Delete goal"
+                    aria-label={`Delete ${goal.title}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="h-2 rounded-full bg-muted overflow-hidden">
+                <div className={`h-full rounded-full transition-all ${style.bar}`} style={{ width: `${progress.progress * 100}%` }} />
+              </div>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="text-xs text-muted-foreground">{formatProgress(goal, progress)}</span>
+                <GoalHistory weeks={weeks} />
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {pausedGoals.length > 0 && (
+        <div className="pt-2 border-t border-border space-y-2">
+          <div className="text-xs font-medium text-muted-foreground">Paused</div>
+          {pausedGoals.map(goal => (
+            <div key={goal.id} className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">{goal.title}</span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setActive(goal.id, true)}
+                  className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted"
+                  title="Resume goal"
+                  aria-label={`Resume ${goal.title}`}
+                >
+                  <Play className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => removeGoal(goal.id)}
+                  className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted"
+                  title="Delete goal"
+                  aria-label={`Delete ${goal.title}`}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -18,7 +18,9 @@ import {
   Home, 
   BarChart3, 
   Grid3X3, 
+  CalendarClock,
   Download,
+  SlidersHorizontal,
   Shield,
   ShieldCheck,
   Menu,
@@ -80,12 +82,26 @@ const NAVIGATION_ITEMS: NavItem[] = [
     href: '/patterns',
     description: 'Discover insights and correlations'
   },
+  {
+    id: 'schedule',
+    label: 'Plan',
+    icon: CalendarClock,
+    href: '/schedule',
+    description: 'Plan your week around your power hours'
+  },
   {
     id: 'export',
     label: 'Export',
     icon: Download,
     href: '/export',
     description: 'Download your data securely'
+  },
+  {
+    id: 'settings',
+    label: 'Settings',
+    icon: SlidersHorizontal,
+    href: '/settings',
+    description: 'Configure scoring profiles'
   }
 ];
 
@@ -133,7 +149,7 @@ function MobileBottomNav() {
 
   return (
     <nav className="fixed bottom-0 left-0 right-0 z-50 bg-background border-t border-border md:hidden">
-      <div className="grid grid-cols-4 h-16">
+      <div className="grid grid-cols-6 h-16">
         {NAVIGATION_ITEMS.map((item) => {
           const isActive = pathname === item.href;
           const Icon = item.icon;
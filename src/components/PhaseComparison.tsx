@@ -0,0 +1,102 @@
+/**
+ * CampusThrive Phase Comparison Component
+ *
+ * Features:
+ * - Average MC, DSS, stress and sleep per semester phase type
+ * - Days outside every phase shown as their own row
+ * - Highlights the phase selected in the page's phase filter
+ * - Points to the settings page while no phases are defined
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { ACADEMIC_PHASE_LABELS, comparePhases, type PhaseFilter } from '@/lib/phases';
+import type { AcademicPhase, DailySummary } from '@/types';
+import { GraduationCap, Info } from 'lucide-react';
+
+/**
+ * Display label for a phase filter value
+ */
+export function getPhaseFilterLabel(filter: PhaseFilter): string {
+  if (filter === 'all') return 'All phases';
+  if (filter === 'none') return 'Outside phases';
+  return ACADEMIC_PHASE_LABELS[filter];
+}
+
+/**
+ * Main PhaseComparison component
+ */
+export function PhaseComparison({
+  summaries,
+  phases,
+  selected = 'all',
+  samePhaseBaselines = false
+}: {
+  summaries: DailySummary[];
+  phases: AcademicPhase[];
+  selected?: PhaseFilter;
+  samePhaseBaselines?: boolean;
+}) {
+  const rows = useMemo(() => comparePhases(summaries, phases), [summaries, phases]);
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <GraduationCap className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold text-foreground">Semester Phases</h3>
+      </div>
+
+      {phases.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Add classes, midterms, finals and breaks on the <a href="/settings" className="text-primary hover:underline">Settings</a> page
+          to compare how each phase of the semester goes.
+        </p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="py-2 pr-4 font-medium">Phase</th>
+                  <th className="py-2 pr-4 font-medium text-right">Days</th>
+                  <th className="py-2 pr-4 font-medium text-right">MC</th>
+                  <th className="py-2 pr-4 font-medium text-right">DSS</th>
+                  <th className="py-2 pr-4 font-medium text-right">Stress</th>
+                  <th className="py-2 font-medium text-right">Sleep</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr
+                    key={row.phase}
+                    className={`border-b border-border last:border-0 ${row.phase === selected ? 'bg-primary/5 font-medium' : ''}`}
+                  >
+                    <td className="py-2 pr-4 text-foreground">{getPhaseFilterLabel(row.phase)}</td>
+                    <td className="py-2 pr-4 text-right text-muted-foreground">{row.days}</td>
+                    <td className="py-2 pr-4 text-right text-foreground">{row.MC.toFixed(2)}</td>
+                    <td className="py-2 pr-4 text-right text-foreground">{row.DSS.toFixed(2)}</td>
+                    <td className="py-2 pr-4 text-right text-foreground">{row.stress.toFixed(1)}</td>
+                    <td className="py-2 text-right text-foreground">
+                      {row.sleepHours !== null ? `${row.sleepHours.toFixed(1)}h` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {samePhaseBaselines && (
+            <div className="flex items-start gap-2 text-xs text-muted-foreground">
+              <Info className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>
+                Scores are measured within each phase, so MC and DSS show how a phase went compared with
+                earlier phases of the same kind. Stress and sleep are raw averages and compare directly.
+              </span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,11 @@
  * CampusThrive Power Hours Heatmap Component
  * 
  * Features:
- * - 7x24 grid showing MC values by day/hour
- * - Color intensity based on average MC values
- * - Interactive hover tooltips
+ * - 7x24 grid showing MC, DSS, focus or energy by day/hour
+ * - Color intensity based on smoothed averages, so sparse cells are not extreme
+ * - Cells faded by confidence (how many entries back them)
+ * - Interactive hover tooltips with entry counts
+ * - Top peak hours listed from the smoothed scores
  * - Responsive design for mobile
  * - Theme-aware color palettes
  * - Loading and empty states
@@ -13,8 +15,8 @@
 'use client';
 
 import { useState, useEffect, useMemo } from 'react';
-import { useMoodEntries } from '@/hooks/useLocalStorage';
-import { MoodEntry } from '@/types';
+import { useMoodEntries, useScoringProfiles, useScoreCache } from '@/hooks/useLocalStorage';
+import { PowerHourHeatmap, PowerHourMetric } from '@/types';
 import { 
   Clock,
   Loader2,
@@ -23,7 +25,17 @@ import {
   Zap,
   Moon
 } from 'lucide-react';
-import { getDay, getHours } from 'date-fns';
+import { generatePowerHours, POWER_HOURS_CONFIG } from '@/lib/scoring';
+
+/**
+ * Metric options for the heatmap
+ */
+const METRIC_OPTIONS: Array<{ value: PowerHourMetric; label: string; scaleLabel: string }> = [
+  { value: 'MC', label: 'Mood', scaleLabel: 'Mood Composite Scale' },
+  { value: 'DSS', label: 'Study Success', scaleLabel: 'Daily Success Scale' },
+  { value: 'focus', label: 'Focus', scaleLabel: 'Focus Scale' },
+  { value: 'energy', label: 'Energy', scaleLabel: 'Energy Scale' }
+];
 
 /**
  * Heatmap data point interface
@@ -31,8 +43,9 @@ import { getDay, getHours } from 'date-fns';
 interface HeatmapDataPoint {
   day: number; // 0-6 (Sunday-Saturday)
   hour: number; // 0-23
-  mcValue: number; // Average MC for this time slot
+  value: number; // Smoothed 0-5 score for this time slot
   sampleSize: number; // Number of entries for this time slot
+  confidence: number; // 0-1, share of the score backed by this slot's own entries
   dayName: string;
   hourLabel: string;
 }
@@ -53,96 +66,25 @@ interface ColorScale {
  */
 class PowerHoursCalculator {
   /**
-   * Calculate MC (Mood Composite) score for an entry
-   */
-  static calculateMC(entry: MoodEntry): number {
-    const valence = entry.valence;
-    const energy = entry.energy;
-    const focus = entry.focus;
-    const stress = entry.stress;
-    
-    // Enhanced MC calculation with productivity weighting
-    const baseMC = (valence + energy + focus + (5 - stress)) / 4;
-    
-    // Add productivity boost based on deep work and tasks
-    const productivityBoost = Math.min(0.5, 
-      (entry.deepworkMinutes || 0) * 0.001 + 
-      (entry.tasksCompleted || 0) * 0.05
-    );
-    
-    return Math.min(5, baseMC + productivityBoost);
-  }
-
-  /**
-   * Generate heatmap data from mood entries
+   * Flatten a power hour heatmap into grid cells
    */
-  static generateHeatmapData(entries: MoodEntry[]): HeatmapDataPoint[] {
+  static generateHeatmapData(heatmap: PowerHourHeatmap): HeatmapDataPoint[] {
     const data: HeatmapDataPoint[] = [];
-    
-    // Initialize 7x24 grid
+
     for (let day = 0; day < 7; day++) {
       for (let hour = 0; hour < 24; hour++) {
         data.push({
           day,
           hour,
-          mcValue: 0,
-          sampleSize: 0,
+          value: heatmap.matrix[day]?.[hour] ?? 0,
+          sampleSize: heatmap.counts[day]?.[hour] ?? 0,
+          confidence: heatmap.confidence[day]?.[hour] ?? 0,
           dayName: PowerHoursCalculator.getDayName(day),
           hourLabel: PowerHoursCalculator.getHourLabel(hour)
         });
       }
     }
 
-    // Group entries by day and hour
-    const groupedEntries: { [key: string]: MoodEntry[] } = {};
-    
-    console.log('PowerHours: Processing entries', { totalEntries: entries.length });
-    
-    entries.forEach((entry, index) => {
-      const entryDate = new Date(entry.timestamp);
-      const day = getDay(entryDate);
-      const hour = getHours(entryDate);
-      const key = `${day}-${hour}`;
-      
-      if (index < 5) { // Log first 5 entries for debugging
-        console.log('PowerHours: Entry', {
-          index,
-          timestamp: entry.timestamp,
-          entryDate: entryDate.toISOString(),
-          day,
-          hour,
-          key,
-          mcValue: PowerHoursCalculator.calculateMC(entry)
-        });
-      }
-      
-      if (!groupedEntries[key]) {
-        groupedEntries[key] = [];
-      }
-      groupedEntries[key].push(entry);
-    });
-    
-    console.log('PowerHours: Grouped entries', {
-      totalGroups: Object.keys(groupedEntries).length,
-      groupKeys: Object.keys(groupedEntries).slice(0, 10)
-    });
-
-    // Calculate averages for each time slot
-    Object.entries(groupedEntries).forEach(([key, entries]) => {
-      const [dayStr, hourStr] = key.split('-');
-      const day = parseInt(dayStr || '0');
-      const hour = parseInt(hourStr || '0');
-      
-      const mcValues = entries.map(entry => PowerHoursCalculator.calculateMC(entry));
-      const averageMC = mcValues.reduce((sum, mc) => sum + mc, 0) / mcValues.length;
-      
-      const dataPoint = data.find(d => d.day === day && d.hour === hour);
-      if (dataPoint) {
-        dataPoint.mcValue = averageMC;
-        dataPoint.sampleSize = entries.length;
-      }
-    });
-
     return data;
   }
 
@@ -159,17 +101,11 @@ class PowerHoursCalculator {
   }
 
   static calculateColorScale(data: HeatmapDataPoint[]): ColorScale {
-    const mcValues = data
+    const values = data
       .filter(d => d.sampleSize > 0)
-      .map(d => d.mcValue);
-    
-    console.log('PowerHours: Calculating color scale', {
-      totalDataPoints: data.length,
-      dataPointsWithSamples: mcValues.length,
-      mcValues: mcValues.slice(0, 10)
-    });
+      .map(d => d.value);
     
-    if (mcValues.length === 0) {
+    if (values.length === 0) {
       return {
         min: 0,
         max: 5,
@@ -179,8 +115,8 @@ class PowerHoursCalculator {
       };
     }
 
-    const min = Math.min(...mcValues);
-    const max = Math.max(...mcValues);
+    const min = Math.min(...values);
+    const max = Math.max(...values);
     const steps = 5;
 
     const lightColors = [
@@ -212,13 +148,16 @@ class PowerHoursCalculator {
   static getColorForValue(
     value: number, 
     colorScale: ColorScale, 
-    isDark: boolean
+    isDark: boolean,
+    isEmpty: boolean
   ): string {
-    if (value === 0) {
+    // Emptiness comes from the sample size, since a smoothed score can be 0
+    if (isEmpty) {
       return isDark ? '#1f2937' : '#f9fafb'; // Empty cell color
     }
 
-    const normalizedValue = (value - colorScale.min) / (colorScale.max - colorScale.min);
+    const range = colorScale.max - colorScale.min;
+    const normalizedValue = range > 0 ? (value - colorScale.min) / range : 1;
     const stepIndex = Math.min(
       Math.floor(normalizedValue * colorScale.steps),
       colorScale.steps - 1
@@ -293,34 +232,43 @@ function ColorLegend({ colorScale, isDark }: { colorScale: ColorScale; isDark: b
  */
 function HeatmapCell({ 
   dataPoint, 
+  metricLabel,
   colorScale, 
   isDark, 
   onHover 
 }: { 
   dataPoint: HeatmapDataPoint;
+  metricLabel: string;
   colorScale: ColorScale;
   isDark: boolean;
   onHover: (dataPoint: HeatmapDataPoint | null, event?: React.MouseEvent) => void;
 }) {
+  const isEmpty = dataPoint.sampleSize === 0;
+  const isLowConfidence = !isEmpty && dataPoint.confidence < POWER_HOURS_CONFIG.LOW_CONFIDENCE;
+
   const color = PowerHoursCalculator.getColorForValue(
-    dataPoint.mcValue, 
+    dataPoint.value, 
     colorScale, 
-    isDark
+    isDark,
+    isEmpty
   );
 
-  const isEmpty = dataPoint.sampleSize === 0;
-
   return (
     <div
       className={`
-        w-8 h-8 rounded border border-border cursor-pointer transition-all duration-200
+        w-8 h-8 rounded border cursor-pointer transition-all duration-200
+        ${isLowConfidence ? 'border-dashed border-muted-foreground/40' : 'border-border'}
         ${isEmpty ? 'opacity-50' : 'hover:scale-110 hover:z-10'}
-        ${dataPoint.mcValue > 0 ? 'hover:shadow-lg' : ''}
+        ${!isEmpty ? 'hover:shadow-lg' : ''}
       `}
-      style={{ backgroundColor: color }}
+      style={{
+        backgroundColor: color,
+        // Fade cells backed by few entries; empty cells keep their class opacity
+        ...(!isEmpty && { opacity: 0.35 + 0.65 * dataPoint.confidence })
+      }}
       onMouseEnter={(e) => onHover(dataPoint, e)}
       onMouseLeave={() => onHover(null)}
-      title={isEmpty ? 'No data' : `${dataPoint.dayName} ${dataPoint.hourLabel}: ${dataPoint.mcValue.toFixed(2)} MC (${dataPoint.sampleSize} entries)`}
+      title={isEmpty ? 'No data' : `${dataPoint.dayName} ${dataPoint.hourLabel}: ${dataPoint.value.toFixed(2)} ${metricLabel} (${dataPoint.sampleSize} entries)`}
     />
   );
 }
@@ -330,9 +278,11 @@ function HeatmapCell({
  */
 function HeatmapTooltip({ 
   dataPoint, 
+  metricLabel,
   mousePosition 
 }: { 
   dataPoint: HeatmapDataPoint | null;
+  metricLabel: string;
   mousePosition: { x: number; y: number } | null;
 }) {
   if (!dataPoint || dataPoint.sampleSize === 0 || !mousePosition) {
@@ -371,11 +321,16 @@ function HeatmapTooltip({
           {dataPoint.dayName} {dataPoint.hourLabel}
         </div>
         <div className="text-sm text-muted-foreground">
-          MC: {dataPoint.mcValue.toFixed(2)}
+          {metricLabel}: {dataPoint.value.toFixed(2)}
         </div>
         <div className="text-sm text-muted-foreground">
-          {dataPoint.sampleSize} entr{dataPoint.sampleSize === 1 ? 'y' : 'ies'}
+          {dataPoint.sampleSize} entr{dataPoint.sampleSize === 1 ? 'y' : 'ies'} · {Math.round(dataPoint.confidence * 100)}% confidence
         </div>
+        {dataPoint.confidence < POWER_HOURS_CONFIG.LOW_CONFIDENCE && (
+          <div className="text-xs text-muted-foreground italic">
+            Few entries; mostly based on this weekday and hour overall
+          </div>
+        )}
       </div>
     </div>
   );
@@ -385,22 +340,27 @@ function HeatmapTooltip({
  * Main PowerHours component
  */
 export function PowerHours() {
-  const { value: moodEntries } = useMoodEntries();
+  const { value: moodEntries, loading: entriesLoading } = useMoodEntries();
+  const { activeProfile, loading: profilesLoading } = useScoringProfiles();
+  const scoresById = useScoreCache(moodEntries, activeProfile, !entriesLoading && !profilesLoading);
   const [isLoading, setIsLoading] = useState(true);
   const [hoveredCell, setHoveredCell] = useState<HeatmapDataPoint | null>(null);
   const [mousePosition, setMousePosition] = useState<{ x: number; y: number } | null>(null);
   const [isDark, setIsDark] = useState(false);
+  const [metric, setMetric] = useState<PowerHourMetric>('MC');
+
+  const metricOption = METRIC_OPTIONS.find(option => option.value === metric) ?? METRIC_OPTIONS[0]!;
+
+  // Smoothed heatmap for the selected metric
+  const heatmap = useMemo(
+    () => generatePowerHours(moodEntries, activeProfile, scoresById, { metric }),
+    [moodEntries, activeProfile, scoresById, metric]
+  );
 
   // Generate heatmap data
   const heatmapData = useMemo(() => {
-    const data = PowerHoursCalculator.generateHeatmapData(moodEntries);
-    console.log('PowerHours: Generated heatmap data', {
-      totalEntries: moodEntries.length,
-      dataPointsWithData: data.filter(d => d.sampleSize > 0).length,
-      sampleData: data.filter(d => d.sampleSize > 0).slice(0, 5)
-    });
-    return data;
-  }, [moodEntries]);
+    return PowerHoursCalculator.generateHeatmapData(heatmap);
+  }, [heatmap]);
 
   // Calculate color scale
   const colorScale = useMemo(() => {
@@ -409,13 +369,6 @@ export function PowerHours() {
 
   // Check if we have enough data
   const hasData = heatmapData.some(d => d.sampleSize > 0);
-  
-  console.log('PowerHours: Data check', {
-    hasData,
-    totalDataPoints: heatmapData.length,
-    dataPointsWithSamples: heatmapData.filter(d => d.sampleSize > 0).length,
-    sampleDataPoints: heatmapData.filter(d => d.sampleSize > 0).slice(0, 3)
-  });
 
   // Handle mouse hover with position tracking
   const handleCellHover = (dataPoint: HeatmapDataPoint | null, event?: React.MouseEvent) => {
@@ -471,8 +424,23 @@ export function PowerHours() {
         </div>
         <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
           Discover your optimal performance hours throughout the week. 
-          Darker colors indicate higher mood composite scores.
+          Darker colors indicate higher scores; faded cells have few entries behind them.
         </p>
+        <div className="flex flex-wrap justify-center gap-2">
+          {METRIC_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              onClick={() => setMetric(option.value)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                metric === option.value
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
       </div>
 
       {/* Color Legend */}
@@ -480,7 +448,7 @@ export function PowerHours() {
         <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
           <div className="flex items-center gap-2">
             <BarChart3 className="w-4 h-4 text-muted-foreground" />
-            <span className="text-sm font-medium text-foreground">Mood Composite Scale</span>
+            <span className="text-sm font-medium text-foreground">{metricOption.scaleLabel}</span>
           </div>
           <ColorLegend colorScale={colorScale} isDark={isDark} />
         </div>
@@ -518,6 +486,7 @@ export function PowerHours() {
                       <HeatmapCell
                         key={`${day}-${hour}`}
                         dataPoint={dataPoint}
+                        metricLabel={metricOption.label}
                         colorScale={colorScale}
                         isDark={isDark}
                         onHover={handleCellHover}
@@ -533,7 +502,7 @@ export function PowerHours() {
       </div>
 
       {/* Tooltip - positioned outside scrollable container */}
-      <HeatmapTooltip dataPoint={hoveredCell} mousePosition={mousePosition} />
+      <HeatmapTooltip dataPoint={hoveredCell} metricLabel={metricOption.label} mousePosition={mousePosition} />
 
       {/* Insights */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -546,6 +515,21 @@ export function PowerHours() {
             Look for the darkest colored cells to identify your peak performance hours. 
             These are the best times for important tasks, studying, or creative work.
           </p>
+          {heatmap.peakHours.length > 0 && (
+            <ul className="mt-4 space-y-2 text-sm">
+              {heatmap.peakHours.slice(0, 3).map(cell => (
+                <li key={`${cell.weekday}-${cell.hour}`} className="flex items-center justify-between">
+                  <span className="font-medium text-foreground">
+                    {PowerHoursCalculator.getDayName(cell.weekday)} {PowerHoursCalculator.getHourLabel(cell.hour)}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {cell.score.toFixed(2)} · {cell.count} entr{cell.count === 1 ? 'y' : 'ies'}
+                    {cell.confidence < POWER_HOURS_CONFIG.LOW_CONFIDENCE && ' (low confidence)'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
 
         <div className="card p-6">
@@ -0,0 +1,144 @@
+/**
+ * CampusThrive Quarantine Review Component
+ *
+ * Features:
+ * - Lists records set aside because they failed validation
+ * - Shows each problem with its path, what was expected and what was found
+ * - Edits a record as JSON and restores it once it passes validation
+ * - Drops records that cannot be repaired
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useQuarantine } from '@/hooks/useLocalStorage';
+import { STORAGE_CONFIG } from '@/lib/storage';
+import type { QuarantinedRecord } from '@/types';
+import { ShieldAlert, RotateCcw, Trash2, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+/**
+ * What a record under each storage key is called
+ */
+const RECORD_LABELS: Record<string, string> = {
+  [STORAGE_CONFIG.KEYS.MOOD_ENTRIES]: 'Check-in',
+  [STORAGE_CONFIG.KEYS.SETTINGS]: 'Settings',
+  [STORAGE_CONFIG.KEYS.GOALS]: 'Goal',
+  [STORAGE_CONFIG.KEYS.GOAL_HISTORY]: 'Goal week',
+  [STORAGE_CONFIG.KEYS.STUDY_TASKS]: 'Study task',
+  [STORAGE_CONFIG.KEYS.STUDY_PLAN]: 'Study plan',
+  [STORAGE_CONFIG.KEYS.ANOMALIES]: 'Alert',
+  [STORAGE_CONFIG.KEYS.MIGRATION_LOG]: 'Migration log entry',
+  [STORAGE_CONFIG.KEYS.TRASH]: 'Deleted check-in',
+  [STORAGE_CONFIG.KEYS.ENTRY_REVISIONS]: 'Check-in revision'
+};
+
+/**
+ * One quarantined record with its editor
+ */
+function QuarantinedRecordCard({
+  record,
+  onRepair,
+  onDrop
+}: {
+  record: QuarantinedRecord;
+  onRepair: (json: string) => string | null;
+  onDrop: () => void;
+}) {
+  const [json, setJson] = useState(() => JSON.stringify(record.value, null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  return (
+    <li className="p-4 rounded-lg border border-border space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="font-medium text-foreground">{RECORD_LABELS[record.key] ?? record.key}</span>
+        <span className="text-xs text-muted-foreground">
+          Set aside {format(record.quarantinedAt, 'MMM d, yyyy HH:mm')}
+        </span>
+      </div>
+
+      <ul className="text-sm space-y-1">
+        {record.issues.map(issue => (
+          <li key={`${issue.path}-${issue.expected}`} className="text-red-600">
+            <span className="font-mono">{issue.path || 'value'}</span>: expected {issue.expected}, found {issue.received}
+          </li>
+        ))}
+      </ul>
+
+      <textarea
+        value={json}
+        onChange={(e) => setJson(e.target.value)}
+        rows={Math.min(12, json.split('\n').length)}
+        spellCheck={false}
+        aria-label="Record JSON"
+        className="w-full px-3 py-2 rounded border border-border bg-background text-foreground text-xs font-mono"
+      />
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex gap-2 justify-end">
+        <button onClick={onDrop} className="btn btn-outline btn-sm flex items-center gap-2">
+          <Trash2 className="w-4 h-4" />
+          Drop
+        </button>
+        <button onClick={() => setError(onRepair(json))} className="btn btn-primary btn-sm flex items-center gap-2">
+          <RotateCcw className="w-4 h-4" />
+          Restore
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Main QuarantineReview component
+ */
+export function QuarantineReview({ onRestored }: { onRestored?: (key: string) => void }) {
+  const { records, repair, drop, loading } = useQuarantine();
+
+  const handleRepair = (record: QuarantinedRecord, json: string): string | null => {
+    const result = repair(record.id, json);
+    if (!result.success) {
+      return result.error.message;
+    }
+    onRestored?.(record.key);
+    return null;
+  };
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <ShieldAlert className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold text-foreground">Quarantined Records</h3>
+      </div>
+
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Records that fail validation when they are read are set aside here instead of being deleted.
+          Fix a record and restore it, or drop it if it cannot be saved. Restored settings and study plans
+          replace the current ones.
+        </p>
+
+        {loading ? null : records.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing is quarantined. Everything in storage passed validation.</p>
+        ) : (
+          <ul className="space-y-3">
+            {records.map(record => (
+              <QuarantinedRecordCard
+                key={record.id}
+                record={record}
+                onRepair={(json) => handleRepair(record, json)}
+                onDrop={() => drop(record.id)}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,16 +4,21 @@
  * Displays comprehensive wellness metrics including:
  * - Mood Composite (MC) with baseline comparison
  * - Daily Success Score (DSS) breakdown
+ * - Expandable "why this score?" panel ranking each component's contribution
  * - Learning Momentum (LM), Recovery Index (RI), Connection (CN)
+ * - Burnout Risk with its contributors and recent history
  * - Streak counters and historical data visualization
  */
 
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { calculateMC, calculateDSS, calculateStreak } from '@/lib/scoring';
+import { scoreEntry, averageScores } from '@/lib/scoring';
 import { StorageManager } from '@/lib/storage';
-import type { MoodEntry } from '@/types';
+import { useScoringProfiles, useScoreCache, useDailySummaries, useStreakReport, useBurnoutRisk } from '@/hooks/useLocalStorage';
+import { BURNOUT_CONFIG, BURNOUT_COMPONENT_LABELS, getBurnoutContributors } from '@/lib/burnout';
+import { explainScores } from '@/lib/explain';
+import type { MoodEntry, BurnoutRisk, BurnoutLevel, ComputedScores, ScoreExplanation } from '@/types';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -26,18 +31,22 @@ import {
   Brain,
   Shield,
   AlertCircle,
-  Loader2
+  Loader2,
+  Flame,
+  HelpCircle,
+  ChevronDown,
+  ChevronUp
 } from 'lucide-react';
 
 /**
- * Custom hook that directly accesses localStorage and forces updates
+ * Custom hook that reads mood entries straight from storage and forces updates
  */
 function useDirectMoodEntries() {
   const [entries, setEntries] = useState<MoodEntry[]>([]);
   const [version, setVersion] = useState(0);
 
   const refreshEntries = useCallback(() => {
-    console.log('useDirectMoodEntries: Refreshing entries from localStorage');
+    console.log('useDirectMoodEntries: Refreshing entries from storage');
     try {
       const result = StorageManager.getItem('campus-thrive-mood-entries', (data): data is MoodEntry[] => Array.isArray(data), []);
       if (result.success && Array.isArray(result.data)) {
@@ -56,9 +65,9 @@ function useDirectMoodEntries() {
     }
   }, []);
 
-  // Initial load
+  // Initial load, once the storage backend is open
   useEffect(() => {
-    refreshEntries();
+    StorageManager.initialize().then(refreshEntries);
   }, [refreshEntries]);
 
   // Listen for storage changes
@@ -68,7 +77,7 @@ function useDirectMoodEntries() {
       refreshEntries();
     };
 
-    window.addEventListener('storage', handleStorageChange);
+    const unsubscribe = StorageManager.getAdapter().subscribe(handleStorageChange);
     
     // Also poll for changes every 500ms when data loading
     const pollInterval = setInterval(() => {
@@ -76,7 +85,7 @@ function useDirectMoodEntries() {
     }, 500);
 
     return () => {
-      window.removeEventListener('storage', handleStorageChange);
+      unsubscribe();
       clearInterval(pollInterval);
     };
   }, [refreshEntries]);
@@ -85,39 +94,18 @@ function useDirectMoodEntries() {
 }
 class ScoreCalculator {
   /**
-   * Calculate baseline scores for comparison
+   * Calculate baseline scores for comparison from canonical entry scores
    */
-  static calculateBaseline(entries: MoodEntry[]): { mc: number; lm: number; ri: number; cn: number } {
-    if (entries.length === 0) return { mc: 0, lm: 0, ri: 0, cn: 0 };
-
-    let totalMC = 0;
-    let totalLM = 0;
-    let totalRI = 0;
-    let totalCN = 0;
-
-    entries.forEach(entry => {
-      // Simple MC calculation for baseline
-      const mc = (entry.valence + entry.energy + entry.focus + (5 - entry.stress)) / 4;
-      totalMC += mc;
-
-      // Simple LM calculation
-      const lm = entry.focus + (entry.deepworkMinutes || 0) * 0.1;
-      totalLM += lm;
-
-      // Simple RI calculation
-      const ri = (entry.sleepHours || 7) * 0.3 + (entry.recoveryAction ? 1 : 0) * 0.2 + (5 - entry.stress) * 0.1;
-      totalRI += ri;
-
-      // Simple CN calculation
-      const cn = (entry.socialTouchpoints || 0) * 0.1 + (entry.valence > 3 ? 0.2 : 0);
-      totalCN += cn;
-    });
+  static calculateBaseline(scores: ComputedScores[]): { mc: number; lm: number; ri: number; cn: number } {
+    if (scores.length === 0) return { mc: 0, lm: 0, ri: 0, cn: 0 };
+
+    const average = averageScores(scores);
 
     return {
-      mc: totalMC / entries.length,
-      lm: totalLM / entries.length,
-      ri: totalRI / entries.length,
-      cn: totalCN / entries.length
+      mc: average.MC,
+      lm: average.LM,
+      ri: average.RI,
+      cn: average.CN
     };
   }
 }
@@ -240,6 +228,193 @@ function ProgressBar({ value, max, label, color }: ProgressBarProps) {
   );
 }
 
+/**
+ * Ranked contributions and summary for one score
+ */
+function ScoreExplanationDetail({ explanation }: { explanation: ScoreExplanation }) {
+  const largest = Math.max(0.01, ...explanation.contributions.map(c => Math.abs(c.contribution)));
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-baseline justify-between">
+        <h4 className="font-semibold text-foreground">{explanation.metric === 'MC' ? 'Mood Composite' : 'Daily Success Score'}</h4>
+        <span className="text-xs text-muted-foreground">Baseline: {explanation.baselineLabel}</span>
+      </div>
+      <p className="text-sm text-muted-foreground">{explanation.summary}</p>
+      {explanation.isValid && (
+        <div className="space-y-2">
+          {explanation.contributions.map(contribution => {
+            const positive = contribution.contribution >= 0;
+            return (
+              <div key={contribution.component} className="space-y-1">
+                <div className="flex justify-between text-xs">
+                  <span className="text-foreground">
+                    {contribution.label}
+                    <span className="text-muted-foreground">
+                      {' '}· {contribution.raw} vs {contribution.mean} ± {contribution.sigma} · weight {contribution.weight}
+                    </span>
+                  </span>
+                  <span className={positive ? 'text-green-600' : 'text-red-600'}>
+                    {positive ? '+' : ''}{contribution.contribution.toFixed(2)}
+                  </span>
+                </div>
+                <div className="w-full bg-muted rounded-full h-1.5">
+                  <div
+                    className={`h-1.5 rounded-full ${positive ? 'bg-green-500' : 'bg-red-500'}`}
+                    style={{ width: `${(Math.abs(contribution.contribution) / largest) * 100}%` }}
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Expandable panel explaining the latest MC and DSS
+ */
+function ScoreExplanationPanel({
+  explanation,
+  expanded,
+  onToggle,
+  isLoading
+}: {
+  explanation: { MC: ScoreExplanation; DSS: ScoreExplanation } | null;
+  expanded: boolean;
+  onToggle: () => void;
+  isLoading: boolean;
+}) {
+  if (!explanation) {
+    return null;
+  }
+
+  return (
+    <div className={`card transition-all duration-500 ${isLoading ? 'opacity-60' : 'opacity-100'}`}>
+      <button
+        onClick={onToggle}
+        className="w-full flex items-center justify-between p-4 text-left"
+        aria-expanded={expanded}
+      >
+        <span className="flex items-center gap-2 font-semibold text-foreground">
+          <HelpCircle className="w-5 h-5 text-primary" />
+          Why these scores?
+        </span>
+        {expanded ? <ChevronUp className="w-5 h-5 text-muted-foreground" /> : <ChevronDown className="w-5 h-5 text-muted-foreground" />}
+      </button>
+      {expanded && (
+        <div className="px-4 pb-4 space-y-4">
+          <p className="text-xs text-muted-foreground">
+            Each bar is weight × z-score: how far a component was from your usual value, scaled by how much it counts.
+            The bars add up to the score.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <ScoreExplanationDetail explanation={explanation.MC} />
+            <ScoreExplanationDetail explanation={explanation.DSS} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Colors per burnout risk level
+ */
+const BURNOUT_LEVEL_STYLES: Record<BurnoutLevel, { text: string; bar: string; label: string }> = {
+  low: { text: 'text-green-600', bar: 'bg-green-500', label: 'Low' },
+  moderate: { text: 'text-yellow-600', bar: 'bg-yellow-500', label: 'Moderate' },
+  high: { text: 'text-orange-600', bar: 'bg-orange-500', label: 'High' },
+  severe: { text: 'text-red-600', bar: 'bg-red-500', label: 'Severe' }
+};
+
+/**
+ * Burnout risk card
+ */
+interface BurnoutRiskCardProps {
+  current: BurnoutRisk | null;
+  history: BurnoutRisk[];
+  sleepDebtWindowDays: number;
+  isLoading: boolean;
+}
+
+function BurnoutRiskCard({ current, history, sleepDebtWindowDays, isLoading }: BurnoutRiskCardProps) {
+  const style = BURNOUT_LEVEL_STYLES[current?.level ?? 'low'];
+  const recentHistory = history.slice(-14);
+
+  return (
+    <div className={`card transition-all duration-500 ${isLoading ? 'opacity-60' : 'opacity-100'}`}>
+      <div className="card-header">
+        <div className="flex items-center gap-3">
+          <div className="p-2 rounded-lg bg-gradient-to-r from-orange-500 to-red-500">
+            <Flame className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <h3 className="card-title">Burnout Risk</h3>
+            <p className="card-description">
+              Sustained stress, sleep debt, missed recovery and fading social contact over recent days
+            </p>
+          </div>
+        </div>
+      </div>
+      <div className="card-content">
+        {isLoading ? (
+          <Loader2 className="w-6 h-6 animate-spin mx-auto" />
+        ) : !current || !current.isValid ? (
+          <p className="text-sm text-muted-foreground text-center">
+            Log at least {BURNOUT_CONFIG.MIN_DAYS} days within {sleepDebtWindowDays} days to see your burnout risk.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="text-center">
+              <div className={`text-4xl font-bold ${style.text}`}>{current.score.toFixed(0)}</div>
+              <div className={`text-sm font-medium mt-1 ${style.text}`}>{style.label} risk</div>
+              <div className="text-xs text-muted-foreground mt-1">
+                Sleep debt: {current.sleepDebtHours.toFixed(1)}h
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {getBurnoutContributors(current).map(({ component, contribution }) => (
+                <div key={component} className="space-y-1">
+                  <div className="flex justify-between text-xs">
+                    <span className="text-foreground">{BURNOUT_COMPONENT_LABELS[component]}</span>
+                    <span className="text-muted-foreground">{contribution.toFixed(0)}</span>
+                  </div>
+                  <div className="w-full bg-muted rounded-full h-1.5">
+                    <div
+                      className={`h-1.5 rounded-full ${style.bar}`}
+                      style={{ width: `${current.components[component] * 100}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <div className="flex items-end gap-1 h-20">
+                {recentHistory.map(day => (
+                  <div
+                    key={day.date}
+                    className={`flex-1 rounded-t ${BURNOUT_LEVEL_STYLES[day.level].bar} ${day.isValid ? '' : 'opacity-40'}`}
+                    style={{ height: `${Math.max(4, day.score)}%` }}
+                    title={`${day.date}: ${day.score.toFixed(0)}`}
+                  />
+                ))}
+              </div>
+              <div className="text-xs text-muted-foreground text-center mt-1">
+                Last {recentHistory.length} logged days
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 /**
  * Main Scores Dashboard Component
  */
@@ -255,6 +430,7 @@ export function ScoresDisplay({ isDataLoading = false }: ScoresDisplayProps) {
     lm: 0,
     ri: 0,
     cn: 0,
+    isValid: false,
     streak: 0,
     baseline: {
       mc: 0,
@@ -266,7 +442,16 @@ export function ScoresDisplay({ isDataLoading = false }: ScoresDisplayProps) {
 
   // Use direct access instead of useMoodEntries hook
   const { entries: moodEntries, version } = useDirectMoodEntries();
+  const { activeProfile, loading: profilesLoading } = useScoringProfiles();
+  // Entries read as empty until the first refresh, so wait for it before syncing the cache
+  const scoresById = useScoreCache(moodEntries, activeProfile, version > 0 && !profilesLoading);
+  const { summaries, dayStartHour } = useDailySummaries(moodEntries, activeProfile);
+  const streakReport = useStreakReport(summaries, dayStartHour);
+  const burnout = useBurnoutRisk(summaries);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [explanation, setExplanation] = useState<{ MC: ScoreExplanation; DSS: ScoreExplanation } | null>(null);
+  // Kept here because the score panel below remounts on every refresh
+  const [showExplanation, setShowExplanation] = useState(false);
 
   // Combined loading state
   const isLoading = isCalculating || isDataLoading;
@@ -329,60 +514,49 @@ export function ScoresDisplay({ isDataLoading = false }: ScoresDisplayProps) {
           moodEntriesType: typeof moodEntries
         });
         
-        if (entries.length < 3) {
-          // Not enough data for z-score calculations
-          console.log('ScoresDisplay: Insufficient data', { entriesLength: entries.length });
+        // Cached canonical scores, oldest first
+        const entryScores = Array.from(scoresById.values());
+
+        // Today's entry is the most recent one
+        const todayScores = entryScores[entryScores.length - 1];
+        if (!todayScores) {
           setScores({
             mc: 0,
             dss: 0,
             lm: 0,
             ri: 0,
             cn: 0,
-            streak: calculateStreak(entries).currentStreak,
+            isValid: false,
+            streak: streakReport.currentStreak,
             baseline: { mc: 0, lm: 0, ri: 0, cn: 0 }
           });
-          setIsCalculating(false);
+          setExplanation(null);
           return;
         }
 
-        // Get last 14 days of data for baseline
+        // Compare against the last 14 days of earlier entries
         const fourteenDaysAgo = new Date();
         fourteenDaysAgo.setDate(fourteenDaysAgo.getDate() - 14);
         
-        const recentEntries = entries.filter(entry => 
-          new Date(entry.timestamp) >= fourteenDaysAgo
-        );
-
-        // Get today's entry (most recent)
-        const todayEntry = entries[entries.length - 1];
-        if (!todayEntry) return;
-
-        // Calculate scores using the centralized scoring system
-        const mcResult = calculateMC(todayEntry, recentEntries);
-        const dssResult = calculateDSS(todayEntry, recentEntries);
-        const streakResult = calculateStreak(entries);
-
-        // Calculate baselines for comparison
-        const baseline = ScoreCalculator.calculateBaseline(recentEntries);
-
-        console.log('ScoresDisplay: Calculated scores', {
-          mc: mcResult.mc,
-          dss: dssResult.dss,
-          cn: dssResult.components.cn.raw,
-          socialTouchpoints: todayEntry.socialTouchpoints,
-          entriesLength: entries.length,
-          recentEntriesLength: recentEntries.length
-        });
+        const recentScores = entryScores
+          .slice(0, -1)
+          .filter(entry => entry.timestamp >= fourteenDaysAgo);
+
+        const baseline = ScoreCalculator.calculateBaseline(recentScores);
 
         setScores({
-          mc: mcResult.mc,
-          dss: dssResult.dss,
-          lm: dssResult.components.lm.raw,
-          ri: dssResult.components.ri.raw,
-          cn: dssResult.components.cn.raw,
-          streak: streakResult.currentStreak,
+          mc: todayScores.MC,
+          dss: todayScores.DSS,
+          lm: todayScores.LM,
+          ri: todayScores.RI,
+          cn: todayScores.CN,
+          isValid: todayScores.isValid,
+          streak: streakReport.currentStreak,
           baseline
         });
+        // The explanation needs the full breakdown, so rescore just the latest entry
+        const todayEntry = entries.find(entry => entry.id === todayScores.entryId);
+        setExplanation(todayEntry ? explainScores(scoreEntry(todayEntry, entries, activeProfile), activeProfile) : null);
 
       } catch (error) {
         console.error('Error calculating scores:', error);
@@ -392,9 +566,9 @@ export function ScoresDisplay({ isDataLoading = false }: ScoresDisplayProps) {
     };
 
     calculateScores();
-  }, [moodEntries, refreshKey, version]);
+  }, [moodEntries, refreshKey, version, activeProfile, scoresById, streakReport]);
 
-  const hasInsufficientData = moodEntries.length < 3;
+  const hasInsufficientData = !isLoading && !scores.isValid;
 
   return (
     <div key={refreshKey} className={`space-y-6 transition-all duration-500 ${isLoading ? 'opacity-60 scale-[0.98]' : 'opacity-100 scale-100'}`}>
@@ -420,8 +594,8 @@ export function ScoresDisplay({ isDataLoading = false }: ScoresDisplayProps) {
             <div>
               <h3 className="font-semibold text-yellow-800 dark:text-yellow-200">Building Your Baseline</h3>
               <p className="text-sm text-yellow-700 dark:text-yellow-300">
-                We need at least 3 days of data to calculate personalized scores. 
-                Generate demo data to see how the scores work, or keep logging your daily check-ins to build your baseline!
+                Scores are relative to your own baseline, which needs at least 3 earlier check-ins. 
+                Until then MC and DSS read as 0 (at baseline). Generate demo data to see how the scores work, or keep logging your daily check-ins to build your baseline!
               </p>
             </div>
           </div>
@@ -452,6 +626,22 @@ export function ScoresDisplay({ isDataLoading = false }: ScoresDisplayProps) {
         />
       </div>
 
+      {/* Score Explanation */}
+      <ScoreExplanationPanel
+        explanation={explanation}
+        expanded={showExplanation}
+        onToggle={() => setShowExplanation(prev => !prev)}
+        isLoading={isLoading}
+      />
+
+      {/* Burnout Risk */}
+      <BurnoutRiskCard
+        current={burnout.current}
+        history={burnout.history}
+        sleepDebtWindowDays={burnout.sleepDebtWindowDays}
+        isLoading={isLoading}
+      />
+
       {/* DSS Breakdown */}
       <div className={`card transition-all duration-500 ${isLoading ? 'opacity-60' : 'opacity-100'}`}>
         <div className="card-header">
@@ -470,7 +660,7 @@ export function ScoresDisplay({ isDataLoading = false }: ScoresDisplayProps) {
                 </div>
                 <div>
                   <h4 className="font-semibold text-foreground">Learning Momentum</h4>
-                  <p className="text-sm text-muted-foreground">Focus + Deep Work</p>
+                  <p className="text-sm text-muted-foreground">Deep Work + Tasks</p>
                 </div>
               </div>
               <div className="text-center">
@@ -494,7 +684,7 @@ export function ScoresDisplay({ isDataLoading = false }: ScoresDisplayProps) {
                 </div>
                 <div>
                   <h4 className="font-semibold text-foreground">Recovery Index</h4>
-                  <p className="text-sm text-muted-foreground">Sleep + Recovery + Low Stress</p>
+                  <p className="text-sm text-muted-foreground">Sleep + Recovery</p>
                 </div>
               </div>
               <div className="text-center">
@@ -518,7 +708,7 @@ export function ScoresDisplay({ isDataLoading = false }: ScoresDisplayProps) {
                 </div>
                 <div>
                   <h4 className="font-semibold text-foreground">Connection</h4>
-                  <p className="text-sm text-muted-foreground">Valence + Social Interaction</p>
+                  <p className="text-sm text-muted-foreground">Social Touchpoints (recent avg)</p>
                 </div>
               </div>
               <div className="text-center">
@@ -578,7 +768,7 @@ export function ScoresDisplay({ isDataLoading = false }: ScoresDisplayProps) {
               {hasInsufficientData ? 'Building' : 'Ready'}
             </div>
             <p className="text-sm text-muted-foreground">
-              {hasInsufficientData ? 'Need 3+ days' : 'Personalized scores'}
+              {hasInsufficientData ? 'Need 3+ earlier check-ins' : 'Personalized scores'}
             </p>
           </div>
         </div>
@@ -0,0 +1,426 @@
+/**
+ * CampusThrive Scoring Profiles Component
+ *
+ * Features:
+ * - Lists built-in and custom scoring profiles
+ * - Activates the profile applied to every score in the app
+ * - Creates, edits and deletes custom MC/DSS weight profiles
+ * - Selects the z-score baseline (all history, rolling window or EWMA)
+ * - Opts into robust median/MAD normalization with outlier winsorization
+ * - Recomputes history under two profiles for side-by-side comparison
+ */
+
+'use client';
+
+import { useState, useMemo } from 'react';
+import { useMoodEntries, useScoringProfiles } from '@/hooks/useLocalStorage';
+import {
+  averageScores,
+  compareScoringProfiles,
+  getScoringProfileErrors,
+  describeBaseline,
+  DEFAULT_BASELINE_CONFIG,
+  DEFAULT_NORMALIZATION_CONFIG,
+  DEFAULT_SCORING_PROFILE
+} from '@/lib/scoring';
+import type { ScoringProfile, BaselineMode, NormalizationMethod } from '@/types';
+import {
+  Sliders,
+  CheckCircle,
+  Copy,
+  Edit3,
+  Trash2,
+  Save,
+  X,
+  AlertCircle,
+  GitCompare
+} from 'lucide-react';
+import { format } from 'date-fns';
+
+/**
+ * Number input bound to a single profile weight
+ */
+function WeightInput({
+  label,
+  value,
+  step = 0.05,
+  onChange
+}: {
+  label: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex items-center justify-between gap-3 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <input
+        type="number"
+        step={step}
+        value={Number.isFinite(value) ? value : ''}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-24 px-2 py-1 rounded border border-border bg-background text-foreground text-right"
+      />
+    </label>
+  );
+}
+
+/**
+ * Editor for a custom profile
+ */
+function ProfileEditor({
+  initial,
+  onSave,
+  onCancel
+}: {
+  initial: ScoringProfile;
+  onSave: (profile: ScoringProfile) => string | null;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState<ScoringProfile>(initial);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const errors = useMemo(() => getScoringProfileErrors(draft), [draft]);
+
+  const setMC = (key: keyof ScoringProfile['mcWeights'], value: number) =>
+    setDraft(prev => ({ ...prev, mcWeights: { ...prev.mcWeights, [key]: value } }));
+  const setDSS = (key: keyof ScoringProfile['dssWeights'], value: number) =>
+    setDraft(prev => ({ ...prev, dssWeights: { ...prev.dssWeights, [key]: value } }));
+  const setMultiplier = (key: keyof ScoringProfile['dssMultipliers'], value: number) =>
+    setDraft(prev => ({ ...prev, dssMultipliers: { ...prev.dssMultipliers, [key]: value } }));
+  const baseline = draft.baseline ?? DEFAULT_BASELINE_CONFIG;
+  const setBaseline = (changes: Partial<typeof baseline>) =>
+    setDraft(prev => ({ ...prev, baseline: { ...(prev.baseline ?? DEFAULT_BASELINE_CONFIG), ...changes } }));
+  const normalization = draft.normalization ?? DEFAULT_NORMALIZATION_CONFIG;
+  const setNormalization = (changes: Partial<typeof normalization>) =>
+    setDraft(prev => ({
+      ...prev,
+      normalization: { ...(prev.normalization ?? DEFAULT_NORMALIZATION_CONFIG), ...changes }
+    }));
+
+  return (
+    <div className="card p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-foreground">Edit Profile</h3>
+        <button onClick={onCancel} className="text-muted-foreground hover:text-foreground" aria-label="Cancel editing">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Name</span>
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            className="w-full px-3 py-2 rounded border border-border bg-background text-foreground"
+          />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="text-muted-foreground">Description</span>
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+            className="w-full px-3 py-2 rounded border border-border bg-background text-foreground"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="space-y-2">
+          <h4 className="font-medium text-foreground">MC Weights</h4>
+          <WeightInput label="Valence" value={draft.mcWeights.valence} onChange={(v) => setMC('valence', v)} />
+          <WeightInput label="Energy" value={draft.mcWeights.energy} onChange={(v) => setMC('energy', v)} />
+          <WeightInput label="Focus" value={draft.mcWeights.focus} onChange={(v) => setMC('focus', v)} />
+          <WeightInput label="Stress" value={draft.mcWeights.stress} onChange={(v) => setMC('stress', v)} />
+        </div>
+        <div className="space-y-2">
+          <h4 className="font-medium text-foreground">DSS Weights</h4>
+          <WeightInput label="Learning Momentum" value={draft.dssWeights.lm} onChange={(v) => setDSS('lm', v)} />
+          <WeightInput label="Recovery Index" value={draft.dssWeights.ri} onChange={(v) => setDSS('ri', v)} />
+          <WeightInput label="Connection" value={draft.dssWeights.cn} onChange={(v) => setDSS('cn', v)} />
+        </div>
+        <div className="space-y-2">
+          <h4 className="font-medium text-foreground">DSS Multipliers</h4>
+          <WeightInput label="LM per task" step={1} value={draft.dssMultipliers.tasksToLM} onChange={(v) => setMultiplier('tasksToLM', v)} />
+          <WeightInput label="RI per recovery" step={0.5} value={draft.dssMultipliers.recoveryToRI} onChange={(v) => setMultiplier('recoveryToRI', v)} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-medium text-foreground">Baseline</h4>
+        <p className="text-xs text-muted-foreground">
+          Which past check-ins your scores are compared against.
+        </p>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+          <select
+            value={baseline.mode}
+            onChange={(e) => setBaseline({ mode: e.target.value as BaselineMode })}
+            className="px-3 py-2 rounded border border-border bg-background text-foreground text-sm"
+            aria-label="Baseline mode"
+          >
+            <option value="all-history">All history</option>
+            <option value="rolling">Rolling window</option>
+            <option value="ewma">Exponentially weighted</option>
+          </select>
+          {baseline.mode === 'rolling' && (
+            <WeightInput label="Window (days)" step={1} value={baseline.windowDays} onChange={(v) => setBaseline({ windowDays: v })} />
+          )}
+          {baseline.mode === 'ewma' && (
+            <WeightInput label="Half-life (days)" step={1} value={baseline.halfLifeDays} onChange={(v) => setBaseline({ halfLifeDays: v })} />
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="font-medium text-foreground">Normalization</h4>
+        <p className="text-xs text-muted-foreground">
+          Median/MAD keeps one unusual day (say, an all-nighter) from skewing weeks of scores.
+          Set an outlier limit to clamp extreme past values and flag outlier check-ins on the Trends page.
+        </p>
+        <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+          <select
+            value={normalization.method}
+            onChange={(e) => setNormalization({ method: e.target.value as NormalizationMethod })}
+            className="px-3 py-2 rounded border border-border bg-background text-foreground text-sm"
+            aria-label="Normalization method"
+          >
+            <option value="mean-sd">Mean / standard deviation</option>
+            <option value="median-mad">Median / MAD (robust)</option>
+          </select>
+          <WeightInput
+            label="Outlier limit (sigmas, 0 = off)"
+            step={0.5}
+            value={normalization.winsorizeLimit}
+            onChange={(v) => setNormalization({ winsorizeLimit: v })}
+          />
+        </div>
+      </div>
+
+      {(errors.length > 0 || saveError) && (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 space-y-1">
+          {[...errors, ...(saveError ? [saveError] : [])].map((error) => (
+            <div key={error} className="flex items-center gap-2 text-sm text-red-700 dark:text-red-300">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button onClick={onCancel} className="btn btn-outline">Cancel</button>
+        <button
+          onClick={() => setSaveError(onSave(draft))}
+          disabled={errors.length > 0}
+          className="btn btn-primary flex items-center gap-2"
+        >
+          <Save className="w-4 h-4" />
+          Save Profile
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Side-by-side comparison of two profiles over the stored history
+ */
+function ProfileComparison({ profiles, defaultProfileId }: { profiles: ScoringProfile[]; defaultProfileId: string }) {
+  const { value: moodEntries } = useMoodEntries();
+  const [profileAId, setProfileAId] = useState(defaultProfileId);
+  const [profileBId, setProfileBId] = useState(
+    profiles.find(p => p.id !== defaultProfileId)?.id ?? defaultProfileId
+  );
+
+  const profileA = profiles.find(p => p.id === profileAId) ?? DEFAULT_SCORING_PROFILE;
+  const profileB = profiles.find(p => p.id === profileBId) ?? DEFAULT_SCORING_PROFILE;
+
+  const rows = useMemo(
+    () => compareScoringProfiles(moodEntries, profileA, profileB),
+    [moodEntries, profileA, profileB]
+  );
+
+  const averagesA = averageScores(rows.map(row => row.a));
+  const averagesB = averageScores(rows.map(row => row.b));
+  const recentRows = rows.slice(-10).reverse();
+
+  const selectClass = 'px-3 py-2 rounded border border-border bg-background text-foreground text-sm';
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <GitCompare className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold text-foreground">Compare Profiles</h3>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:items-center">
+        <select value={profileAId} onChange={(e) => setProfileAId(e.target.value)} className={selectClass} aria-label="Profile A">
+          {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <span className="text-sm text-muted-foreground text-center">vs</span>
+        <select value={profileBId} onChange={(e) => setProfileBId(e.target.value)} className={selectClass} aria-label="Profile B">
+          {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Log some check-ins to compare profiles on your own history.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="font-medium text-foreground mb-1">{profileA.name}</div>
+              <div className="text-muted-foreground">Avg MC {averagesA.MC.toFixed(2)} · Avg DSS {averagesA.DSS.toFixed(2)}</div>
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg">
+              <div className="font-medium text-foreground mb-1">{profileB.name}</div>
+              <div className="text-muted-foreground">Avg MC {averagesB.MC.toFixed(2)} · Avg DSS {averagesB.DSS.toFixed(2)}</div>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-border text-muted-foreground">
+                  <th className="text-left py-2">Entry</th>
+                  <th className="text-right py-2">MC (A)</th>
+                  <th className="text-right py-2">MC (B)</th>
+                  <th className="text-right py-2">Δ MC</th>
+                  <th className="text-right py-2">DSS (A)</th>
+                  <th className="text-right py-2">DSS (B)</th>
+                  <th className="text-right py-2">Δ DSS</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recentRows.map(row => (
+                  <tr key={row.entryId} className="border-b border-border/50">
+                    <td className="py-2 text-foreground">{format(row.timestamp, 'MMM dd, h:mm a')}</td>
+                    <td className="py-2 text-right">{row.a.MC.toFixed(2)}</td>
+                    <td className="py-2 text-right">{row.b.MC.toFixed(2)}</td>
+                    <td className={`py-2 text-right ${row.mcDelta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {row.mcDelta > 0 ? '+' : ''}{row.mcDelta.toFixed(2)}
+                    </td>
+                    <td className="py-2 text-right">{row.a.DSS.toFixed(2)}</td>
+                    <td className="py-2 text-right">{row.b.DSS.toFixed(2)}</td>
+                    <td className={`py-2 text-right ${row.dssDelta >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {row.dssDelta > 0 ? '+' : ''}{row.dssDelta.toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Showing the {recentRows.length} most recent of {rows.length} entries, each rescored against its own history.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Main ScoringProfiles component
+ */
+export function ScoringProfiles() {
+  const { profiles, activeProfile, setActiveProfile, saveProfile, deleteProfile } = useScoringProfiles();
+  const [editing, setEditing] = useState<ScoringProfile | null>(null);
+
+  const handleDuplicate = (profile: ScoringProfile) => {
+    setEditing({
+      ...profile,
+      id: `profile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: `${profile.name} (copy)`,
+      builtIn: false
+    });
+  };
+
+  const handleSave = (profile: ScoringProfile): string | null => {
+    const result = saveProfile(profile);
+    if (!result.success) {
+      return result.error.message;
+    }
+    setEditing(null);
+    return null;
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="card p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Sliders className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Scoring Profiles</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          The active profile sets the MC and DSS weights used on every page, chart and export.
+        </p>
+
+        <div className="space-y-3">
+          {profiles.map(profile => {
+            const isActive = profile.id === activeProfile.id;
+            return (
+              <div
+                key={profile.id}
+                className={`p-4 rounded-lg border transition-colors ${
+                  isActive ? 'border-primary bg-primary/5' : 'border-border'
+                }`}
+              >
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-foreground">{profile.name}</span>
+                      {profile.builtIn && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-muted text-muted-foreground">Built-in</span>
+                      )}
+                      {isActive && <CheckCircle className="w-4 h-4 text-primary" />}
+                    </div>
+                    <p className="text-sm text-muted-foreground">{profile.description}</p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      MC {profile.mcWeights.valence}/{profile.mcWeights.energy}/{profile.mcWeights.focus}/{profile.mcWeights.stress}
+                      {' · '}DSS {profile.dssWeights.lm}/{profile.dssWeights.ri}/{profile.dssWeights.cn}
+                      {' · '}{describeBaseline(profile.baseline)}
+                      {profile.normalization?.method === 'median-mad' && ' · Median/MAD'}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {!isActive && (
+                      <button onClick={() => setActiveProfile(profile.id)} className="btn btn-primary btn-sm">
+                        Use
+                      </button>
+                    )}
+                    <button onClick={() => handleDuplicate(profile)} className="btn btn-outline btn-sm" aria-label={`Duplicate ${profile.name}`}>
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    {!profile.builtIn && (
+                      <>
+                        <button onClick={() => setEditing(profile)} className="btn btn-outline btn-sm" aria-label={`Edit ${profile.name}`}>
+                          <Edit3 className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => deleteProfile(profile.id)} className="btn btn-outline btn-sm" aria-label={`Delete ${profile.name}`}>
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {editing && (
+        <ProfileEditor
+          key={editing.id}
+          initial={editing}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+
+      <ProfileComparison profiles={profiles} defaultProfileId={activeProfile.id} />
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * CampusThrive Sleep Settings Component
+ *
+ * Features:
+ * - Nightly sleep target that sleep debt is measured against
+ * - Number of days sleep debt accumulates over
+ * - Validation before settings are saved
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useAppSettings } from '@/hooks/useLocalStorage';
+import { DEFAULT_SLEEP_SETTINGS, getSleepSettingsErrors } from '@/lib/sleep';
+import { SleepSettings as SleepSettingsType } from '@/types';
+import { Moon, AlertCircle } from 'lucide-react';
+
+/**
+ * Main SleepSettings component
+ */
+export function SleepSettings() {
+  const { value: appSettings, setValue: setAppSettings } = useAppSettings();
+  const sleepSettings = appSettings.sleepSettings ?? DEFAULT_SLEEP_SETTINGS;
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateSettings = (updates: Partial<SleepSettingsType>) => {
+    const next = { ...sleepSettings, ...updates };
+    const problems = getSleepSettingsErrors(next);
+    setErrors(problems);
+    if (problems.length === 0) {
+      setAppSettings(prev => ({ ...prev, sleepSettings: next }));
+    }
+  };
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <Moon className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold text-foreground">Sleep</h3>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Nights shorter than your target add to your sleep debt; longer nights pay it back.
+        Debt older than the window is forgiven.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="space-y-1 text-sm text-foreground">
+          <span>Sleep target (hours)</span>
+          <input
+            type="number"
+            min={4}
+            max={12}
+            step={0.5}
+            value={sleepSettings.targetHours}
+            onChange={(e) => updateSettings({ targetHours: Number(e.target.value) })}
+            className="w-full px-3 py-2 rounded border border-border bg-background text-foreground text-sm"
+          />
+        </label>
+
+        <label className="space-y-1 text-sm text-foreground">
+          <span>Sleep debt window (days)</span>
+          <input
+            type="number"
+            min={3}
+            max={28}
+            value={sleepSettings.debtWindowDays}
+            onChange={(e) => updateSettings({ debtWindowDays: Number(e.target.value) })}
+            className="w-full px-3 py-2 rounded border border-border bg-background text-foreground text-sm"
+          />
+        </label>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mt-0.5" />
+          <ul>
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
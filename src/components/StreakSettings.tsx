@@ -0,0 +1,93 @@
+/**
+ * CampusThrive Streak Settings Component
+ *
+ * Features:
+ * - Grace ("freeze") days per week that bridge a missed day
+ * - Minimum check-ins for a day to count in full
+ * - Whether partial days keep a streak alive
+ * - Validation before settings are saved
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useAppSettings } from '@/hooks/useLocalStorage';
+import { DEFAULT_STREAK_SETTINGS, getStreakSettingsErrors } from '@/lib/streaks';
+import { StreakSettings as StreakSettingsType } from '@/types';
+import { Flame, AlertCircle } from 'lucide-react';
+
+/**
+ * Main StreakSettings component
+ */
+export function StreakSettings() {
+  const { value: appSettings, setValue: setAppSettings } = useAppSettings();
+  const streakSettings = appSettings.streakSettings ?? DEFAULT_STREAK_SETTINGS;
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateSettings = (updates: Partial<StreakSettingsType>) => {
+    const next = { ...streakSettings, ...updates };
+    const problems = getStreakSettingsErrors(next);
+    setErrors(problems);
+    if (problems.length === 0) {
+      setAppSettings(prev => ({ ...prev, streakSettings: next }));
+    }
+  };
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <Flame className="w-5 h-5 text-primary" />
+        <h3 className="text-lg font-semibold text-foreground">Streaks</h3>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Grace days cover a missed day without breaking your streak. Days with fewer
+        check-ins than the minimum count as partial.
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="space-y-1 text-sm text-foreground">
+          <span>Grace days per week</span>
+          <input
+            type="number"
+            min={0}
+            max={6}
+            value={streakSettings.graceDaysPerWeek}
+            onChange={(e) => updateSettings({ graceDaysPerWeek: Number(e.target.value) })}
+            className="w-full px-3 py-2 rounded border border-border bg-background text-foreground text-sm"
+          />
+        </label>
+
+        <label className="space-y-1 text-sm text-foreground">
+          <span>Check-ins for a full day</span>
+          <input
+            type="number"
+            min={1}
+            max={3}
+            value={streakSettings.minEntriesPerDay}
+            onChange={(e) => updateSettings({ minEntriesPerDay: Number(e.target.value) })}
+            className="w-full px-3 py-2 rounded border border-border bg-background text-foreground text-sm"
+          />
+        </label>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-foreground">
+        <input
+          type="checkbox"
+          checked={streakSettings.partialDaysKeepStreak}
+          onChange={(e) => updateSettings({ partialDaysKeepStreak: e.target.checked })}
+        />
+        Partial days keep a streak going
+      </label>
+
+      {errors.length > 0 && (
+        <div className="flex items-start gap-2 text-sm text-red-600">
+          <AlertCircle className="w-4 h-4 mt-0.5" />
+          <ul>
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
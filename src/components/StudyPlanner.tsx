@@ -0,0 +1,381 @@
+/**
+ * CampusThrive Study Planner Component
+ *
+ * Features:
+ * - Task list with kind, estimated duration and optional deadline
+ * - Weekly plan built from the focus Power Hours heatmap
+ * - Week grid shaded by expected focus, with drag-to-adjust blocks
+ * - Moved blocks are pinned and kept when the plan is regenerated
+ * - Time that did not fit before a deadline listed separately
+ * - iCalendar (.ics) export of the planned blocks
+ */
+
+'use client';
+
+import { useState, useMemo } from 'react';
+import {
+  useMoodEntries,
+  useScoringProfiles,
+  useScoreCache,
+  useStudyTasks,
+  useStudyPlan
+} from '@/hooks/useLocalStorage';
+import { generatePowerHours } from '@/lib/scoring';
+import { getDayDate, shiftDayKey } from '@/lib/daily';
+import {
+  recommendSchedule,
+  moveScheduleBlock,
+  getSlotScore,
+  SCHEDULE_CONFIG,
+  STUDY_TASK_KIND_LABELS
+} from '@/lib/schedule';
+import { ICSExporter } from '@/lib/export';
+import { ScheduleBlock, StudyTask, StudyTaskKind } from '@/types';
+import {
+  CalendarClock,
+  Plus,
+  Trash2,
+  Wand2,
+  Download,
+  Pin,
+  AlertCircle,
+  Loader2
+} from 'lucide-react';
+import { format } from 'date-fns';
+
+const ROW_HEIGHT = 40;
+const PLAN_HOURS = Array.from(
+  { length: SCHEDULE_CONFIG.LAST_HOUR - SCHEDULE_CONFIG.FIRST_HOUR },
+  (_, i) => SCHEDULE_CONFIG.FIRST_HOUR + i
+);
+
+const KIND_STYLES: Record<StudyTaskKind, string> = {
+  deep: 'bg-indigo-600 text-white',
+  light: 'bg-sky-200 text-sky-900 dark:bg-sky-800 dark:text-sky-100',
+  recovery: 'bg-emerald-200 text-emerald-900 dark:bg-emerald-800 dark:text-emerald-100'
+};
+
+/**
+ * Form for adding a task
+ */
+function TaskForm({ onAdd }: { onAdd: (task: StudyTask) => void }) {
+  const [title, setTitle] = useState('');
+  const [kind, setKind] = useState<StudyTaskKind>('deep');
+  const [hours, setHours] = useState(2);
+  const [deadline, setDeadline] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || hours <= 0) return;
+
+    // A deadline date means the end of that day
+    const deadlineDate = deadline ? getDayDate(deadline) : null;
+    deadlineDate?.setHours(23, 59, 59);
+
+    onAdd({
+      id: `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      title: title.trim(),
+      kind,
+      durationMinutes: Math.round(hours * 60),
+      ...(deadlineDate && { deadline: deadlineDate }),
+      createdAt: new Date()
+    });
+    setTitle('');
+    setDeadline('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid grid-cols-1 sm:grid-cols-5 gap-3 items-end">
+      <label className="space-y-1 text-sm text-foreground sm:col-span-2">
+        <span>Task</span>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="e.g. Chemistry problem set"
+          className="w-full px-3 py-2 rounded border border-border bg-background text-foreground text-sm"
+        />
+      </label>
+      <label className="space-y-1 text-sm text-foreground">
+        <span>Kind</span>
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as StudyTaskKind)}
+          className="w-full px-3 py-2 rounded border border-border bg-background text-foreground text-sm"
+        >
+          {(Object.keys(STUDY_TASK_KIND_LABELS) as StudyTaskKind[]).map(option => (
+            <option key={option} value={option}>{STUDY_TASK_KIND_LABELS[option]}</option>
+          ))}
+        </select>
+      </label>
+      <label className="space-y-1 text-sm text-foreground">
+        <span>Hours</span>
+        <input
+          type="number"
+          min={0.5}
+          max={20}
+          step={0.5}
+          value={hours}
+          onChange={(e) => setHours(Number(e.target.value))}
+          className="w-full px-3 py-2 rounded border border-border bg-background text-foreground text-sm"
+        />
+      </label>
+      <label className="space-y-1 text-sm text-foreground">
+        <span>Deadline (optional)</span>
+        <input
+          type="date"
+          value={deadline}
+          onChange={(e) => setDeadline(e.target.value)}
+          className="w-full px-3 py-2 rounded border border-border bg-background text-foreground text-sm"
+        />
+      </label>
+      <button
+        type="submit"
+        disabled={!title.trim() || hours <= 0}
+        className="sm:col-span-5 flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium disabled:opacity-50"
+      >
+        <Plus className="w-4 h-4" />
+        Add task
+      </button>
+    </form>
+  );
+}
+
+/**
+ * Planned block inside a day column
+ */
+function PlanBlock({ block }: { block: ScheduleBlock }) {
+  const start = new Date(block.start);
+  const offset = start.getHours() - SCHEDULE_CONFIG.FIRST_HOUR + start.getMinutes() / 60;
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData('text/plain', block.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      className={`absolute left-0.5 right-0.5 rounded px-1.5 py-1 text-xs cursor-move shadow-sm overflow-hidden ${KIND_STYLES[block.kind]}`}
+      style={{ top: offset * ROW_HEIGHT + 1, height: (block.durationMinutes / 60) * ROW_HEIGHT - 2 }}
+      title={`${block.title} · ${format(start, 'EEE HH:mm')} · ${block.durationMinutes} min`}
+    >
+      <div className="flex items-center gap-1 font-medium truncate">
+        {block.pinned && <Pin className="w-3 h-3 flex-shrink-0" />}
+        <span className="truncate">{block.title}</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Main StudyPlanner component
+ */
+export function StudyPlanner() {
+  const { value: moodEntries, loading: entriesLoading } = useMoodEntries();
+  const { activeProfile, loading: profilesLoading } = useScoringProfiles();
+  const scoresById = useScoreCache(moodEntries, activeProfile, !entriesLoading && !profilesLoading);
+  const { value: tasks, setValue: setTasks, loading: tasksLoading } = useStudyTasks();
+  const { value: plan, setValue: setPlan, loading: planLoading } = useStudyPlan();
+  const [moveError, setMoveError] = useState<string | null>(null);
+
+  // Deep work and recovery are placed by focus
+  const heatmap = useMemo(
+    () => generatePowerHours(moodEntries, activeProfile, scoresById, { metric: 'focus' }),
+    [moodEntries, activeProfile, scoresById]
+  );
+
+  const taskTitles = useMemo(() => new Map(tasks.map(task => [task.id, task.title])), [tasks]);
+
+  const handleGenerate = () => {
+    const now = new Date();
+    const next = recommendSchedule(tasks, heatmap, {
+      now,
+      keep: plan ? plan.blocks.filter(block => block.pinned) : []
+    });
+    setPlan(next);
+    setMoveError(null);
+  };
+
+  const handleDrop = (e: React.DragEvent, dayKey: string, hour: number) => {
+    e.preventDefault();
+    if (!plan) return;
+
+    const start = getDayDate(dayKey);
+    start.setHours(hour);
+    const moved = moveScheduleBlock(plan, e.dataTransfer.getData('text/plain'), start);
+    if (moved) {
+      setPlan(moved);
+      setMoveError(null);
+    } else {
+      setMoveError('That block would overlap another block or run past midnight.');
+    }
+  };
+
+  const handleExport = () => {
+    if (!plan) return;
+    ICSExporter.downloadICS(
+      ICSExporter.generateICS(plan.blocks),
+      `campus-thrive-study-plan-${plan.weekStart}.ics`
+    );
+  };
+
+  if (tasksLoading || planLoading || entriesLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const days = plan ? Array.from({ length: 7 }, (_, i) => shiftDayKey(plan.weekStart, i)) : [];
+
+  return (
+    <div className="space-y-6">
+      {/* Tasks */}
+      <div className="card p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Tasks</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Deep work goes into your best focus hours, recovery into your lowest, and light
+          work into the earliest free hours. Tasks with earlier deadlines are planned first.
+        </p>
+
+        <TaskForm onAdd={(task) => setTasks(prev => [...prev, task])} />
+
+        {tasks.length > 0 && (
+          <ul className="divide-y divide-border">
+            {tasks.map(task => (
+              <li key={task.id} className="flex items-center justify-between py-2 text-sm">
+                <div className="space-x-2">
+                  <span className="font-medium text-foreground">{task.title}</span>
+                  <span className="text-muted-foreground">
+                    {STUDY_TASK_KIND_LABELS[task.kind]} · {task.durationMinutes / 60}h
+                    {task.deadline && ` · due ${format(new Date(task.deadline), 'EEE, MMM d')}`}
+                  </span>
+                </div>
+                <button
+                  onClick={() => setTasks(prev => prev.filter(t => t.id !== task.id))}
+                  className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted"
+                  aria-label={`Remove ${task.title}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={handleGenerate}
+            disabled={tasks.length === 0}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-primary-foreground text-sm font-medium disabled:opacity-50"
+          >
+            <Wand2 className="w-4 h-4" />
+            {plan ? 'Regenerate plan' : 'Plan my week'}
+          </button>
+          {plan && plan.blocks.length > 0 && (
+            <button
+              onClick={handleExport}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-muted text-foreground text-sm font-medium hover:bg-muted/80"
+            >
+              <Download className="w-4 h-4" />
+              Export .ics
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Week grid */}
+      {plan && (
+        <div className="card p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold text-foreground">
+              Week of {format(getDayDate(plan.weekStart), 'MMM d')}
+            </h3>
+            <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+              {(Object.keys(STUDY_TASK_KIND_LABELS) as StudyTaskKind[]).map(kind => (
+                <span key={kind} className="flex items-center gap-1">
+                  <span className={`w-3 h-3 rounded ${KIND_STYLES[kind]}`} />
+                  {STUDY_TASK_KIND_LABELS[kind]}
+                </span>
+              ))}
+              <span className="flex items-center gap-1">
+                <Pin className="w-3 h-3" />
+                Moved by you
+              </span>
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Drag a block to move it. Darker background means higher expected focus.
+          </p>
+
+          {moveError && (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle className="w-4 h-4" />
+              <span>{moveError}</span>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <div className="flex min-w-[720px]">
+              {/* Hour labels */}
+              <div className="w-12 flex-shrink-0 pt-8">
+                {PLAN_HOURS.map(hour => (
+                  <div key={hour} className="text-xs text-muted-foreground" style={{ height: ROW_HEIGHT }}>
+                    {String(hour).padStart(2, '0')}:00
+                  </div>
+                ))}
+              </div>
+
+              {days.map(dayKey => {
+                const weekday = getDayDate(dayKey).getDay();
+                const dayBlocks = plan.blocks.filter(block => format(new Date(block.start), 'yyyy-MM-dd') === dayKey);
+
+                return (
+                  <div key={dayKey} className="flex-1 min-w-[90px]">
+                    <div className="h-8 text-center text-sm font-medium text-foreground">
+                      {format(getDayDate(dayKey), 'EEE d')}
+                    </div>
+                    <div className="relative border-l border-border">
+                      {PLAN_HOURS.map(hour => (
+                        <div
+                          key={hour}
+                          onDragOver={(e) => e.preventDefault()}
+                          onDrop={(e) => handleDrop(e, dayKey, hour)}
+                          className="border-b border-border"
+                          style={{
+                            height: ROW_HEIGHT,
+                            backgroundColor: `rgba(99, 102, 241, ${(getSlotScore(heatmap, weekday, hour) / 5) * 0.25})`
+                          }}
+                        />
+                      ))}
+                      {dayBlocks.map(block => (
+                        <PlanBlock key={block.id} block={block} />
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {plan.unscheduled.length > 0 && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900 space-y-1">
+              <div className="font-medium">Did not fit this week</div>
+              <ul className="space-y-1">
+                {plan.unscheduled.map(item => (
+                  <li key={item.taskId}>
+                    {taskTitles.get(item.taskId) ?? 'Removed task'}: {Math.round(item.minutes / 6) / 10}h left
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
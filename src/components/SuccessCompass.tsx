@@ -2,7 +2,8 @@
  * CampusThrive Success Compass Component
  * 
  * Features:
- * - Radar/polar chart showing LM/RI/CN dimensions
+ * - Radar/polar chart showing LM/RI/CN dimensions and sleep consistency
+ * - Sleep debt, regularity and chronotype summary
  * - Current week vs baseline comparison
  * - Interactive tooltips with explanations
  * - Smooth animations and mobile optimization
@@ -21,8 +22,11 @@ import {
   ResponsiveContainer,
   Tooltip
 } from 'recharts';
-import { useMoodEntries } from '@/hooks/useLocalStorage';
-import { MoodEntry } from '@/types';
+import { useMoodEntries, useScoringProfiles, useScoreCache, useDailySummaries, useSleepReport } from '@/hooks/useLocalStorage';
+import { zScoreToPercentile } from '@/lib/scoring';
+import { getDayDate } from '@/lib/daily';
+import { calculateSleepRegularity, formatClockTime, type SleepReport } from '@/lib/sleep';
+import type { BaselineStat, CachedEntryScores, Chronotype } from '@/types';
 import { 
   Target,
   Brain,
@@ -33,7 +37,8 @@ import {
   Calendar,
   Activity,
   Shield,
-  Users
+  Users,
+  Moon
 } from 'lucide-react';
 import { startOfWeek, endOfWeek, subWeeks, isWithinInterval } from 'date-fns';
 
@@ -52,91 +57,33 @@ interface RadarDataPoint {
  */
 class SuccessCompassCalculator {
   /**
-   * Calculate LM (Learning Momentum) score
+   * Average LM/RI/CN for a time period as 0-1 percentiles of the personal baseline
+   *
+   * Each entry's canonical component z-score is mapped to a percentile, so 0.5
+   * means "typical for you" regardless of the raw units of each dimension.
+   * Z-scores are recovered from the baseline stored with each cached row.
    */
-  static calculateLM(entry: MoodEntry): number {
-    const focus = entry.focus;
-    const deepworkMinutes = entry.deepworkMinutes || 0;
-    const tasksCompleted = entry.tasksCompleted || 0;
-    
-    // Focus component (0-5 scale, normalized to 0-1)
-    const focusComponent = focus / 5;
-    
-    // Deep work component (max 180 minutes = 1)
-    const deepworkComponent = Math.min(1, deepworkMinutes / 180);
-    
-    // Tasks component (max 10 tasks = 1)
-    const tasksComponent = Math.min(1, tasksCompleted / 10);
-    
-    // Weighted combination
-    return (focusComponent * 0.5) + (deepworkComponent * 0.3) + (tasksComponent * 0.2);
-  }
-
-  /**
-   * Calculate RI (Recovery Index) score
-   */
-  static calculateRI(entry: MoodEntry): number {
-    const sleepHours = entry.sleepHours || 0;
-    const recoveryAction = entry.recoveryAction ? 1 : 0;
-    const stress = entry.stress;
-    
-    // Sleep component (optimal 8 hours = 1)
-    const sleepComponent = Math.min(1, sleepHours / 8);
-    
-    // Recovery action component (binary)
-    const recoveryComponent = recoveryAction;
-    
-    // Stress component (inverted, 0 stress = 1)
-    const stressComponent = (5 - stress) / 5;
-    
-    // Weighted combination
-    return (sleepComponent * 0.4) + (recoveryComponent * 0.3) + (stressComponent * 0.3);
-  }
-
-  /**
-   * Calculate CN (Connection) score
-   */
-  static calculateCN(entry: MoodEntry): number {
-    const valence = entry.valence;
-    const socialTouchpoints = entry.socialTouchpoints || 0;
-    const socialTags = entry.tags.filter(tag => 
-      ['social', 'friends', 'family', 'party', 'dating'].includes(tag.toLowerCase())
-    ).length;
-    
-    // Valence component (0-5 scale, normalized to 0-1)
-    const valenceComponent = valence / 5;
-    
-    // Social touchpoints component (max 5 touchpoints = 1)
-    const touchpointsComponent = Math.min(1, socialTouchpoints / 5);
-    
-    // Social tags component (max 3 social tags = 1)
-    const tagsComponent = Math.min(1, socialTags / 3);
-    
-    // Weighted combination
-    return (valenceComponent * 0.4) + (touchpointsComponent * 0.4) + (tagsComponent * 0.2);
-  }
-
-  /**
-   * Calculate average scores for a time period
-   */
-  static calculatePeriodAverages(entries: MoodEntry[]): { LM: number; RI: number; CN: number } {
-    if (entries.length === 0) {
+  static calculatePeriodAverages(scores: CachedEntryScores[]): { LM: number; RI: number; CN: number } {
+    if (scores.length === 0) {
       return { LM: 0, RI: 0, CN: 0 };
     }
 
-    const totals = entries.reduce(
-      (acc, entry) => ({
-        LM: acc.LM + this.calculateLM(entry),
-        RI: acc.RI + this.calculateRI(entry),
-        CN: acc.CN + this.calculateCN(entry)
+    const percentile = (raw: number, { mean, sigma }: BaselineStat) =>
+      zScoreToPercentile(sigma === 0 ? 0 : (raw - mean) / sigma);
+
+    const totals = scores.reduce(
+      (acc, s) => ({
+        LM: acc.LM + percentile(s.LM, s.baseline.lm),
+        RI: acc.RI + percentile(s.RI, s.baseline.ri),
+        CN: acc.CN + percentile(s.CN, s.baseline.cn)
       }),
       { LM: 0, RI: 0, CN: 0 }
     );
 
     return {
-      LM: totals.LM / entries.length,
-      RI: totals.RI / entries.length,
-      CN: totals.CN / entries.length
+      LM: totals.LM / scores.length,
+      RI: totals.RI / scores.length,
+      CN: totals.CN / scores.length
     };
   }
 }
@@ -159,22 +106,28 @@ function CustomRadarTooltip({ active, payload, label }: CustomRadarTooltipProps)
       switch (dimension) {
         case 'Learning Momentum':
           return {
-            description: 'Focus, deep work, and task completion',
+            description: 'Deep work and task completion',
             icon: <Brain className="w-4 h-4 text-blue-600" />,
             tips: current > baseline ? 'Great focus and productivity!' : 'Try scheduling deep work sessions'
           };
         case 'Recovery Index':
           return {
-            description: 'Sleep quality, stress management, and recovery',
+            description: 'Sleep and recovery actions',
             icon: <Heart className="w-4 h-4 text-green-600" />,
             tips: current > baseline ? 'Excellent recovery habits!' : 'Consider improving sleep or stress management'
           };
         case 'Connection':
           return {
-            description: 'Social interactions and positive mood',
+            description: 'Positive social touchpoints',
             icon: <Users className="w-4 h-4 text-purple-600" />,
             tips: current > baseline ? 'Strong social connections!' : 'Try reaching out to friends or family'
           };
+        case 'Sleep Consistency':
+          return {
+            description: 'How steady sleep length and bed/wake times are (needs 3 nights)',
+            icon: <Moon className="w-4 h-4 text-indigo-600" />,
+            tips: current > baseline ? 'Steady sleep rhythm!' : 'Try keeping the same wake time every day'
+          };
         default:
           return {
             description: 'Wellness dimension',
@@ -274,25 +227,31 @@ function DimensionInfoCards() {
     {
       name: 'Learning Momentum',
       icon: <Brain className="w-5 h-5 text-blue-600" />,
-      description: 'Focus, deep work sessions, and task completion',
-      factors: ['Focus level', 'Deep work minutes', 'Tasks completed']
+      description: 'Deep work sessions and task completion',
+      factors: ['Deep work minutes', 'Tasks completed']
     },
     {
       name: 'Recovery Index',
       icon: <Heart className="w-5 h-5 text-green-600" />,
-      description: 'Sleep quality, stress management, and recovery actions',
-      factors: ['Sleep hours', 'Recovery actions', 'Stress level']
+      description: 'Sleep and deliberate recovery actions',
+      factors: ['Sleep hours', 'Recovery actions']
     },
     {
       name: 'Connection',
       icon: <Users className="w-5 h-5 text-purple-600" />,
-      description: 'Social interactions, mood, and relationships',
-      factors: ['Mood valence', 'Social touchpoints', 'Social activities']
+      description: 'Positive social interactions over recent check-ins',
+      factors: ['Social touchpoints']
+    },
+    {
+      name: 'Sleep Consistency',
+      icon: <Moon className="w-5 h-5 text-indigo-600" />,
+      description: 'Night-to-night steadiness of your sleep',
+      factors: ['Sleep hours', 'Bedtime', 'Wake time']
     }
   ];
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
       {dimensions.map((dimension) => (
         <div key={dimension.name} className="card p-4">
           <div className="flex items-center gap-2 mb-2">
@@ -311,11 +270,64 @@ function DimensionInfoCards() {
   );
 }
 
+const CHRONOTYPE_LABELS: Record<Chronotype, string> = {
+  morning: 'Morning type',
+  intermediate: 'In between',
+  evening: 'Evening type',
+  unknown: 'Not enough check-ins yet'
+};
+
+/**
+ * Sleep summary: debt against target, regularity and chronotype
+ */
+function SleepSummary({ report }: { report: SleepReport }) {
+  const { regularity, chronotype } = report;
+
+  return (
+    <div className="card p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Moon className="w-5 h-5 text-indigo-600" />
+        <h3 className="text-lg font-semibold text-foreground">Sleep</h3>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-center">
+        <div>
+          <div className={`text-2xl font-bold ${report.debtHours >= 5 ? 'text-red-600' : 'text-foreground'}`}>
+            {report.debtHours.toFixed(1)}h
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Sleep debt vs. {report.targetHours}h target
+            {report.averageSleepHours !== null && ` · avg ${report.averageSleepHours}h`}
+          </p>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-foreground">
+            {regularity ? regularity.score.toFixed(0) : '—'}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Regularity (0-100)
+            {regularity && regularity.midSleep !== null && ` · mid-sleep ${formatClockTime(regularity.midSleep)}`}
+          </p>
+        </div>
+        <div>
+          <div className="text-2xl font-bold text-foreground">{CHRONOTYPE_LABELS[chronotype.chronotype]}</div>
+          <p className="text-xs text-muted-foreground">
+            {chronotype.peakBucket ? `Energy peaks: ${chronotype.peakBucket}` : 'Inferred from high-energy check-ins'}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 /**
  * Main SuccessCompass component
  */
 export function SuccessCompass() {
-  const { value: moodEntries } = useMoodEntries();
+  const { value: moodEntries, loading: entriesLoading } = useMoodEntries();
+  const { activeProfile, loading: profilesLoading } = useScoringProfiles();
+  const scoresById = useScoreCache(moodEntries, activeProfile, !entriesLoading && !profilesLoading);
+  const { summaries } = useDailySummaries(moodEntries, activeProfile);
+  const sleepReport = useSleepReport(moodEntries, summaries);
   const [isLoading, setIsLoading] = useState(true);
 
   // Calculate current week and baseline data
@@ -328,17 +340,20 @@ export function SuccessCompass() {
     const baselineWeekStart = startOfWeek(subWeeks(now, 1), { weekStartsOn: 1 });
     const baselineWeekEnd = endOfWeek(subWeeks(now, 1), { weekStartsOn: 1 });
 
+    // Cached canonical scores, each against its point-in-time baseline
+    const allScores = Array.from(scoresById.values());
+
     // Filter entries for current week
-    const currentWeekEntries = moodEntries.filter(entry => 
-      isWithinInterval(new Date(entry.timestamp), {
+    const currentWeekEntries = allScores.filter(entry => 
+      isWithinInterval(entry.timestamp, {
         start: currentWeekStart,
         end: currentWeekEnd
       })
     );
 
     // Filter entries for baseline week (previous week)
-    const baselineEntries = moodEntries.filter(entry => 
-      isWithinInterval(new Date(entry.timestamp), {
+    const baselineEntries = allScores.filter(entry => 
+      isWithinInterval(entry.timestamp, {
         start: baselineWeekStart,
         end: baselineWeekEnd
       })
@@ -348,6 +363,12 @@ export function SuccessCompass() {
     const currentWeekAverages = SuccessCompassCalculator.calculatePeriodAverages(currentWeekEntries);
     const baselineAverages = SuccessCompassCalculator.calculatePeriodAverages(baselineEntries);
 
+    // Sleep regularity (0-100) of each week's nights, 0 until there are enough
+    const weekRegularity = (start: Date, end: Date) => {
+      const days = summaries.filter(summary => isWithinInterval(getDayDate(summary.date), { start, end }));
+      return (calculateSleepRegularity(days)?.score ?? 0) / 100;
+    };
+
     // Create radar chart data
     const radarData: RadarDataPoint[] = [
       {
@@ -367,6 +388,12 @@ export function SuccessCompass() {
         current: currentWeekAverages.CN,
         baseline: baselineAverages.CN,
         fullMark: 1
+      },
+      {
+        dimension: 'Sleep Consistency',
+        current: weekRegularity(currentWeekStart, currentWeekEnd),
+        baseline: weekRegularity(baselineWeekStart, baselineWeekEnd),
+        fullMark: 1
       }
     ];
 
@@ -377,7 +404,7 @@ export function SuccessCompass() {
       currentWeekAverages,
       baselineAverages
     };
-  }, [moodEntries]);
+  }, [moodEntries, scoresById, summaries]);
 
   // Simulate loading delay for better UX
   useEffect(() => {
@@ -412,7 +439,7 @@ export function SuccessCompass() {
           <h2 className="text-3xl font-bold text-foreground">Success Compass</h2>
         </div>
         <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
-          Visualize your wellness balance across Learning Momentum, Recovery Index, and Connection.
+          Visualize your wellness balance across Learning Momentum, Recovery Index, Connection, and Sleep Consistency.
         </p>
       </div>
 
@@ -459,6 +486,9 @@ export function SuccessCompass() {
         </div>
       </div>
 
+      {/* Sleep */}
+      <SleepSummary report={sleepReport} />
+
       {/* Dimension Info Cards */}
       <DimensionInfoCards />
 
@@ -0,0 +1,201 @@
+/**
+ * CampusThrive Trash Bin Component
+ *
+ * Features:
+ * - Undo and redo for entry edits, imports and deletions
+ * - Lists deleted check-ins with when they will be purged
+ * - Restores single entries or deletes them for good
+ * - Configurable trash retention period and an Empty Trash action
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useEntryHistory, useTrash } from '@/hooks/useLocalStorage';
+import type { StorageResult } from '@/lib/storage';
+import type { TrashedEntry } from '@/types';
+import { Trash2, Undo2, Redo2, ArchiveRestore, AlertCircle } from 'lucide-react';
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+
+/**
+ * Trash retention choices in days (0 keeps entries until the trash is emptied)
+ */
+const TRASH_RETENTION_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Until I empty it' }
+];
+
+/**
+ * One deleted check-in
+ */
+function TrashedEntryRow({
+  item,
+  retentionDays,
+  onRestore,
+  onPurge
+}: {
+  item: TrashedEntry;
+  retentionDays: number;
+  onRestore: () => void;
+  onPurge: () => void;
+}) {
+  const { entry, deletedAt } = item;
+  const daysLeft = retentionDays > 0
+    ? Math.max(0, differenceInCalendarDays(addDays(deletedAt, retentionDays), new Date()))
+    : null;
+
+  return (
+    <li className="flex flex-wrap items-center justify-between gap-3 p-3 rounded-lg border border-border">
+      <div className="space-y-1">
+        <div className="font-medium text-foreground">
+          {format(entry.timestamp, 'EEE, MMM d, yyyy')} · {entry.timeBucket}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Mood {entry.valence} · Energy {entry.energy} · Focus {entry.focus} · Stress {entry.stress}
+          {entry.tags.length > 0 && ` · ${entry.tags.join(', ')}`}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          Deleted {format(deletedAt, 'MMM d, HH:mm')}
+          {daysLeft !== null && ` · removed for good in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`}
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={onPurge} className="btn btn-outline btn-sm flex items-center gap-2">
+          <Trash2 className="w-4 h-4" />
+          Delete Forever
+        </button>
+        <button onClick={onRestore} className="btn btn-primary btn-sm flex items-center gap-2">
+          <ArchiveRestore className="w-4 h-4" />
+          Restore
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Main TrashBin component
+ */
+export function TrashBin({
+  retentionDays,
+  onRetentionChange
+}: {
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+}) {
+  const { entries, restore, purge, emptyTrash, loading } = useTrash();
+  const { canUndo, canRedo, undoLabel, redoLabel, undo, redo } = useEntryHistory();
+  const [error, setError] = useState<string | null>(null);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
+
+  const run = (action: () => StorageResult<unknown>) => {
+    const result = action();
+    setError(result.success ? null : result.error.message);
+  };
+
+  const handleEmpty = () => {
+    if (confirmEmpty) {
+      run(emptyTrash);
+      setConfirmEmpty(false);
+    } else {
+      setConfirmEmpty(true);
+    }
+  };
+
+  // Most recently deleted first
+  const sorted = [...entries].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+
+  return (
+    <div className="card p-6">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <Trash2 className="w-5 h-5 text-primary" />
+          <h3 className="text-lg font-semibold text-foreground">Trash</h3>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => run(undo)}
+            disabled={!canUndo}
+            title={undoLabel ? `Undo: ${undoLabel}` : 'Nothing to undo'}
+            className="btn btn-outline btn-sm flex items-center gap-2"
+          >
+            <Undo2 className="w-4 h-4" />
+            {undoLabel ? `Undo ${undoLabel.toLowerCase()}` : 'Undo'}
+          </button>
+          <button
+            onClick={() => run(redo)}
+            disabled={!canRedo}
+            title={redoLabel ? `Redo: ${redoLabel}` : 'Nothing to redo'}
+            className="btn btn-outline btn-sm flex items-center gap-2"
+          >
+            <Redo2 className="w-4 h-4" />
+            {redoLabel ? `Redo ${redoLabel.toLowerCase()}` : 'Redo'}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Deleted check-ins stay here until the retention period runs out, so you can restore them one at a time.
+          Edits, imports and deletions made in this session can also be undone.
+        </p>
+
+        <label className="flex flex-wrap items-center gap-3 text-sm">
+          <span className="text-foreground">Keep deleted entries for</span>
+          <select
+            value={retentionDays}
+            onChange={(e) => onRetentionChange(Number(e.target.value))}
+            className="px-3 py-1.5 rounded border border-border bg-background text-foreground"
+          >
+            {TRASH_RETENTION_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        {error && (
+          <div className="flex items-start gap-2 text-sm text-red-600">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {loading ? null : sorted.length === 0 ? (
+          <p className="text-sm text-muted-foreground">The trash is empty.</p>
+        ) : (
+          <>
+            <ul className="space-y-2">
+              {sorted.map(item => (
+                <TrashedEntryRow
+                  key={item.entry.id}
+                  item={item}
+                  retentionDays={retentionDays}
+                  onRestore={() => run(() => restore(item.entry.id))}
+                  onPurge={() => run(() => purge(item.entry.id))}
+                />
+              ))}
+            </ul>
+
+            <div className="flex gap-2 pt-4 border-t border-border">
+              <button
+                onClick={handleEmpty}
+                className={`btn btn-sm flex items-center gap-2 ${confirmEmpty ? 'btn-destructive' : 'btn-outline'}`}
+              >
+                <Trash2 className="w-4 h-4" />
+                {confirmEmpty ? `Delete ${sorted.length} for good` : 'Empty Trash'}
+              </button>
+              {confirmEmpty && (
+                <button onClick={() => setConfirmEmpty(false)} className="btn btn-outline btn-sm">
+                  Cancel
+                </button>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,9 +2,15 @@
  * CampusThrive Trends Visualization Component
  * 
  * Features:
- * - Line chart showing MC and DSS trends over 14 days
+ * - Line chart showing daily MC and DSS trends over 14 days
  * - Dual y-axis with interactive tooltips
  * - Toggle switches for metric visibility
+ * - Outlier days ringed when the profile sets an outlier limit
+ * - LOESS trend line and change-point annotations for MC
+ * - Next-week MC and DSS forecast drawn as shaded prediction bands
+ * - Rolling sleep debt against the user's sleep target
+ * - Tooltip explains each day's MC and DSS by component contribution
+ * - Clicking a day lists its check-ins for editing
  * - Responsive design with loading/empty states
  * - Clean animations and touch-friendly interactions
  */
@@ -13,17 +19,24 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import {
-  LineChart,
+  ComposedChart,
   Line,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
-  ReferenceLine
+  ReferenceLine,
+  ReferenceDot
 } from 'recharts';
-import { useMoodEntries } from '@/hooks/useLocalStorage';
-import { MoodEntry } from '@/types';
+import { useMoodEntries, useScoringProfiles, useDailySummaries, useScoreCache, useSleepReport } from '@/hooks/useLocalStorage';
+import { getDayKey, describeBaseline } from '@/lib/scoring';
+import { getDayDate } from '@/lib/daily';
+import { analyzeMetricTrend } from '@/lib/trends';
+import { forecastScores, FORECAST_CONFIG } from '@/lib/forecast';
+import { EntryEditor } from './EntryEditor';
+import type { ScoreExplanation } from '@/types';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -32,9 +45,12 @@ import {
   Loader2,
   Info,
   Activity,
-  Target
+  Target,
+  Moon,
+  Pencil,
+  X
 } from 'lucide-react';
-import { format, subDays, isSameDay } from 'date-fns';
+import { format, subDays } from 'date-fns';
 
 /**
  * Data point interface for chart
@@ -47,7 +63,25 @@ interface ChartDataPoint {
   LM: number | null;
   RI: number | null;
   CN: number | null;
+  /** Rolling sleep debt in hours */
+  SleepDebt: number | null;
+  /** LOESS trend of MC */
+  MCTrend: number | null;
+  /** Forecast and prediction band; the last logged day anchors the band */
+  MCForecast?: number | null;
+  MCBand?: [number, number] | null;
+  DSSForecast?: number | null;
+  DSSBand?: [number, number] | null;
+  isForecast?: boolean;
+  /** Label of the baseline the day's scores were normalized against */
+  baseline: string | null;
+  /** Dimensions on which the day was an outlier against earlier days */
+  outlierDimensions: string[];
+  /** Why the day's MC and DSS came out as they did */
+  explanation: { MC: ScoreExplanation; DSS: ScoreExplanation } | null;
   entries: number;
+  /** Check-ins logged on the day */
+  entryIds: string[];
 }
 
 /**
@@ -59,100 +93,27 @@ interface ChartConfig {
   showLM: boolean;
   showRI: boolean;
   showCN: boolean;
+  showSleepDebt: boolean;
+  showForecast: boolean;
   daysToShow: number;
 }
 
-/**
- * Score calculation utilities
- */
-class TrendCalculator {
-  /**
-   * Calculate z-score for a value against historical data
-   */
-  private static calculateZScore(value: number, data: number[]): number {
-    if (data.length === 0) return 0;
-    const mean = data.reduce((sum, val) => sum + val, 0) / data.length;
-    const variance = data.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / data.length;
-    const stdDev = Math.sqrt(variance);
-    return stdDev === 0 ? 0 : (value - mean) / stdDev;
-  }
-
-  /**
-   * Calculate MC (Mood Composite) score
-   */
-  static calculateMC(entry: MoodEntry, historicalData: MoodEntry[]): number {
-    if (historicalData.length < 3) {
-      // Simple average if not enough data for z-scores
-      return (entry.valence + entry.energy + entry.focus - entry.stress) / 4;
-    }
-
-    const valenceData = historicalData.map(e => e.valence);
-    const energyData = historicalData.map(e => e.energy);
-    const focusData = historicalData.map(e => e.focus);
-    const stressData = historicalData.map(e => e.stress);
-
-    const zV = this.calculateZScore(entry.valence, valenceData);
-    const zE = this.calculateZScore(entry.energy, energyData);
-    const zF = this.calculateZScore(entry.focus, focusData);
-    const zS = this.calculateZScore(entry.stress, stressData);
-
-    return 0.4 * zV + 0.3 * zE + 0.2 * zF - 0.2 * zS;
-  }
-
-  /**
-   * Calculate DSS (Daily Success Score)
-   */
-  static calculateDSS(entry: MoodEntry, historicalData: MoodEntry[]): number {
-    const MC = this.calculateMC(entry, historicalData);
-    const tasksCompleted = entry.tasksCompleted || 0;
-    const deepworkMinutes = entry.deepworkMinutes || 0;
-
-    // Simple DSS calculation - can be enhanced with more sophisticated algorithms
-    return (MC * 0.4) + (tasksCompleted * 0.1) + (deepworkMinutes * 0.01);
-  }
-
-  /**
-   * Calculate LM (Learning Momentum)
-   */
-  static calculateLM(entry: MoodEntry): number {
-    const focus = entry.focus;
-    const deepworkMinutes = entry.deepworkMinutes || 0;
-    return (focus * 0.6) + (Math.min(deepworkMinutes / 180, 1) * 0.4);
-  }
-
-  /**
-   * Calculate RI (Recovery Index)
-   */
-  static calculateRI(entry: MoodEntry): number {
-    const sleepHours = entry.sleepHours || 0;
-    const recoveryAction = entry.recoveryAction ? 1 : 0;
-    const stress = entry.stress;
-    return (sleepHours / 8 * 0.4) + (recoveryAction * 0.3) + ((5 - stress) / 5 * 0.3);
-  }
-
-  /**
-   * Calculate CN (Connection)
-   */
-  static calculateCN(entry: MoodEntry): number {
-    const valence = entry.valence;
-    const socialTouchpoints = entry.socialTouchpoints || 0;
-    return (valence * 0.6) + (Math.min(socialTouchpoints / 5, 1) * 0.4);
-  }
-}
-
 /**
  * Custom tooltip component
  */
 interface CustomTooltipProps {
   active?: boolean;
-  payload?: Array<{ value: number; dataKey: string; color: string }>;
+  payload?: Array<{ value: number | [number, number] | null; dataKey: string; color: string; payload?: ChartDataPoint }>;
   label?: string;
 }
 
 function CustomTooltip({ active, payload, label }: CustomTooltipProps) {
   if (active && payload && payload.length) {
+    const explanation = payload[0]?.payload?.explanation;
+    const shownScores = (['MC', 'DSS'] as const).filter(metric => payload.some(entry => entry.dataKey === metric));
+
     return (
-      <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
+      <div className="bg-card border border-border rounded-lg p-3 shadow-lg max-w-xs">
         <p className="font-medium text-foreground mb-2">{label}</p>
         {payload?.map((entry, index: number) => (
           <div key={index} className="flex items-center gap-2 text-sm">
@@ -162,10 +123,49 @@ function CustomTooltip({ active, payload, label }: CustomTooltipProps) {
             />
             <span className="text-muted-foreground">{entry.dataKey}:</span>
             <span className="font-medium text-foreground">
-              {entry.value !== null ? entry.value.toFixed(2) : 'N/A'}
+              {entry.value === null
+                ? 'N/A'
+                : Array.isArray(entry.value)
+                  ? `${entry.value[0].toFixed(2)} to ${entry.value[1].toFixed(2)}`
+                  : entry.value.toFixed(2)}
             </span>
           </div>
         ))}
+        {payload[0]?.payload?.isForecast && (
+          <p className="text-xs text-muted-foreground mt-2">
+            Forecast with {Math.round(FORECAST_CONFIG.INTERVAL_LEVEL * 100)}% prediction range
+          </p>
+        )}
+        {payload[0]?.payload?.outlierDimensions.length ? (
+          <p className="text-xs text-red-600 mt-2">
+            Outlier: {payload[0].payload.outlierDimensions.join(', ')}
+          </p>
+        ) : null}
+        {explanation && shownScores.map(metric => (
+          <div key={metric} className="mt-2 pt-2 border-t border-border">
+            <p className="text-xs text-foreground">{explanation[metric].summary}</p>
+            {explanation[metric].isValid && (
+              <div className="mt-1 space-y-0.5">
+                {explanation[metric].contributions.slice(0, 3).map(contribution => (
+                  <div key={contribution.component} className="flex justify-between gap-4 text-xs text-muted-foreground">
+                    <span>{contribution.label}</span>
+                    <span className={contribution.contribution >= 0 ? 'text-green-600' : 'text-red-600'}>
+                      {contribution.contribution >= 0 ? '+' : ''}{contribution.contribution.toFixed(2)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+        {payload[0]?.payload?.baseline && (
+          <p className="text-xs text-muted-foreground mt-2">
+            Baseline: {payload[0].payload.baseline}
+          </p>
+        )}
+        {payload[0]?.payload?.entryIds.length ? (
+          <p className="text-xs text-primary mt-2">Click to edit this day&apos;s check-ins</p>
+        ) : null}
       </div>
     );
   }
@@ -256,21 +256,34 @@ function MetricToggle({
  */
 export function TrendsChart() {
   const { value: moodEntries } = useMoodEntries();
+  const { activeProfile } = useScoringProfiles();
   const [config, setConfig] = useState<ChartConfig>({
     showMC: true,
     showDSS: true,
     showLM: false,
     showRI: false,
     showCN: false,
+    showSleepDebt: false,
+    showForecast: true,
     daysToShow: 14
   });
   const [isLoading, setIsLoading] = useState(true);
+  // Day picked on the chart, and the check-in open in the editor
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // One summary per logical day, scored against the days before it
+  const { summaries, dayStartHour } = useDailySummaries(moodEntries, activeProfile);
+  const scoresById = useScoreCache(moodEntries, activeProfile);
+  const sleepReport = useSleepReport(moodEntries, summaries);
 
   // Calculate chart data
   const chartData = useMemo((): ChartDataPoint[] => {
-    if (moodEntries.length === 0) return [];
+    if (summaries.length === 0) return [];
 
-    const endDate = new Date();
+    const summariesByDate = new Map(summaries.map(summary => [summary.date, summary]));
+    const sleepDebtByDate = new Map(sleepReport.debtHistory.map(point => [point.date, point.debtHours]));
+    const endDate = getDayDate(getDayKey(new Date(), dayStartHour));
     
     // Create array of dates
     const dates = [];
@@ -280,12 +293,9 @@ export function TrendsChart() {
     dates.reverse();
 
     return dates.map(date => {
-      // Find entries for this date
-      const dayEntries = moodEntries.filter(entry => 
-        isSameDay(new Date(entry.timestamp), date)
-      );
+      const summary = summariesByDate.get(format(date, 'yyyy-MM-dd'));
 
-      if (dayEntries.length === 0) {
+      if (!summary) {
         return {
           date: format(date, 'yyyy-MM-dd'),
           dateLabel: format(date, 'MMM dd'),
@@ -294,49 +304,114 @@ export function TrendsChart() {
           LM: null,
           RI: null,
           CN: null,
-          entries: 0
+          SleepDebt: null,
+          MCTrend: null,
+          baseline: null,
+          outlierDimensions: [],
+          explanation: null,
+          entries: 0,
+          entryIds: []
         };
       }
 
-      // Use the latest entry of the day for calculations
-      const latestEntry = dayEntries[dayEntries.length - 1];
-      
-      if (!latestEntry) {
+      return {
+        date: summary.date,
+        dateLabel: format(date, 'MMM dd'),
+        MC: parseFloat(summary.scores.MC.toFixed(2)),
+        DSS: parseFloat(summary.scores.DSS.toFixed(2)),
+        LM: parseFloat(summary.scores.LM.toFixed(2)),
+        RI: parseFloat(summary.scores.RI.toFixed(2)),
+        CN: parseFloat(summary.scores.CN.toFixed(2)),
+        SleepDebt: sleepDebtByDate.get(summary.date) ?? null,
+        MCTrend: null,
+        baseline: summary.baselineLabel,
+        outlierDimensions: summary.outlierDimensions,
+        explanation: summary.explanation,
+        entries: summary.entryIds.length,
+        entryIds: summary.entryIds
+      };
+    });
+  }, [summaries, sleepReport, dayStartHour, config.daysToShow]);
+
+  // Fitted trends over the days shown
+  const { mcTrendAnalysis, dssTrendAnalysis } = useMemo(() => {
+    const shownDates = new Set(chartData.map(d => d.date));
+    const shown = summaries.filter(summary => shownDates.has(summary.date));
+    return {
+      mcTrendAnalysis: analyzeMetricTrend(shown, 'MC'),
+      dssTrendAnalysis: analyzeMetricTrend(shown, 'DSS')
+    };
+  }, [summaries, chartData]);
+
+  // Next week's forecast from all logged days
+  const forecast = useMemo(
+    () => forecastScores(summaries, moodEntries, scoresById, { dayStartHour }),
+    [summaries, moodEntries, scoresById, dayStartHour]
+  );
+
+  // Chart data with the MC trend line and the forecast after the last logged day
+  const annotatedData = useMemo((): ChartDataPoint[] => {
+    const smoothedByDate = new Map(mcTrendAnalysis?.smoothed.map(point => [point.date, point.value]) ?? []);
+    const withTrend = chartData.map(d => ({ ...d, MCTrend: smoothedByDate.get(d.date) ?? null }));
+    if (!config.showForecast || !forecast) return withTrend;
+
+    const forecastByDate = new Map(forecast.points.map(point => [point.date, point]));
+    const annotated = withTrend.map(d => {
+      const point = forecastByDate.get(d.date);
+      if (point) {
+        forecastByDate.delete(d.date);
         return {
-          date: format(date, 'yyyy-MM-dd'),
-          dateLabel: format(date, 'MMM dd'),
-          MC: null,
-          DSS: null,
-          LM: null,
-          RI: null,
-          CN: null,
-          entries: 0
+          ...d,
+          MCForecast: point.MC.value,
+          MCBand: [point.MC.lower, point.MC.upper] as [number, number],
+          DSSForecast: point.DSS.value,
+          DSSBand: [point.DSS.lower, point.DSS.upper] as [number, number],
+          isForecast: true
         };
       }
-      
-      // Calculate scores using historical data up to this point
-      const historicalData = moodEntries.filter(entry => 
-        new Date(entry.timestamp) < date
-      );
-
-      const MC = TrendCalculator.calculateMC(latestEntry, historicalData);
-      const DSS = TrendCalculator.calculateDSS(latestEntry, historicalData);
-      const LM = TrendCalculator.calculateLM(latestEntry);
-      const RI = TrendCalculator.calculateRI(latestEntry);
-      const CN = TrendCalculator.calculateCN(latestEntry);
+      // Anchor the band on the last logged day so it starts from real data
+      if (d.date === forecast.lastObservedDate && d.MC !== null && d.DSS !== null) {
+        return { ...d, MCForecast: d.MC, MCBand: [d.MC, d.MC] as [number, number], DSSForecast: d.DSS, DSSBand: [d.DSS, d.DSS] as [number, number] };
+      }
+      return d;
+    });
 
-      return {
-        date: format(date, 'yyyy-MM-dd'),
-        dateLabel: format(date, 'MMM dd'),
-        MC: parseFloat(MC.toFixed(2)),
-        DSS: parseFloat(DSS.toFixed(2)),
-        LM: parseFloat(LM.toFixed(2)),
-        RI: parseFloat(RI.toFixed(2)),
-        CN: parseFloat(CN.toFixed(2)),
-        entries: dayEntries.length
-      };
+    // Days after the chart's last day
+    forecastByDate.forEach(point => {
+      annotated.push({
+        date: point.date,
+        dateLabel: format(getDayDate(point.date), 'MMM dd'),
+        MC: null,
+        DSS: null,
+        LM: null,
+        RI: null,
+        CN: null,
+        SleepDebt: null,
+        MCTrend: null,
+        MCForecast: point.MC.value,
+        MCBand: [point.MC.lower, point.MC.upper],
+        DSSForecast: point.DSS.value,
+        DSSBand: [point.DSS.lower, point.DSS.upper],
+        isForecast: true,
+        baseline: null,
+        outlierDimensions: [],
+        explanation: null,
+        entries: 0,
+        entryIds: []
+      });
     });
-  }, [moodEntries, config.daysToShow]);
+
+    return annotated;
+  }, [chartData, mcTrendAnalysis, forecast, config.showForecast]);
+
+  // Check-ins on the clicked day; closes if they are all deleted
+  const selectedDay = useMemo(() => {
+    const point = chartData.find(d => d.date === selectedDate);
+    if (!point) return null;
+    const ids = new Set(point.entryIds);
+    const entries = moodEntries.filter(entry => ids.has(entry.id));
+    return entries.length > 0 ? { date: point.date, entries } : null;
+  }, [chartData, selectedDate, moodEntries]);
 
   // Calculate trend statistics
   const trendStats = useMemo(() => {
@@ -346,17 +421,20 @@ export function TrendsChart() {
     const mcValues = validData.map(d => d.MC!);
     const dssValues = validData.map(d => d.DSS!);
 
-    const mcTrend = (mcValues[mcValues.length - 1] || 0) - (mcValues[0] || 0);
-    const dssTrend = (dssValues[dssValues.length - 1] || 0) - (dssValues[0] || 0);
+    // Fitted change when there are enough days, otherwise first to last
+    const mcTrend = mcTrendAnalysis?.change ?? (mcValues[mcValues.length - 1] || 0) - (mcValues[0] || 0);
+    const dssTrend = dssTrendAnalysis?.change ?? (dssValues[dssValues.length - 1] || 0) - (dssValues[0] || 0);
 
     return {
       mcTrend: parseFloat(mcTrend.toFixed(2)),
       dssTrend: parseFloat(dssTrend.toFixed(2)),
+      mcConfidence: mcTrendAnalysis?.analysis.confidence ?? null,
+      dssConfidence: dssTrendAnalysis?.analysis.confidence ?? null,
       mcAvg: parseFloat((mcValues.reduce((a, b) => a + b, 0) / mcValues.length).toFixed(2)),
       dssAvg: parseFloat((dssValues.reduce((a, b) => a + b, 0) / dssValues.length).toFixed(2)),
       dataPoints: validData.length
     };
-  }, [chartData]);
+  }, [chartData, mcTrendAnalysis, dssTrendAnalysis]);
 
   // Simulate loading delay for better UX
   useEffect(() => {
@@ -397,7 +475,10 @@ export function TrendsChart() {
                 {trendStats.mcTrend >= 0 ? '+' : ''}{trendStats.mcTrend}
               </span>
             </div>
-            <p className="text-xs text-muted-foreground">Avg: {trendStats.mcAvg}</p>
+            <p className="text-xs text-muted-foreground">
+              Avg: {trendStats.mcAvg}
+              {trendStats.mcConfidence !== null && ` · ${Math.round(trendStats.mcConfidence * 100)}% conf.`}
+            </p>
           </div>
 
           <div className="card p-4 flex flex-col justify-center min-h-[100px]">
@@ -415,7 +496,10 @@ export function TrendsChart() {
                 {trendStats.dssTrend >= 0 ? '+' : ''}{trendStats.dssTrend}
               </span>
             </div>
-            <p className="text-xs text-muted-foreground">Avg: {trendStats.dssAvg}</p>
+            <p className="text-xs text-muted-foreground">
+              Avg: {trendStats.dssAvg}
+              {trendStats.dssConfidence !== null && ` · ${Math.round(trendStats.dssConfidence * 100)}% conf.`}
+            </p>
           </div>
 
           <div className="card p-4 flex flex-col justify-center min-h-[100px]">
@@ -441,7 +525,7 @@ export function TrendsChart() {
       {/* Metric toggles */}
       <div className="card p-4">
         <h3 className="text-lg font-semibold text-foreground mb-4">Show Metrics</h3>
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
           <MetricToggle
             label="Mood Composite"
             checked={config.showMC}
@@ -472,6 +556,18 @@ export function TrendsChart() {
             onChange={(checked) => setConfig(prev => ({ ...prev, showCN: checked }))}
             icon={Target}
           />
+          <MetricToggle
+            label="Sleep Debt"
+            checked={config.showSleepDebt}
+            onChange={(checked) => setConfig(prev => ({ ...prev, showSleepDebt: checked }))}
+            icon={Moon}
+          />
+          <MetricToggle
+            label="Forecast"
+            checked={config.showForecast}
+            onChange={(checked) => setConfig(prev => ({ ...prev, showForecast: checked }))}
+            icon={Calendar}
+          />
         </div>
       </div>
 
@@ -479,7 +575,16 @@ export function TrendsChart() {
       <div className="card p-6">
         <div className="h-80 w-full">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+            <ComposedChart
+              data={annotatedData}
+              margin={{ top: 20, right: 30, left: 20, bottom: 20 }}
+              onClick={(state) => {
+                // recharts reports the hovered index as a string such as "3", or null
+                const index = state.activeIndex === null || state.activeIndex === undefined ? NaN : Number(state.activeIndex);
+                const point = Number.isInteger(index) ? annotatedData[index] : undefined;
+                if (point && point.entryIds.length > 0) setSelectedDate(point.date);
+              }}
+            >
               <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
               <XAxis 
                 dataKey="dateLabel" 
@@ -503,11 +608,92 @@ export function TrendsChart() {
                 tickLine={false}
                 axisLine={false}
               />
+              {/* LM, RI and CN are raw values on their own scale */}
+              <YAxis yAxisId="components" hide />
+              <YAxis yAxisId="sleep" hide />
               <Tooltip content={<CustomTooltip />} />
               
               {/* Reference lines for zero */}
               <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" strokeDasharray="2 2" opacity={0.5} />
+
+              {/* Ring outlier days on the MC line (or DSS if MC is hidden) */}
+              {(config.showMC || config.showDSS) && chartData
+                .filter(d => d.outlierDimensions.length > 0)
+                .map(d => (
+                  <ReferenceDot
+                    key={`outlier-${d.date}`}
+                    yAxisId={config.showMC ? 'left' : 'right'}
+                    x={d.dateLabel}
+                    y={(config.showMC ? d.MC : d.DSS) ?? 0}
+                    r={9}
+                    fill="none"
+                    stroke="hsl(0, 84%, 60%)"
+                    strokeWidth={2}
+                  />
+                ))}
               
+              {/* Mark days where the MC level shifted */}
+              {config.showMC && mcTrendAnalysis?.changePoints.map(point => (
+                <ReferenceLine
+                  key={`change-${point.date}`}
+                  yAxisId="left"
+                  x={format(getDayDate(point.date), 'MMM dd')}
+                  stroke="hsl(262, 83%, 58%)"
+                  strokeDasharray="4 4"
+                  label={{ value: point.shift > 0 ? 'Shift ↑' : 'Shift ↓', position: 'top', fontSize: 11, fill: 'hsl(262, 83%, 58%)' }}
+                />
+              ))}
+
+              {/* Forecast bands after the last logged day */}
+              {config.showForecast && forecast && config.showMC && (
+                <Area
+                  yAxisId="left"
+                  type="monotone"
+                  dataKey="MCBand"
+                  stroke="none"
+                  fill="hsl(221, 83%, 53%)"
+                  fillOpacity={0.15}
+                  activeDot={false}
+                  connectNulls={false}
+                />
+              )}
+              {config.showForecast && forecast && config.showDSS && (
+                <Area
+                  yAxisId="right"
+                  type="monotone"
+                  dataKey="DSSBand"
+                  stroke="none"
+                  fill="hsl(142, 76%, 36%)"
+                  fillOpacity={0.15}
+                  activeDot={false}
+                  connectNulls={false}
+                />
+              )}
+              {config.showForecast && forecast && config.showMC && (
+                <Line
+                  yAxisId="left"
+                  type="monotone"
+                  dataKey="MCForecast"
+                  stroke="hsl(221, 83%, 53%)"
+                  strokeWidth={2}
+                  strokeDasharray="2 3"
+                  dot={false}
+                  connectNulls={false}
+                />
+              )}
+              {config.showForecast && forecast && config.showDSS && (
+                <Line
+                  yAxisId="right"
+                  type="monotone"
+                  dataKey="DSSForecast"
+                  stroke="hsl(142, 76%, 36%)"
+                  strokeWidth={2}
+                  strokeDasharray="2 3"
+                  dot={false}
+                  connectNulls={false}
+                />
+              )}
+
               {/* Lines for each metric */}
               {config.showMC && (
                 <Line
@@ -521,6 +707,20 @@ export function TrendsChart() {
                   connectNulls={false}
                 />
               )}
+              {config.showMC && mcTrendAnalysis && (
+                <Line
+                  yAxisId="left"
+                  type="monotone"
+                  dataKey="MCTrend"
+                  name="MC trend"
+                  stroke="hsl(221, 83%, 53%)"
+                  strokeWidth={1.5}
+                  strokeDasharray="6 4"
+                  dot={false}
+                  activeDot={false}
+                  connectNulls
+                />
+              )}
               {config.showDSS && (
                 <Line
                   yAxisId="right"
@@ -535,7 +735,7 @@ export function TrendsChart() {
               )}
               {config.showLM && (
                 <Line
-                  yAxisId="left"
+                  yAxisId="components"
                   type="monotone"
                   dataKey="LM"
                   stroke="hsl(262, 83%, 58%)"
@@ -547,7 +747,7 @@ export function TrendsChart() {
               )}
               {config.showRI && (
                 <Line
-                  yAxisId="left"
+                  yAxisId="components"
                   type="monotone"
                   dataKey="RI"
                   stroke="hsl(25, 95%, 53%)"
@@ -559,7 +759,7 @@ export function TrendsChart() {
               )}
               {config.showCN && (
                 <Line
-                  yAxisId="left"
+                  yAxisId="components"
                   type="monotone"
                   dataKey="CN"
                   stroke="hsl(330, 81%, 60%)"
@@ -569,17 +769,93 @@ export function TrendsChart() {
                   connectNulls={false}
                 />
               )}
-            </LineChart>
+              {config.showSleepDebt && (
+                <Line
+                  yAxisId="sleep"
+                  type="monotone"
+                  dataKey="SleepDebt"
+                  name="Sleep debt (h)"
+                  stroke="hsl(239, 84%, 67%)"
+                  strokeWidth={2}
+                  dot={{ fill: "hsl(239, 84%, 67%)", strokeWidth: 2, r: 4 }}
+                  activeDot={{ r: 6, stroke: "hsl(239, 84%, 67%)", strokeWidth: 2 }}
+                  connectNulls={false}
+                />
+              )}
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
+
+        {/* Check-ins on the clicked day */}
+        {selectedDay && (
+          <div className="mt-4 pt-4 border-t border-border">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium text-foreground">
+                Check-ins on {format(getDayDate(selectedDay.date), 'EEE, MMM d')}
+              </h4>
+              <button
+                onClick={() => setSelectedDate(null)}
+                aria-label="Close day"
+                className="p-1 text-muted-foreground hover:text-foreground"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <ul className="space-y-2">
+              {selectedDay.entries.map(entry => (
+                <li key={entry.id} className="flex items-center justify-between gap-3 p-2 rounded-lg bg-background-alt text-sm">
+                  <span className="text-foreground">
+                    {format(entry.timestamp, 'h:mm a')} · {entry.timeBucket}
+                  </span>
+                  <span className="text-muted-foreground">
+                    Mood {entry.valence} · Energy {entry.energy} · Focus {entry.focus} · Stress {entry.stress}
+                  </span>
+                  <button
+                    onClick={() => setEditingId(entry.id)}
+                    className="btn btn-outline btn-sm flex items-center gap-2"
+                  >
+                    <Pencil className="w-4 h-4" />
+                    Edit
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
 
+      {editingId && <EntryEditor entryId={editingId} onClose={() => setEditingId(null)} />}
+
       {/* Chart info */}
       <div className="text-center text-sm text-muted-foreground">
         <p>
-          Hover over data points to see exact values. 
+          Hover over data points to see exact values, and click a day to edit its check-ins. 
           Missing data points indicate days without check-ins.
         </p>
+        <p>
+          Baseline: {describeBaseline(activeProfile.baseline)} ({activeProfile.name} profile).
+        </p>
+        {chartData.some(d => d.outlierDimensions.length > 0) && (
+          <p>Red rings mark days that were outliers against earlier days.</p>
+        )}
+        {config.showMC && mcTrendAnalysis && (
+          <p>
+            The dashed line is the smoothed MC trend
+            {mcTrendAnalysis.changePoints.length > 0 && '; purple lines mark days where MC shifted level'}.
+          </p>
+        )}
+        {config.showSleepDebt && (
+          <p>
+            Sleep debt is measured against your {sleepReport.targetHours}-hour target; it grows after short
+            nights and shrinks after long ones.
+          </p>
+        )}
+        {config.showForecast && forecast && (
+          <p>
+            Shaded bands forecast the next {forecast.points.length} days; the true value should
+            land inside them about {Math.round(forecast.level * 100)}% of the time.
+          </p>
+        )}
       </div>
     </div>
   );
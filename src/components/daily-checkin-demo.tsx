@@ -8,11 +8,12 @@
 'use client';
 
 import { DailyCheckin } from '@/components/DailyCheckin';
-import { useMoodEntries } from '@/hooks/useLocalStorage';
+import { useMoodEntries, useScoringProfiles, useScoreCache } from '@/hooks/useLocalStorage';
 import { Calendar, TrendingUp, BarChart3 } from 'lucide-react';
 
 export function DailyCheckinDemo() {
   const moodEntries = useMoodEntries();
+  const { activeProfile, loading: profilesLoading } = useScoringProfiles();
 
   // Calculate some basic stats
   const totalEntries = moodEntries.value.length;
@@ -21,9 +22,11 @@ export function DailyCheckinDemo() {
     return new Date(entry.timestamp).toDateString() === today;
   }).length;
 
+  const scoresById = useScoreCache(moodEntries.value, activeProfile, !moodEntries.loading && !profilesLoading);
+
   const avgMood = moodEntries.value.length > 0 
     ? moodEntries.value.reduce((sum, entry) => {
-        const mc = (entry.valence + entry.energy + entry.focus - entry.stress) / 4;
+        const mc = scoresById.get(entry.id)?.MC ?? 0;
         return sum + mc;
       }, 0) / moodEntries.value.length
     : 0;
@@ -116,8 +119,8 @@ export function DailyCheckinDemo() {
               <h3 className="text-xl font-semibold text-foreground">Recent Check-ins</h3>
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {moodEntries.value.slice(-6).reverse().map((entry) => {
-                  const mc = (entry.valence + entry.energy + entry.focus - entry.stress) / 4;
-                  const dss = (entry.tasksCompleted || 0) * 0.4 + (entry.deepworkMinutes || 0) * 0.01 + mc * 0.3;
+                  const mc = scoresById.get(entry.id)?.MC ?? 0;
+                  const dss = scoresById.get(entry.id)?.DSS ?? 0;
                   
                   return (
                     <div key={entry.id} className="p-4 bg-secondary/50 rounded-lg space-y-2">
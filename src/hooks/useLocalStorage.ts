@@ -1,33 +1,85 @@
 /**
  * CampusThrive useLocalStorage Hook
  * 
- * Custom React hook for localStorage management with TypeScript generics,
- * automatic serialization, error handling, and data validation.
+ * Custom React hook for browser storage management with TypeScript generics,
+ * automatic serialization, error handling, and data validation. Values are
+ * read and written through StorageManager's adapter (IndexedDB when
+ * available, otherwise localStorage or memory), so the hooks work the same
+ * against any backend.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { 
   StorageManager, 
   StorageError, 
-  MigrationManager
+  MigrationManager,
+  ScoreCacheManager,
+  AnomalyManager,
+  GoalManager,
+  QuarantineManager,
+  EntryManager,
+  type StorageResult
 } from '@/lib/storage';
+import {
+  arraySchema,
+  nullableSchema,
+  isValidForSchema,
+  MOOD_ENTRY_SCHEMA,
+  TRASHED_ENTRY_SCHEMA,
+  ENTRY_REVISION_SCHEMA,
+  APP_SETTINGS_SCHEMA,
+  GOAL_SCHEMA,
+  STUDY_TASK_SCHEMA,
+  STUDY_PLAN_SCHEMA,
+  MIGRATION_LOG_ENTRY_SCHEMA,
+  type Schema
+} from '@/lib/schema';
+import {
+  BUILT_IN_SCORING_PROFILES,
+  applyAcademicCalendar,
+  getScoringProfileErrors,
+  resolveScoringProfile
+} from '@/lib/scoring';
+import { buildDailySummaries, DEFAULT_DAY_START_HOUR } from '@/lib/daily';
+import { calculateStreakReport, DEFAULT_STREAK_SETTINGS, type StreakReport } from '@/lib/streaks';
+import { calculateBurnoutHistory } from '@/lib/burnout';
+import { calculateSleepReport, DEFAULT_SLEEP_SETTINGS, type SleepReport } from '@/lib/sleep';
+import { evaluateActiveGoals, type GoalReport } from '@/lib/goals';
 import type { 
   MoodEntry, 
   ComputedScores, 
   DriverAnalysis, 
   PowerHourHeatmap, 
   CoachTip, 
-  AppSettings
+  ScoringProfile,
+  CachedEntryScores,
+  DailySummary,
+  Anomaly,
+  BurnoutRisk,
+  StudyTask,
+  StudyPlan,
+  Goal,
+  GoalProgress,
+  MigrationLogEntry,
+  QuarantinedRecord,
+  TrashedEntry,
+  EntryRevision,
+  UpdateMoodEntry
 } from '@/types';
 
 /**
- * Hook options for localStorage operations
+ * Hook options for storage operations
  */
 export interface UseLocalStorageOptions<T> {
-  /** Default value to use when localStorage is empty or unavailable */
+  /** Default value to use when storage is empty or unavailable */
   defaultValue: T;
   /** Function to validate data when reading from storage */
   validator?: (data: unknown) => data is T;
+  /**
+   * Schema to validate data against instead of `validator`; values that
+   * fail are quarantined rather than replaced by the default
+   */
+  schema?: Schema<T>;
   /** Whether to enable automatic cleanup of expired data */
   enableCleanup?: boolean;
   /** Whether to run migrations automatically */
@@ -42,17 +94,17 @@ export interface UseLocalStorageOptions<T> {
  * Return type for the useLocalStorage hook
  */
 export interface UseLocalStorageReturn<T> {
-  /** Current value from localStorage */
+  /** Current value from storage */
   value: T;
-  /** Function to update the value in localStorage */
+  /** Function to update the value in storage */
   setValue: (value: T | ((prevValue: T) => T)) => void;
-  /** Function to remove the value from localStorage */
+  /** Function to remove the value from storage */
   removeValue: () => void;
   /** Whether the operation is in progress */
   loading: boolean;
   /** Any error that occurred during the last operation */
   error: StorageError | null;
-  /** Whether localStorage is available */
+  /** Whether the storage backend is available */
   isAvailable: boolean;
   /** Storage usage information */
   storageInfo: { used: number; available: number; percentage: number };
@@ -61,7 +113,7 @@ export interface UseLocalStorageReturn<T> {
 }
 
 /**
- * Custom hook for localStorage with TypeScript generics and error handling
+ * Custom hook for browser storage with TypeScript generics and error handling
  */
 export function useLocalStorage<T>(
   key: string,
@@ -70,6 +122,7 @@ export function useLocalStorage<T>(
   const {
     defaultValue,
     validator,
+    schema,
     enableCleanup = true,
     enableMigrations = true,
     onError,
@@ -86,6 +139,7 @@ export function useLocalStorage<T>(
   // Refs to prevent unnecessary re-renders
   const defaultValueRef = useRef(defaultValue);
   const validatorRef = useRef(validator);
+  const schemaRef = useRef(schema);
   const onErrorRef = useRef(onError);
   const onSuccessRef = useRef(onSuccess);
 
@@ -93,19 +147,22 @@ export function useLocalStorage<T>(
   useEffect(() => {
     defaultValueRef.current = defaultValue;
     validatorRef.current = validator;
+    schemaRef.current = schema;
     onErrorRef.current = onError;
     onSuccessRef.current = onSuccess;
-  }, [defaultValue, validator, onError, onSuccess]);
+  }, [defaultValue, validator, schema, onError, onSuccess]);
 
   /**
-   * Load value from localStorage
+   * Load value from storage once the backend is open
    */
-  const loadValue = useCallback(() => {
+  const loadValue = useCallback(async () => {
     setLoading(true);
     setError(null);
 
     try {
-      // Check if localStorage is available
+      await StorageManager.initialize();
+
+      // Check if the storage backend is available
       const available = StorageManager.isAvailable();
       setIsAvailable(available);
 
@@ -115,24 +172,24 @@ export function useLocalStorage<T>(
         return;
       }
 
-      // Run migrations if enabled
+      // Run pending migrations if enabled; a failed run is rolled back,
+      // so the stored data can still be read
       if (enableMigrations) {
-        const storedVersion = MigrationManager.getStoredVersion();
-        const currentVersion = MigrationManager.getCurrentVersion();
-        
-        if (storedVersion !== currentVersion) {
-          // In a real app, you'd run migrations here
-          // For now, we'll just update the version
-          MigrationManager.setStoredVersion(currentVersion);
+        const migrationResult = MigrationManager.ensureCurrent();
+        if (!migrationResult.success) {
+          setError(migrationResult.error);
+          onErrorRef.current?.(migrationResult.error);
         }
       }
 
       // Get the value from storage
-      const result = StorageManager.getItem(
-        key,
-        validatorRef.current || ((_data: unknown): _data is T => true),
-        defaultValueRef.current
-      );
+      const result = schemaRef.current
+        ? StorageManager.getValidatedItem(key, schemaRef.current, defaultValueRef.current)
+        : StorageManager.getItem(
+          key,
+          validatorRef.current || ((_data: unknown): _data is T => true),
+          defaultValueRef.current
+        );
 
       if (result.success) {
         setValueState(result.data);
@@ -169,7 +226,7 @@ export function useLocalStorage<T>(
   }, [key, enableCleanup, enableMigrations]);
 
   /**
-   * Save value to localStorage
+   * Save value to storage
    */
   const setValue = useCallback((newValue: T | ((prevValue: T) => T)) => {
     setLoading(true);
@@ -196,7 +253,7 @@ export function useLocalStorage<T>(
         if (result.error.code === 'QUOTA_EXCEEDED') {
           const cleanupResult = StorageManager.forceCleanup();
           if (cleanupResult.removed > 0) {
-            console.log(`Force cleanup removed ${cleanupResult.removed} entries, freed ${cleanupResult.freed} bytes`);
+            console.log(`Force cleanup removed ${cleanupResult.removed} cached keys, freed ${cleanupResult.freed} bytes`);
             
             // Try saving again after cleanup
             const retryResult = StorageManager.setItem(key, valueToSave);
@@ -225,7 +282,7 @@ export function useLocalStorage<T>(
   }, [key, value]);
 
   /**
-   * Remove value from localStorage
+   * Remove value from storage
    */
   const removeValue = useCallback(() => {
     setLoading(true);
@@ -267,25 +324,27 @@ export function useLocalStorage<T>(
   useEffect(() => {
     if (!isAvailable) return;
 
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === key && e.newValue !== null) {
+    const handleStorageChange = (changedKey: string, newValue: string | null) => {
+      if (changedKey === key && newValue !== null) {
         try {
-          const parsed = JSON.parse(e.newValue);
-          if (validatorRef.current ? validatorRef.current(parsed) : true) {
+          const parsed = StorageManager.parse(newValue);
+          const isValid = (data: unknown): data is T => schemaRef.current
+            ? isValidForSchema(schemaRef.current, data)
+            : !validatorRef.current || validatorRef.current(data);
+          if (isValid(parsed)) {
             setValueState(parsed);
             onSuccessRef.current?.(parsed);
           }
         } catch (err) {
           console.warn('Failed to parse storage change event:', err);
         }
-      } else if (e.key === key && e.newValue === null) {
+      } else if (changedKey === key && newValue === null) {
         // Value was removed
         setValueState(defaultValueRef.current);
       }
     };
 
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
+    return StorageManager.getAdapter().subscribe(handleStorageChange);
   }, [key, isAvailable]);
 
   return {
@@ -306,16 +365,124 @@ export function useLocalStorage<T>(
 
   /**
    * Hook for mood entries with validation
+   * 
+   * Reloads whenever EntryManager changes the entries (edits, imports,
+   * deletions, restores, undo and redo).
    */
   export function useMoodEntries() {
-    return useLocalStorage('campus-thrive-mood-entries', {
+    const entries = useLocalStorage('campus-thrive-mood-entries', {
       defaultValue: [] as MoodEntry[],
-      validator: (data): data is MoodEntry[] => Array.isArray(data),
+      schema: arraySchema(MOOD_ENTRY_SCHEMA),
       enableCleanup: true,
       enableMigrations: true,
     });
+    const { refresh } = entries;
+
+    useEffect(() => EntryManager.subscribe(refresh), [refresh]);
+
+    return entries;
   }
 
+/**
+ * Hook for undoable entry changes and the undo/redo stack
+ * 
+ * The stack is shared by every component and kept for the session.
+ */
+export function useEntryHistory() {
+  const [next, setNext] = useState(() => EntryManager.peek());
+
+  useEffect(() => EntryManager.subscribe(() => setNext(EntryManager.peek())), []);
+
+  const editEntry = useCallback((update: UpdateMoodEntry) => EntryManager.editEntry(update), []);
+  const saveEntry = useCallback((entry: MoodEntry) => EntryManager.saveEntry(entry), []);
+  const importEntries = useCallback((entries: MoodEntry[]) => EntryManager.importEntries(entries), []);
+  const deleteEntries = useCallback((entryIds: string[]) => EntryManager.deleteEntries(entryIds), []);
+  const undo = useCallback(() => EntryManager.undo(), []);
+  const redo = useCallback(() => EntryManager.redo(), []);
+
+  return {
+    canUndo: next.undo !== null,
+    canRedo: next.redo !== null,
+    undoLabel: next.undo?.label ?? null,
+    redoLabel: next.redo?.label ?? null,
+    undo,
+    redo,
+    editEntry,
+    saveEntry,
+    importEntries,
+    deleteEntries
+  };
+}
+
+/**
+ * Hook for one entry's revision history, newest first
+ * 
+ * `getStateBefore` rebuilds the entry as it was before a revision;
+ * `revert` saves that version as a new, undoable edit.
+ */
+export function useEntryRevisions(entryId: string) {
+  const stored = useLocalStorage('campus-thrive-entry-revisions', {
+    defaultValue: [] as EntryRevision[],
+    schema: arraySchema(ENTRY_REVISION_SCHEMA),
+    enableCleanup: false,
+    enableMigrations: true,
+  });
+  const { refresh } = stored;
+
+  useEffect(() => EntryManager.subscribe(refresh), [refresh]);
+
+  const revisions = useMemo(
+    () => stored.value.filter(revision => revision.entryId === entryId).reverse(),
+    [stored.value, entryId]
+  );
+
+  const getStateBefore = useCallback(
+    (revisionId: string) => EntryManager.getRevisionState(entryId, revisionId),
+    [entryId]
+  );
+  const revert = useCallback(
+    (revisionId: string) => EntryManager.revertToRevision(entryId, revisionId),
+    [entryId]
+  );
+
+  return {
+    revisions,
+    getStateBefore,
+    revert,
+    loading: stored.loading
+  };
+}
+
+/**
+ * Hook for deleted entries waiting in the trash
+ * 
+ * Entries older than `dataRetention.trashDays` in app settings are purged
+ * by the cleanup that runs when mood entries load.
+ */
+export function useTrash() {
+  const stored = useLocalStorage('campus-thrive-trash', {
+    defaultValue: [] as TrashedEntry[],
+    schema: arraySchema(TRASHED_ENTRY_SCHEMA),
+    enableCleanup: false,
+    enableMigrations: true,
+  });
+  const { refresh } = stored;
+
+  useEffect(() => EntryManager.subscribe(refresh), [refresh]);
+
+  const restore = useCallback((entryId: string) => EntryManager.restoreEntry(entryId), []);
+  const purge = useCallback((entryId: string) => EntryManager.purgeTrash([entryId]), []);
+  const emptyTrash = useCallback(() => EntryManager.purgeTrash(), []);
+
+  return {
+    entries: stored.value,
+    restore,
+    purge,
+    emptyTrash,
+    loading: stored.loading
+  };
+}
+
 /**
  * Hook for app settings with validation
  */
@@ -331,7 +498,7 @@ export function useAppSettings() {
         weeklyReports: true,
       },
       dataRetention: {
-        moodEntriesDays: 14,
+        moodEntriesDays: 0,
         scoresDays: 30,
       },
       privacy: {
@@ -339,12 +506,88 @@ export function useAppSettings() {
         crashReporting: false,
       },
     },
-    validator: (data): data is AppSettings => typeof data === 'object' && data !== null,
+    schema: APP_SETTINGS_SCHEMA,
     enableCleanup: false,
     enableMigrations: true,
   });
 }
 
+/**
+ * Hook for scoring profiles stored alongside app settings
+ * 
+ * Built-in profiles come from code; only user-created profiles and the
+ * active profile ID are persisted. The active profile carries the academic
+ * calendar when same-phase baselines are turned on.
+ */
+export function useScoringProfiles() {
+  const settings = useAppSettings();
+  const { value: appSettings, setValue: setAppSettings } = settings;
+
+  const profiles = useMemo(
+    () => [...BUILT_IN_SCORING_PROFILES, ...(appSettings.scoringProfiles ?? [])],
+    [appSettings.scoringProfiles]
+  );
+
+  const activeProfile = useMemo(
+    () => applyAcademicCalendar(
+      resolveScoringProfile(profiles, appSettings.activeScoringProfileId),
+      appSettings.academicCalendar,
+      appSettings.dayStartHour ?? DEFAULT_DAY_START_HOUR
+    ),
+    [profiles, appSettings.activeScoringProfileId, appSettings.academicCalendar, appSettings.dayStartHour]
+  );
+
+  const setActiveProfile = useCallback((profileId: string) => {
+    setAppSettings(prev => ({ ...prev, activeScoringProfileId: profileId }));
+  }, [setAppSettings]);
+
+  const saveProfile = useCallback((profile: ScoringProfile): StorageResult<ScoringProfile> => {
+    if (BUILT_IN_SCORING_PROFILES.some(builtIn => builtIn.id === profile.id)) {
+      return {
+        success: false,
+        error: new StorageError('Built-in profiles cannot be edited', 'INVALID_DATA')
+      };
+    }
+
+    const errors = getScoringProfileErrors(profile);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        error: new StorageError(errors.join('; '), 'INVALID_DATA')
+      };
+    }
+
+    const saved: ScoringProfile = { ...profile, builtIn: false };
+    setAppSettings(prev => {
+      const existing = prev.scoringProfiles ?? [];
+      const updated = existing.some(p => p.id === saved.id)
+        ? existing.map(p => (p.id === saved.id ? saved : p))
+        : [...existing, saved];
+      return { ...prev, scoringProfiles: updated };
+    });
+
+    return { success: true, data: saved };
+  }, [setAppSettings]);
+
+  const deleteProfile = useCallback((profileId: string) => {
+    setAppSettings(prev => ({
+      ...prev,
+      scoringProfiles: (prev.scoringProfiles ?? []).filter(p => p.id !== profileId),
+      // Fall back to the default profile if the active one is removed
+      ...(prev.activeScoringProfileId === profileId && { activeScoringProfileId: BUILT_IN_SCORING_PROFILES[0]!.id })
+    }));
+  }, [setAppSettings]);
+
+  return {
+    profiles,
+    activeProfile,
+    setActiveProfile,
+    saveProfile,
+    deleteProfile,
+    loading: settings.loading
+  };
+}
+
 /**
  * Hook for computed scores with validation
  */
@@ -357,6 +600,199 @@ export function useComputedScores() {
   });
 }
 
+/**
+ * Hook for canonical per-entry scores served from the persisted score cache
+ * 
+ * Only entries that changed since the last sync are rescored. Pass
+ * `enabled: false` while entries or settings are still loading so the
+ * cache is not rebuilt for placeholder data.
+ */
+export function useScoreCache(
+  entries: MoodEntry[],
+  profile: ScoringProfile,
+  enabled: boolean = true
+): Map<string, CachedEntryScores> {
+  const computed = useMemo(
+    () => (enabled ? ScoreCacheManager.compute(entries, profile) : null),
+    [entries, profile, enabled]
+  );
+
+  // Persist after render; if storage is full the scores are still served from memory
+  useEffect(() => {
+    if (!computed?.changed) return;
+    const result = ScoreCacheManager.save(computed.scores);
+    if (!result.success) {
+      console.warn('Score cache could not be saved:', result.error.message);
+    }
+  }, [computed]);
+
+  return useMemo(
+    () => ScoreCacheManager.toLookup(computed?.scores ?? []),
+    [computed]
+  );
+}
+
+/**
+ * Hook for per-day summaries using the day boundary from app settings
+ * 
+ * Pass `enabled: false` while entries or settings are still loading.
+ */
+export function useDailySummaries(
+  entries: MoodEntry[],
+  profile: ScoringProfile,
+  enabled: boolean = true
+): { summaries: DailySummary[]; dayStartHour: number; loading: boolean } {
+  const { value: appSettings, loading } = useAppSettings();
+  const dayStartHour = appSettings.dayStartHour ?? DEFAULT_DAY_START_HOUR;
+
+  const summaries = useMemo(
+    () => (enabled && !loading ? buildDailySummaries(entries, profile, { dayStartHour }) : []),
+    [entries, profile, dayStartHour, enabled, loading]
+  );
+
+  return { summaries, dayStartHour, loading };
+}
+
+/**
+ * Hook for the streak report using the streak rules from app settings
+ */
+export function useStreakReport(summaries: DailySummary[], dayStartHour: number): StreakReport {
+  const { value: appSettings } = useAppSettings();
+  const streakSettings = appSettings.streakSettings ?? DEFAULT_STREAK_SETTINGS;
+
+  return useMemo(
+    () => calculateStreakReport(summaries, streakSettings, dayStartHour),
+    [summaries, streakSettings, dayStartHour]
+  );
+}
+
+/**
+ * Hook for the burnout risk history and the latest risk, using the sleep target
+ * and debt window from app settings
+ */
+export function useBurnoutRisk(summaries: DailySummary[]): { history: BurnoutRisk[]; current: BurnoutRisk | null; sleepDebtWindowDays: number } {
+  const { value: appSettings } = useAppSettings();
+  const sleepSettings = appSettings.sleepSettings ?? DEFAULT_SLEEP_SETTINGS;
+
+  return useMemo(() => {
+    const history = calculateBurnoutHistory(summaries, sleepSettings);
+    return { history, current: history[history.length - 1] ?? null, sleepDebtWindowDays: sleepSettings.debtWindowDays };
+  }, [summaries, sleepSettings]);
+}
+
+/**
+ * Hook for sleep debt, regularity and chronotype using the sleep goals from app settings
+ */
+export function useSleepReport(entries: MoodEntry[], summaries: DailySummary[]): SleepReport {
+  const { value: appSettings } = useAppSettings();
+  const sleepSettings = appSettings.sleepSettings ?? DEFAULT_SLEEP_SETTINGS;
+
+  return useMemo(
+    () => calculateSleepReport(summaries, entries, sleepSettings),
+    [summaries, entries, sleepSettings]
+  );
+}
+
+/**
+ * Hook for stored anomalies, re-detected whenever the data changes
+ * 
+ * Pass `enabled: false` while entries or settings are still loading so
+ * stored dismissals are not overwritten from placeholder data.
+ */
+export function useAnomalies(
+  entries: MoodEntry[],
+  scores: Map<string, ComputedScores>,
+  summaries: DailySummary[],
+  dayStartHour: number,
+  enabled: boolean = true
+): { anomalies: Anomaly[]; dismissAnomaly: (anomalyId: string) => void } {
+  // Dismissed this session, applied even if storage could not be written
+  const [dismissedIds, setDismissedIds] = useState<string[]>([]);
+
+  const detected = useMemo(
+    () => (enabled ? AnomalyManager.detect(entries, scores, summaries, dayStartHour) : null),
+    [entries, scores, summaries, dayStartHour, enabled]
+  );
+
+  // Persist after render; if storage is full the anomalies are still shown from memory
+  useEffect(() => {
+    if (!detected?.changed) return;
+    const result = AnomalyManager.save(detected.anomalies);
+    if (!result.success) {
+      console.warn('Anomalies could not be saved:', result.error.message);
+    }
+  }, [detected]);
+
+  const anomalies = useMemo(
+    () => (detected?.anomalies ?? []).map(anomaly =>
+      dismissedIds.includes(anomaly.id) ? { ...anomaly, dismissed: true } : anomaly
+    ),
+    [detected, dismissedIds]
+  );
+
+  const dismissAnomaly = useCallback((anomalyId: string) => {
+    const result = AnomalyManager.dismiss(anomalyId);
+    if (!result.success) {
+      console.warn('Anomaly dismissal could not be saved:', result.error.message);
+    }
+    setDismissedIds(prev => [...prev, anomalyId]);
+  }, []);
+
+  return { anomalies, dismissAnomaly };
+}
+
+/**
+ * Hook for the user's weekly goals
+ */
+export function useGoals() {
+  return useLocalStorage('campus-thrive-goals', {
+    defaultValue: [] as Goal[],
+    schema: arraySchema(GOAL_SCHEMA),
+    enableCleanup: false,
+    enableMigrations: true,
+  });
+}
+
+/**
+ * Hook for this week's progress on active goals and the stored history
+ * of finished weeks
+ * 
+ * Pass `enabled: false` while goals or entries are still loading so the
+ * stored history is not synced from placeholder data.
+ */
+export function useGoalProgress(
+  goals: Goal[],
+  summaries: DailySummary[],
+  dayStartHour: number,
+  enabled: boolean = true
+): { current: GoalReport[]; history: GoalProgress[] } {
+  const current = useMemo(
+    () => evaluateActiveGoals(goals, summaries, new Date(), dayStartHour),
+    [goals, summaries, dayStartHour]
+  );
+
+  const evaluated = useMemo(
+    () => (enabled ? GoalManager.evaluate(goals, summaries, new Date(), dayStartHour) : null),
+    [goals, summaries, dayStartHour, enabled]
+  );
+
+  // Persist after render; if storage is full the history is still shown from memory
+  useEffect(() => {
+    if (!evaluated?.changed) return;
+    const result = GoalManager.save(evaluated.history);
+    if (!result.success) {
+      console.warn('Goal history could not be saved:', result.error.message);
+    }
+  }, [evaluated]);
+
+  const history = useMemo(
+    () => evaluated?.history ?? GoalManager.getHistory(),
+    [evaluated]
+  );
+
+  return { current, history };
+}
+
 /**
  * Hook for driver analysis with validation
  */
@@ -381,6 +817,30 @@ export function usePowerHourHeatmap() {
   });
 }
 
+/**
+ * Hook for study tasks to plan into the week
+ */
+export function useStudyTasks() {
+  return useLocalStorage('campus-thrive-study-tasks', {
+    defaultValue: [] as StudyTask[],
+    schema: arraySchema(STUDY_TASK_SCHEMA),
+    enableCleanup: false,
+    enableMigrations: true,
+  });
+}
+
+/**
+ * Hook for the current weekly study plan
+ */
+export function useStudyPlan() {
+  return useLocalStorage('campus-thrive-study-plan', {
+    defaultValue: null as StudyPlan | null,
+    schema: nullableSchema(STUDY_PLAN_SCHEMA),
+    enableCleanup: false,
+    enableMigrations: true,
+  });
+}
+
 /**
  * Hook for coach tips with validation
  */
@@ -393,6 +853,58 @@ export function useCoachTips() {
   });
 }
 
+/**
+ * Hook for the migration log, newest run first
+ * 
+ * `dryRun` reports what pending migrations would change without writing.
+ */
+export function useMigrationLog() {
+  const log = useLocalStorage('campus-thrive-migration-log', {
+    defaultValue: [] as MigrationLogEntry[],
+    schema: arraySchema(MIGRATION_LOG_ENTRY_SCHEMA),
+    enableCleanup: false,
+    enableMigrations: true,
+  });
+
+  const dryRun = useCallback(() => MigrationManager.dryRun(), []);
+
+  return {
+    log: log.value,
+    storedVersion: log.loading ? null : MigrationManager.getStoredVersion(),
+    currentVersion: MigrationManager.getCurrentVersion(),
+    dryRun,
+    loading: log.loading
+  };
+}
+
+/**
+ * Hook for records quarantined by schema validation
+ * 
+ * Records are quarantined while other hooks load, so the list refreshes
+ * whenever the quarantine changes in this tab.
+ */
+export function useQuarantine() {
+  const stored = useLocalStorage('campus-thrive-quarantine', {
+    defaultValue: [] as QuarantinedRecord[],
+    validator: (data): data is QuarantinedRecord[] => Array.isArray(data),
+    enableCleanup: false,
+    enableMigrations: true,
+  });
+  const { refresh } = stored;
+
+  useEffect(() => QuarantineManager.subscribe(refresh), [refresh]);
+
+  const repair = useCallback((recordId: string, json: string) => QuarantineManager.repair(recordId, json), []);
+  const drop = useCallback((recordId: string) => QuarantineManager.drop(recordId), []);
+
+  return {
+    records: stored.value,
+    repair,
+    drop,
+    loading: stored.loading
+  };
+}
+
 /**
  * Hook for storage management utilities
  */
@@ -418,8 +930,14 @@ export function useStorageManager() {
   }, [refreshStorageInfo]);
 
   const clearAllData = useCallback(() => {
-    StorageManager.clearAll();
+    const result = StorageManager.clearAll();
     refreshStorageInfo();
+    return result;
+  }, [refreshStorageInfo]);
+
+  // Usage is only meaningful once the backend is open
+  useEffect(() => {
+    StorageManager.initialize().then(refreshStorageInfo);
   }, [refreshStorageInfo]);
 
   return {
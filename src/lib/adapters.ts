@@ -0,0 +1,324 @@
+/**
+ * CampusThrive Storage Adapters
+ *
+ * Backends that StorageManager reads and writes through:
+ * - localStorage: synchronous, limited to about 5MB per origin
+ * - IndexedDB: quota set by the browser, usually a share of free disk space
+ * - memory: for tests, server rendering and browsers that block both
+ *
+ * StorageManager's API is synchronous, so every adapter serves reads from
+ * memory. The IndexedDB adapter loads all keys once in `init` and writes
+ * through in the background; `flush` waits until those writes are on disk.
+ */
+
+/**
+ * Storage backend identifiers
+ */
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'memory';
+
+/**
+ * Key/value backend holding serialized JSON strings
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend;
+  /** Bytes the backend can hold (Infinity when unbounded) */
+  readonly maxSize: number;
+  /** Open the backend; must resolve before reads return stored data */
+  init(): Promise<void>;
+  isAvailable(): boolean;
+  getItem(key: string): string | null;
+  /** Throws when the backend rejects the write */
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+  /** Resolve once every write so far is persisted; rejects if one failed */
+  flush(): Promise<void>;
+  /** Listen for changes made by other tabs; returns an unsubscribe function */
+  subscribe(listener: (key: string, value: string | null) => void): () => void;
+}
+
+/**
+ * Adapter configuration
+ */
+export const ADAPTER_CONFIG = {
+  LOCAL_STORAGE_MAX_SIZE: 5 * 1024 * 1024, // 5MB
+  DB_NAME: 'campus-thrive',
+  DB_VERSION: 1,
+  STORE_NAME: 'keyval',
+  CHANNEL_NAME: 'campus-thrive-storage'
+} as const;
+
+/**
+ * Window localStorage
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly backend = 'localStorage' as const;
+
+  constructor(readonly maxSize: number = ADAPTER_CONFIG.LOCAL_STORAGE_MAX_SIZE) {}
+
+  async init(): Promise<void> {}
+
+  isAvailable(): boolean {
+    try {
+      const test = '__storage_test__';
+      localStorage.setItem(test, test);
+      localStorage.removeItem(test);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getItem(key: string): string | null {
+    return localStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    localStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    localStorage.removeItem(key);
+  }
+
+  keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+
+  async flush(): Promise<void> {}
+
+  subscribe(listener: (key: string, value: string | null) => void): () => void {
+    if (typeof window === 'undefined') return () => {};
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.storageArea === localStorage && e.key !== null) {
+        listener(e.key, e.newValue);
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+}
+
+/**
+ * In-memory map, lost on reload
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly backend = 'memory' as const;
+  private items = new Map<string, string>();
+
+  constructor(readonly maxSize: number = Infinity) {}
+
+  async init(): Promise<void> {}
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  keys(): string[] {
+    return [...this.items.keys()];
+  }
+
+  async flush(): Promise<void> {}
+
+  subscribe(): () => void {
+    return () => {};
+  }
+}
+
+/**
+ * Resolve an IndexedDB request as a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB object store mirrored in memory
+ *
+ * Writes update the mirror immediately and are queued as transactions in
+ * call order. A failed write is logged and reported by the next `flush`;
+ * the mirror keeps the value for the rest of the session. Other tabs are
+ * told about committed writes over a BroadcastChannel.
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly backend = 'indexedDB' as const;
+  maxSize = Infinity;
+  private db: IDBDatabase | null = null;
+  private items = new Map<string, string>();
+  private pending: Promise<void> = Promise.resolve();
+  private writeError: Error | null = null;
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<(key: string, value: string | null) => void>();
+
+  /**
+   * Whether this browser has IndexedDB at all
+   */
+  static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async init(): Promise<void> {
+    if (this.db) return;
+
+    const request = indexedDB.open(ADAPTER_CONFIG.DB_NAME, ADAPTER_CONFIG.DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(ADAPTER_CONFIG.STORE_NAME)) {
+        request.result.createObjectStore(ADAPTER_CONFIG.STORE_NAME);
+      }
+    };
+    const db = await requestToPromise(request);
+
+    // getAllKeys and getAll in one transaction return records in the same key order
+    const store = db.transaction(ADAPTER_CONFIG.STORE_NAME, 'readonly').objectStore(ADAPTER_CONFIG.STORE_NAME);
+    const [keys, values] = await Promise.all([
+      requestToPromise(store.getAllKeys()),
+      requestToPromise(store.getAll())
+    ]);
+    keys.forEach((key, index) => {
+      const value = values[index];
+      if (typeof value === 'string') {
+        this.items.set(String(key), value);
+      }
+    });
+
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+      try {
+        const estimate = await navigator.storage.estimate();
+        if (estimate.quota) this.maxSize = estimate.quota;
+      } catch {
+        // Keep the unbounded default; the browser still enforces its own quota
+      }
+    }
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(ADAPTER_CONFIG.CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<{ key: string; value: string | null }>) => {
+        const { key, value } = event.data;
+        if (value === null) {
+          this.items.delete(key);
+        } else {
+          this.items.set(key, value);
+        }
+        this.listeners.forEach(listener => listener(key, value));
+      };
+    }
+
+    this.db = db;
+  }
+
+  isAvailable(): boolean {
+    return this.db !== null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+    this.enqueue(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+    this.enqueue(key, null);
+  }
+
+  keys(): string[] {
+    return [...this.items.keys()];
+  }
+
+  async flush(): Promise<void> {
+    await this.pending;
+    if (this.writeError) {
+      const error = this.writeError;
+      this.writeError = null;
+      throw error;
+    }
+  }
+
+  subscribe(listener: (key: string, value: string | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue a put (or delete, for null) behind earlier writes
+   */
+  private enqueue(key: string, value: string | null): void {
+    const db = this.db;
+    if (!db) {
+      throw new Error('IndexedDB adapter used before init');
+    }
+
+    this.pending = this.pending
+      .then(() => new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(ADAPTER_CONFIG.STORE_NAME, 'readwrite');
+        const store = tx.objectStore(ADAPTER_CONFIG.STORE_NAME);
+        if (value === null) {
+          store.delete(key);
+        } else {
+          store.put(value, key);
+        }
+        tx.oncomplete = () => {
+          this.channel?.postMessage({ key, value });
+          resolve();
+        };
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      }))
+      .catch((error: Error) => {
+        console.error(`IndexedDB write failed for key ${key}:`, error);
+        this.writeError = error;
+      });
+  }
+}
+
+/**
+ * Copy the given keys that exist in `source` into `target`
+ *
+ * Values in `source` win over values already in `target`. Returns the
+ * copied keys; the caller decides when it is safe to remove them from
+ * `source` (after `target.flush()`).
+ */
+export function copyAdapterKeys(
+  source: StorageAdapter,
+  target: StorageAdapter,
+  keys: readonly string[]
+): string[] {
+  const copied: string[] = [];
+
+  keys.forEach(key => {
+    const value = source.getItem(key);
+    if (value !== null) {
+      target.setItem(key, value);
+      copied.push(key);
+    }
+  });
+
+  return copied;
+}
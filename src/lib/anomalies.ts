@@ -0,0 +1,345 @@
+/**
+ * CampusThrive Anomaly Detection
+ *
+ * Flags "unusual days" from two kinds of evidence:
+ * - spikes: a check-in (MC, stress, sleep, mood, energy) or a day (DSS)
+ *   far from the personal baseline, by robust z-score (median/MAD)
+ * - runs: consecutive days moving the wrong way, such as three days of
+ *   rising stress, ending worse than usual
+ *
+ * Baselines only use data from before the value being judged, so a new
+ * check-in is compared with how things were, not with itself.
+ */
+
+import type {
+  Anomaly,
+  AnomalyMetric,
+  ComputedScores,
+  DailySummary,
+  MoodEntry,
+  NormalizationConfig
+} from '@/types';
+import { calculateZScore, daysBetweenKeys, getDayKey } from './scoring';
+import { getDayDate, shiftDayKey, DEFAULT_DAY_START_HOUR } from './daily';
+
+/**
+ * Anomaly detection configuration
+ */
+export const ANOMALY_CONFIG = {
+  /** Robust z-score for a notable spike */
+  NOTABLE_Z: 2.5,
+  /** Robust z-score for an extreme spike */
+  EXTREME_Z: 3.5,
+  /** Earlier values needed before anything is flagged */
+  MIN_BASELINE: 5,
+  /** Earlier check-ins in an entry baseline */
+  BASELINE_ENTRIES: 30,
+  /** Earlier days in a day baseline */
+  BASELINE_DAYS: 28,
+  /** Consecutive days moving the wrong way that make a run */
+  RUN_DAYS: 3,
+  /** Days back that anomalies are shown as alerts */
+  ALERT_DAYS: 7
+} as const;
+
+/**
+ * Median/MAD so the baseline is not dragged by the outliers being looked for
+ */
+const ROBUST_NORMALIZATION: NormalizationConfig = { method: 'median-mad', winsorizeLimit: 0 };
+
+/**
+ * Display labels for anomaly metrics
+ */
+export const ANOMALY_METRIC_LABELS: Record<AnomalyMetric, string> = {
+  MC: 'Mood composite',
+  DSS: 'Daily success score',
+  stress: 'Stress',
+  sleepHours: 'Sleep',
+  valence: 'Mood',
+  energy: 'Energy'
+};
+
+/**
+ * Direction in which each metric is a concern
+ */
+export const ADVERSE_DIRECTION: Record<AnomalyMetric, 'high' | 'low'> = {
+  MC: 'low',
+  DSS: 'low',
+  stress: 'high',
+  sleepHours: 'low',
+  valence: 'low',
+  energy: 'low'
+};
+
+type EntryMetric = Exclude<AnomalyMetric, 'DSS'>;
+
+const ENTRY_METRICS: EntryMetric[] = ['MC', 'stress', 'sleepHours', 'valence', 'energy'];
+
+/**
+ * Daily series watched for runs
+ */
+const RUN_METRICS: Array<{ metric: AnomalyMetric; valueOf: (day: DailySummary) => number | undefined }> = [
+  { metric: 'stress', valueOf: day => day.mood.stress },
+  { metric: 'MC', valueOf: day => day.scores.MC },
+  { metric: 'sleepHours', valueOf: day => day.dayEnd.sleepHours }
+];
+
+/**
+ * Options for anomaly detection
+ */
+export interface AnomalyDetectionOptions {
+  dayStartHour?: number;
+  /** Detection time stamped on new anomalies */
+  now?: Date;
+}
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+function formatValue(metric: AnomalyMetric, value: number): string {
+  return metric === 'sleepHours' ? `${value.toFixed(1)} hours` : value.toFixed(metric === 'MC' || metric === 'DSS' ? 2 : 1);
+}
+
+function formatDay(dayKey: string): string {
+  return getDayDate(dayKey).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function getSeverity(zScore: number): Anomaly['severity'] | null {
+  const size = Math.abs(zScore);
+  if (size >= ANOMALY_CONFIG.EXTREME_Z) return 'extreme';
+  if (size >= ANOMALY_CONFIG.NOTABLE_Z) return 'notable';
+  return null;
+}
+
+/**
+ * Robust z-score against earlier values, or null without enough history
+ */
+function scoreAgainstBaseline(value: number, history: number[]): { zScore: number; baseline: number } | null {
+  if (history.length < ANOMALY_CONFIG.MIN_BASELINE) {
+    return null;
+  }
+  const result = calculateZScore(value, history, undefined, ROBUST_NORMALIZATION);
+  return result.isValid ? { zScore: result.zScore, baseline: result.mean } : null;
+}
+
+function getEntryValue(entry: MoodEntry, metric: EntryMetric, scores: Map<string, ComputedScores>): number | undefined {
+  if (metric === 'MC') return scores.get(entry.id)?.MC;
+  return entry[metric];
+}
+
+/**
+ * Explain a spike in plain language
+ */
+function explainSpike(metric: AnomalyMetric, value: number, baseline: number, severity: Anomaly['severity'], where: string): string {
+  const amount = severity === 'extreme' ? 'far' : 'well';
+  const side = value > baseline ? 'above' : 'below';
+  const label = ANOMALY_METRIC_LABELS[metric];
+
+  if (metric === 'sleepHours') {
+    return `You slept ${formatValue(metric, value)} ${where}, ${amount} ${side} your usual ${formatValue(metric, baseline)}.`;
+  }
+  return `${label} of ${formatValue(metric, value)} ${where} was ${amount} ${side} your usual ${formatValue(metric, baseline)}.`;
+}
+
+/**
+ * Flag check-ins whose values are far from the earlier check-ins
+ */
+export function detectEntrySpikes(
+  entries: MoodEntry[],
+  scores: Map<string, ComputedScores>,
+  options: AnomalyDetectionOptions = {}
+): Anomaly[] {
+  const { dayStartHour = DEFAULT_DAY_START_HOUR, now = new Date() } = options;
+  const sorted = [...entries].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  const anomalies: Anomaly[] = [];
+
+  ENTRY_METRICS.forEach(metric => {
+    const history: number[] = [];
+
+    sorted.forEach(entry => {
+      const value = getEntryValue(entry, metric, scores);
+      if (value === undefined) return;
+
+      const scored = scoreAgainstBaseline(value, history.slice(-ANOMALY_CONFIG.BASELINE_ENTRIES));
+      const severity = scored ? getSeverity(scored.zScore) : null;
+      history.push(value);
+      if (!scored || !severity) return;
+
+      const date = getDayKey(entry.timestamp, dayStartHour);
+      anomalies.push({
+        id: `spike-${metric}-${entry.id}`,
+        kind: 'spike',
+        metric,
+        date,
+        entryId: entry.id,
+        value: round(value),
+        baseline: round(scored.baseline),
+        zScore: round(scored.zScore),
+        direction: scored.zScore > 0 ? 'high' : 'low',
+        severity,
+        explanation: explainSpike(
+          metric,
+          value,
+          scored.baseline,
+          severity,
+          `on the ${entry.timeBucket.toLowerCase()} check-in of ${formatDay(date)}`
+        ),
+        detectedAt: now,
+        dismissed: false
+      });
+    });
+  });
+
+  return anomalies;
+}
+
+/**
+ * Flag days whose DSS is far from the earlier days
+ */
+export function detectDaySpikes(summaries: DailySummary[], options: AnomalyDetectionOptions = {}): Anomaly[] {
+  const { now = new Date() } = options;
+  const days = [...summaries].sort((a, b) => a.date.localeCompare(b.date));
+
+  return days.flatMap((day, i): Anomaly[] => {
+    const history = days
+      .slice(0, i)
+      .filter(earlier => daysBetweenKeys(earlier.date, day.date) <= ANOMALY_CONFIG.BASELINE_DAYS)
+      .map(earlier => earlier.scores.DSS);
+    const scored = scoreAgainstBaseline(day.scores.DSS, history);
+    const severity = scored ? getSeverity(scored.zScore) : null;
+    if (!scored || !severity) return [];
+
+    return [{
+      id: `spike-DSS-${day.date}`,
+      kind: 'spike',
+      metric: 'DSS',
+      date: day.date,
+      value: round(day.scores.DSS),
+      baseline: round(scored.baseline),
+      zScore: round(scored.zScore),
+      direction: scored.zScore > 0 ? 'high' : 'low',
+      severity,
+      explanation: explainSpike('DSS', day.scores.DSS, scored.baseline, severity, `on ${formatDay(day.date)}`),
+      detectedAt: now,
+      dismissed: false
+    }];
+  });
+}
+
+/**
+ * Flag runs of consecutive days moving the wrong way
+ *
+ * A run needs `RUN_DAYS` days in a row, each worse than the day before,
+ * ending worse than the baseline median. Each run is reported once, at
+ * its last day, and keeps its ID as it grows.
+ */
+export function detectRuns(summaries: DailySummary[], options: AnomalyDetectionOptions = {}): Anomaly[] {
+  const { now = new Date() } = options;
+  const days = [...summaries].sort((a, b) => a.date.localeCompare(b.date));
+  const anomalies: Anomaly[] = [];
+
+  RUN_METRICS.forEach(({ metric, valueOf }) => {
+    const worse = (value: number, previous: number) =>
+      ADVERSE_DIRECTION[metric] === 'high' ? value > previous : value < previous;
+
+    // Index of the day before the current run (its starting point)
+    let runStart = 0;
+    const closeRun = (end: number) => {
+      const length = end - runStart;
+      if (length < ANOMALY_CONFIG.RUN_DAYS) return;
+
+      const startDay = days[runStart]!;
+      const lastDay = days[end]!;
+      const history = days
+        .slice(0, runStart + 1)
+        .filter(earlier => daysBetweenKeys(earlier.date, startDay.date) <= ANOMALY_CONFIG.BASELINE_DAYS)
+        .map(valueOf)
+        .filter((value): value is number => value !== undefined);
+
+      const first = valueOf(startDay)!;
+      const last = valueOf(lastDay)!;
+      const scored = scoreAgainstBaseline(last, history);
+      if (!scored || !worse(last, scored.baseline)) return;
+
+      const label = ANOMALY_METRIC_LABELS[metric];
+      const moved = ADVERSE_DIRECTION[metric] === 'high' ? 'rose' : 'fell';
+      anomalies.push({
+        id: `run-${metric}-${shiftDayKey(startDay.date, 1)}`,
+        kind: 'run',
+        metric,
+        date: lastDay.date,
+        value: round(last),
+        baseline: round(scored.baseline),
+        zScore: round(scored.zScore),
+        direction: ADVERSE_DIRECTION[metric] === 'high' ? 'rising' : 'falling',
+        severity: getSeverity(scored.zScore) ?? 'notable',
+        explanation: `${label} ${moved} ${length} days in a row, from ${formatValue(metric, first)} to ${formatValue(metric, last)} (usually ${formatValue(metric, scored.baseline)}).`,
+        detectedAt: now,
+        dismissed: false
+      });
+    };
+
+    for (let i = 1; i < days.length; i++) {
+      const previous = valueOf(days[i - 1]!);
+      const value = valueOf(days[i]!);
+      const continues = previous !== undefined && value !== undefined &&
+        daysBetweenKeys(days[i - 1]!.date, days[i]!.date) === 1 && worse(value, previous);
+
+      if (!continues) {
+        closeRun(i - 1);
+        runStart = i;
+      }
+    }
+    closeRun(days.length - 1);
+  });
+
+  return anomalies;
+}
+
+/**
+ * Detect every anomaly in the entries and their daily summaries
+ *
+ * Newest first.
+ */
+export function detectAnomalies(
+  entries: MoodEntry[],
+  scores: Map<string, ComputedScores>,
+  summaries: DailySummary[],
+  options: AnomalyDetectionOptions = {}
+): Anomaly[] {
+  return [
+    ...detectEntrySpikes(entries, scores, options),
+    ...detectDaySpikes(summaries, options),
+    ...detectRuns(summaries, options)
+  ].sort((a, b) => b.date.localeCompare(a.date) || Math.abs(b.zScore) - Math.abs(a.zScore));
+}
+
+/**
+ * Merge fresh detections with stored anomalies
+ *
+ * Detections are the source of truth (anomalies whose data was deleted
+ * disappear); stored anomalies keep their detection time and dismissal.
+ */
+export function mergeAnomalies(stored: Anomaly[], detected: Anomaly[]): Anomaly[] {
+  const storedById = new Map(stored.map(anomaly => [anomaly.id, anomaly]));
+
+  return detected.map(anomaly => {
+    const previous = storedById.get(anomaly.id);
+    return previous
+      ? { ...anomaly, detectedAt: previous.detectedAt, dismissed: previous.dismissed }
+      : anomaly;
+  });
+}
+
+/**
+ * Undismissed anomalies from the last `ALERT_DAYS` days
+ */
+export function getActiveAnomalies(
+  anomalies: Anomaly[],
+  dayStartHour: number = DEFAULT_DAY_START_HOUR,
+  today: Date = new Date()
+): Anomaly[] {
+  const todayKey = getDayKey(today, dayStartHour);
+  return anomalies.filter(anomaly =>
+    !anomaly.dismissed && daysBetweenKeys(anomaly.date, todayKey) < ANOMALY_CONFIG.ALERT_DAYS
+  );
+}
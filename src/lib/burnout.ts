@@ -0,0 +1,168 @@
+/**
+ * CampusThrive Burnout Risk
+ *
+ * Combines four slow-moving signals into a 0-100 risk score:
+ * - sustained stress above neutral over the last week
+ * - sleep debt accumulated against the nightly sleep target over the
+ *   sleep settings' debt window
+ * - days without a recovery action
+ * - a drop in social touchpoints compared with the weeks before
+ *
+ * MC and DSS describe one entry or day; this score looks back over
+ * several days so a gradual slide shows up before it becomes a crash.
+ * Component weights live in `SCORING_CONFIG.BURNOUT_WEIGHTS`.
+ */
+
+import type { BurnoutLevel, BurnoutRisk, DailySummary, SleepSettings } from '@/types';
+import { SCORING_CONFIG, daysBetweenKeys } from './scoring';
+import { calculateSleepDebt, DEFAULT_SLEEP_SETTINGS } from './sleep';
+import { mean } from './statistics';
+
+/**
+ * Burnout engine configuration
+ */
+export const BURNOUT_CONFIG = {
+  /** Days looked back for stress and recovery */
+  RECENT_DAYS: 7,
+  /** Earlier days social touchpoints are compared with */
+  SOCIAL_BASELINE_DAYS: 21,
+  /** Logged days needed in the sleep-debt window for a valid score */
+  MIN_DAYS: 5,
+  /** Stress (0-5) at which the stress component starts rising */
+  STRESS_NEUTRAL: 2.5,
+  /** Sleep debt, in hours, at which the component saturates */
+  MAX_SLEEP_DEBT_HOURS: 10,
+  /** Lowest score of each risk level */
+  THRESHOLDS: {
+    MODERATE: 35,
+    HIGH: 55,
+    SEVERE: 75
+  }
+} as const;
+
+/**
+ * Display labels for the burnout components
+ */
+export const BURNOUT_COMPONENT_LABELS: Record<keyof BurnoutRisk['components'], string> = {
+  stress: 'Sustained stress',
+  sleepDebt: 'Sleep debt',
+  recoveryGap: 'Missed recovery',
+  socialDecline: 'Less social contact'
+};
+
+const round = (value: number) => parseFloat(value.toFixed(3));
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Risk level of a burnout score
+ */
+export function getBurnoutLevel(score: number): BurnoutLevel {
+  if (score >= BURNOUT_CONFIG.THRESHOLDS.SEVERE) return 'severe';
+  if (score >= BURNOUT_CONFIG.THRESHOLDS.HIGH) return 'high';
+  if (score >= BURNOUT_CONFIG.THRESHOLDS.MODERATE) return 'moderate';
+  return 'low';
+}
+
+/**
+ * Burnout risk as of one day from the days logged up to it
+ *
+ * `days` must be sorted by date; only days on or before `date` are used.
+ * The social component stays at zero until both the recent and the earlier
+ * window have touchpoints reported. Recovery is judged on the days that
+ * reported it.
+ */
+function calculateRiskForDay(days: DailySummary[], date: string, sleepSettings: SleepSettings): BurnoutRisk {
+  const daysBefore = (day: DailySummary) => daysBetweenKeys(day.date, date);
+  const past = days.filter(day => daysBefore(day) >= 0);
+  const recent = past.filter(day => daysBefore(day) < BURNOUT_CONFIG.RECENT_DAYS);
+  const sleepWindow = past.filter(day => daysBefore(day) < sleepSettings.debtWindowDays);
+  const earlier = past.filter(day =>
+    daysBefore(day) >= BURNOUT_CONFIG.RECENT_DAYS &&
+    daysBefore(day) < BURNOUT_CONFIG.RECENT_DAYS + BURNOUT_CONFIG.SOCIAL_BASELINE_DAYS
+  );
+
+  const stress = clamp01(
+    (mean(recent.map(day => day.mood.stress)) - BURNOUT_CONFIG.STRESS_NEUTRAL) / (5 - BURNOUT_CONFIG.STRESS_NEUTRAL)
+  );
+
+  const sleepDebtHours = calculateSleepDebt(sleepWindow, sleepSettings.targetHours);
+  const sleepDebt = clamp01(sleepDebtHours / BURNOUT_CONFIG.MAX_SLEEP_DEBT_HOURS);
+
+  const recoveryReports = recent
+    .map(day => day.dayEnd.recoveryAction)
+    .filter((value): value is boolean => value !== undefined);
+  const recoveryGap = recoveryReports.length > 0
+    ? recoveryReports.filter(value => !value).length / recoveryReports.length
+    : 0;
+
+  const socialCounts = (window: DailySummary[]) => window
+    .map(day => day.dayEnd.socialTouchpoints)
+    .filter((value): value is number => value !== undefined);
+  const recentSocial = socialCounts(recent);
+  const earlierSocial = socialCounts(earlier);
+  const socialDecline = recentSocial.length > 0 && earlierSocial.length > 0
+    ? clamp01((mean(earlierSocial) - mean(recentSocial)) / Math.max(1, mean(earlierSocial)))
+    : 0;
+
+  const weights = SCORING_CONFIG.BURNOUT_WEIGHTS;
+  const score = 100 * (
+    weights.STRESS * stress +
+    weights.SLEEP_DEBT * sleepDebt +
+    weights.RECOVERY_GAP * recoveryGap +
+    weights.SOCIAL_DECLINE * socialDecline
+  );
+
+  return {
+    date,
+    score: parseFloat(score.toFixed(1)),
+    level: getBurnoutLevel(score),
+    components: {
+      stress: round(stress),
+      sleepDebt: round(sleepDebt),
+      recoveryGap: round(recoveryGap),
+      socialDecline: round(socialDecline)
+    },
+    sleepDebtHours: parseFloat(sleepDebtHours.toFixed(1)),
+    daysInWindow: sleepWindow.length,
+    isValid: sleepWindow.length >= BURNOUT_CONFIG.MIN_DAYS
+  };
+}
+
+/**
+ * Burnout risk for every logged day, oldest first
+ */
+export function calculateBurnoutHistory(
+  summaries: DailySummary[],
+  sleepSettings: SleepSettings = DEFAULT_SLEEP_SETTINGS
+): BurnoutRisk[] {
+  const days = [...summaries].sort((a, b) => a.date.localeCompare(b.date));
+  return days.map(day => calculateRiskForDay(days, day.date, sleepSettings));
+}
+
+/**
+ * Burnout risk as of the last logged day, or null without any days
+ */
+export function calculateBurnoutRisk(
+  summaries: DailySummary[],
+  sleepSettings: SleepSettings = DEFAULT_SLEEP_SETTINGS
+): BurnoutRisk | null {
+  const days = [...summaries].sort((a, b) => a.date.localeCompare(b.date));
+  const last = days[days.length - 1];
+  return last ? calculateRiskForDay(days, last.date, sleepSettings) : null;
+}
+
+/**
+ * Components ordered by their weighted contribution, largest first
+ */
+export function getBurnoutContributors(risk: BurnoutRisk): Array<{ component: keyof BurnoutRisk['components']; contribution: number }> {
+  const weights: Record<keyof BurnoutRisk['components'], number> = {
+    stress: SCORING_CONFIG.BURNOUT_WEIGHTS.STRESS,
+    sleepDebt: SCORING_CONFIG.BURNOUT_WEIGHTS.SLEEP_DEBT,
+    recoveryGap: SCORING_CONFIG.BURNOUT_WEIGHTS.RECOVERY_GAP,
+    socialDecline: SCORING_CONFIG.BURNOUT_WEIGHTS.SOCIAL_DECLINE
+  };
+
+  return (Object.keys(weights) as Array<keyof BurnoutRisk['components']>)
+    .map(component => ({ component, contribution: round(100 * weights[component] * risk.components[component]) }))
+    .sort((a, b) => b.contribution - a.contribution);
+}
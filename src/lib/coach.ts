@@ -6,9 +6,17 @@
  * - Recent tags and patterns
  * - Time of day considerations
  * - Historical wellness data
+ * - Recent anomalies (unusual days) as triggers
+ * - Burnout risk over the last days
+ * - Sleep debt and regularity
+ * - Active goals that are at risk this week
  */
 
-import type { CoachTip, MoodEntry } from '@/types';
+import type { Anomaly, AnomalyMetric, BurnoutRisk, CoachTip, GoalMetric, MoodEntry } from '@/types';
+import { ADVERSE_DIRECTION } from './anomalies';
+import { BURNOUT_CONFIG } from './burnout';
+import type { SleepReport } from './sleep';
+import type { GoalReport } from './goals';
 
 /**
  * Tip categories for organization and matching
@@ -45,6 +53,35 @@ export enum TimeContext {
   NIGHT = 'night'
 }
 
+/**
+ * Tip categories that respond to an anomaly in each metric
+ */
+export const ANOMALY_TIP_CATEGORIES: Record<AnomalyMetric, TipCategory[]> = {
+  MC: [TipCategory.MOOD_BOOST, TipCategory.MINDFULNESS],
+  DSS: [TipCategory.PRODUCTIVITY, TipCategory.FOCUS_ENHANCEMENT],
+  stress: [TipCategory.STRESS_MANAGEMENT, TipCategory.MINDFULNESS],
+  sleepHours: [TipCategory.SLEEP_RECOVERY],
+  valence: [TipCategory.MOOD_BOOST, TipCategory.SOCIAL_CONNECTION],
+  energy: [TipCategory.ENERGY_MANAGEMENT, TipCategory.PHYSICAL_WELLNESS]
+};
+
+/**
+ * Tip categories that can help with a goal on each metric
+ */
+export const GOAL_TIP_CATEGORIES: Record<GoalMetric, TipCategory[]> = {
+  stress: [TipCategory.STRESS_MANAGEMENT, TipCategory.MINDFULNESS],
+  valence: [TipCategory.MOOD_BOOST, TipCategory.SOCIAL_CONNECTION],
+  energy: [TipCategory.ENERGY_MANAGEMENT, TipCategory.PHYSICAL_WELLNESS],
+  focus: [TipCategory.FOCUS_ENHANCEMENT],
+  MC: [TipCategory.MOOD_BOOST, TipCategory.MINDFULNESS],
+  DSS: [TipCategory.PRODUCTIVITY, TipCategory.FOCUS_ENHANCEMENT],
+  deepworkMinutes: [TipCategory.FOCUS_ENHANCEMENT, TipCategory.PRODUCTIVITY],
+  tasksCompleted: [TipCategory.PRODUCTIVITY],
+  sleepHours: [TipCategory.SLEEP_RECOVERY],
+  socialTouchpoints: [TipCategory.SOCIAL_CONNECTION],
+  recoveryAction: [TipCategory.PHYSICAL_WELLNESS, TipCategory.MINDFULNESS]
+};
+
 /**
  * Comprehensive tip database with 50+ contextual suggestions
  */
@@ -241,6 +278,42 @@ export const COACH_TIPS_DATABASE: CoachTip[] = [
     suggestedAction: 'Practice this breathing pattern while lying in bed',
     timeContext: [TimeContext.EVENING, TimeContext.NIGHT]
   },
+  {
+    id: 'sleep_debt_payback',
+    content: 'You are carrying several hours of sleep debt. Pay it back gradually: go to bed 30-60 minutes earlier for the next few nights rather than sleeping in once.',
+    conditions: [
+      { score: 'sleepDebt', operator: '>=', value: 5 }
+    ],
+    priority: TipPriority.HIGH,
+    category: TipCategory.SLEEP_RECOVERY,
+    duration: 2,
+    suggestedAction: 'Move tonight\'s bedtime 30 minutes earlier',
+    timeContext: [TimeContext.EVENING, TimeContext.NIGHT]
+  },
+  {
+    id: 'sleep_consistent_schedule',
+    content: 'Your sleep times have been all over the place. Keeping the same wake time every day, weekends included, steadies your body clock faster than anything else.',
+    conditions: [
+      { score: 'sleepRegularity', operator: '<=', value: 50 }
+    ],
+    priority: TipPriority.MEDIUM,
+    category: TipCategory.SLEEP_RECOVERY,
+    duration: 1,
+    suggestedAction: 'Pick one wake time and set it as a daily alarm',
+    timeContext: [TimeContext.MORNING, TimeContext.EVENING]
+  },
+  {
+    id: 'sleep_morning_light',
+    content: 'Get 10 minutes of daylight soon after waking. Morning light anchors your circadian rhythm and makes it easier to fall asleep at night.',
+    conditions: [
+      { score: 'sleepRegularity', operator: '<=', value: 70 }
+    ],
+    priority: TipPriority.LOW,
+    category: TipCategory.SLEEP_RECOVERY,
+    duration: 10,
+    suggestedAction: 'Take a short walk outside after you wake up',
+    timeContext: [TimeContext.MORNING]
+  },
 
   // SOCIAL CONNECTION NEEDS
   {
@@ -432,6 +505,85 @@ export const COACH_TIPS_DATABASE: CoachTip[] = [
     timeContext: [TimeContext.MORNING, TimeContext.MIDDAY]
   },
 
+  // BURNOUT RISK
+  {
+    id: 'burnout_lighten_load',
+    content: 'Your stress, sleep and recovery have been sliding for days. Pick one commitment this week you can drop, postpone or ask for help with.',
+    conditions: [
+      { score: 'burnoutRisk', operator: '>=', value: BURNOUT_CONFIG.THRESHOLDS.HIGH }
+    ],
+    priority: TipPriority.HIGH,
+    category: TipCategory.STRESS_MANAGEMENT,
+    duration: 5,
+    suggestedAction: 'List this week\'s commitments and cross out or delegate one',
+    timeContext: [TimeContext.MORNING, TimeContext.MIDDAY, TimeContext.EVENING]
+  },
+  {
+    id: 'burnout_protect_sleep',
+    content: 'Sleep debt builds up quietly. Protect a full night tonight and the next two before catching up on anything else.',
+    conditions: [
+      { score: 'burnoutRisk', operator: '>=', value: BURNOUT_CONFIG.THRESHOLDS.MODERATE },
+      { score: 'sleepHours', operator: '<', value: 7 }
+    ],
+    priority: TipPriority.HIGH,
+    category: TipCategory.SLEEP_RECOVERY,
+    duration: 2,
+    suggestedAction: 'Set a bedtime alarm eight hours before you need to wake up',
+    timeContext: [TimeContext.EVENING, TimeContext.NIGHT]
+  },
+  {
+    id: 'burnout_reach_out',
+    content: 'When things pile up it is easy to go quiet. A short chat with a friend, mentor or counselor helps more than pushing through alone.',
+    conditions: [
+      { score: 'burnoutRisk', operator: '>=', value: BURNOUT_CONFIG.THRESHOLDS.HIGH },
+      { score: 'socialTouchpoints', operator: '<=', value: 2 }
+    ],
+    priority: TipPriority.MEDIUM,
+    category: TipCategory.SOCIAL_CONNECTION,
+    duration: 5,
+    suggestedAction: 'Message someone you trust, or book a campus counseling slot',
+    timeContext: [TimeContext.MIDDAY, TimeContext.EVENING]
+  },
+  {
+    id: 'burnout_recovery_block',
+    content: 'Rest is part of the work. Block 30 minutes for something restorative and treat it like a class you cannot skip.',
+    conditions: [
+      { score: 'burnoutRisk', operator: '>=', value: BURNOUT_CONFIG.THRESHOLDS.MODERATE },
+      { score: 'recoveryAction', operator: '=', value: 0 }
+    ],
+    priority: TipPriority.MEDIUM,
+    category: TipCategory.PHYSICAL_WELLNESS,
+    duration: 3,
+    suggestedAction: 'Add a recovery block to your calendar for today',
+    timeContext: [TimeContext.MORNING, TimeContext.MIDDAY]
+  },
+
+  // GOALS
+  {
+    id: 'goal_smallest_step',
+    content: 'One of your goals for this week is slipping. Pick the smallest step that moves it forward today and do just that.',
+    conditions: [
+      { score: 'goalsAtRisk', operator: '>=', value: 1 }
+    ],
+    priority: TipPriority.MEDIUM,
+    category: TipCategory.PRODUCTIVITY,
+    duration: 3,
+    suggestedAction: 'Write down one 10-minute action for your goal and schedule it',
+    timeContext: [TimeContext.MORNING, TimeContext.MIDDAY]
+  },
+  {
+    id: 'goal_reset_target',
+    content: 'Several goals are at risk at once. That usually means the week is heavier than planned, not that you failed. Keep the one that matters most and ease the rest.',
+    conditions: [
+      { score: 'goalsAtRisk', operator: '>=', value: 2 }
+    ],
+    priority: TipPriority.MEDIUM,
+    category: TipCategory.MINDFULNESS,
+    duration: 5,
+    suggestedAction: 'Choose one goal to focus on for the rest of the week',
+    timeContext: [TimeContext.MORNING, TimeContext.EVENING]
+  },
+
   // ADDITIONAL CONTEXTUAL TIPS
   {
     id: 'context_morning_motivation',
@@ -692,14 +844,56 @@ export class CoachEngine {
     return score;
   }
 
+  /**
+   * Find the most severe concerning anomaly a tip responds to
+   */
+  private getAnomalyTrigger(tip: CoachTip, anomalies: Anomaly[]): Anomaly | undefined {
+    return anomalies
+      .filter(anomaly =>
+        (anomaly.kind === 'run' || anomaly.direction === ADVERSE_DIRECTION[anomaly.metric]) &&
+        ANOMALY_TIP_CATEGORIES[anomaly.metric].includes(tip.category as TipCategory)
+      )
+      .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore))[0];
+  }
+
+  /**
+   * Goal at risk this week that a tip can help with, if any
+   */
+  private getGoalTrigger(tip: CoachTip, goals: GoalReport[]): GoalReport | undefined {
+    return goals
+      .filter(report =>
+        (report.progress.status === 'at-risk' || (report.progress.status === 'missed' && !report.progress.complete)) &&
+        GOAL_TIP_CATEGORIES[report.goal.metric].includes(tip.category as TipCategory)
+      )
+      .sort((a, b) => a.progress.progress - b.progress.progress)[0];
+  }
+
   /**
    * Get personalized coaching tips based on current state
+   * 
+   * Tips that respond to a recent anomaly rank first and carry its
+   * explanation in `triggeredBy`. Tips that help with an at-risk goal
+   * rank next and name the goal in `relatedGoal`.
    */
-  getPersonalizedTips(currentMood: Record<string, number | boolean>, recentTags: string[] = [], limit: number = 3): CoachTip[] {
-    const scoredTips = COACH_TIPS_DATABASE.map(tip => ({
-      tip,
-      score: this.calculateRelevanceScore(tip, currentMood, recentTags)
-    }));
+  getPersonalizedTips(
+    currentMood: Record<string, number | boolean>,
+    recentTags: string[] = [],
+    limit: number = 3,
+    anomalies: Anomaly[] = [],
+    goals: GoalReport[] = []
+  ): CoachTip[] {
+    const scoredTips = COACH_TIPS_DATABASE.map(tip => {
+      const trigger = this.getAnomalyTrigger(tip, anomalies);
+      const goal = this.getGoalTrigger(tip, goals);
+      return {
+        tip: {
+          ...tip,
+          ...(trigger && { triggeredBy: trigger.explanation }),
+          ...(goal && { relatedGoal: `Your goal "${goal.goal.title}" is at risk this week` })
+        },
+        score: this.calculateRelevanceScore(tip, currentMood, recentTags) + (trigger ? 20 : 0) + (goal ? 15 : 0)
+      };
+    });
 
     // Sort by relevance score and return top tips
     return scoredTips
@@ -729,28 +923,45 @@ export class CoachEngine {
 
   /**
    * Get smart tips based on current entry and recent patterns
+   * 
+   * A valid burnout risk is matched against `burnoutRisk` conditions and
+   * the sleep report against `sleepDebt` and `sleepRegularity`.
    */
-  selectRelevantTips(currentEntry: MoodEntry | null, recentEntries: MoodEntry[], maxTips: number = 3): CoachTip[] {
+  selectRelevantTips(
+    currentEntry: MoodEntry | null,
+    recentEntries: MoodEntry[],
+    maxTips: number = 3,
+    anomalies: Anomaly[] = [],
+    burnoutRisk: BurnoutRisk | null = null,
+    sleepReport: SleepReport | null = null,
+    goals: GoalReport[] = []
+  ): CoachTip[] {
     if (!currentEntry) {
       return this.getOnboardingTips(maxTips);
     }
 
     // Extract current mood state
-    const currentMood = {
+    const currentMood: Record<string, number | boolean> = {
       valence: currentEntry.valence || 2.5,
       energy: currentEntry.energy || 2.5,
       focus: currentEntry.focus || 2.5,
       stress: currentEntry.stress || 2.5,
       sleepHours: currentEntry.sleepHours || 7,
       recoveryAction: currentEntry.recoveryAction || false,
-      socialTouchpoints: currentEntry.socialTouchpoints || 0
+      socialTouchpoints: currentEntry.socialTouchpoints || 0,
+      ...(burnoutRisk?.isValid && { burnoutRisk: burnoutRisk.score }),
+      ...(sleepReport && { sleepDebt: sleepReport.debtHours }),
+      ...(sleepReport?.regularity && { sleepRegularity: sleepReport.regularity.score }),
+      ...(goals.length > 0 && {
+        goalsAtRisk: goals.filter(report => report.progress.status === 'at-risk').length
+      })
     };
 
     // Get recent tags
     const recentTags = recentEntries.flatMap(entry => entry.tags || []);
 
     // Get personalized tips
-    return this.getPersonalizedTips(currentMood, recentTags, maxTips);
+    return this.getPersonalizedTips(currentMood, recentTags, maxTips, anomalies, goals);
   }
 
   /**
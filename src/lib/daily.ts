@@ -0,0 +1,245 @@
+/**
+ * CampusThrive Daily Aggregation
+ *
+ * Merges every check-in of a logical day into one DailySummary, so that
+ * "daily" metrics (DSS, streaks, trends, exports) are computed per day
+ * instead of per time-bucket entry.
+ *
+ * Days start at a configurable hour: a 1am check-in after a late night
+ * belongs to the day it ended, not the next one.
+ */
+
+import type {
+  MoodEntry,
+  DailySummary,
+  DayEndField,
+  DayEndMergeRule,
+  ScoringProfile,
+  TimeBucket
+} from '@/types';
+import {
+  getDayKey,
+  scoreEntries,
+  DEFAULT_SCORING_PROFILE
+} from './scoring';
+import { explainScores } from './explain';
+
+/**
+ * Default hour a new day starts; check-ins before 4am count toward the previous day
+ */
+export const DEFAULT_DAY_START_HOUR = 4;
+
+/**
+ * Rules for day-end fields reported by more than one check-in
+ *
+ * Work and social counts are logged per session, so they add up. Sleep is
+ * reported once per night, and a later report corrects an earlier one.
+ * Any recovery action during the day counts.
+ */
+export const DAY_END_MERGE_RULES: Record<DayEndField, DayEndMergeRule> = {
+  deepworkMinutes: 'sum',
+  tasksCompleted: 'sum',
+  sleepHours: 'latest',
+  recoveryAction: 'any',
+  socialTouchpoints: 'sum'
+};
+
+/**
+ * Options for building daily summaries
+ */
+export interface DailyAggregationOptions {
+  /** Hour (0-23) a new day starts */
+  dayStartHour?: number;
+  /** Overrides for the default merge rules */
+  mergeRules?: Partial<Record<DayEndField, DayEndMergeRule>>;
+}
+
+const DAY_END_FIELDS: DayEndField[] = [
+  'deepworkMinutes',
+  'tasksCompleted',
+  'sleepHours',
+  'recoveryAction',
+  'socialTouchpoints'
+];
+
+/**
+ * Merge the reported values of one day-end field (oldest first)
+ *
+ * Returns undefined when no entry reported the field. Booleans only
+ * distinguish `latest` from everything else, which behaves like `any`.
+ */
+function mergeDayEndValues(
+  values: Array<number | boolean | undefined>,
+  rule: DayEndMergeRule
+): number | boolean | undefined {
+  const reported = values.filter((value): value is number | boolean => value !== undefined);
+  if (reported.length === 0) {
+    return undefined;
+  }
+
+  const latest = reported[reported.length - 1]!;
+  if (typeof latest === 'boolean') {
+    return rule === 'latest' ? latest : reported.some(Boolean);
+  }
+
+  const numbers = reported.map(Number);
+  switch (rule) {
+    case 'sum':
+      return numbers.reduce((sum, value) => sum + value, 0);
+    case 'latest':
+      return latest;
+    default:
+      return Math.max(...numbers);
+  }
+}
+
+/**
+ * Local midnight of a YYYY-MM-DD day key, for date arithmetic and formatting
+ */
+export function getDayDate(dayKey: string): Date {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return new Date(year!, month! - 1, day!);
+}
+
+/**
+ * Day key a number of days after (or before) the given key
+ */
+export function shiftDayKey(dayKey: string, days: number): string {
+  const date = getDayDate(dayKey);
+  date.setDate(date.getDate() + days);
+  return getDayKey(date);
+}
+
+/**
+ * Day key of the Monday on or before the given key
+ */
+export function getWeekStart(dayKey: string): string {
+  const weekday = getDayDate(dayKey).getDay();
+  return shiftDayKey(dayKey, -((weekday + 6) % 7));
+}
+
+/**
+ * Group entries by logical day, oldest day first, entries oldest first
+ */
+export function groupEntriesByDay(
+  entries: MoodEntry[],
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): Map<string, MoodEntry[]> {
+  const sorted = [...entries].sort((a, b) =>
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+
+  const days = new Map<string, MoodEntry[]>();
+  sorted.forEach(entry => {
+    const dayKey = getDayKey(entry.timestamp, dayStartHour);
+    days.set(dayKey, [...(days.get(dayKey) ?? []), entry]);
+  });
+
+  return days;
+}
+
+/**
+ * Merge one day's entries into a single entry that can be scored
+ *
+ * Mood dimensions are averaged, day-end fields merged with the rules and
+ * tags combined. The timestamp is the day's last check-in.
+ */
+export function mergeDayEntries(
+  dayKey: string,
+  dayEntries: MoodEntry[],
+  mergeRules: Partial<Record<DayEndField, DayEndMergeRule>> = {}
+): MoodEntry {
+  const rules = { ...DAY_END_MERGE_RULES, ...mergeRules };
+  const last = dayEntries[dayEntries.length - 1]!;
+  const average = (pick: (entry: MoodEntry) => number) =>
+    parseFloat((dayEntries.reduce((sum, entry) => sum + pick(entry), 0) / dayEntries.length).toFixed(2));
+
+  const merged: MoodEntry = {
+    id: `day-${dayKey}`,
+    timestamp: new Date(last.timestamp),
+    timeBucket: last.timeBucket,
+    valence: average(e => e.valence),
+    energy: average(e => e.energy),
+    focus: average(e => e.focus),
+    stress: average(e => e.stress),
+    tags: Array.from(new Set(dayEntries.flatMap(e => e.tags ?? [])))
+  };
+
+  DAY_END_FIELDS.forEach(field => {
+    const value = mergeDayEndValues(dayEntries.map(e => e[field]), rules[field]);
+    if (value !== undefined) {
+      (merged as unknown as Record<DayEndField, number | boolean>)[field] = value;
+    }
+  });
+
+  // Bed and wake times follow sleep: the latest report of the day wins
+  const bedTime = dayEntries.map(e => e.bedTime).filter(Boolean).pop();
+  const wakeTime = dayEntries.map(e => e.wakeTime).filter(Boolean).pop();
+  if (bedTime) merged.bedTime = bedTime;
+  if (wakeTime) merged.wakeTime = wakeTime;
+
+  return merged;
+}
+
+/**
+ * Build one DailySummary per logical day, oldest first
+ *
+ * Daily MC/DSS score each merged day against the merged days before it,
+ * with the same formulas, baseline and normalization as per-entry scores.
+ */
+export function buildDailySummaries(
+  entries: MoodEntry[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  options: DailyAggregationOptions = {}
+): DailySummary[] {
+  const dayStartHour = options.dayStartHour ?? DEFAULT_DAY_START_HOUR;
+  const days = groupEntriesByDay(entries, dayStartHour);
+
+  const mergedDays = Array.from(days, ([dayKey, dayEntries]) =>
+    mergeDayEntries(dayKey, dayEntries, options.mergeRules)
+  );
+  const dayScores = new Map(scoreEntries(mergedDays, profile).map(scores => [scores.entryId, scores]));
+
+  return Array.from(days, ([dayKey, dayEntries], index) => {
+    const merged = mergedDays[index]!;
+    const scores = dayScores.get(merged.id)!;
+
+    return {
+      date: dayKey,
+      entryIds: dayEntries.map(e => e.id),
+      timeBuckets: Array.from(new Set<TimeBucket>(dayEntries.map(e => e.timeBucket))),
+      firstEntryAt: new Date(dayEntries[0]!.timestamp),
+      lastEntryAt: new Date(dayEntries[dayEntries.length - 1]!.timestamp),
+      mood: {
+        valence: merged.valence,
+        energy: merged.energy,
+        focus: merged.focus,
+        stress: merged.stress
+      },
+      dayEnd: {
+        ...(merged.deepworkMinutes !== undefined && { deepworkMinutes: merged.deepworkMinutes }),
+        ...(merged.tasksCompleted !== undefined && { tasksCompleted: merged.tasksCompleted }),
+        ...(merged.sleepHours !== undefined && { sleepHours: merged.sleepHours }),
+        ...(merged.recoveryAction !== undefined && { recoveryAction: merged.recoveryAction }),
+        ...(merged.socialTouchpoints !== undefined && { socialTouchpoints: merged.socialTouchpoints }),
+        ...(merged.bedTime !== undefined && { bedTime: merged.bedTime }),
+        ...(merged.wakeTime !== undefined && { wakeTime: merged.wakeTime })
+      },
+      tags: merged.tags,
+      scores: {
+        MC: scores.MC,
+        DSS: scores.DSS,
+        LM: scores.LM,
+        RI: scores.RI,
+        CN: scores.CN
+      },
+      isValid: scores.isValid,
+      baselineLabel: scores.mcResult.baseline.label,
+      outlierDimensions: Array.from(new Set([
+        ...scores.mcResult.outliers.dimensions,
+        ...scores.dssResult.outliers.dimensions
+      ])),
+      explanation: explainScores(scores, profile)
+    };
+  });
+}
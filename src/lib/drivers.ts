@@ -0,0 +1,331 @@
+/**
+ * CampusThrive Driver Analysis Extensions
+ *
+ * Lagged drivers pair each tag with an outcome measured later: the next
+ * check-in of the same day, or the daily summary one or two days on.
+ * Answers questions like "does a Morning gym session raise Evening
+ * scores?" or "does a party hurt next-day DSS?".
+ *
+ * Tag combinations look at tags together rather than one at a time:
+ * co-occurrence counts, pairwise interactions and a regression on tag
+ * indicators that separates each tag's partial effect.
+ *
+ * Pairing lives here; the per-tag statistics are shared with same-entry
+ * analysis (see `analyzeDriverObservations`).
+ */
+
+import type {
+  MoodEntry,
+  ComputedScores,
+  DailySummary,
+  DriverLag,
+  ScoringProfile
+} from '@/types';
+import {
+  analyzeDriverObservations,
+  scoreEntriesById,
+  DRIVER_SIGNIFICANCE_CONFIG,
+  DEFAULT_SCORING_PROFILE,
+  type DriverObservation,
+  type DriverAnalysisResult
+} from './scoring';
+import {
+  buildDailySummaries,
+  groupEntriesByDay,
+  shiftDayKey,
+  DEFAULT_DAY_START_HOUR
+} from './daily';
+import { benjaminiHochberg, linearRegression } from './statistics';
+
+/**
+ * Lag options in display order
+ */
+export const DRIVER_LAGS: Array<{ value: DriverLag; label: string; description: string }> = [
+  { value: 'same-entry', label: 'Same check-in', description: 'Scores of the check-in the tag was logged on' },
+  { value: 'next-bucket', label: 'Next check-in', description: 'Scores of the next check-in on the same day' },
+  { value: 'next-day', label: 'Next day', description: 'Daily scores the day after the tag' },
+  { value: 'two-days', label: '+2 days', description: 'Daily scores two days after the tag' }
+];
+
+/**
+ * Options for lagged driver analysis
+ */
+export interface LaggedDriverOptions {
+  /** Minimum tagged exposures for a tag to be analyzed */
+  minOccurrences?: number;
+  profile?: ScoringProfile;
+  /** Canonical per-entry scores (same-entry and next-bucket lags) */
+  scores?: Map<string, ComputedScores>;
+  /** Daily summaries (next-day and two-days lags) */
+  summaries?: DailySummary[];
+  dayStartHour?: number;
+}
+
+/**
+ * Number of days between a tagged day and its outcome day
+ */
+function getDayOffset(lag: DriverLag): number {
+  return lag === 'two-days' ? 2 : 1;
+}
+
+/**
+ * Pair exposures with their lagged outcomes
+ *
+ * Entry lags pair check-ins; day lags pair the union of a day's tags with
+ * a later day's summary. Exposures whose outcome was not logged are skipped.
+ */
+export function buildLaggedObservations(
+  entries: MoodEntry[],
+  lag: DriverLag,
+  scores: Map<string, ComputedScores>,
+  summaries: DailySummary[],
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): DriverObservation[] {
+  const observe = (tags: string[], outcome: ComputedScores | undefined): DriverObservation[] =>
+    outcome ? [{ tags, MC: outcome.MC, DSS: outcome.DSS }] : [];
+
+  if (lag === 'same-entry') {
+    return entries.flatMap(entry => observe(entry.tags ?? [], scores.get(entry.id)));
+  }
+
+  const days = groupEntriesByDay(entries, dayStartHour);
+
+  if (lag === 'next-bucket') {
+    return Array.from(days.values()).flatMap(dayEntries =>
+      dayEntries.slice(0, -1).flatMap((entry, index) =>
+        observe(entry.tags ?? [], scores.get(dayEntries[index + 1]!.id))
+      )
+    );
+  }
+
+  const summariesByDate = new Map(summaries.map(summary => [summary.date, summary]));
+  const offset = getDayOffset(lag);
+
+  return Array.from(days, ([dayKey, dayEntries]) => ({
+    tags: Array.from(new Set(dayEntries.flatMap(entry => entry.tags ?? []))),
+    outcome: summariesByDate.get(shiftDayKey(dayKey, offset))
+  })).flatMap(({ tags, outcome }) => observe(tags, outcome?.scores));
+}
+
+/**
+ * Analyze tag impact on outcomes at the given lag
+ */
+export function analyzeLaggedDrivers(
+  entries: MoodEntry[],
+  lag: DriverLag,
+  options: LaggedDriverOptions = {}
+): DriverAnalysisResult[] {
+  const {
+    minOccurrences = 3,
+    profile = DEFAULT_SCORING_PROFILE,
+    dayStartHour = DEFAULT_DAY_START_HOUR
+  } = options;
+  const usesDays = lag === 'next-day' || lag === 'two-days';
+
+  const scores = options.scores ?? (usesDays ? new Map<string, ComputedScores>() : scoreEntriesById(entries, profile));
+  const summaries = options.summaries ?? (usesDays ? buildDailySummaries(entries, profile, { dayStartHour }) : []);
+
+  return analyzeDriverObservations(
+    buildLaggedObservations(entries, lag, scores, summaries, dayStartHour),
+    minOccurrences
+  );
+}
+
+/**
+ * How often tags are logged on the same check-in
+ */
+export interface TagCooccurrence {
+  /** Tags in matrix order */
+  tags: string[];
+  /** counts[i][j]: observations with both tags; the diagonal is each tag's total */
+  counts: number[][];
+}
+
+/**
+ * Mean outcome for one combination of two tags
+ */
+export interface TagCombinationCell {
+  count: number;
+  MC: number;
+  DSS: number;
+}
+
+/**
+ * Interaction between two tags
+ *
+ * `interactionMC` is the difference-in-differences
+ * (both − A only) − (B only − neither): how much more A helps when B is
+ * also present. Zero means the effects simply add up.
+ */
+export interface TagInteraction {
+  tagA: string;
+  tagB: string;
+  both: TagCombinationCell;
+  aOnly: TagCombinationCell;
+  bOnly: TagCombinationCell;
+  neither: TagCombinationCell;
+  interactionMC: number;
+  interactionDSS: number;
+}
+
+/**
+ * Partial effect of one tag from the multivariate regression
+ */
+export interface TagPartialEffect {
+  tag: string;
+  occurrences: number;
+  /** Change in MC with the tag, holding the other tags fixed */
+  mcEffect: number;
+  mcStandardError: number;
+  /** Benjamini–Hochberg adjusted p-value across tags */
+  mcAdjustedPValue: number;
+  dssEffect: number;
+  dssStandardError: number;
+  dssAdjustedPValue: number;
+  isSignificant: boolean;
+}
+
+/**
+ * Regression of MC and DSS on tag indicators
+ */
+export interface TagRegression {
+  effects: TagPartialEffect[];
+  mcRSquared: number;
+  dssRSquared: number;
+  observations: number;
+}
+
+/**
+ * Ridge penalty keeping the regression stable for tags logged together
+ */
+const TAG_REGRESSION_RIDGE = 1e-3;
+
+/**
+ * Count how often each pair of tags appears on the same observation
+ */
+export function calculateTagCooccurrence(
+  observations: Array<{ tags: string[] }>,
+  tags: string[]
+): TagCooccurrence {
+  const index = new Map(tags.map((tag, i) => [tag, i]));
+  const counts = tags.map(() => tags.map(() => 0));
+
+  observations.forEach(observation => {
+    const present = Array.from(new Set(observation.tags))
+      .map(tag => index.get(tag))
+      .filter((i): i is number => i !== undefined);
+
+    present.forEach(i => present.forEach(j => {
+      counts[i]![j]!++;
+    }));
+  });
+
+  return { tags, counts };
+}
+
+/**
+ * Compare A+B with A alone, B alone and neither for every pair of tags
+ *
+ * Pairs logged together fewer than `minJointOccurrences` times are skipped.
+ * Sorted by absolute MC interaction, strongest first.
+ */
+export function analyzeTagInteractions(
+  observations: DriverObservation[],
+  tags: string[],
+  minJointOccurrences: number = 3
+): TagInteraction[] {
+  const cellOf = (group: DriverObservation[]): TagCombinationCell => ({
+    count: group.length,
+    MC: group.length > 0 ? group.reduce((sum, o) => sum + o.MC, 0) / group.length : 0,
+    DSS: group.length > 0 ? group.reduce((sum, o) => sum + o.DSS, 0) / group.length : 0
+  });
+
+  const interactions: TagInteraction[] = [];
+
+  tags.forEach((tagA, i) => {
+    tags.slice(i + 1).forEach(tagB => {
+      const groups = { both: [], aOnly: [], bOnly: [], neither: [] } as Record<
+        'both' | 'aOnly' | 'bOnly' | 'neither',
+        DriverObservation[]
+      >;
+      observations.forEach(observation => {
+        const hasA = observation.tags.includes(tagA);
+        const hasB = observation.tags.includes(tagB);
+        const key = hasA && hasB ? 'both' : hasA ? 'aOnly' : hasB ? 'bOnly' : 'neither';
+        groups[key].push(observation);
+      });
+
+      // Every cell is needed for the difference-in-differences
+      if (groups.both.length < minJointOccurrences || groups.aOnly.length === 0 ||
+          groups.bOnly.length === 0 || groups.neither.length === 0) {
+        return;
+      }
+
+      const both = cellOf(groups.both);
+      const aOnly = cellOf(groups.aOnly);
+      const bOnly = cellOf(groups.bOnly);
+      const neither = cellOf(groups.neither);
+
+      interactions.push({
+        tagA,
+        tagB,
+        both,
+        aOnly,
+        bOnly,
+        neither,
+        interactionMC: parseFloat(((both.MC - aOnly.MC) - (bOnly.MC - neither.MC)).toFixed(3)),
+        interactionDSS: parseFloat(((both.DSS - aOnly.DSS) - (bOnly.DSS - neither.DSS)).toFixed(3))
+      });
+    });
+  });
+
+  return interactions.sort((a, b) => Math.abs(b.interactionMC) - Math.abs(a.interactionMC));
+}
+
+/**
+ * Regress MC and DSS on indicators for each tag
+ *
+ * Each coefficient is a tag's effect with the other tags held fixed, so
+ * tags that are usually logged together no longer get credit for each
+ * other. Returns null when there are too few observations for the number
+ * of tags.
+ */
+export function regressOnTags(
+  observations: DriverObservation[],
+  tags: string[]
+): TagRegression | null {
+  if (tags.length === 0) {
+    return null;
+  }
+
+  const X = observations.map(observation => [1, ...tags.map(tag => (observation.tags.includes(tag) ? 1 : 0))]);
+  const mcFit = linearRegression(X, observations.map(o => o.MC), TAG_REGRESSION_RIDGE);
+  const dssFit = linearRegression(X, observations.map(o => o.DSS), TAG_REGRESSION_RIDGE);
+  if (!mcFit || !dssFit) {
+    return null;
+  }
+
+  // Skip the intercept, then correct across tags
+  const mcAdjusted = benjaminiHochberg(mcFit.pValues.slice(1));
+  const dssAdjusted = benjaminiHochberg(dssFit.pValues.slice(1));
+  const round = (value: number) => parseFloat(value.toFixed(3));
+
+  const effects = tags.map((tag, i) => ({
+    tag,
+    occurrences: observations.filter(observation => observation.tags.includes(tag)).length,
+    mcEffect: round(mcFit.coefficients[i + 1]!),
+    mcStandardError: round(mcFit.standardErrors[i + 1]!),
+    mcAdjustedPValue: mcAdjusted[i]!,
+    dssEffect: round(dssFit.coefficients[i + 1]!),
+    dssStandardError: round(dssFit.standardErrors[i + 1]!),
+    dssAdjustedPValue: dssAdjusted[i]!,
+    isSignificant: Math.min(mcAdjusted[i]!, dssAdjusted[i]!) <= DRIVER_SIGNIFICANCE_CONFIG.FALSE_DISCOVERY_RATE
+  }));
+
+  return {
+    effects: effects.sort((a, b) => Math.abs(b.mcEffect) - Math.abs(a.mcEffect)),
+    mcRSquared: round(mcFit.rSquared),
+    dssRSquared: round(dssFit.rSquared),
+    observations: observations.length
+  };
+}
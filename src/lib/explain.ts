@@ -0,0 +1,164 @@
+/**
+ * CampusThrive Score Explanations
+ *
+ * Answers "why is my MC −0.8 today?". MC and DSS are weighted sums of
+ * component z-scores, so each component's contribution is its weight times
+ * its z-score and the contributions add up to the score. Contributions are
+ * ranked by size and described against the baseline mean and sigma the raw
+ * value was compared with.
+ */
+
+import type { ScoreContribution, ScoreExplanation, ScoringProfile } from '@/types';
+import { SCORING_CONFIG, DEFAULT_SCORING_PROFILE, type EntryScores } from './scoring';
+
+/**
+ * Display labels for the MC and DSS components
+ */
+export const SCORE_COMPONENT_LABELS: Record<string, string> = {
+  valence: 'Mood',
+  energy: 'Energy',
+  focus: 'Focus',
+  stress: 'Stress',
+  lm: 'Learning momentum',
+  ri: 'Recovery',
+  cn: 'Connection'
+};
+
+/**
+ * Explanation configuration
+ */
+export const EXPLAIN_CONFIG = {
+  /** Scores within this distance of 0 read as "at your baseline" */
+  NEUTRAL_SCORE: 0.1,
+  /** Contributions smaller than this are not named in the summary */
+  MIN_CONTRIBUTION: 0.05,
+  /** |z| below which a value reads as "about usual" */
+  TYPICAL_Z: 0.5,
+  /** |z| from which a value reads as "far above/below usual" */
+  FAR_Z: 1.5
+} as const;
+
+const round = (value: number, digits: number = 2) => parseFloat(value.toFixed(digits));
+const formatValue = (value: number) => Number.isInteger(value) ? `${value}` : value.toFixed(1);
+const formatScore = (value: number) => `${value < 0 ? '−' : ''}${Math.abs(value).toFixed(2)}`;
+
+/**
+ * How far a value sits from the baseline, in words
+ */
+function describeDeviation(zScore: number): string {
+  const direction = zScore > 0 ? 'above' : 'below';
+  if (Math.abs(zScore) < EXPLAIN_CONFIG.TYPICAL_Z) return 'about usual';
+  if (Math.abs(zScore) < EXPLAIN_CONFIG.FAR_Z) return `${direction} usual`;
+  return `far ${direction} usual`;
+}
+
+/**
+ * One component in the summary, e.g. "stress (4 vs your usual 2.6, far above usual)"
+ */
+function describeContribution(contribution: ScoreContribution): string {
+  return `${contribution.label.toLowerCase()} (${formatValue(contribution.raw)} vs your usual ` +
+    `${formatValue(contribution.mean)}, ${describeDeviation(contribution.zScore)})`;
+}
+
+/**
+ * Plain-language summary of ranked contributions
+ */
+function summarize(
+  metric: ScoreExplanation['metric'],
+  value: number,
+  contributions: ScoreContribution[],
+  isValid: boolean
+): string {
+  if (!isValid) {
+    return `Not enough history yet: your baseline needs ${SCORING_CONFIG.MIN_HISTORICAL_ENTRIES} earlier ` +
+      `check-ins, so ${metric} reads as 0 (at your baseline).`;
+  }
+
+  if (Math.abs(value) < EXPLAIN_CONFIG.NEUTRAL_SCORE) {
+    return `${metric} is ${formatScore(value)}, right at your baseline.`;
+  }
+
+  const sign = Math.sign(value);
+  const direction = sign > 0 ? 'above' : 'below';
+  const drivers = contributions
+    .filter(c => Math.sign(c.contribution) === sign && Math.abs(c.contribution) >= EXPLAIN_CONFIG.MIN_CONTRIBUTION)
+    .slice(0, 2);
+  const offset = contributions
+    .find(c => Math.sign(c.contribution) === -sign && Math.abs(c.contribution) >= EXPLAIN_CONFIG.MIN_CONTRIBUTION);
+
+  let summary = `${metric} is ${formatScore(value)}, ${direction} your baseline`;
+  summary += drivers.length > 0
+    ? `, mostly because of ${drivers.map(describeContribution).join(' and ')}.`
+    : '.';
+  if (offset) {
+    summary += ` ${offset.label} ${sign > 0 ? 'held it back' : 'softened the drop'}.`;
+  }
+  return summary;
+}
+
+/**
+ * Build an explanation from components and their weights
+ */
+function explain(
+  metric: ScoreExplanation['metric'],
+  value: number,
+  components: Record<string, { raw: number; zScore: number; mean: number; sigma: number }>,
+  weights: Record<string, number>,
+  baselineLabel: string,
+  isValid: boolean
+): ScoreExplanation {
+  const contributions = Object.entries(components)
+    .map(([component, score]): ScoreContribution => ({
+      component,
+      label: SCORE_COMPONENT_LABELS[component] ?? component,
+      weight: weights[component] ?? 0,
+      raw: round(score.raw),
+      mean: round(score.mean),
+      sigma: round(score.sigma),
+      zScore: round(score.zScore),
+      contribution: round((weights[component] ?? 0) * score.zScore, 3)
+    }))
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+  return {
+    metric,
+    value,
+    contributions,
+    summary: summarize(metric, value, contributions, isValid),
+    baselineLabel,
+    isValid
+  };
+}
+
+/**
+ * Explain an MC result with the weights of the profile that produced it
+ */
+export function explainMC(
+  result: EntryScores['mcResult'],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ScoreExplanation {
+  return explain('MC', result.mc, result.components, profile.mcWeights, result.baseline.label, result.isValid);
+}
+
+/**
+ * Explain a DSS result with the weights of the profile that produced it
+ */
+export function explainDSS(
+  result: EntryScores['dssResult'],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ScoreExplanation {
+  return explain('DSS', result.dss, result.components, profile.dssWeights, result.baseline.label, result.isValid);
+}
+
+/**
+ * Explain both scores of an entry or day
+ */
+export function explainScores(
+  scores: Pick<EntryScores, 'mcResult' | 'dssResult'>,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): { MC: ScoreExplanation; DSS: ScoreExplanation } {
+  return {
+    MC: explainMC(scores.mcResult, profile),
+    DSS: explainDSS(scores.dssResult, profile)
+  };
+}
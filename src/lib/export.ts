@@ -3,14 +3,19 @@
  * 
  * Features:
  * - CSV export with all entry data and calculated scores
+ * - Daily CSV export with one merged row per day
  * - JSON export with complete data structure
+ * - iCalendar (.ics) export of planned study blocks
  * - JSON import with validation and integrity checks
  * - Merge vs replace options
- * - Privacy controls and storage management
+ * - Privacy controls and storage management, with cleared entries kept
+ *   in the trash
  */
 
-import { MoodEntry, ComputedScores, DriverAnalysis, PowerHourHeatmap, CoachTip } from '@/types';
-import { calculateDSS } from './scoring';
+import { MoodEntry, ComputedScores, DriverAnalysis, PowerHourHeatmap, CoachTip, ScoringProfile, DailySummary, ScheduleBlock } from '@/types';
+import { DEFAULT_SCORING_PROFILE } from './scoring';
+import { STUDY_TASK_KIND_LABELS } from './schedule';
+import { EntryManager, ScoreCacheManager, type StorageResult } from './storage';
 
 /**
  * Export data structure
@@ -61,9 +66,12 @@ export interface StorageUsage {
  */
 export class CSVExporter {
   /**
-   * Export mood entries to CSV format
+   * Export mood entries to CSV format, scored with the given profile
    */
-  static exportMoodEntries(entries: MoodEntry[]): string {
+  static exportMoodEntries(
+    entries: MoodEntry[],
+    profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+  ): string {
     if (entries.length === 0) {
       return 'No data to export';
     }
@@ -89,19 +97,19 @@ export class CSVExporter {
       'CN Score'
     ];
 
-    const rows = entries.map((entry, idx) => {
-      // Gather all previous entries (sorted) as historical context
-      const entryDate = new Date(entry.timestamp);
-      const historicalEntries = entries
-        .filter((e, j) => j < idx && new Date(e.timestamp) < entryDate);
-      
-      const dssResult = calculateDSS(entry, historicalEntries);
-      const cn = dssResult.components.cn.zScore;
-      // Keep the rest using the old calculated values for MC, DSS, LM, RI
-      const mc = this.calculateMC(entry);
-      const dss = this.calculateDSS(entry);
-      const lm = this.calculateLM(entry);
-      const ri = this.calculateRI(entry);
+    // Canonical scores from the score cache, each entry against its own point-in-time baseline
+    const synced = ScoreCacheManager.sync(entries, profile);
+    const scoresById = ScoreCacheManager.toLookup(
+      synced.success ? synced.data : ScoreCacheManager.compute(entries, profile).scores
+    );
+
+    const rows = entries.map(entry => {
+      const scores = scoresById.get(entry.id);
+      const mc = scores?.MC ?? 0;
+      const dss = scores?.DSS ?? 0;
+      const lm = scores?.LM ?? 0;
+      const ri = scores?.RI ?? 0;
+      const cn = scores?.CN ?? 0;
 
       return [
         entry.id,
@@ -133,60 +141,60 @@ export class CSVExporter {
   }
 
   /**
-   * Calculate MC (Mood Composite) score
+   * Export daily summaries to CSV format, one row per logical day
    */
-  private static calculateMC(entry: MoodEntry): number {
-    return (entry.valence + entry.energy + entry.focus + (5 - entry.stress)) / 4;
-  }
+  static exportDailySummaries(summaries: DailySummary[]): string {
+    if (summaries.length === 0) {
+      return 'No data to export';
+    }
 
-  /**
-   * Calculate DSS (Daily Success Score)
-   */
-  private static calculateDSS(entry: MoodEntry): number {
-    const deepworkMinutes = entry.deepworkMinutes || 0;
-    const tasksCompleted = entry.tasksCompleted || 0;
-    const sleepHours = entry.sleepHours || 0;
-    const recoveryAction = entry.recoveryAction ? 1 : 0;
-    const socialTouchpoints = entry.socialTouchpoints || 0;
-    
-    const deepworkScore = Math.min(1, deepworkMinutes / 180);
-    const tasksScore = Math.min(1, tasksCompleted / 10);
-    const sleepScore = Math.min(1, sleepHours / 8);
-    const recoveryScore = recoveryAction;
-    const socialScore = Math.min(1, socialTouchpoints / 5);
-    
-    return (deepworkScore * 0.3) + (tasksScore * 0.3) + (sleepScore * 0.2) + 
-           (recoveryScore * 0.1) + (socialScore * 0.1);
-  }
+    const headers = [
+      'Date',
+      'Entries',
+      'Time Buckets',
+      'Valence',
+      'Energy',
+      'Focus',
+      'Stress',
+      'Tags',
+      'Deep Work Minutes',
+      'Tasks Completed',
+      'Sleep Hours',
+      'Recovery Action',
+      'Social Touchpoints',
+      'MC Score',
+      'DSS Score',
+      'LM Score',
+      'RI Score',
+      'CN Score'
+    ];
 
-  /**
-   * Calculate LM (Learning Momentum)
-   */
-  private static calculateLM(entry: MoodEntry): number {
-    const focus = entry.focus;
-    const deepworkMinutes = entry.deepworkMinutes || 0;
-    const tasksCompleted = entry.tasksCompleted || 0;
-    
-    const focusComponent = focus / 5;
-    const deepworkComponent = Math.min(1, deepworkMinutes / 180);
-    const tasksComponent = Math.min(1, tasksCompleted / 10);
-    
-    return (focusComponent * 0.5) + (deepworkComponent * 0.3) + (tasksComponent * 0.2);
-  }
+    const rows = summaries.map(summary => [
+      summary.date,
+      summary.entryIds.length,
+      summary.timeBuckets.join('; '),
+      summary.mood.valence,
+      summary.mood.energy,
+      summary.mood.focus,
+      summary.mood.stress,
+      summary.tags.join('; '),
+      summary.dayEnd.deepworkMinutes ?? '',
+      summary.dayEnd.tasksCompleted ?? '',
+      summary.dayEnd.sleepHours ?? '',
+      summary.dayEnd.recoveryAction ? 'Yes' : 'No',
+      summary.dayEnd.socialTouchpoints ?? '',
+      summary.scores.MC.toFixed(2),
+      summary.scores.DSS.toFixed(2),
+      summary.scores.LM.toFixed(2),
+      summary.scores.RI.toFixed(2),
+      summary.scores.CN.toFixed(2)
+    ]);
 
-  /**
-   * Calculate RI (Recovery Index)
-   */
-  private static calculateRI(entry: MoodEntry): number {
-    const sleepHours = entry.sleepHours || 0;
-    const recoveryAction = entry.recoveryAction ? 1 : 0;
-    const stress = entry.stress;
-    
-    const sleepComponent = Math.min(1, sleepHours / 8);
-    const recoveryComponent = recoveryAction;
-    const stressComponent = (5 - stress) / 5;
-    
-    return (sleepComponent * 0.4) + (recoveryComponent * 0.3) + (stressComponent * 0.3);
+    const csvContent = [headers, ...rows]
+      .map(row => row.map(cell => `"${cell}"`).join(','))
+      .join('\n');
+
+    return csvContent;
   }
 
   /**
@@ -220,7 +228,7 @@ export class JSONExporter {
     moodEntries: MoodEntry[],
     computedScores: ComputedScores[] = [],
     driverAnalysis: DriverAnalysis[] = [],
-    powerHourHeatmap: PowerHourHeatmap = { matrix: [], peakHours: [], lowHours: [], lastUpdated: new Date() },
+    powerHourHeatmap: PowerHourHeatmap = { metric: 'MC', matrix: [], counts: [], confidence: [], peakHours: [], lowHours: [], lastUpdated: new Date() },
     coachTips: CoachTip[] = [],
     settings: Record<string, unknown> = {}
   ): ExportData {
@@ -271,6 +279,109 @@ export class JSONExporter {
   }
 }
 
+/**
+ * iCalendar Exporter for study plans
+ */
+export class ICSExporter {
+  /**
+   * Format a time as an iCalendar UTC date-time (e.g. 20240115T140000Z)
+   */
+  static formatDateTime(date: Date): string {
+    return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  }
+
+  /**
+   * Escape text for an iCalendar property value
+   */
+  static escapeText(text: string): string {
+    return text
+      .replace(/\\/g, '\\\\')
+      .replace(/;/g, '\\;')
+      .replace(/,/g, '\\,')
+      .replace(/\r?\n/g, '\\n');
+  }
+
+  /**
+   * Fold a content line to at most 75 octets of UTF-8, as RFC 5545 requires
+   * 
+   * Lines are only broken between characters, so a multi-byte character or
+   * surrogate pair is never split across lines.
+   */
+  static foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+
+    for (const char of line) {
+      const bytes = encoder.encode(char).length;
+      // Continuation lines start with a space, leaving room for 74 octets
+      const limit = parts.length === 0 ? 75 : 74;
+      if (currentBytes + bytes > limit) {
+        parts.push(current);
+        current = '';
+        currentBytes = 0;
+      }
+      current += char;
+      currentBytes += bytes;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+  }
+
+  /**
+   * Generate an iCalendar file with one event per planned block
+   */
+  static generateICS(blocks: ScheduleBlock[], generatedAt: Date = new Date()): string {
+    const stamp = this.formatDateTime(generatedAt);
+    const events = blocks.flatMap(block => {
+      const start = new Date(block.start);
+      const end = new Date(start.getTime() + block.durationMinutes * 60 * 1000);
+      return [
+        'BEGIN:VEVENT',
+        `UID:${block.id}@campus-thrive`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${this.formatDateTime(start)}`,
+        `DTEND:${this.formatDateTime(end)}`,
+        `SUMMARY:${this.escapeText(block.title)}`,
+        `DESCRIPTION:${this.escapeText(`${STUDY_TASK_KIND_LABELS[block.kind]} block planned by CampusThrive`)}`,
+        `CATEGORIES:${this.escapeText(STUDY_TASK_KIND_LABELS[block.kind])}`,
+        'END:VEVENT'
+      ];
+    });
+
+    return [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//CampusThrive//Study Plan//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      ...events,
+      'END:VCALENDAR'
+    ].map(line => this.foldLine(line)).join('\r\n') + '\r\n';
+  }
+
+  /**
+   * Download iCalendar file
+   */
+  static downloadICS(icsContent: string, filename?: string): void {
+    const blob = new Blob([icsContent], { type: 'text/calendar;charset=utf-8;' });
+    const link = document.createElement('a');
+    const url = URL.createObjectURL(blob);
+    
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename || `campus-thrive-study-plan-${new Date().toISOString().split('T')[0]}.ics`);
+    link.style.visibility = 'hidden';
+    
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    
+    URL.revokeObjectURL(url);
+  }
+}
+
 /**
  * Enhanced CSV Importer
  */
@@ -706,16 +817,12 @@ export class StorageManager {
 
   /**
    * Clear all local data
+   * 
+   * Mood entries are moved to the trash, where they can be restored or
+   * the deletion undone; scores and analysis are removed, settings kept.
    */
-  static clearAllData(): void {
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem('campus-thrive-mood-entries');
-      localStorage.removeItem('campus-thrive-computed-scores');
-      localStorage.removeItem('campus-thrive-driver-analysis');
-      localStorage.removeItem('campus-thrive-power-hour-heatmap');
-      localStorage.removeItem('campus-thrive-coach-tips');
-      localStorage.removeItem('campus-thrive-settings');
-    }
+  static clearAllData(): StorageResult<void> {
+    return EntryManager.clearAll();
   }
 
   /**
@@ -0,0 +1,261 @@
+/**
+ * CampusThrive Forecasting
+ *
+ * Predicts daily MC and DSS for the coming week from:
+ * - the current level, by exponential smoothing of past days
+ * - the trend, when the trend engine finds one, damped so it fades
+ * - the weekday pattern, shrunk toward zero for rarely logged weekdays
+ *
+ * Each check-in slot is placed relative to its day using the same
+ * weekday × time-of-day pattern behind the PowerHour heatmap, grouped by
+ * time bucket.
+ *
+ * Prediction intervals come from the one-step-ahead errors of the
+ * smoother and widen with the forecast horizon.
+ */
+
+import type { ComputedScores, DailySummary, MoodEntry, TimeBucket } from '@/types';
+import { getDayKey, daysBetweenKeys } from './scoring';
+import { getDayDate, shiftDayKey, groupEntriesByDay, DEFAULT_DAY_START_HOUR } from './daily';
+import { fitLinearTrend, TREND_CONFIG } from './trends';
+import { mean, normalQuantile } from './statistics';
+
+/**
+ * Forecasting configuration
+ */
+export const FORECAST_CONFIG = {
+  /** Days of history needed before forecasting */
+  MIN_DAYS: 7,
+  /** Days ahead to forecast */
+  HORIZON_DAYS: 7,
+  /** Exponential smoothing weight of the newest day */
+  SMOOTHING_ALPHA: 0.3,
+  /** Per-day damping of the trend, so it levels off within the week */
+  TREND_DAMPING: 0.8,
+  /** Pseudo-observations pulling weekday and bucket effects toward zero */
+  SHRINKAGE: 2,
+  /** Default prediction interval coverage */
+  INTERVAL_LEVEL: 0.8
+} as const;
+
+const TIME_BUCKETS: TimeBucket[] = ['Morning', 'Midday', 'Evening', 'Night'];
+
+type ForecastMetric = 'MC' | 'DSS';
+
+/**
+ * Point forecast with its prediction interval
+ */
+export interface ForecastValue {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+/**
+ * Forecast for one day
+ */
+export interface ForecastPoint {
+  /** Logical day key */
+  date: string;
+  /** Weekday, indexed like `Date.getDay()` */
+  weekday: number;
+  /** Days after the last logged day */
+  horizon: number;
+  MC: ForecastValue;
+  DSS: ForecastValue;
+  /** Expected MC of a check-in in each time bucket; null if never logged */
+  buckets: Record<TimeBucket, number | null>;
+}
+
+/**
+ * Forecast for the coming days
+ */
+export interface Forecast {
+  points: ForecastPoint[];
+  /** Coverage of the prediction intervals (e.g. 0.8) */
+  level: number;
+  lastObservedDate: string;
+  /** Standard deviation of one-step-ahead errors */
+  residualSD: Record<ForecastMetric, number>;
+  observations: number;
+}
+
+/**
+ * Options for forecasting
+ */
+export interface ForecastOptions {
+  horizon?: number;
+  level?: number;
+  dayStartHour?: number;
+  today?: Date;
+}
+
+interface MetricModel {
+  level: number;
+  /** Per-day slope, zero unless the trend is significant */
+  slope: number;
+  weekdayEffects: number[];
+  residualSD: number;
+}
+
+const round = (value: number) => parseFloat(value.toFixed(3));
+
+/**
+ * Mean deviation per weekday, shrunk toward zero by `SHRINKAGE`
+ */
+function getWeekdayEffects(weekdays: number[], deviations: number[]): number[] {
+  return Array.from({ length: 7 }, (_, weekday) => {
+    const values = deviations.filter((_, i) => weekdays[i] === weekday);
+    return values.reduce((sum, value) => sum + value, 0) / (values.length + FORECAST_CONFIG.SHRINKAGE);
+  });
+}
+
+/**
+ * Fit level, trend and weekday pattern for one metric
+ */
+function fitMetricModel(dates: string[], values: number[]): MetricModel {
+  const x = dates.map(date => daysBetweenKeys(dates[0]!, date));
+  const weekdays = dates.map(date => getDayDate(date).getDay());
+
+  const linear = fitLinearTrend(x, values);
+  const slope = linear && linear.pValue <= TREND_CONFIG.SIGNIFICANCE_LEVEL ? linear.slope : 0;
+  const detrended = values.map((value, i) => value - slope * x[i]!);
+  const center = mean(detrended);
+  const weekdayEffects = getWeekdayEffects(weekdays, detrended.map(value => value - center));
+
+  // Smooth the level of the series with trend and weekday removed
+  const adjusted = detrended.map((value, i) => value - weekdayEffects[weekdays[i]!]!);
+  let level = adjusted[0]!;
+  const errors: number[] = [];
+  adjusted.slice(1).forEach(value => {
+    errors.push(value - level);
+    level += FORECAST_CONFIG.SMOOTHING_ALPHA * (value - level);
+  });
+
+  const residualSD = Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / Math.max(1, errors.length));
+
+  // Level is in detrended units; move it to the last day
+  return { level: level + slope * x[x.length - 1]!, slope, weekdayEffects, residualSD };
+}
+
+/**
+ * Forecast one metric `horizon` days after the last logged day
+ */
+function forecastMetric(model: MetricModel, weekday: number, horizon: number, z: number): ForecastValue {
+  let trend = 0;
+  for (let step = 1; step <= horizon; step++) {
+    trend += model.slope * Math.pow(FORECAST_CONFIG.TREND_DAMPING, step);
+  }
+  const value = model.level + trend + model.weekdayEffects[weekday]!;
+
+  // Smoothing error variance grows by alpha² for every step past the first
+  const sd = model.residualSD * Math.sqrt(1 + (horizon - 1) * Math.pow(FORECAST_CONFIG.SMOOTHING_ALPHA, 2));
+
+  return { value: round(value), lower: round(value - z * sd), upper: round(value + z * sd) };
+}
+
+/**
+ * MC offset of each time bucket from its day's mean, per weekday
+ *
+ * Weekday-specific offsets are shrunk toward the bucket's overall offset.
+ * Buckets that were never logged are null.
+ */
+export function getBucketOffsets(
+  entries: MoodEntry[],
+  scores: Map<string, ComputedScores>,
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): Array<Record<TimeBucket, number | null>> {
+  const byBucket = new Map<TimeBucket, Array<{ weekday: number; offset: number }>>();
+
+  groupEntriesByDay(entries, dayStartHour).forEach((dayEntries, dayKey) => {
+    const scored = dayEntries.filter(entry => scores.has(entry.id));
+    const dayMean = mean(scored.map(entry => scores.get(entry.id)!.MC));
+    const weekday = getDayDate(dayKey).getDay();
+
+    scored.forEach(entry => {
+      const offsets = byBucket.get(entry.timeBucket) ?? [];
+      offsets.push({ weekday, offset: scores.get(entry.id)!.MC - dayMean });
+      byBucket.set(entry.timeBucket, offsets);
+    });
+  });
+
+  return Array.from({ length: 7 }, (_, weekday) =>
+    Object.fromEntries(TIME_BUCKETS.map(bucket => {
+      const offsets = byBucket.get(bucket);
+      if (!offsets || offsets.length === 0) {
+        return [bucket, null];
+      }
+      const overall = mean(offsets.map(o => o.offset));
+      const sameDay = offsets.filter(o => o.weekday === weekday).map(o => o.offset);
+      const shrunk = (sameDay.reduce((sum, value) => sum + value, 0) + FORECAST_CONFIG.SHRINKAGE * overall) /
+        (sameDay.length + FORECAST_CONFIG.SHRINKAGE);
+      return [bucket, round(shrunk)];
+    })) as Record<TimeBucket, number | null>
+  );
+}
+
+/**
+ * Forecast daily MC and DSS for the coming days
+ *
+ * Forecasts start the day after the last logged day, or today if that is
+ * later, and run `horizon` days. Returns null with fewer than `MIN_DAYS`
+ * logged days.
+ */
+export function forecastScores(
+  summaries: DailySummary[],
+  entries: MoodEntry[],
+  scores: Map<string, ComputedScores>,
+  options: ForecastOptions = {}
+): Forecast | null {
+  const {
+    horizon = FORECAST_CONFIG.HORIZON_DAYS,
+    level = FORECAST_CONFIG.INTERVAL_LEVEL,
+    dayStartHour = DEFAULT_DAY_START_HOUR,
+    today = new Date()
+  } = options;
+
+  const days = [...summaries].sort((a, b) => a.date.localeCompare(b.date));
+  if (days.length < FORECAST_CONFIG.MIN_DAYS) {
+    return null;
+  }
+
+  const dates = days.map(day => day.date);
+  const lastObservedDate = dates[dates.length - 1]!;
+  const models: Record<ForecastMetric, MetricModel> = {
+    MC: fitMetricModel(dates, days.map(day => day.scores.MC)),
+    DSS: fitMetricModel(dates, days.map(day => day.scores.DSS))
+  };
+  const bucketOffsets = getBucketOffsets(entries, scores, dayStartHour);
+  const z = normalQuantile(0.5 + level / 2);
+
+  const todayKey = getDayKey(today, dayStartHour);
+  const firstDate = lastObservedDate < todayKey ? todayKey : shiftDayKey(lastObservedDate, 1);
+
+  const points = Array.from({ length: horizon }, (_, i): ForecastPoint => {
+    const date = shiftDayKey(firstDate, i);
+    const weekday = getDayDate(date).getDay();
+    const daysAhead = daysBetweenKeys(lastObservedDate, date);
+    const mc = forecastMetric(models.MC, weekday, daysAhead, z);
+    const offsets = bucketOffsets[weekday]!;
+
+    return {
+      date,
+      weekday,
+      horizon: daysAhead,
+      MC: mc,
+      DSS: forecastMetric(models.DSS, weekday, daysAhead, z),
+      buckets: Object.fromEntries(TIME_BUCKETS.map(bucket => [
+        bucket,
+        offsets[bucket] === null ? null : round(mc.value + offsets[bucket]!)
+      ])) as Record<TimeBucket, number | null>
+    };
+  });
+
+  return {
+    points,
+    level,
+    lastObservedDate,
+    residualSD: { MC: round(models.MC.residualSD), DSS: round(models.DSS.residualSD) },
+    observations: days.length
+  };
+}
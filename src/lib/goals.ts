@@ -0,0 +1,238 @@
+/**
+ * CampusThrive Goals
+ *
+ * Weekly targets on daily aggregates, for example:
+ * - average stress ≤ 2.5 this week
+ * - ≥ 600 deep-work minutes per week
+ * - 7+ hours of sleep on 5 nights
+ *
+ * Goals are evaluated per Monday-to-Sunday week from daily summaries.
+ * While a week is in progress the status says whether the goal is on
+ * track; once the week is over, or the outcome can no longer change, it
+ * is met or missed.
+ */
+
+import type { DailySummary, Goal, GoalAggregation, GoalMetric, GoalProgress } from '@/types';
+import { daysBetweenKeys, getDayKey } from './scoring';
+import { getWeekStart, shiftDayKey, DEFAULT_DAY_START_HOUR } from './daily';
+import { mean } from './statistics';
+
+/**
+ * Display labels and units for goal metrics
+ */
+export const GOAL_METRIC_LABELS: Record<GoalMetric, { label: string; unit: string }> = {
+  stress: { label: 'Stress', unit: '' },
+  valence: { label: 'Mood', unit: '' },
+  energy: { label: 'Energy', unit: '' },
+  focus: { label: 'Focus', unit: '' },
+  MC: { label: 'Mood Composite', unit: '' },
+  DSS: { label: 'Daily Success', unit: '' },
+  deepworkMinutes: { label: 'Deep-work minutes', unit: 'min' },
+  tasksCompleted: { label: 'Tasks completed', unit: '' },
+  sleepHours: { label: 'Sleep', unit: 'h' },
+  socialTouchpoints: { label: 'Social touchpoints', unit: '' },
+  recoveryAction: { label: 'Recovery days', unit: '' }
+};
+
+/**
+ * Ready-made goals offered when adding a goal
+ */
+export const GOAL_TEMPLATES: Array<Omit<Goal, 'id' | 'active' | 'createdAt'>> = [
+  { title: 'Average stress ≤ 2.5 this week', metric: 'stress', aggregation: 'average', comparator: 'atMost', target: 2.5 },
+  { title: '600+ deep-work minutes per week', metric: 'deepworkMinutes', aggregation: 'total', comparator: 'atLeast', target: 600 },
+  { title: '7+ hours of sleep on 5 nights', metric: 'sleepHours', aggregation: 'days', comparator: 'atLeast', target: 5, dayThreshold: 7 },
+  { title: 'Recovery action on 4 days', metric: 'recoveryAction', aggregation: 'days', comparator: 'atLeast', target: 4, dayThreshold: 1 }
+];
+
+/**
+ * Current goal progress paired with its goal
+ */
+export interface GoalReport {
+  goal: Goal;
+  progress: GoalProgress;
+}
+
+const round = (value: number) => parseFloat(value.toFixed(2));
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Value of a goal metric on one day, or null if it was not reported
+ */
+export function getDailyGoalValue(day: DailySummary, metric: GoalMetric): number | null {
+  switch (metric) {
+    case 'stress':
+    case 'valence':
+    case 'energy':
+    case 'focus':
+      return day.mood[metric];
+    case 'MC':
+    case 'DSS':
+      return day.scores[metric];
+    case 'recoveryAction':
+      return day.dayEnd.recoveryAction === undefined ? null : (day.dayEnd.recoveryAction ? 1 : 0);
+    default:
+      return day.dayEnd[metric] ?? null;
+  }
+}
+
+/**
+ * Human-readable description of a goal's target, e.g. "Average stress ≤ 2.5"
+ */
+export function describeGoal(goal: Pick<Goal, 'metric' | 'aggregation' | 'comparator' | 'target' | 'dayThreshold'>): string {
+  const { label, unit } = GOAL_METRIC_LABELS[goal.metric];
+  const sign = goal.comparator === 'atMost' ? '≤' : '≥';
+  const withUnit = (value: number) => unit ? `${value} ${unit}` : `${value}`;
+  const descriptions: Record<GoalAggregation, string> = {
+    average: `Average ${label.toLowerCase()} ${sign} ${withUnit(goal.target)}`,
+    total: `${label} ${sign} ${withUnit(goal.target)} per week`,
+    days: goal.metric === 'recoveryAction'
+      ? `Recovery action on ${goal.target} days`
+      : `${label} ${sign} ${withUnit(goal.dayThreshold ?? 0)} on ${goal.target} days`
+  };
+  return descriptions[goal.aggregation];
+}
+
+/**
+ * Validation errors for a goal (empty when valid)
+ */
+export function getGoalErrors(goal: Omit<Goal, 'id' | 'active' | 'createdAt'>): string[] {
+  const errors: string[] = [];
+
+  if (!goal.title.trim()) {
+    errors.push('Give the goal a name');
+  }
+  if (!Number.isFinite(goal.target) || goal.target < 0) {
+    errors.push('Target must be zero or more');
+  }
+  if (goal.aggregation === 'days') {
+    if (!Number.isInteger(goal.target) || goal.target < 1 || goal.target > 7) {
+      errors.push('Number of days must be between 1 and 7');
+    }
+    if (goal.dayThreshold === undefined || !Number.isFinite(goal.dayThreshold)) {
+      errors.push('Set the daily value a day must reach');
+    }
+  }
+  if (goal.aggregation === 'total' && ['stress', 'valence', 'energy', 'focus', 'MC', 'DSS'].includes(goal.metric)) {
+    errors.push(`${GOAL_METRIC_LABELS[goal.metric].label} is a score; use a weekly average instead of a total`);
+  }
+
+  return errors;
+}
+
+/**
+ * Progress on a goal for the week starting on `weekStart`
+ *
+ * `todayKey` decides how much of the week has passed. Decided outcomes
+ * (e.g. a total already reached) are met or missed before the week ends.
+ */
+export function evaluateGoal(goal: Goal, summaries: DailySummary[], weekStart: string, todayKey: string): GoalProgress {
+  const weekEnd = shiftDayKey(weekStart, 6);
+  const daysElapsed = Math.min(7, Math.max(0, daysBetweenKeys(weekStart, todayKey) + 1));
+  const complete = todayKey > weekEnd;
+  const atLeast = goal.comparator === 'atLeast';
+  const passes = (value: number, target: number) => atLeast ? value >= target : value <= target;
+
+  const values = summaries
+    .filter(day => day.date >= weekStart && day.date <= weekEnd)
+    .map(day => ({ date: day.date, value: getDailyGoalValue(day, goal.metric) }))
+    .filter((day): day is { date: string; value: number } => day.value !== null);
+
+  const base = { goalId: goal.id, weekStart, target: goal.target, daysLogged: values.length, complete };
+
+  if (goal.aggregation === 'days') {
+    const threshold = goal.dayThreshold ?? 0;
+    const count = values.filter(day => passes(day.value, threshold)).length;
+    // Days still to come, plus today unless it already counts
+    const todayPasses = values.some(day => day.date === todayKey && passes(day.value, threshold));
+    const daysLeft = complete ? 0 : 7 - daysElapsed + (todayPasses ? 0 : 1);
+    const status = count >= goal.target ? 'met'
+      : count + daysLeft < goal.target ? 'missed'
+      : values.length === 0 ? 'no-data'
+      : goal.target - count >= daysLeft ? 'at-risk' : 'on-track';
+
+    return { ...base, value: count, progress: round(clamp01(goal.target > 0 ? count / goal.target : 1)), status };
+  }
+
+  if (values.length === 0) {
+    return { ...base, value: null, progress: 0, status: complete ? 'missed' : 'no-data' };
+  }
+
+  const value = goal.aggregation === 'average'
+    ? mean(values.map(day => day.value))
+    : values.reduce((sum, day) => sum + day.value, 0);
+
+  const progress = atLeast
+    ? (goal.target > 0 ? value / goal.target : 1)
+    : (value <= goal.target ? 1 : goal.target / value);
+
+  let status: GoalProgress['status'];
+  if (complete) {
+    status = passes(value, goal.target) ? 'met' : 'missed';
+  } else if (goal.aggregation === 'total') {
+    // Totals decide early when reached (at least) or exceeded (at most); otherwise judge the pace
+    const pace = value * 7 / daysElapsed;
+    if (atLeast && value >= goal.target) status = 'met';
+    else if (!atLeast && value > goal.target) status = 'missed';
+    else status = passes(pace, goal.target) ? 'on-track' : 'at-risk';
+  } else {
+    status = passes(value, goal.target) ? 'on-track' : 'at-risk';
+  }
+
+  return { ...base, value: round(value), progress: round(clamp01(progress)), status };
+}
+
+/**
+ * Progress on a goal for every week from its creation up to today, oldest first
+ */
+export function evaluateGoalHistory(
+  goal: Goal,
+  summaries: DailySummary[],
+  today: Date = new Date(),
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): GoalProgress[] {
+  const todayKey = getDayKey(today, dayStartHour);
+  const currentWeek = getWeekStart(todayKey);
+  const history: GoalProgress[] = [];
+
+  for (let week = getWeekStart(getDayKey(goal.createdAt, dayStartHour)); week <= currentWeek; week = shiftDayKey(week, 7)) {
+    history.push(evaluateGoal(goal, summaries, week, todayKey));
+  }
+  return history;
+}
+
+/**
+ * Current week's progress on each active goal
+ */
+export function evaluateActiveGoals(
+  goals: Goal[],
+  summaries: DailySummary[],
+  today: Date = new Date(),
+  dayStartHour: number = DEFAULT_DAY_START_HOUR
+): GoalReport[] {
+  const todayKey = getDayKey(today, dayStartHour);
+  const weekStart = getWeekStart(todayKey);
+
+  return goals
+    .filter(goal => goal.active)
+    .map(goal => ({ goal, progress: evaluateGoal(goal, summaries, weekStart, todayKey) }));
+}
+
+/**
+ * Combine stored and freshly evaluated finished weeks
+ *
+ * A stored week is final: old entries are cleaned up, so re-evaluating it
+ * later would only see part of the week. Weeks of deleted goals are dropped.
+ * Sorted by week, newest first.
+ */
+export function mergeGoalHistory(stored: GoalProgress[], evaluated: GoalProgress[], goals: Goal[]): GoalProgress[] {
+  const goalIds = new Set(goals.map(goal => goal.id));
+  const byKey = new Map<string, GoalProgress>();
+
+  [...evaluated.filter(progress => progress.complete), ...stored].forEach(progress => {
+    byKey.set(`${progress.goalId}:${progress.weekStart}`, progress);
+  });
+
+  return Array.from(byKey.values())
+    .filter(progress => goalIds.has(progress.goalId))
+    .sort((a, b) => b.weekStart.localeCompare(a.weekStart) || a.goalId.localeCompare(b.goalId));
+}
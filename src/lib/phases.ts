@@ -0,0 +1,122 @@
+/**
+ * CampusThrive Academic Phases
+ *
+ * User-defined semester phases (classes, midterms, finals, break) as
+ * inclusive ranges of calendar days. They let scores be normalized against
+ * the same kind of period, so finals week is compared with earlier finals
+ * rather than with a quiet week of classes, and let Trends and Patterns be
+ * filtered and compared by phase.
+ */
+
+import type { AcademicCalendar, AcademicPhase, AcademicPhaseType, DailySummary } from '@/types';
+import { mean } from './statistics';
+
+/**
+ * Display labels for the phase types, in calendar order
+ */
+export const ACADEMIC_PHASE_LABELS: Record<AcademicPhaseType, string> = {
+  classes: 'Classes',
+  midterms: 'Midterms',
+  finals: 'Finals',
+  break: 'Break'
+};
+
+/**
+ * Default calendar: no phases, baselines across all history
+ */
+export const DEFAULT_ACADEMIC_CALENDAR: AcademicCalendar = {
+  phases: [],
+  samePhaseBaselines: false
+};
+
+/**
+ * Phase filter value: one phase type, days outside every phase, or everything
+ */
+export type PhaseFilter = AcademicPhaseType | 'none' | 'all';
+
+/**
+ * Averages for the days that fall in one kind of phase
+ */
+export interface PhaseComparisonRow {
+  phase: AcademicPhaseType | 'none';
+  days: number;
+  MC: number;
+  DSS: number;
+  stress: number;
+  /** Average sleep on the days that reported it; null if none did */
+  sleepHours: number | null;
+}
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const round = (value: number) => parseFloat(value.toFixed(2));
+
+/**
+ * Phase a calendar day (YYYY-MM-DD) falls in, or null outside every phase
+ */
+export function getPhaseForDay(phases: AcademicPhase[], dayKey: string): AcademicPhase | null {
+  return phases.find(phase => phase.start <= dayKey && dayKey <= phase.end) ?? null;
+}
+
+/**
+ * Whether a day matches a phase filter
+ */
+export function matchesPhaseFilter(phases: AcademicPhase[], dayKey: string, filter: PhaseFilter): boolean {
+  if (filter === 'all') {
+    return true;
+  }
+  return (getPhaseForDay(phases, dayKey)?.type ?? 'none') === filter;
+}
+
+/**
+ * Validation errors for a phase against the other phases (empty when valid)
+ */
+export function getAcademicPhaseErrors(phase: Omit<AcademicPhase, 'id'>, others: AcademicPhase[] = []): string[] {
+  const errors: string[] = [];
+
+  if (!phase.name.trim()) {
+    errors.push('Give the phase a name');
+  }
+  if (!DAY_KEY_PATTERN.test(phase.start) || !DAY_KEY_PATTERN.test(phase.end)) {
+    errors.push('Set a start and an end date');
+  } else if (phase.end < phase.start) {
+    errors.push('The phase must end on or after the day it starts');
+  } else {
+    const overlap = others.find(other => other.start <= phase.end && phase.start <= other.end);
+    if (overlap) {
+      errors.push(`Overlaps with "${overlap.name}"`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Average scores, stress and sleep per phase type
+ *
+ * Days outside every phase are reported as `none`. Phase types without any
+ * logged day are left out.
+ */
+export function comparePhases(summaries: DailySummary[], phases: AcademicPhase[]): PhaseComparisonRow[] {
+  const order: Array<AcademicPhaseType | 'none'> = [
+    ...(Object.keys(ACADEMIC_PHASE_LABELS) as AcademicPhaseType[]),
+    'none'
+  ];
+
+  return order
+    .map(phase => {
+      const days = summaries.filter(day => matchesPhaseFilter(phases, day.date, phase));
+      const sleep = days
+        .map(day => day.dayEnd.sleepHours)
+        .filter((value): value is number => value !== undefined);
+
+      return {
+        phase,
+        days: days.length,
+        MC: round(mean(days.map(day => day.scores.MC))),
+        DSS: round(mean(days.map(day => day.scores.DSS))),
+        stress: round(mean(days.map(day => day.mood.stress))),
+        sleepHours: sleep.length > 0 ? round(mean(sleep)) : null
+      };
+    })
+    .filter(row => row.days > 0);
+}
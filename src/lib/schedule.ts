@@ -0,0 +1,253 @@
+/**
+ * CampusThrive Schedule Recommender
+ *
+ * Turns the PowerHour heatmap into a suggested weekly study plan:
+ * - deep work goes into the hours with the highest smoothed focus
+ * - recovery goes into the hours with the lowest
+ * - light work fills the earliest free hours
+ *
+ * Tasks are planned earliest deadline first and split into blocks of at
+ * most a couple of hours. Blocks start on the hour, stay within the
+ * planning day and end before the task's deadline. Blocks the user has
+ * moved are pinned and kept when the plan is regenerated.
+ */
+
+import type { PowerHourHeatmap, ScheduleBlock, StudyPlan, StudyTask, StudyTaskKind } from '@/types';
+import { getDayKey } from './scoring';
+import { getDayDate, getWeekStart } from './daily';
+import { mean } from './statistics';
+
+/**
+ * Schedule recommender configuration
+ */
+export const SCHEDULE_CONFIG = {
+  /** First hour blocks are planned in */
+  FIRST_HOUR: 8,
+  /** Hour the planning day ends (exclusive) */
+  LAST_HOUR: 22,
+  /** Longest single block of each kind, in minutes */
+  MAX_BLOCK_MINUTES: {
+    deep: 120,
+    light: 60,
+    recovery: 60
+  } as Record<StudyTaskKind, number>,
+  /** Deep work planned on one day at most, in minutes */
+  MAX_DEEP_MINUTES_PER_DAY: 240,
+  /** Score of hours the heatmap knows nothing about (middle of 0-5) */
+  NEUTRAL_SCORE: 2.5
+} as const;
+
+/**
+ * Display labels for the task kinds
+ */
+export const STUDY_TASK_KIND_LABELS: Record<StudyTaskKind, string> = {
+  deep: 'Deep work',
+  light: 'Light work',
+  recovery: 'Recovery'
+};
+
+/**
+ * Options for recommending a schedule
+ */
+export interface ScheduleOptions {
+  /** Any day in the week to plan; defaults to the current week */
+  weekStart?: string;
+  /** Hours before this are not planned */
+  now?: Date;
+  /** Blocks to keep in place, usually the pinned blocks of the last plan */
+  keep?: ScheduleBlock[];
+}
+
+const HOURS_PER_WEEK = 7 * 24;
+const KIND_ORDER: StudyTaskKind[] = ['deep', 'light', 'recovery'];
+
+/**
+ * Start time of an hour slot in the week (0 = Monday midnight)
+ */
+function getSlotStart(weekStart: string, slot: number): Date {
+  const date = getDayDate(weekStart);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + Math.floor(slot / 24), slot % 24);
+}
+
+/**
+ * Hour slots a block covers, or null if it lies outside the week or crosses midnight
+ */
+function getBlockSlots(weekStart: string, start: Date, durationMinutes: number): number[] | null {
+  const day = Math.round((getDayDate(getDayKey(start)).getTime() - getDayDate(weekStart).getTime()) / (24 * 60 * 60 * 1000));
+  const first = day * 24 + start.getHours();
+  const length = Math.ceil(durationMinutes / 60);
+
+  if (day < 0 || day > 6 || start.getHours() + length > 24) {
+    return null;
+  }
+  return Array.from({ length }, (_, i) => first + i);
+}
+
+/**
+ * Expected 0-5 score of an hour from the heatmap
+ *
+ * Unlogged cells fall back to the average of logged cells at the same hour,
+ * then of all logged cells, then to `NEUTRAL_SCORE`.
+ */
+export function getSlotScore(heatmap: PowerHourHeatmap, weekday: number, hour: number): number {
+  if ((heatmap.counts[weekday]?.[hour] ?? 0) > 0) {
+    return heatmap.matrix[weekday]?.[hour] ?? SCHEDULE_CONFIG.NEUTRAL_SCORE;
+  }
+
+  const logged = (hours: number[]) => heatmap.matrix.flatMap((row, day) =>
+    hours.filter(h => (heatmap.counts[day]?.[h] ?? 0) > 0).map(h => row[h]!)
+  );
+  const sameHour = logged([hour]);
+  if (sameHour.length > 0) return mean(sameHour);
+
+  const all = logged(Array.from({ length: 24 }, (_, h) => h));
+  return all.length > 0 ? mean(all) : SCHEDULE_CONFIG.NEUTRAL_SCORE;
+}
+
+/**
+ * Order tasks are planned in: earliest deadline, then deep before light
+ * before recovery, then oldest first
+ */
+function compareTasks(a: StudyTask, b: StudyTask): number {
+  const deadline = (task: StudyTask) => task.deadline ? new Date(task.deadline).getTime() : Infinity;
+  return (deadline(a) - deadline(b)) ||
+    (KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind)) ||
+    (new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+/**
+ * Recommend a weekly schedule for the tasks from a power hour heatmap
+ *
+ * The heatmap is normally built on focus. Time kept through `options.keep`
+ * counts toward its task. Whatever does not fit before a deadline, or into
+ * the planning hours of the week, is reported in `unscheduled`.
+ */
+export function recommendSchedule(
+  tasks: StudyTask[],
+  heatmap: PowerHourHeatmap,
+  options: ScheduleOptions = {}
+): StudyPlan {
+  const now = options.now ?? new Date();
+  const weekStart = getWeekStart(options.weekStart ?? getDayKey(now));
+  const taskIds = new Set(tasks.map(task => task.id));
+
+  // Kept blocks that still belong to a task and fit the week
+  const blocks: ScheduleBlock[] = [];
+  const occupied = new Set<number>();
+  const deepMinutes = Array(7).fill(0) as number[];
+  const place = (block: ScheduleBlock, slots: number[]) => {
+    slots.forEach(slot => occupied.add(slot));
+    if (block.kind === 'deep') {
+      deepMinutes[Math.floor(slots[0]! / 24)]! += block.durationMinutes;
+    }
+    blocks.push(block);
+  };
+
+  (options.keep ?? []).forEach(block => {
+    const slots = getBlockSlots(weekStart, new Date(block.start), block.durationMinutes);
+    if (taskIds.has(block.taskId) && slots && slots.every(slot => !occupied.has(slot))) {
+      place(block, slots);
+    }
+  });
+
+  const slotScores = Array.from({ length: HOURS_PER_WEEK }, (_, slot) =>
+    getSlotScore(heatmap, getSlotStart(weekStart, slot).getDay(), slot % 24)
+  );
+
+  const unscheduled: StudyPlan['unscheduled'] = [];
+
+  [...tasks].sort(compareTasks).forEach(task => {
+    const kept = blocks
+      .filter(block => block.taskId === task.id)
+      .reduce((sum, block) => sum + block.durationMinutes, 0);
+    let remaining = task.durationMinutes - kept;
+    let part = 0;
+
+    while (remaining > 0) {
+      const minutes = Math.min(remaining, SCHEDULE_CONFIG.MAX_BLOCK_MINUTES[task.kind]);
+      const length = Math.ceil(minutes / 60);
+
+      // Candidate starts: free planning hours, in the future, ending by the deadline
+      let best: { slot: number; score: number } | null = null;
+      for (let slot = 0; slot < HOURS_PER_WEEK; slot++) {
+        const hour = slot % 24;
+        const start = getSlotStart(weekStart, slot);
+        const end = new Date(start.getTime() + minutes * 60 * 1000);
+        const slots = Array.from({ length }, (_, i) => slot + i);
+
+        if (
+          hour < SCHEDULE_CONFIG.FIRST_HOUR ||
+          hour + length > SCHEDULE_CONFIG.LAST_HOUR ||
+          start < now ||
+          (task.deadline && end > new Date(task.deadline)) ||
+          slots.some(s => occupied.has(s)) ||
+          (task.kind === 'deep' && deepMinutes[Math.floor(slot / 24)]! + minutes > SCHEDULE_CONFIG.MAX_DEEP_MINUTES_PER_DAY)
+        ) {
+          continue;
+        }
+
+        // Deep work wants high scores, recovery low ones, light work the earliest hour
+        const meanScore = mean(slots.map(s => slotScores[s]!));
+        const score = task.kind === 'deep' ? meanScore : task.kind === 'recovery' ? -meanScore : -slot;
+        if (!best || score > best.score) {
+          best = { slot, score };
+        }
+      }
+
+      if (!best) {
+        unscheduled.push({ taskId: task.id, minutes: remaining });
+        break;
+      }
+      const first = best.slot;
+
+      place({
+        id: `${task.id}-${weekStart}-${part++}`,
+        taskId: task.id,
+        title: task.title,
+        kind: task.kind,
+        start: getSlotStart(weekStart, first),
+        durationMinutes: minutes,
+        pinned: false
+      }, Array.from({ length }, (_, i) => first + i));
+      remaining -= minutes;
+    }
+  });
+
+  return {
+    weekStart,
+    metric: heatmap.metric,
+    blocks: blocks.sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()),
+    unscheduled,
+    generatedAt: now
+  };
+}
+
+/**
+ * Move a block to a new start hour and pin it there
+ *
+ * Returns null if the block would leave the week, cross midnight or
+ * overlap another block.
+ */
+export function moveScheduleBlock(plan: StudyPlan, blockId: string, start: Date): StudyPlan | null {
+  const block = plan.blocks.find(b => b.id === blockId);
+  if (!block) {
+    return null;
+  }
+
+  const slots = getBlockSlots(plan.weekStart, start, block.durationMinutes);
+  const occupied = new Set(plan.blocks
+    .filter(b => b.id !== blockId)
+    .flatMap(b => getBlockSlots(plan.weekStart, new Date(b.start), b.durationMinutes) ?? []));
+
+  if (!slots || slots.some(slot => occupied.has(slot))) {
+    return null;
+  }
+
+  const moved: ScheduleBlock = { ...block, start: getSlotStart(plan.weekStart, slots[0]!), pinned: true };
+  return {
+    ...plan,
+    blocks: plan.blocks
+      .map(b => b.id === blockId ? moved : b)
+      .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime())
+  };
+}
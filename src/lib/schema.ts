@@ -0,0 +1,349 @@
+/**
+ * CampusThrive Schemas
+ *
+ * Small schema combinators and a schema for every persisted type. A
+ * schema's `check` returns one issue per problem with its path, what was
+ * expected and what was found, so storage can report exactly why a record
+ * was rejected and set single bad records aside instead of dropping a whole
+ * collection (see `StorageManager.getValidatedItem`).
+ *
+ * Values are checked after date deserialization, so date fields expect
+ * Date objects.
+ */
+
+import type {
+  AppSettings,
+  Anomaly,
+  CachedEntryScores,
+  CoachTip,
+  ComputedScores,
+  DriverAnalysis,
+  EntryRevision,
+  Goal,
+  GoalProgress,
+  MigrationLogEntry,
+  MoodEntry,
+  PowerHourHeatmap,
+  QuarantinedRecord,
+  ScheduleBlock,
+  SchemaIssue,
+  StudyPlan,
+  StudyTask,
+  TrashedEntry
+} from '@/types';
+import { isClockTime } from './sleep';
+
+/**
+ * Validator for values of type T
+ */
+export interface Schema<T> {
+  /** What the schema accepts, e.g. "number from 0 to 5" */
+  readonly expected: string;
+  /** Problems with `value`; paths are relative to `path` */
+  check(value: unknown, path: string): SchemaIssue[];
+  /** Element schema of array schemas, so single records can be quarantined */
+  readonly element?: Schema<unknown>;
+  /** Carries T for type inference only; never set */
+  readonly _type?: T;
+}
+
+/**
+ * Short description of a value for error reports
+ */
+export function describeReceived(value: unknown): string {
+  if (value === undefined) return 'missing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array of ${value.length}`;
+  if (value instanceof Date) return isNaN(value.getTime()) ? 'invalid date' : `date ${value.toISOString()}`;
+  if (typeof value === 'string') return `string "${value.length > 30 ? `${value.slice(0, 30)}…` : value}"`;
+  if (typeof value === 'number' || typeof value === 'boolean') return `${typeof value} ${value}`;
+  return typeof value;
+}
+
+const childPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+/**
+ * Schema from a predicate, reporting one issue when it fails
+ */
+export function refineSchema<T>(expected: string, predicate: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check: (value, path) => (predicate(value) ? [] : [{ path, expected, received: describeReceived(value) }])
+  };
+}
+
+export function stringSchema(): Schema<string> {
+  return refineSchema('string', value => typeof value === 'string');
+}
+
+export function booleanSchema(): Schema<boolean> {
+  return refineSchema('boolean', value => typeof value === 'boolean');
+}
+
+export function dateSchema(): Schema<Date> {
+  return refineSchema('date', value => value instanceof Date && !isNaN(value.getTime()));
+}
+
+export function numberSchema(range: { min?: number; max?: number; exclusiveMin?: boolean } = {}): Schema<number> {
+  const { min, max, exclusiveMin = false } = range;
+  const expected = min !== undefined && max !== undefined
+    ? `number from ${min} to ${max}`
+    : min !== undefined
+      ? `number ${exclusiveMin ? 'above' : 'of at least'} ${min}`
+      : max !== undefined ? `number of at most ${max}` : 'number';
+
+  return refineSchema(expected, value =>
+    typeof value === 'number' && !isNaN(value) &&
+    (min === undefined || (exclusiveMin ? value > min : value >= min)) &&
+    (max === undefined || value <= max)
+  );
+}
+
+export function enumSchema<T extends string>(values: readonly T[]): Schema<T> {
+  return refineSchema(`one of ${values.join(', ')}`, value => typeof value === 'string' && (values as readonly string[]).includes(value));
+}
+
+/**
+ * Allow the key to be missing (or undefined)
+ */
+export function optionalSchema<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${schema.expected} or missing`,
+    check: (value, path) => (value === undefined ? [] : schema.check(value, path))
+  };
+}
+
+export function nullableSchema<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${schema.expected} or null`,
+    check: (value, path) => (value === null ? [] : schema.check(value, path))
+  };
+}
+
+export function arraySchema<T>(element: Schema<T>): Schema<T[]> {
+  return {
+    expected: `array of ${element.expected}`,
+    element,
+    check: (value, path) => {
+      if (!Array.isArray(value)) {
+        return [{ path, expected: `array of ${element.expected}`, received: describeReceived(value) }];
+      }
+      return value.flatMap((item, index) => element.check(item, `${path}[${index}]`));
+    }
+  };
+}
+
+/**
+ * Object with the given keys; keys not in the shape are allowed
+ */
+export function objectSchema<T>(shape: Record<string, Schema<unknown>>): Schema<T> {
+  return {
+    expected: 'object',
+    check: (value, path) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value) || value instanceof Date) {
+        return [{ path, expected: 'object', received: describeReceived(value) }];
+      }
+      const record = value as Record<string, unknown>;
+      return Object.entries(shape).flatMap(([key, schema]) => schema.check(record[key], childPath(path, key)));
+    }
+  };
+}
+
+/**
+ * Check a value, returning it typed or the list of issues
+ */
+export function validateSchema<T>(
+  schema: Schema<T>,
+  value: unknown
+): { valid: true; value: T } | { valid: false; issues: SchemaIssue[] } {
+  const issues = schema.check(value, '');
+  return issues.length === 0 ? { valid: true, value: value as T } : { valid: false, issues };
+}
+
+export function isValidForSchema<T>(schema: Schema<T>, value: unknown): value is T {
+  return schema.check(value, '').length === 0;
+}
+
+/**
+ * One line per issue, e.g. "valence: expected number from 0 to 5, received number 7"
+ */
+export function formatSchemaIssue(issue: SchemaIssue): string {
+  return `${issue.path || 'value'}: expected ${issue.expected}, received ${issue.received}`;
+}
+
+// Schemas for persisted types
+
+const TIME_BUCKETS = ['Morning', 'Midday', 'Evening', 'Night'] as const;
+const STUDY_TASK_KINDS = ['deep', 'light', 'recovery'] as const;
+const POWER_HOUR_METRICS = ['MC', 'DSS', 'focus', 'energy'] as const;
+const scale = () => numberSchema({ min: 0, max: 5 });
+const count = () => optionalSchema(numberSchema({ min: 0 }));
+const clockTime = () => optionalSchema(refineSchema<string>('time as HH:mm', isClockTime));
+
+export const MOOD_ENTRY_SCHEMA = objectSchema<MoodEntry>({
+  id: stringSchema(),
+  timestamp: dateSchema(),
+  timeBucket: enumSchema(TIME_BUCKETS),
+  valence: scale(),
+  energy: scale(),
+  focus: scale(),
+  stress: scale(),
+  tags: arraySchema(stringSchema()),
+  deepworkMinutes: count(),
+  tasksCompleted: count(),
+  sleepHours: count(),
+  bedTime: clockTime(),
+  wakeTime: clockTime(),
+  recoveryAction: optionalSchema(booleanSchema()),
+  socialTouchpoints: count()
+});
+
+export const TRASHED_ENTRY_SCHEMA = objectSchema<TrashedEntry>({
+  entry: MOOD_ENTRY_SCHEMA,
+  deletedAt: dateSchema()
+});
+
+export const ENTRY_REVISION_SCHEMA = objectSchema<EntryRevision>({
+  id: stringSchema(),
+  entryId: stringSchema(),
+  editedAt: dateSchema(),
+  changedFields: arraySchema(stringSchema()),
+  previousValues: objectSchema({})
+});
+
+const COMPUTED_SCORES_SHAPE = {
+  MC: numberSchema(),
+  DSS: numberSchema(),
+  LM: numberSchema(),
+  RI: numberSchema(),
+  CN: numberSchema()
+};
+
+export const COMPUTED_SCORES_SCHEMA = objectSchema<ComputedScores>(COMPUTED_SCORES_SHAPE);
+
+export const CACHED_ENTRY_SCORES_SCHEMA = objectSchema<CachedEntryScores>({
+  ...COMPUTED_SCORES_SHAPE,
+  entryId: stringSchema(),
+  timestamp: dateSchema(),
+  entryFingerprint: stringSchema(),
+  configFingerprint: stringSchema(),
+  isValid: booleanSchema(),
+  isOutlier: booleanSchema(),
+  baseline: objectSchema({})
+});
+
+export const ANOMALY_SCHEMA = objectSchema<Anomaly>({
+  id: stringSchema(),
+  kind: enumSchema(['spike', 'run']),
+  metric: stringSchema(),
+  date: stringSchema(),
+  value: numberSchema(),
+  zScore: numberSchema(),
+  explanation: stringSchema(),
+  detectedAt: dateSchema(),
+  dismissed: booleanSchema()
+});
+
+export const STUDY_TASK_SCHEMA = objectSchema<StudyTask>({
+  id: stringSchema(),
+  title: stringSchema(),
+  kind: enumSchema(STUDY_TASK_KINDS),
+  durationMinutes: numberSchema({ min: 0, exclusiveMin: true }),
+  deadline: optionalSchema(dateSchema()),
+  createdAt: dateSchema()
+});
+
+export const SCHEDULE_BLOCK_SCHEMA = objectSchema<ScheduleBlock>({
+  id: stringSchema(),
+  taskId: stringSchema(),
+  title: stringSchema(),
+  kind: enumSchema(STUDY_TASK_KINDS),
+  start: dateSchema(),
+  durationMinutes: numberSchema(),
+  pinned: booleanSchema()
+});
+
+export const STUDY_PLAN_SCHEMA = objectSchema<StudyPlan>({
+  weekStart: stringSchema(),
+  metric: enumSchema(POWER_HOUR_METRICS),
+  blocks: arraySchema(SCHEDULE_BLOCK_SCHEMA),
+  unscheduled: arraySchema(objectSchema({ taskId: stringSchema(), minutes: numberSchema() })),
+  generatedAt: dateSchema()
+});
+
+export const GOAL_SCHEMA = objectSchema<Goal>({
+  id: stringSchema(),
+  title: stringSchema(),
+  metric: stringSchema(),
+  aggregation: enumSchema(['average', 'total', 'days']),
+  comparator: enumSchema(['atMost', 'atLeast']),
+  target: numberSchema(),
+  dayThreshold: optionalSchema(numberSchema()),
+  active: booleanSchema(),
+  createdAt: dateSchema()
+});
+
+export const GOAL_PROGRESS_SCHEMA = objectSchema<GoalProgress>({
+  goalId: stringSchema(),
+  weekStart: stringSchema(),
+  value: nullableSchema(numberSchema()),
+  target: numberSchema(),
+  progress: numberSchema(),
+  status: stringSchema(),
+  daysLogged: numberSchema(),
+  complete: booleanSchema()
+});
+
+export const APP_SETTINGS_SCHEMA = objectSchema<AppSettings>({
+  theme: enumSchema(['light', 'dark', 'system']),
+  defaultTimeBucket: enumSchema(TIME_BUCKETS),
+  showCoachTips: booleanSchema(),
+  notifications: objectSchema({}),
+  dataRetention: objectSchema({
+    moodEntriesDays: numberSchema({ min: 0 }),
+    scoresDays: numberSchema({ min: 0 }),
+    trashDays: optionalSchema(numberSchema({ min: 0 }))
+  }),
+  privacy: objectSchema({}),
+  scoringProfiles: optionalSchema(arraySchema(objectSchema({ id: stringSchema(), name: stringSchema() }))),
+  activeScoringProfileId: optionalSchema(stringSchema()),
+  dayStartHour: optionalSchema(numberSchema({ min: 0, max: 23 }))
+});
+
+export const DRIVER_ANALYSIS_SCHEMA = objectSchema<DriverAnalysis>({
+  helpfulTags: arraySchema(objectSchema({ tag: stringSchema() })),
+  harmfulTags: arraySchema(objectSchema({ tag: stringSchema() })),
+  confidence: numberSchema()
+});
+
+export const POWER_HOUR_HEATMAP_SCHEMA = objectSchema<PowerHourHeatmap>({
+  metric: enumSchema(POWER_HOUR_METRICS),
+  matrix: arraySchema(arraySchema(numberSchema()))
+});
+
+export const COACH_TIP_SCHEMA = objectSchema<CoachTip>({
+  id: stringSchema(),
+  content: stringSchema(),
+  priority: enumSchema(['high', 'medium', 'low']),
+  category: stringSchema()
+});
+
+export const MIGRATION_LOG_ENTRY_SCHEMA = objectSchema<MigrationLogEntry>({
+  id: stringSchema(),
+  fromVersion: stringSchema(),
+  toVersion: stringSchema(),
+  steps: arraySchema(stringSchema()),
+  changedKeys: arraySchema(stringSchema()),
+  status: enumSchema(['success', 'rolledBack']),
+  error: optionalSchema(stringSchema()),
+  startedAt: dateSchema(),
+  finishedAt: dateSchema()
+});
+
+export const QUARANTINED_RECORD_SCHEMA = objectSchema<QuarantinedRecord>({
+  id: stringSchema(),
+  key: stringSchema(),
+  isElement: booleanSchema(),
+  issues: arraySchema(objectSchema({ path: stringSchema(), expected: stringSchema(), received: stringSchema() })),
+  quarantinedAt: dateSchema()
+});
@@ -15,10 +15,57 @@ import {
   analyzeDrivers,
   generatePowerHours,
   calculateAllScores,
+  scoreEntry,
+  scoreEntries,
+  averageScores,
+  zScoreToPercentile,
+  compareScoringProfiles,
+  getScoringProfileErrors,
+  updateScoreCache,
+  scoreEntriesById,
+  testDriverEffect,
+  analyzeDriverObservations,
+  DEFAULT_NORMALIZATION_CONFIG,
   validateScoringConfig,
-  SCORING_CONFIG
+  BUILT_IN_SCORING_PROFILES,
+  DEFAULT_BASELINE_CONFIG,
+  DEFAULT_SCORING_PROFILE,
+  SCORING_CONFIG,
+  POWER_HOURS_CONFIG,
+  applyAcademicCalendar,
+  describeBaseline
 } from './scoring';
-import { MoodEntry } from '@/types';
+import { buildDailySummaries, getWeekStart, DEFAULT_DAY_START_HOUR } from './daily';
+import { calculateStreakReport, calculateStreakHistory, DEFAULT_STREAK_SETTINGS } from './streaks';
+import { welchTTest, benjaminiHochberg, oneWayAnova } from './statistics';
+import {
+  buildLaggedObservations,
+  calculateTagCooccurrence,
+  analyzeTagInteractions,
+  regressOnTags
+} from './drivers';
+import { fitLinearTrend, loessSmooth, detectChangePoints, decomposeWeeklySeasonality } from './trends';
+import { forecastScores, getBucketOffsets } from './forecast';
+import { detectEntrySpikes, detectRuns, mergeAnomalies, getActiveAnomalies } from './anomalies';
+import { CoachEngine, ANOMALY_TIP_CATEGORIES } from './coach';
+import { calculateBurnoutHistory, calculateBurnoutRisk, getBurnoutLevel, BURNOUT_CONFIG } from './burnout';
+import {
+  calculateSleepDebt,
+  calculateSleepDebtHistory,
+  calculateSleepRegularity,
+  getSleepDurationHours,
+  inferChronotype,
+  parseClockTime
+} from './sleep';
+import { recommendSchedule, moveScheduleBlock } from './schedule';
+import { evaluateGoal, evaluateGoalHistory, evaluateActiveGoals, mergeGoalHistory, describeGoal, getGoalErrors, GOAL_TEMPLATES } from './goals';
+import { ICSExporter } from './export';
+import { explainScores } from './explain';
+import { comparePhases, getAcademicPhaseErrors, getPhaseForDay, matchesPhaseFilter } from './phases';
+import { MemoryStorageAdapter, copyAdapterKeys } from './adapters';
+import { StorageManager, MigrationManager, QuarantineManager, EntryManager, ScoreCacheManager, STORAGE_CONFIG, STORAGE_MIGRATIONS, compareVersions } from './storage';
+import { arraySchema, validateSchema, MOOD_ENTRY_SCHEMA } from './schema';
+import { MoodEntry, DailySummary, ComputedScores, PowerHourHeatmap, StudyTask, Goal, AcademicPhase, AppSettings } from '@/types';
 
 // Test helper functions
 function createTestMoodEntry(overrides: Partial<MoodEntry> = {}): MoodEntry {
@@ -299,6 +346,1055 @@ function runScoringTests() {
     console.log('✅ calculateAllScores tests passed');
   }
 
+  function testCanonicalScoring() {
+    setupTestData();
+    
+    const allEntries = [...historicalEntries, ...sampleEntries];
+    const series = scoreEntries([...allEntries].reverse());
+    
+    // Series is oldest first regardless of input order
+    console.assert(series.length === allEntries.length, 'Every entry should be scored');
+    console.assert(series[0]!.entryId === '1', 'Series should be oldest first');
+    
+    // Insufficient-history fallback: MC/DSS are 0 and flagged invalid
+    console.assert(series[0]!.MC === 0 && series[0]!.DSS === 0, 'No baseline should score 0');
+    console.assert(series[2]!.isValid === false, 'Fewer than 3 earlier entries should be provisional');
+    console.assert(series[3]!.isValid === true, '3 earlier entries should be a valid baseline');
+    console.assert(series[0]!.LM === 120 + 5 * SCORING_CONFIG.DSS_MULTIPLIERS.TASKS_TO_LM, 'LM should be raw');
+    
+    // A single entry scores the same as its point in the series
+    const latest = scoreEntry(sampleEntries[0]!, allEntries);
+    const latestInSeries = series[series.length - 1]!;
+    console.assert(latest.MC === latestInSeries.MC, 'scoreEntry MC should match series');
+    console.assert(latest.DSS === latestInSeries.DSS, 'scoreEntry DSS should match series');
+    console.assert(latest.baselineSize === historicalEntries.length, 'Only earlier entries form the baseline');
+    
+    // Averages and percentiles
+    console.assert(averageScores([]).MC === 0, 'Empty average should be 0');
+    console.assert(Math.abs(zScoreToPercentile(0) - 0.5) < 1e-6, 'z=0 should be the 50th percentile');
+    console.assert(Math.abs(zScoreToPercentile(1.96) - 0.975) < 1e-3, 'z=1.96 should be ~97.5th percentile');
+    
+    console.log('✅ canonical scoring tests passed');
+  }
+
+  function testScoringProfiles() {
+    setupTestData();
+    
+    const allEntries = [...historicalEntries, ...sampleEntries];
+    
+    // Built-in profiles are all valid
+    BUILT_IN_SCORING_PROFILES.forEach(profile => {
+      console.assert(validateScoringConfig(profile), `${profile.name} should be valid`);
+    });
+    
+    // Invalid weights are reported
+    const invalid = {
+      ...DEFAULT_SCORING_PROFILE,
+      mcWeights: { ...DEFAULT_SCORING_PROFILE.mcWeights, stress: 0.3 },
+      dssWeights: { lm: 0.5, ri: 0.5, cn: 0.5 }
+    };
+    console.assert(getScoringProfileErrors(invalid).length === 2, 'Positive stress weight and DSS sum should both be flagged');
+    
+    // Same profile compares with zero deltas; a different one moves MC
+    const same = compareScoringProfiles(allEntries, DEFAULT_SCORING_PROFILE, DEFAULT_SCORING_PROFILE);
+    console.assert(same.every(row => row.mcDelta === 0 && row.dssDelta === 0), 'Same profile should have zero deltas');
+    
+    const examSeason = BUILT_IN_SCORING_PROFILES.find(p => p.id === 'exam-season')!;
+    const rows = compareScoringProfiles(allEntries, DEFAULT_SCORING_PROFILE, examSeason);
+    console.assert(rows.length === allEntries.length, 'Every entry should be compared');
+    console.assert(rows.some(row => row.mcDelta !== 0), 'Different weights should change MC');
+    
+    console.log('✅ scoring profile tests passed');
+  }
+
+  function testBaselineModes() {
+    setupTestData();
+    
+    const entry = sampleEntries[0]!;
+    const withBaseline = (baseline: typeof DEFAULT_BASELINE_CONFIG) =>
+      ({ ...DEFAULT_SCORING_PROFILE, baseline });
+    
+    // All history: every entry, unweighted
+    const allHistory = calculateMC(entry, historicalEntries);
+    console.assert(allHistory.baseline.mode === 'all-history', 'Default baseline should be all history');
+    console.assert(allHistory.baseline.entriesUsed === 5, 'All history should use every entry');
+    
+    // Rolling: only entries less than N days before the scored entry
+    const rolling = calculateMC(entry, historicalEntries, undefined, withBaseline({ ...DEFAULT_BASELINE_CONFIG, mode: 'rolling', windowDays: 3 }));
+    console.assert(rolling.baseline.entriesUsed === 3, '3-day window should keep Jan 3-5');
+    console.assert(rolling.baseline.label === '3-day rolling', 'Rolling label should name the window');
+    console.assert(rolling.isValid === true, '3 entries in the window should be valid');
+    
+    const narrow = calculateDSS(entry, historicalEntries, withBaseline({ ...DEFAULT_BASELINE_CONFIG, mode: 'rolling', windowDays: 2 }));
+    console.assert(narrow.isValid === false, 'Too few entries in the window should be provisional');
+    
+    // EWMA: every entry, recent ones weigh more
+    const ewma = calculateMC(entry, historicalEntries, undefined, withBaseline({ ...DEFAULT_BASELINE_CONFIG, mode: 'ewma', halfLifeDays: 1 }));
+    console.assert(ewma.baseline.entriesUsed === 5, 'EWMA should keep every entry');
+    console.assert(ewma.baseline.effectiveSize < 5, 'EWMA weights should shrink the effective sample size');
+    console.assert(ewma.mc !== allHistory.mc, 'EWMA should change MC');
+    
+    // Invalid settings are reported
+    const badRolling = withBaseline({ ...DEFAULT_BASELINE_CONFIG, mode: 'rolling', windowDays: 0 });
+    console.assert(getScoringProfileErrors(badRolling).length === 1, 'Zero-day window should be flagged');
+    
+    console.log('✅ baseline mode tests passed');
+  }
+
+  function testScoreCache() {
+    setupTestData();
+    
+    const allEntries = [...historicalEntries, ...sampleEntries];
+    
+    // A cold cache scores everything and matches the canonical series
+    const cold = updateScoreCache([], historicalEntries);
+    console.assert(cold.recomputed === historicalEntries.length, 'Cold cache should score every entry');
+    const series = scoreEntries(historicalEntries);
+    console.assert(cold.scores.every((row, i) => row.MC === series[i]!.MC && row.DSS === series[i]!.DSS), 'Cache should match canonical scores');
+    console.assert(cold.scores[4]!.baseline.entriesUsed === 4, 'Cache should record the baseline size');
+    
+    // A warm cache only rescores what changed
+    console.assert(updateScoreCache(cold.scores, historicalEntries).recomputed === 0, 'Unchanged entries should not be rescored');
+    console.assert(updateScoreCache(cold.scores, allEntries).recomputed === 1, 'Appending should rescore one entry');
+    
+    const edited = historicalEntries.map(e => (e.id === '3' ? { ...e, valence: 5 } : e));
+    console.assert(updateScoreCache(cold.scores, edited).recomputed === 3, 'Editing should rescore the entry and everything after it');
+    
+    const examSeason = BUILT_IN_SCORING_PROFILES.find(p => p.id === 'exam-season')!;
+    console.assert(updateScoreCache(cold.scores, historicalEntries, examSeason).recomputed === 5, 'A new profile should rescore everything');
+    
+    // Analyzers read the cache instead of rescoring
+    const lookup = new Map(cold.scores.map(row => [row.entryId, row]));
+    const fromCache = analyzeDrivers(historicalEntries, 1, DEFAULT_SCORING_PROFILE, lookup);
+    const fresh = analyzeDrivers(historicalEntries, 1);
+    console.assert(JSON.stringify(fromCache) === JSON.stringify(fresh), 'Drivers from the cache should match a fresh analysis');
+    
+    console.log('✅ score cache tests passed');
+  }
+
+  function testRobustNormalization() {
+    // Steady sleep with one all-nighter in the baseline
+    const sleep = [7, 8, 7, 0, 8, 7];
+    const history = sleep.map((hours, i) => createTestMoodEntry({
+      id: `sleep-${i}`,
+      timestamp: new Date(`2024-02-0${i + 1}T08:00:00Z`),
+      sleepHours: hours
+    }));
+    const typicalNight = createTestMoodEntry({ id: 'typical', timestamp: new Date('2024-02-08T08:00:00Z'), sleepHours: 7 });
+    const allNighter = createTestMoodEntry({ id: 'all-nighter', timestamp: new Date('2024-02-08T08:00:00Z'), sleepHours: 0 });
+    const withNormalization = (normalization: typeof DEFAULT_NORMALIZATION_CONFIG) =>
+      ({ ...DEFAULT_SCORING_PROFILE, normalization });
+    
+    // Default behaviour is unchanged: no winsorizing, no outliers
+    const standard = calculateDSS(typicalNight, history);
+    console.assert(standard.outliers.winsorizedEntryIds.length === 0, 'Default mode should not winsorize');
+    console.assert(standard.outliers.isOutlier === false, 'Default mode should not flag outliers');
+    
+    // Median/MAD ignores the all-nighter when centering
+    const robust = calculateDSS(typicalNight, history, withNormalization({ method: 'median-mad', winsorizeLimit: 0 }));
+    console.assert(robust.components.ri.mean === 7, 'Robust center should be the median');
+    console.assert(robust.components.ri.sigma < standard.components.ri.sigma, 'Robust sigma should not be inflated by the outlier');
+    
+    // Winsorizing clamps the all-nighter in the baseline and flags new ones
+    const winsorized = calculateDSS(typicalNight, history, withNormalization({ method: 'mean-sd', winsorizeLimit: 3 }));
+    console.assert(winsorized.outliers.winsorizedEntryIds.includes('sleep-3'), 'All-nighter should be winsorized');
+    console.assert(winsorized.components.ri.sigma < standard.components.ri.sigma, 'Winsorizing should shrink sigma');
+    
+    const flagged = calculateDSS(allNighter, history, withNormalization({ method: 'median-mad', winsorizeLimit: 3 }));
+    console.assert(flagged.outliers.isOutlier && flagged.outliers.dimensions.includes('ri'), 'New all-nighter should be flagged on RI');
+    
+    console.log('✅ robust normalization tests passed');
+  }
+
+  function testDailySummaries() {
+    // Two check-ins on Mar 1, the second after midnight, then one on Mar 2
+    const entries = [
+      createTestMoodEntry({ id: 'evening', timestamp: new Date(2024, 2, 1, 19, 0), valence: 2, deepworkMinutes: 60, sleepHours: 6, recoveryAction: false }),
+      createTestMoodEntry({ id: 'late-night', timestamp: new Date(2024, 2, 2, 1, 30), valence: 4, deepworkMinutes: 30, sleepHours: 7, recoveryAction: true }),
+      createTestMoodEntry({ id: 'next-day', timestamp: new Date(2024, 2, 2, 12, 0), valence: 3 })
+    ];
+    
+    // With a 4am boundary the 1:30am check-in belongs to Mar 1
+    const summaries = buildDailySummaries(entries, DEFAULT_SCORING_PROFILE, { dayStartHour: 4 });
+    console.assert(summaries.length === 2, 'Late-night entry should merge into the previous day');
+    const firstDay = summaries[0]!;
+    console.assert(firstDay.date === '2024-03-01', 'First day should be keyed by its calendar date');
+    console.assert(firstDay.entryIds.length === 2, 'First day should contain both check-ins');
+    console.assert(firstDay.mood.valence === 3, 'Mood should be averaged across the day');
+    console.assert(firstDay.dayEnd.deepworkMinutes === 90, 'Deep work should be summed');
+    console.assert(firstDay.dayEnd.sleepHours === 7, 'Sleep should use the latest report');
+    console.assert(firstDay.dayEnd.recoveryAction === true, 'Any recovery action should count');
+    console.assert(summaries[1]!.dayEnd.deepworkMinutes === 0, 'Next day should not include the late-night deep work');
+    
+    // With a midnight boundary every calendar date is its own day
+    const midnight = buildDailySummaries(entries, DEFAULT_SCORING_PROFILE, { dayStartHour: 0 });
+    console.assert(midnight.length === 2 && midnight[1]!.entryIds.length === 2, 'Midnight boundary should split at midnight');
+    
+    // Streaks count logical days
+    const streak = calculateStreakReport(summaries, DEFAULT_STREAK_SETTINGS, 4, new Date(2024, 2, 3, 2, 0));
+    console.assert(streak.currentStreak === 2, 'Streak should count consecutive logical days');
+    
+    console.log('✅ daily summary tests passed');
+  }
+
+  function testDriverSignificance() {
+    // Textbook Welch example: t = -2, df = 8, two-sided p ≈ 0.0805
+    const welch = welchTTest([1, 2, 3, 4, 5], [3, 4, 5, 6, 7]);
+    console.assert(Math.abs(welch.t + 2) < 1e-9, 'Welch t should be -2');
+    console.assert(Math.abs(welch.degreesOfFreedom - 8) < 1e-9, 'Welch df should be 8');
+    console.assert(Math.abs(welch.pValue - 0.0805) < 0.001, 'Welch p should be about 0.0805');
+    
+    // Benjamini–Hochberg keeps input order and is monotone in rank
+    const adjusted = benjaminiHochberg([0.01, 0.04, 0.03, 0.2]);
+    console.assert(Math.abs(adjusted[0]! - 0.04) < 1e-9, 'Smallest p should be scaled by m');
+    console.assert(Math.abs(adjusted[1]! - 0.16 / 3) < 1e-9 && adjusted[2] === adjusted[1], 'Adjusted p should be monotone');
+    console.assert(adjusted[3] === 0.2, 'Largest p should be unchanged');
+    
+    // A clear effect is significant with a large d and an interval excluding zero
+    const strong = testDriverEffect([1.2, 1.0, 1.4, 1.1, 1.3, 0.9], [-0.2, 0.1, -0.1, 0.0, 0.2, -0.3], 'gym');
+    console.assert(strong.isSignificant && strong.cohensD > 0.8, 'Strong effect should be significant and large');
+    console.assert(strong.confidenceInterval.lower > 0, 'Interval should exclude zero for a strong effect');
+    
+    // Noise of the same size is not
+    const noise = testDriverEffect([0.5, -0.4, 0.3], [-0.5, 0.4, -0.2, 0.1], 'coffee');
+    console.assert(!noise.isSignificant, 'Noise should not be significant');
+    console.assert(noise.confidenceInterval.lower < 0 && noise.confidenceInterval.upper > 0, 'Noise interval should span zero');
+    
+    // Bootstrap intervals are reproducible for the same tag
+    const again = testDriverEffect([0.5, -0.4, 0.3], [-0.5, 0.4, -0.2, 0.1], 'coffee');
+    console.assert(again.confidenceInterval.lower === noise.confidenceInterval.lower, 'Bootstrap should be seeded');
+    
+    console.log('✅ driver significance tests passed');
+  }
+
+  function testLaggedDrivers() {
+    // Morning and Evening check-ins on Mar 1-4, gym on Mar 1 and Mar 3 mornings
+    const entries = [1, 2, 3, 4].flatMap(day => [
+      createTestMoodEntry({ id: `morning-${day}`, timestamp: new Date(2024, 2, day, 9, 0), timeBucket: 'Morning', tags: day % 2 === 1 ? ['gym'] : [], valence: day }),
+      createTestMoodEntry({ id: `evening-${day}`, timestamp: new Date(2024, 2, day, 19, 0), timeBucket: 'Evening', tags: [], valence: 5 - day })
+    ]);
+    const scores = scoreEntriesById(entries);
+    const summaries = buildDailySummaries(entries, DEFAULT_SCORING_PROFILE, { dayStartHour: 4 });
+    const observe = (lag: Parameters<typeof buildLaggedObservations>[1]) =>
+      buildLaggedObservations(entries, lag, scores, summaries, 4);
+    
+    console.assert(observe('same-entry').length === 8, 'Same-entry lag should pair every check-in');
+    
+    // Next bucket: each morning's tags against that evening's scores
+    const nextBucket = observe('next-bucket');
+    console.assert(nextBucket.length === 4, 'Next-bucket lag should pair mornings with evenings');
+    console.assert(nextBucket[0]!.tags.includes('gym'), 'Next-bucket exposure should carry the morning tags');
+    console.assert(nextBucket[0]!.MC === scores.get('evening-1')!.MC, 'Next-bucket outcome should be the evening score');
+    
+    // Day lags: a day's tags against later daily summaries, skipping missing days
+    const nextDay = observe('next-day');
+    console.assert(nextDay.length === 3, 'Next-day lag should skip the last day');
+    console.assert(nextDay[0]!.DSS === summaries[1]!.scores.DSS, 'Next-day outcome should be the following daily DSS');
+    console.assert(observe('two-days').length === 2, 'Two-day lag should pair days two apart');
+    
+    console.log('✅ lagged driver tests passed');
+  }
+
+  function testStreakEngine() {
+    // 2024-03-04 is a Monday
+    const counts = (pairs: Array<[number, number]>) =>
+      new Map(pairs.map(([day, count]) => [`2024-03-${String(day).padStart(2, '0')}`, count]));
+    const withGrace = { ...DEFAULT_STREAK_SETTINGS, graceDaysPerWeek: 1 };
+    
+    // A grace day bridges one missed day
+    const bridged = calculateStreakHistory(counts([[4, 1], [5, 1], [7, 1]]), withGrace, '2024-03-07');
+    console.assert(bridged.currentStreak === 4 && bridged.isActive, 'Grace day should bridge a missed day');
+    console.assert(bridged.history[0]!.graceDays.join() === '2024-03-06', 'Grace day should be recorded');
+    console.assert(bridged.graceDaysRemaining === 0, 'Grace day should be used up for the week');
+    
+    // Without grace the same days are two streaks
+    const strict = calculateStreakHistory(counts([[4, 1], [5, 1], [7, 1]]), DEFAULT_STREAK_SETTINGS, '2024-03-07');
+    console.assert(strict.history.length === 2 && strict.currentStreak === 1, 'Missed day should break a strict streak');
+    console.assert(strict.longestStreak === 2, 'Longest streak should come from history');
+    
+    // A second missed day in the same week ends the streak
+    const limited = calculateStreakHistory(counts([[4, 1], [5, 1], [7, 1], [9, 1]]), withGrace, '2024-03-09');
+    console.assert(limited.history.length === 2, 'Grace days should be limited per week');
+    console.assert(limited.history[0]!.startDate === '2024-03-04' && limited.history[0]!.endDate === '2024-03-07', 'Closed streak should keep its dates');
+    console.assert(limited.currentStreak === 1, 'New streak should start after the break');
+    
+    // Partial days keep the streak but do not count in full
+    const partial = calculateStreakHistory(counts([[4, 2], [5, 1], [6, 2]]), { ...DEFAULT_STREAK_SETTINGS, minEntriesPerDay: 2 }, '2024-03-06');
+    console.assert(partial.currentStreak === 3, 'Partial day should keep the streak');
+    console.assert(partial.history[0]!.completeDays === 2 && partial.history[0]!.partialDays.join() === '2024-03-05', 'Partial day should be recorded');
+    const noPartial = calculateStreakHistory(
+      counts([[4, 2], [5, 1], [6, 2]]),
+      { ...DEFAULT_STREAK_SETTINGS, minEntriesPerDay: 2, partialDaysKeepStreak: false },
+      '2024-03-06'
+    );
+    console.assert(noPartial.currentStreak === 1, 'Partial day should break the streak when disabled');
+    
+    // Today is still open
+    const pending = calculateStreakHistory(counts([[4, 1], [5, 1]]), DEFAULT_STREAK_SETTINGS, '2024-03-06');
+    console.assert(pending.currentStreak === 2 && !pending.isActive, 'Unlogged today should not break the streak');
+    
+    console.log('✅ streak engine tests passed');
+  }
+
+  function testTrendEngine() {
+    // 28 days from Monday 2024-03-04 with small deterministic noise
+    const days = Array.from({ length: 28 }, (_, i) => i);
+    const dates = days.map(i => `2024-03-${String(4 + i).padStart(2, '0')}`);
+    const noise = days.map(i => (((i * 7) % 5) - 2) * 0.1);
+    
+    // Linear trend
+    const rising = fitLinearTrend(days, days.map(i => 0.1 * i + noise[i]!))!;
+    console.assert(Math.abs(rising.slope - 0.1) < 0.01, 'Slope should be recovered');
+    console.assert(rising.pValue < 0.001, 'Steady rise should be significant');
+    
+    // LOESS reproduces a straight line
+    const smoothed = loessSmooth(days, days.map(i => 2 * i + 1));
+    console.assert(smoothed.every((value, i) => Math.abs(value - (2 * i + 1)) < 1e-6), 'LOESS should follow a line exactly');
+    
+    // A level shift on day 14 (2024-03-18)
+    const shifted = days.map(i => (i >= 14 ? 2 : 0) + noise[i]!);
+    const changePoints = detectChangePoints(shifted, dates);
+    console.assert(changePoints.length === 1 && changePoints[0]!.date === '2024-03-18', 'Change point should be found at the shift');
+    console.assert(Math.abs(changePoints[0]!.shift - 2) < 0.2, 'Shift size should be recovered');
+    console.assert(detectChangePoints(noise, dates).length === 0, 'Noise alone should have no change points');
+    
+    // Mondays run low
+    const residuals = days.map(i => (i % 7 === 0 ? -1 : 0.2) + noise[i]! * 0.3);
+    const seasonality = decomposeWeeklySeasonality(dates, residuals)!;
+    console.assert(seasonality.isSignificant && seasonality.lowDay === 1, 'Monday dip should be detected');
+    console.assert(seasonality.strength > 0.8, 'Weekday should explain most of the variance');
+    console.assert(decomposeWeeklySeasonality(dates.slice(0, 7), residuals.slice(0, 7)) === null, 'One week is too short for seasonality');
+    console.assert(oneWayAnova([[1, 2, 3], [1, 2, 3]]).pValue > 0.99, 'Equal groups should not differ');
+    
+    console.log('✅ trend engine tests passed');
+  }
+
+  function testForecast() {
+    // Four weeks from Monday 2024-03-04; Mondays run low
+    const summaries = Array.from({ length: 28 }, (_, i) => ({
+      date: `2024-03-${String(4 + i).padStart(2, '0')}`,
+      scores: { MC: (i % 7 === 0 ? -1 : 0.5) + (((i * 7) % 5) - 2) * 0.05, DSS: 0.2 }
+    })) as unknown as DailySummary[];
+    
+    const forecast = forecastScores(summaries, [], new Map(), { dayStartHour: 0, today: new Date(2024, 2, 31, 12) })!;
+    console.assert(forecast.points.length === 7 && forecast.points[0]!.date === '2024-04-01', 'Forecast should start after the last logged day');
+    const monday = forecast.points[0]!;
+    const tuesday = forecast.points[1]!;
+    console.assert(monday.MC.value < tuesday.MC.value - 0.5, 'Forecast should keep the weekday pattern');
+    console.assert(monday.MC.lower < monday.MC.value && monday.MC.value < monday.MC.upper, 'Interval should contain the forecast');
+    const width = (i: number) => forecast.points[i]!.MC.upper - forecast.points[i]!.MC.lower;
+    console.assert(width(6) > width(0), 'Intervals should widen with the horizon');
+    console.assert(Math.abs(monday.DSS.value - 0.2) < 0.01, 'Flat metric should forecast flat');
+    console.assert(forecastScores(summaries.slice(0, 5), [], new Map()) === null, 'Too little history should not forecast');
+    
+    // Mornings run 0.5 above the day, evenings 0.5 below
+    const entries = [1, 2, 3].flatMap(day => [
+      createTestMoodEntry({ id: `m-${day}`, timestamp: new Date(2024, 2, day, 8), timeBucket: 'Morning' }),
+      createTestMoodEntry({ id: `e-${day}`, timestamp: new Date(2024, 2, day, 19), timeBucket: 'Evening' })
+    ]);
+    const scores = new Map(entries.map(entry => [
+      entry.id,
+      { MC: entry.timeBucket === 'Morning' ? 1 : 0 } as ComputedScores
+    ]));
+    const offsets = getBucketOffsets(entries, scores, 0)[5]!; // 2024-03-01 is a Friday
+    console.assert(Math.abs(offsets.Morning! - 0.5) < 1e-9 && Math.abs(offsets.Evening! + 0.5) < 1e-9, 'Bucket offsets should follow time of day');
+    console.assert(offsets.Night === null, 'Unlogged buckets should have no offset');
+    
+    console.log('✅ forecast tests passed');
+  }
+
+  function testAnomalyDetection() {
+    // Ten ordinary days, then a very stressful evening
+    const entries = Array.from({ length: 11 }, (_, i) => createTestMoodEntry({
+      id: `anomaly-${i}`,
+      timestamp: new Date(2024, 2, 1 + i, 19),
+      timeBucket: 'Evening',
+      stress: i === 10 ? 5 : 2 + (i % 2) * 0.2
+    }));
+    const spikes = detectEntrySpikes(entries, new Map(), { dayStartHour: 0 });
+    console.assert(spikes.length === 1 && spikes[0]!.metric === 'stress', 'Only the stressful evening should be flagged');
+    console.assert(spikes[0]!.id === 'spike-stress-anomaly-10' && spikes[0]!.direction === 'high', 'Spike should identify the entry');
+    console.assert(spikes[0]!.severity === 'extreme' && spikes[0]!.explanation.includes('above your usual'), 'Spike should be explained');
+    
+    // Three days of rising stress after a steady week
+    const stress = [2, 2.2, 2, 2.2, 2, 2.2, 2, 2.5, 3, 3.5];
+    const summaries = stress.map((value, i) => ({
+      date: `2024-03-${String(1 + i).padStart(2, '0')}`,
+      mood: { valence: 3, energy: 3, focus: 3, stress: value },
+      dayEnd: {},
+      scores: { MC: 0, DSS: 0 }
+    })) as unknown as DailySummary[];
+    const runs = detectRuns(summaries);
+    console.assert(runs.length === 1 && runs[0]!.id === 'run-stress-2024-03-08', 'Rising stress run should be found');
+    console.assert(runs[0]!.date === '2024-03-10' && runs[0]!.direction === 'rising', 'Run should end on its last day');
+    console.assert(detectRuns(summaries.slice(0, 9)).length === 0, 'Two rising days should not be a run');
+    
+    // Dismissals survive re-detection; old anomalies drop out of alerts
+    const merged = mergeAnomalies([{ ...runs[0]!, dismissed: true }], runs);
+    console.assert(merged[0]!.dismissed, 'Dismissal should be kept');
+    console.assert(getActiveAnomalies(runs, 0, new Date(2024, 2, 12)).length === 1, 'Recent anomaly should alert');
+    console.assert(getActiveAnomalies(runs, 0, new Date(2024, 2, 30)).length === 0, 'Old anomaly should not alert');
+    console.assert(getActiveAnomalies(merged, 0, new Date(2024, 2, 12)).length === 0, 'Dismissed anomaly should not alert');
+    
+    // Anomalies trigger matching coach tips
+    const tips = CoachEngine.getInstance().selectRelevantTips(entries[0]!, entries, 3, runs);
+    console.assert(tips[0]!.triggeredBy === runs[0]!.explanation, 'Triggered tip should carry the explanation');
+    console.assert(ANOMALY_TIP_CATEGORIES.stress.some(category => category === tips[0]!.category), 'Triggered tip should address stress');
+    
+    console.log('✅ anomaly detection tests passed');
+  }
+
+  function testBurnoutRisk() {
+    // Two calm weeks, then a week of high stress, short nights, no recovery and fewer friends
+    const summaries = Array.from({ length: 21 }, (_, i) => {
+      const sliding = i >= 14;
+      return {
+        date: `2024-04-${String(1 + i).padStart(2, '0')}`,
+        mood: { valence: 3, energy: 3, focus: 3, stress: sliding ? 4.5 : 2 },
+        dayEnd: {
+          sleepHours: sliding ? 6 : 8,
+          recoveryAction: !sliding,
+          socialTouchpoints: sliding ? 1 : 4
+        },
+        scores: { MC: 0, DSS: 0 }
+      };
+    }) as unknown as DailySummary[];
+    
+    const history = calculateBurnoutHistory(summaries);
+    console.assert(history.length === 21, 'History should have one point per day');
+    console.assert(history[13]!.score === 0 && history[13]!.level === 'low', 'Calm weeks should carry no risk');
+    console.assert(history[20]!.score > history[16]!.score, 'Risk should keep rising through the slide');
+    
+    const current = calculateBurnoutRisk(summaries)!;
+    console.assert(current.date === '2024-04-21' && current.isValid, 'Current risk should be the last day');
+    console.assert(current.sleepDebtHours === 14 && current.components.sleepDebt === 1, 'Seven short nights should saturate sleep debt');
+    console.assert(current.components.recoveryGap === 1, 'No recovery all week should max the recovery gap');
+    console.assert(Math.abs(current.components.socialDecline - 0.75) < 0.001, 'Social contact fell by three quarters');
+    console.assert(current.level === 'severe', `Slide should read as severe, got ${current.score}`);
+    
+    // Long nights repay debt but never bank it
+    console.assert(calculateSleepDebt(summaries.slice(0, 3)) === 0, 'Full nights should carry no debt');
+    console.assert(getBurnoutLevel(BURNOUT_CONFIG.THRESHOLDS.HIGH) === 'high', 'Thresholds should be inclusive');
+    console.assert(!calculateBurnoutHistory(summaries.slice(0, 3))[2]!.isValid, 'Three days should not be enough to judge');
+
+    // Sleep debt follows the user's debt window, matching the sleep report
+    const shortWindow = { targetHours: 8, debtWindowDays: 4 };
+    const shortRisk = calculateBurnoutRisk(summaries, shortWindow)!;
+    const shortDebt = calculateSleepDebtHistory(summaries, shortWindow);
+    console.assert(shortRisk.daysInWindow === 4 && !shortRisk.isValid, 'Burnout should look back over the configured window');
+    console.assert(shortRisk.sleepDebtHours === shortDebt[shortDebt.length - 1]!.debtHours, 'Burnout and sleep report should agree on sleep debt');
+
+    // High risk surfaces burnout tips
+    const entry = createTestMoodEntry({ stress: 4.5, sleepHours: 6, socialTouchpoints: 1 });
+    const tips = CoachEngine.getInstance().selectRelevantTips(entry, [entry], 8, [], current);
+    console.assert(tips.some(tip => tip.conditions.some(condition => condition.score === 'burnoutRisk')), 'Burnout tips should be selected');
+    
+    console.log('✅ burnout risk tests passed');
+  }
+
+  function testSleepMetrics() {
+    // Bed and wake times across midnight
+    console.assert(getSleepDurationHours('23:30', '07:00') === 7.5, 'Sleep should span midnight');
+    console.assert(parseClockTime('25:00') === null && parseClockTime('06:45') === 405, 'Clock times should be validated');
+    
+    // Debt builds after short nights, is repaid by long ones and forgotten outside the window
+    const nights = [6, 6, 6, 9].map((sleepHours, i) => ({
+      date: `2024-05-0${1 + i}`,
+      mood: { valence: 3, energy: 3, focus: 3, stress: 2 },
+      dayEnd: { sleepHours, bedTime: i % 2 === 0 ? '23:30' : '00:30', wakeTime: '07:00' },
+      scores: { MC: 0, DSS: 0 }
+    })) as unknown as DailySummary[];
+    const debt = calculateSleepDebtHistory(nights, { targetHours: 8, debtWindowDays: 3 });
+    console.assert(debt.map(point => point.debtHours).join() === '2,4,6,3', 'Rolling debt should follow the window');
+    console.assert(calculateSleepDebt(nights, 6) === 0, 'Meeting the target should leave no debt');
+    
+    // Bedtimes either side of midnight are an hour apart, not 23
+    const regularity = calculateSleepRegularity(nights)!;
+    console.assert(regularity.bedTimeSD !== null && regularity.bedTimeSD < 60, 'Bedtimes should unwrap around midnight');
+    console.assert(regularity.wakeTimeSD === 0 && regularity.score > 0 && regularity.score < 100, 'Regularity should reflect variation');
+    console.assert(calculateSleepRegularity(nights.slice(0, 2)) === null, 'Two nights should not be enough');
+    
+    // Energy peaking in the morning marks a morning type
+    const checkins = Array.from({ length: 12 }, (_, i) => createTestMoodEntry({
+      id: `chrono-${i}`,
+      timeBucket: i % 2 === 0 ? 'Morning' : 'Evening',
+      energy: i % 2 === 0 ? 4.5 : 2
+    }));
+    const lark = inferChronotype(checkins);
+    console.assert(lark.chronotype === 'morning' && lark.peakBucket === 'Morning', 'Morning energy should read as a morning type');
+    const owl = inferChronotype(checkins.map(entry => ({ ...entry, energy: entry.timeBucket === 'Evening' ? 4.5 : 2 })));
+    console.assert(owl.chronotype === 'evening', 'Evening energy should read as an evening type');
+    console.assert(inferChronotype(checkins.slice(0, 4)).chronotype === 'unknown', 'Few check-ins should not decide');
+    
+    console.log('✅ sleep metrics tests passed');
+  }
+
+  function testPowerHoursSmoothing() {
+    // Six steady Monday 9 AM check-ins, one great Tuesday 2 PM, and filler elsewhere
+    const at = (day: number, hour: number, focus: number, i: number) => createTestMoodEntry({
+      id: `power-${day}-${hour}-${i}`,
+      timestamp: new Date(2024, 0, day, hour),
+      focus
+    });
+    const entries = [
+      ...Array.from({ length: 6 }, (_, i) => at(1 + 7 * i, 9, 4, i)),
+      at(2, 14, 5, 0),
+      ...Array.from({ length: 8 }, (_, i) => at(3 + (i % 3), 10 + i, 2, i))
+    ];
+    
+    const result = generatePowerHours(entries, DEFAULT_SCORING_PROFILE, new Map(), { metric: 'focus' });
+    const strength = POWER_HOURS_CONFIG.CELL_PRIOR_STRENGTH;
+    console.assert(result.metric === 'focus', 'Heatmap should record its metric');
+    console.assert(result.counts[1]![9] === 6 && result.counts[2]![14] === 1, 'Cells should count their entries');
+    console.assert(result.confidence[1]![9] === parseFloat((6 / (6 + strength)).toFixed(3)), 'Confidence should be n / (n + k)');
+    console.assert(result.matrix[2]![14]! < 5 && result.matrix[0]![0] === 0, 'A lone entry should be pulled toward its prior; empty cells stay 0');
+    
+    // The well-sampled cell outranks the single great check-in
+    const top = result.peakHours[0]!;
+    console.assert(top.weekday === 1 && top.hour === 9 && top.count === 6, `Top peak should be Monday 9 AM, got ${top.weekday}/${top.hour}`);
+    console.assert(result.lowHours.every(cell => cell.score <= top.score), 'Low hours should score below the peak');
+    
+    console.log('✅ power hours smoothing tests passed');
+  }
+
+  function testScheduleRecommender() {
+    // Monday 10 AM is the best focus hour, Monday 3 PM the worst; nothing else logged
+    const grid = () => Array.from({ length: 7 }, () => Array(24).fill(0) as number[]);
+    const heatmap: PowerHourHeatmap = {
+      metric: 'focus', matrix: grid(), counts: grid(), confidence: grid(), peakHours: [], lowHours: [], lastUpdated: new Date()
+    };
+    heatmap.matrix[1]![10] = 5;
+    heatmap.counts[1]![10] = 5;
+    heatmap.matrix[1]![15] = 1;
+    heatmap.counts[1]![15] = 5;
+    
+    const now = new Date(2024, 0, 1, 0, 0); // Monday
+    const task = (id: string, kind: StudyTask['kind'], durationMinutes: number, deadline?: Date): StudyTask => ({
+      id, title: id, kind, durationMinutes, createdAt: now, ...(deadline !== undefined && { deadline })
+    });
+    const tasks = [
+      task('essay', 'deep', 60),
+      task('walk', 'recovery', 60),
+      task('email', 'light', 30),
+      task('overdue', 'deep', 60, new Date(2023, 11, 31))
+    ];
+    
+    const plan = recommendSchedule(tasks, heatmap, { now });
+    const blockFor = (id: string) => plan.blocks.find(block => block.taskId === id)!;
+    console.assert(getWeekStart('2024-01-04') === '2024-01-01' && plan.weekStart === '2024-01-01', 'Weeks should start on Monday');
+    console.assert(new Date(blockFor('essay').start).getHours() === 10, 'Deep work should take the peak focus hour');
+    console.assert(new Date(blockFor('walk').start).getHours() === 15, 'Recovery should take the low focus hour');
+    console.assert(new Date(blockFor('email').start).getHours() === 8, 'Light work should take the earliest free hour');
+    console.assert(plan.unscheduled.length === 1 && plan.unscheduled[0]!.taskId === 'overdue', 'Past deadlines cannot be planned');
+    
+    // Long deep tasks split into capped blocks
+    const long = recommendSchedule([task('thesis', 'deep', 300)], heatmap, { now });
+    console.assert(long.blocks.every(block => block.durationMinutes <= 120), 'Deep blocks should be capped');
+    console.assert(long.blocks.reduce((sum, block) => sum + block.durationMinutes, 0) === 300, 'All deep time should be planned');
+    
+    // Moving a block pins it; overlaps are refused; pinned blocks survive regeneration
+    const essay = blockFor('essay');
+    console.assert(moveScheduleBlock(plan, essay.id, new Date(blockFor('walk').start)) === null, 'Blocks should not overlap');
+    const moved = moveScheduleBlock(plan, essay.id, new Date(2024, 0, 2, 9))!;
+    const pinned = moved.blocks.find(block => block.id === essay.id)!;
+    console.assert(pinned.pinned && new Date(pinned.start).getDate() === 2, 'Moved block should be pinned on Tuesday');
+    const replanned = recommendSchedule(tasks, heatmap, { now, keep: moved.blocks.filter(block => block.pinned) });
+    const essayBlocks = replanned.blocks.filter(block => block.taskId === 'essay');
+    console.assert(essayBlocks.length === 1 && essayBlocks[0]!.id === essay.id, 'Pinned time should count toward its task');
+    
+    // iCalendar export
+    const ics = ICSExporter.generateICS(plan.blocks, now);
+    console.assert(ics.startsWith('BEGIN:VCALENDAR\r\n') && ics.endsWith('END:VCALENDAR\r\n'), 'Calendar should use CRLF lines');
+    console.assert(ics.split('BEGIN:VEVENT').length - 1 === plan.blocks.length, 'One event per block');
+    console.assert(ICSExporter.escapeText('a, b; c') === 'a\\, b\\; c', 'Text should be escaped');
+    console.assert(ICSExporter.foldLine('x'.repeat(160)).split('\r\n ').every(line => line.length <= 75), 'Long lines should be folded');
+
+    // Folding counts UTF-8 octets and never splits a character
+    const title = 'Révision de l’examen final 📚 '.repeat(4);
+    const unicodeIcs = ICSExporter.generateICS([{ ...essay, title }], now);
+    const encoder = new TextEncoder();
+    const physicalLines = unicodeIcs.split('\r\n');
+    console.assert(physicalLines.every(line => encoder.encode(line).length <= 75), 'Folded lines should fit in 75 octets');
+    console.assert(!physicalLines.some(line => /[\uD800-\uDBFF]$|^ ?[\uDC00-\uDFFF]/.test(line)), 'Folding should not split surrogate pairs');
+    console.assert(unicodeIcs.replace(/\r\n /g, '').includes(`SUMMARY:${title}`), 'Unfolding should restore the summary');
+    
+    console.log('✅ schedule recommender tests passed');
+  }
+
+  function testGoals() {
+    // Monday to Wednesday of the week starting 2024-01-08
+    const days = [
+      { stress: 3, deepworkMinutes: 100, sleepHours: 6 },
+      { stress: 2, deepworkMinutes: 100, sleepHours: 7.5 },
+      { stress: 2, deepworkMinutes: 100, sleepHours: 8 }
+    ].map((day, i) => ({
+      date: `2024-01-${String(8 + i).padStart(2, '0')}`,
+      mood: { valence: 3, energy: 3, focus: 3, stress: day.stress },
+      dayEnd: { deepworkMinutes: day.deepworkMinutes, sleepHours: day.sleepHours },
+      scores: { MC: 0, DSS: 0 }
+    })) as unknown as DailySummary[];
+    
+    const createdAt = new Date(2024, 0, 1);
+    const [stressGoal, deepGoal, sleepGoal] = GOAL_TEMPLATES.slice(0, 3).map((template, i): Goal => ({
+      ...template, id: `goal-${i}`, active: true, createdAt
+    }));
+    
+    // Mid-week: averages and pace decide the status
+    const stress = evaluateGoal(stressGoal!, days, '2024-01-08', '2024-01-10');
+    console.assert(stress.status === 'on-track' && stress.value === 2.33 && stress.progress === 1, 'Average stress 2.33 should be on track');
+    const deep = evaluateGoal(deepGoal!, days, '2024-01-08', '2024-01-10');
+    console.assert(deep.status === 'on-track' && deep.value === 300 && deep.progress === 0.5, 'Deep work should be on pace for 700');
+    const sleep = evaluateGoal(sleepGoal!, days, '2024-01-08', '2024-01-10');
+    console.assert(sleep.value === 2 && sleep.status === 'on-track', 'Two good nights with four to go should be on track');
+    console.assert(evaluateGoal({ ...sleepGoal!, target: 2 }, days, '2024-01-08', '2024-01-10').status === 'met', 'Reached day counts are met early');
+    console.assert(evaluateGoal({ ...stressGoal!, target: 2 }, days, '2024-01-08', '2024-01-10').status === 'at-risk', 'Average over target should be at risk');
+    
+    // Once the week is over the outcome is final
+    const final = [stressGoal!, deepGoal!, sleepGoal!].map(goal => evaluateGoal(goal, days, '2024-01-08', '2024-01-15').status);
+    console.assert(final.join() === 'met,missed,missed', `Finished week should be met or missed, got ${final.join()}`);
+    
+    // History covers every week since creation; stored weeks are final
+    const history = evaluateGoalHistory(stressGoal!, days, new Date(2024, 0, 15, 12), 0);
+    console.assert(history.map(week => week.weekStart).join() === '2024-01-01,2024-01-08,2024-01-15', 'History should have one row per week');
+    console.assert(history[0]!.complete && !history[2]!.complete, 'Only past weeks should be complete');
+    const stored = [{ ...history[1]!, status: 'missed' as const }, { ...history[1]!, goalId: 'deleted' }];
+    const merged = mergeGoalHistory(stored, history, [stressGoal!]);
+    console.assert(merged.length === 2 && merged[0]!.weekStart === '2024-01-08' && merged[0]!.status === 'missed', 'Stored weeks should win and deleted goals drop out');
+    
+    // Descriptions and validation
+    console.assert(describeGoal(sleepGoal!) === 'Sleep ≥ 7 h on 5 days', 'Days goals should describe their threshold');
+    console.assert(getGoalErrors({ ...sleepGoal!, target: 8 }).length === 1, 'A week has at most 7 days');
+    console.assert(getGoalErrors({ ...stressGoal!, aggregation: 'total' }).length === 1, 'Scores cannot be totalled');
+    
+    // At-risk goals surface tips that name them
+    const reports = evaluateActiveGoals([{ ...stressGoal!, target: 2 }], days, new Date(2024, 0, 10, 12), 0);
+    const entry = createTestMoodEntry({ stress: 3 });
+    const tips = CoachEngine.getInstance().selectRelevantTips(entry, [entry], 8, [], null, null, reports);
+    console.assert(tips.some(tip => tip.relatedGoal?.includes(stressGoal!.title)), 'Tips should reference the at-risk goal');
+    
+    console.log('✅ goals tests passed');
+  }
+
+  function testPhaseBaselines() {
+    const phases: AcademicPhase[] = [
+      { id: 'c1', type: 'classes', name: 'Fall classes', start: '2024-01-01', end: '2024-01-07' },
+      { id: 'f1', type: 'finals', name: 'Fall finals', start: '2024-01-08', end: '2024-01-11' },
+      { id: 'c2', type: 'classes', name: 'Spring classes', start: '2024-01-12', end: '2024-01-20' }
+    ];
+    console.assert(getPhaseForDay(phases, '2024-01-11')?.id === 'f1', 'Phase ranges should include their last day');
+    console.assert(getPhaseForDay(phases, '2024-01-21') === null, 'Days after every phase have none');
+    console.assert(matchesPhaseFilter(phases, '2024-01-21', 'none') && matchesPhaseFilter(phases, '2024-01-21', 'all'), 'Unphased days match none and all');
+    
+    // Calm classes, stressed finals; the last finals day is as stressed as the earlier ones
+    const stressOf = (day: number) => day >= 8 && day <= 11 ? 5 : 1 + (day % 2);
+    const entries = Array.from({ length: 11 }, (_, i) => createTestMoodEntry({
+      id: `phase-${i + 1}`,
+      timestamp: new Date(2024, 0, i + 1, 12),
+      stress: stressOf(i + 1),
+      valence: stressOf(i + 1) === 5 ? 2 : 4
+    }));
+    const lastFinals = entries[10]!;
+    
+    // Disabled calendar leaves the profile untouched
+    console.assert(applyAcademicCalendar(DEFAULT_SCORING_PROFILE, { phases, samePhaseBaselines: false }, DEFAULT_DAY_START_HOUR) === DEFAULT_SCORING_PROFILE, 'Same-phase baselines are opt-in');
+    console.assert(applyAcademicCalendar(DEFAULT_SCORING_PROFILE, { phases: [], samePhaseBaselines: true }, DEFAULT_DAY_START_HOUR) === DEFAULT_SCORING_PROFILE, 'No phases means no change');
+    
+    const phaseProfile = applyAcademicCalendar(DEFAULT_SCORING_PROFILE, { phases, samePhaseBaselines: true }, DEFAULT_DAY_START_HOUR);
+    console.assert(describeBaseline(phaseProfile.baseline) === 'All history, same phase', 'Baseline label should mention the phase');
+    
+    const allHistory = scoreEntry(lastFinals, entries, DEFAULT_SCORING_PROFILE);
+    const samePhase = scoreEntry(lastFinals, entries, phaseProfile);
+    console.assert(allHistory.baselineSize === 10 && samePhase.baselineSize === 3, `Finals should only be compared with earlier finals, got ${samePhase.baselineSize}`);
+    console.assert(allHistory.MC < -0.5, 'Against all history finals look terrible');
+    console.assert(samePhase.isValid && Math.abs(samePhase.MC) < 0.01, `Against earlier finals the day is typical, got ${samePhase.MC}`);
+    
+    // A classes day after finals skips the finals days
+    const classesDay = createTestMoodEntry({ id: 'phase-12', timestamp: new Date(2024, 0, 12, 12), stress: 2, valence: 4 });
+    console.assert(scoreEntry(classesDay, [...entries, classesDay], phaseProfile).baselineSize === 7, 'Classes should use both classes phases');
+
+    // A check-in before the day boundary on the first night of finals still belongs to classes
+    const lateNight = createTestMoodEntry({ id: 'phase-late', timestamp: new Date(2024, 0, 8, 1) });
+    console.assert(scoreEntry(lateNight, [...entries, lateNight], phaseProfile).baselineSize === 7, 'Phases should follow the day boundary like the daily summaries');
+    
+    // Validation and per-phase comparison
+    const draft = { type: 'break' as const, name: 'Winter break', start: '2024-01-11', end: '2024-01-13' };
+    console.assert(getAcademicPhaseErrors(draft, phases).length === 1, 'Overlapping phases should be rejected');
+    console.assert(getAcademicPhaseErrors({ ...draft, start: '2024-02-10', end: '2024-02-01' }).length === 1, 'Phases must not end before they start');
+    console.assert(getAcademicPhaseErrors({ ...draft, start: '2024-02-01', end: '2024-02-10' }, phases).length === 0, 'A separate range is valid');
+    
+    const summaries = buildDailySummaries(entries, DEFAULT_SCORING_PROFILE, { dayStartHour: 0 });
+    const rows = comparePhases(summaries, phases);
+    console.assert(rows.map(row => `${row.phase}:${row.days}`).join() === 'classes:7,finals:4', 'Rows should cover the logged phase types');
+    console.assert(rows[1]!.stress === 5 && rows[0]!.stress < 2, 'Finals should be the stressed phase');
+    
+    console.log('✅ phase baseline tests passed');
+  }
+
+  function testScoreExplanations() {
+    // Steady history, then a stressful, flat day
+    const history = Array.from({ length: 6 }, (_, i) => createTestMoodEntry({
+      id: `explain-${i}`,
+      timestamp: new Date(2024, 0, i + 1, 12),
+      valence: 3 + (i % 2),
+      energy: 3,
+      focus: 3,
+      stress: 2 + (i % 2),
+      deepworkMinutes: 60,
+      sleepHours: 7 + (i % 2)
+    }));
+    const today = createTestMoodEntry({
+      id: 'explain-today', timestamp: new Date(2024, 0, 7, 12),
+      valence: 3, energy: 3, focus: 3, stress: 5, deepworkMinutes: 60, sleepHours: 7.5
+    });
+    const scores = scoreEntry(today, [...history, today]);
+    const { MC, DSS } = explainScores(scores);
+    
+    const total = MC.contributions.reduce((sum, c) => sum + c.contribution, 0);
+    console.assert(Math.abs(total - scores.MC) < 0.01, `Contributions should add up to MC, got ${total} vs ${scores.MC}`);
+    console.assert(MC.contributions[0]!.component === 'stress' && MC.contributions[0]!.contribution < 0, 'Stress should be the largest, negative contribution');
+    console.assert(MC.contributions.every((c, i, all) => i === 0 || Math.abs(all[i - 1]!.contribution) >= Math.abs(c.contribution)), 'Contributions should be ranked by size');
+    console.assert(MC.contributions[0]!.mean === 2.5 && MC.contributions[0]!.raw === 5, 'Contributions should carry the baseline mean');
+    console.assert(MC.summary.startsWith('MC is −') && MC.summary.includes('stress (5 vs your usual 2.5, far above usual)'), `Summary should name stress, got "${MC.summary}"`);
+    console.assert(DSS.contributions.length === 3 && DSS.metric === 'DSS', 'DSS should have three components');
+    
+    // Without a baseline the summary says so
+    const first = explainScores(scoreEntry(history[0]!, history));
+    console.assert(!first.MC.isValid && first.MC.summary.startsWith('Not enough history'), 'Provisional scores should be explained as such');
+    
+    // Daily summaries carry the explanation for the trends tooltip
+    const days = buildDailySummaries([...history, today], DEFAULT_SCORING_PROFILE, { dayStartHour: 0 });
+    console.assert(days[days.length - 1]!.explanation.MC.value === days[days.length - 1]!.scores.MC, 'Daily explanations should match daily scores');
+    
+    console.log('✅ score explanation tests passed');
+  }
+
+  function testStorageAdapters() {
+    // Only CampusThrive keys move, and the source value wins
+    const source = new MemoryStorageAdapter();
+    const target = new MemoryStorageAdapter();
+    source.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, '[1]');
+    source.setItem('other-app-key', 'x');
+    target.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, '[]');
+    const copied = copyAdapterKeys(source, target, Object.values(STORAGE_CONFIG.KEYS));
+    console.assert(copied.length === 1 && target.getItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES) === '[1]', 'Migration should copy stored keys over the target');
+    console.assert(target.getItem('other-app-key') === null, 'Migration should ignore unrelated keys');
+    
+    // StorageManager works against any adapter; a small one makes quota pressure easy
+    const previous = StorageManager.getAdapter();
+    StorageManager.setAdapter(new MemoryStorageAdapter(6000));
+    const entries = Array.from({ length: 5 }, (_, i) => createTestMoodEntry({ id: `stored-${i}`, timestamp: new Date(2024, 0, i + 1, 12) }));
+    const validator = (data: unknown): data is MoodEntry[] => Array.isArray(data);
+    StorageManager.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, entries);
+    const read = StorageManager.getItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, validator, []);
+    console.assert(read.success && read.data.length === 5 && read.data[0]!.timestamp instanceof Date, 'Entries should round-trip through the adapter with dates');
+    
+    // Near capacity, only derived data is dropped
+    StorageManager.setItem(STORAGE_CONFIG.KEYS.COMPUTED_SCORES, 'x'.repeat(4000));
+    const cleanup = StorageManager.forceCleanup();
+    const afterCleanup = StorageManager.getItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, validator, []);
+    console.assert(cleanup.removed === 1 && StorageManager.getAdapter().getItem(STORAGE_CONFIG.KEYS.COMPUTED_SCORES) === null, 'Force cleanup should drop the score cache');
+    console.assert(afterCleanup.success && afterCleanup.data.length === 5, 'Force cleanup should never delete mood entries');
+    
+    // A write that does not fit fails loudly and leaves stored data alone
+    const tooBig = StorageManager.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, Array.from({ length: 8 }, () => entries).flat());
+    const afterFailure = StorageManager.getItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, validator, []);
+    console.assert(!tooBig.success && tooBig.error.code === 'QUOTA_EXCEEDED', 'Oversized writes should report QUOTA_EXCEEDED');
+    console.assert(afterFailure.success && afterFailure.data.length === 5, 'A failed write should keep the previous entries');
+
+    // Writes made while a backend migration is flushing go to the new backend
+    const legacy = new MemoryStorageAdapter();
+    const upgraded = new MemoryStorageAdapter();
+    legacy.setItem(STORAGE_CONFIG.KEYS.SETTINGS, '{}');
+    void StorageManager.migrateAdapter(legacy, upgraded);
+    StorageManager.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, entries);
+    console.assert(StorageManager.getAdapter() === upgraded && upgraded.getItem(STORAGE_CONFIG.KEYS.SETTINGS) === '{}', 'Migration should switch backends before copying');
+    console.assert(upgraded.getItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES) !== null && legacy.getItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES) === null, 'Writes during the flush should land in the new backend');
+
+    StorageManager.setAdapter(previous);
+    console.log('✅ storage adapter tests passed');
+  }
+
+  function testMigrationPipeline() {
+    console.assert(compareVersions('1.10.0', '1.9.0') > 0 && compareVersions('1.0.0', '1.0') === 0, 'Versions should compare as semver, not text');
+    console.assert(MigrationManager.getPendingMigrations('0.0.0', '1.1.0').map(m => m.version).join() === '1.0.0,1.1.0', 'Pending migrations should run in version order');
+    
+    const previous = StorageManager.getAdapter();
+    const adapter = new MemoryStorageAdapter();
+    StorageManager.setAdapter(adapter);
+    const entries = JSON.stringify([createTestMoodEntry({ id: 'migrated' })]);
+    const oldScores = JSON.stringify([{ MC: 0.5, DSS: 0.2, LM: 60, RI: 8, CN: 1 }]);
+    adapter.setItem(STORAGE_CONFIG.KEYS.MIGRATION_VERSION, '1.0.0');
+    adapter.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, entries);
+    adapter.setItem(STORAGE_CONFIG.KEYS.COMPUTED_SCORES, oldScores);
+    
+    // Dry run reports without writing
+    const preview = MigrationManager.dryRun('1.1.0');
+    console.assert(preview.success && preview.data.changedKeys.join() === STORAGE_CONFIG.KEYS.COMPUTED_SCORES, 'Dry run should report the old score cache');
+    console.assert(adapter.getItem(STORAGE_CONFIG.KEYS.COMPUTED_SCORES) === oldScores && MigrationManager.getStoredVersion() === '1.0.0', 'Dry run should not write');
+    
+    // A failing step rolls everything back
+    const failing = [...STORAGE_MIGRATIONS, {
+      version: '1.2.0',
+      description: 'Broken',
+      migrate: () => { throw new Error('boom'); }
+    }];
+    const failed = MigrationManager.run('1.2.0', failing);
+    console.assert(!failed.success && failed.error.code === 'MIGRATION_FAILED', 'A throwing migration should fail the run');
+    console.assert(adapter.getItem(STORAGE_CONFIG.KEYS.COMPUTED_SCORES) === oldScores && adapter.getItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES) === entries, 'Failed runs should restore the snapshot');
+    console.assert(MigrationManager.getStoredVersion() === '1.0.0', 'Failed runs should keep the stored version');
+    
+    // A good run migrates, drops its snapshot and logs both runs
+    const migrated = MigrationManager.run('1.1.0');
+    const log = MigrationManager.getLog();
+    console.assert(migrated.success && adapter.getItem(STORAGE_CONFIG.KEYS.COMPUTED_SCORES) === null, 'Migration should drop the old score cache');
+    console.assert(adapter.getItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES) === entries && MigrationManager.getStoredVersion() === '1.1.0', 'Migration should keep entries and bump the version');
+    console.assert(adapter.getItem(STORAGE_CONFIG.KEYS.MIGRATION_SNAPSHOT) === null, 'Finished runs should not keep a stored snapshot');
+    console.assert(log.length === 2 && log[0]!.status === 'success' && log[1]!.status === 'rolledBack' && log[1]!.error === 'boom', 'Both runs should be logged, newest first');
+    const again = MigrationManager.run('1.1.0');
+    console.assert(again.success && again.data.steps.length === 0, 'Up-to-date data should not migrate again');
+
+    // A snapshot left by an interrupted run is restored on the next load
+    adapter.setItem(STORAGE_CONFIG.KEYS.MIGRATION_SNAPSHOT, JSON.stringify({
+      version: '1.1.0',
+      items: { [STORAGE_CONFIG.KEYS.MOOD_ENTRIES]: entries }
+    }));
+    adapter.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, '[]');
+    MigrationManager.run('1.1.0');
+    console.assert(adapter.getItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES) === entries, 'Interrupted runs should be undone from the stored snapshot');
+    console.assert(adapter.getItem(STORAGE_CONFIG.KEYS.MIGRATION_SNAPSHOT) === null, 'The restored snapshot should be deleted');
+    
+    StorageManager.setAdapter(previous);
+    console.log('✅ migration pipeline tests passed');
+  }
+
+  function testSchemaQuarantine() {
+    // Issues carry a path, what was expected and what was found
+    const bad = { ...createTestMoodEntry({ id: 'bad' }), valence: 7, timeBucket: undefined };
+    const check = validateSchema(MOOD_ENTRY_SCHEMA, bad);
+    console.assert(!check.valid && check.issues.length === 2, 'Schema should report every problem');
+    console.assert(!check.valid && check.issues.some(i => i.path === 'valence' && i.expected === 'number from 0 to 5' && i.received === 'number 7'), 'Issues should name path, expected and received');
+    const nested = arraySchema(MOOD_ENTRY_SCHEMA).check([createTestMoodEntry(), bad], '');
+    console.assert(nested.some(i => i.path === '[1].valence'), 'Collection issues should include the record index');
+    
+    const previous = StorageManager.getAdapter();
+    const adapter = new MemoryStorageAdapter();
+    StorageManager.setAdapter(adapter);
+    const good = [createTestMoodEntry({ id: 'good-1' }), createTestMoodEntry({ id: 'good-2' })];
+    adapter.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, JSON.stringify([good[0], bad, good[1]]));
+    adapter.setItem(STORAGE_CONFIG.KEYS.SETTINGS, JSON.stringify({ theme: 'neon' }));
+    
+    // One bad record is set aside; the rest of the history survives
+    const read = StorageManager.getValidatedItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, arraySchema(MOOD_ENTRY_SCHEMA), []);
+    console.assert(read.success && read.data.map(e => e.id).join() === 'good-1,good-2', 'Valid records should still be returned');
+    const quarantined = QuarantineManager.getRecords();
+    console.assert(quarantined.length === 1 && quarantined[0]!.isElement && quarantined[0]!.issues.length === 2, 'Invalid record should be quarantined with its issues');
+    
+    // Invalid whole values fall back to the default and are kept too
+    console.assert(StorageManager.getAppSettings() === null, 'Invalid settings should read as missing');
+    const settingsRecord = QuarantineManager.getRecords().find(r => r.key === STORAGE_CONFIG.KEYS.SETTINGS);
+    console.assert(settingsRecord !== undefined && !settingsRecord.isElement && adapter.getItem(STORAGE_CONFIG.KEYS.SETTINGS) === null, 'Invalid settings should move to the quarantine');
+    
+    // Repair validates the edit before restoring it
+    const record = quarantined[0]!;
+    const stillBad = QuarantineManager.repair(record.id, JSON.stringify({ ...bad, timeBucket: 'Morning' }));
+    console.assert(!stillBad.success && stillBad.error.message.includes('valence'), 'Repair should reject records that still fail');
+    const fixed = QuarantineManager.repair(record.id, JSON.stringify({ ...bad, timeBucket: 'Morning', valence: 4 }));
+    const restored = StorageManager.getValidatedItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, arraySchema(MOOD_ENTRY_SCHEMA), []);
+    console.assert(fixed.success && restored.success && restored.data.length === 3 && restored.data[2]!.timestamp instanceof Date, 'Repaired records should go back into their collection');
+    
+    QuarantineManager.drop(settingsRecord!.id);
+    console.assert(QuarantineManager.getRecords().length === 0, 'Dropped and repaired records should leave the quarantine');
+
+    // A damaged quarantine record is skipped without losing the others
+    adapter.setItem(STORAGE_CONFIG.KEYS.QUARANTINE, JSON.stringify([{ id: 'damaged' }]));
+    QuarantineManager.add(STORAGE_CONFIG.KEYS.SETTINGS, [{ value: { theme: 'neon' }, issues: [] }], false);
+    const stored = JSON.parse(adapter.getItem(STORAGE_CONFIG.KEYS.QUARANTINE) ?? '[]') as unknown[];
+    console.assert(QuarantineManager.getRecords().length === 1 && stored.length === 2, 'Adding records should keep damaged ones in storage');
+    
+    StorageManager.setAdapter(previous);
+    console.log('✅ schema and quarantine tests passed');
+  }
+
+  function testEntryHistoryAndTrash() {
+    const previous = StorageManager.getAdapter();
+    const adapter = new MemoryStorageAdapter();
+    StorageManager.setAdapter(adapter);
+    EntryManager.clearHistory();
+    
+    const entries = ['e1', 'e2', 'e3'].map((id, i) =>
+      createTestMoodEntry({ id, timestamp: new Date(`2024-01-0${i + 1}T12:00:00Z`) })
+    );
+    StorageManager.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, entries);
+    const ids = () => EntryManager.getEntries().map(e => e.id).join();
+    const trashIds = () => EntryManager.getTrash().map(t => t.entry.id).join();
+    
+    // Deleting moves entries to the trash; undo and redo move them back and forth
+    const deleted = EntryManager.deleteEntries(['e2', 'missing']);
+    console.assert(deleted.success && deleted.data === 1 && ids() === 'e1,e3' && trashIds() === 'e2', 'Delete should move entries to the trash');
+    console.assert(EntryManager.peek().undo?.label === 'Delete 1 entry', 'Delete should be undoable');
+    EntryManager.undo();
+    console.assert(ids().split(',').length === 3 && trashIds() === '', 'Undo should take deleted entries out of the trash');
+    EntryManager.redo();
+    console.assert(ids() === 'e1,e3' && trashIds() === 'e2' && EntryManager.peek().redo === null, 'Redo should delete again');
+    
+    // Single-entry restore, itself undoable
+    const restored = EntryManager.restoreEntry('e2');
+    console.assert(restored.success && trashIds() === '' && ids().includes('e2'), 'Restore should bring the entry back');
+    EntryManager.undo();
+    console.assert(trashIds() === 'e2' && !ids().includes('e2'), 'Undoing a restore should trash the entry again');
+    
+    // Edits are validated and undoable
+    const edited = EntryManager.editEntry({ id: 'e1', valence: 4.5 });
+    const invalid = EntryManager.editEntry({ id: 'e1', valence: 9 });
+    console.assert(edited.success && EntryManager.getEntries().find(e => e.id === 'e1')?.valence === 4.5, 'Edit should be saved');
+    console.assert(!invalid.success && invalid.error.message.includes('valence'), 'Invalid edit should be rejected');
+    EntryManager.undo();
+    console.assert(EntryManager.getEntries().find(e => e.id === 'e1')?.valence === 3, 'Undo should revert the edit');
+    
+    // Imports skip known IDs, revive timestamps and undo without touching the trash
+    const imported = EntryManager.importEntries([
+      entries[0]!,
+      { ...createTestMoodEntry({ id: 'e4' }), timestamp: '2024-01-05T12:00:00.000Z' as unknown as Date }
+    ]);
+    console.assert(imported.success && imported.data === 1, 'Import should add only new entries');
+    console.assert(EntryManager.getEntries().find(e => e.id === 'e4')?.timestamp instanceof Date, 'Imported timestamps should be dates');
+    EntryManager.undo();
+    console.assert(!ids().includes('e4') && trashIds() === 'e2', 'Undoing an import should not trash the entries');
+    
+    // Trash retention purges old entries and the undo steps that could bring them back
+    const later = new Date(Date.now() + (STORAGE_CONFIG.TRASH_RETENTION_DAYS + 1) * 24 * 60 * 60 * 1000);
+    console.assert(EntryManager.purgeExpiredTrash(new Date()) === 0, 'Fresh trash should be kept');
+    console.assert(EntryManager.purgeExpiredTrash(later) === 1 && trashIds() === '', 'Expired trash should be purged');
+    console.assert(EntryManager.peek().undo === null, 'Undo steps for purged entries should be dropped');
+
+    // Entries past the retention period are moved to the trash, not deleted
+    const settings: AppSettings = {
+      theme: 'system',
+      defaultTimeBucket: 'Morning',
+      showCoachTips: true,
+      notifications: { moodReminders: true, coachTips: true, weeklyReports: true },
+      dataRetention: { moodEntriesDays: 30, scoresDays: 30 },
+      privacy: { collectAnalytics: false, crashReporting: false }
+    };
+    StorageManager.setItem(STORAGE_CONFIG.KEYS.SETTINGS, settings);
+    const expired = StorageManager.cleanupExpiredData();
+    console.assert(expired.removed === 2 && ids() === '' && EntryManager.getTrash().length === 2, 'Expired entries should go to the trash');
+    EntryManager.undo();
+    console.assert(ids().split(',').length === 2 && trashIds() === '', 'Retention cleanup should be undoable');
+    
+    // Clearing everything is a soft, undoable deletion that keeps user-authored data
+    const customProfile = { ...DEFAULT_SCORING_PROFILE, id: 'custom', name: 'Custom' };
+    StorageManager.setItem(STORAGE_CONFIG.KEYS.SETTINGS, {
+      ...settings,
+      scoringProfiles: [customProfile],
+      academicCalendar: { phases: [{ id: 'p1', type: 'finals', name: 'Finals', start: '2024-01-08', end: '2024-01-11' }], samePhaseBaselines: true }
+    });
+    adapter.setItem(STORAGE_CONFIG.KEYS.GOALS, '[]');
+    adapter.setItem(STORAGE_CONFIG.KEYS.QUARANTINE, '[]');
+    adapter.setItem(STORAGE_CONFIG.KEYS.ENTRY_REVISIONS, '[]');
+    adapter.setItem(STORAGE_CONFIG.KEYS.COMPUTED_SCORES, '[]');
+    const cleared = StorageManager.clearAll();
+    console.assert(cleared.success && ids() === '' && EntryManager.getTrash().length === 2, 'Clear all should keep entries in the trash');
+    console.assert(
+      [STORAGE_CONFIG.KEYS.GOALS, STORAGE_CONFIG.KEYS.QUARANTINE, STORAGE_CONFIG.KEYS.ENTRY_REVISIONS].every(key => adapter.getItem(key) !== null),
+      'Clear all should keep goals, the quarantine and revision history'
+    );
+    console.assert(adapter.getItem(STORAGE_CONFIG.KEYS.COMPUTED_SCORES) === null, 'Clear all should remove derived data');
+    const keptSettings = StorageManager.getAppSettings();
+    console.assert(
+      keptSettings?.scoringProfiles?.[0]?.id === 'custom' && keptSettings.academicCalendar?.phases.length === 1,
+      'Clear all should keep scoring profiles and the academic calendar'
+    );
+    EntryManager.undo();
+    console.assert(ids().split(',').length === 2 && trashIds() === '', 'Clear all should be undoable');
+    
+    EntryManager.clearHistory();
+    StorageManager.setAdapter(previous);
+    console.log('✅ entry history and trash tests passed');
+  }
+
+  function testEntryRevisions() {
+    const previous = StorageManager.getAdapter();
+    StorageManager.setAdapter(new MemoryStorageAdapter());
+    EntryManager.clearHistory();
+    
+    const original = createTestMoodEntry({ id: 'r1', sleepHours: 8 });
+    StorageManager.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, [original, createTestMoodEntry({ id: 'r2', timestamp: new Date('2024-01-02T12:00:00Z') })]);
+    const current = () => EntryManager.getEntries().find(e => e.id === 'r1')!;
+    const before = ScoreCacheManager.sync(EntryManager.getEntries(), DEFAULT_SCORING_PROFILE);
+    
+    // Each edit records the changed fields and their previous values
+    EntryManager.editEntry({ id: 'r1', valence: 4, tags: ['gym'] });
+    const [first] = EntryManager.getRevisions('r1');
+    console.assert(first?.changedFields.length === 2 && first.changedFields.includes('valence') && first.changedFields.includes('tags'), 'Revision should list changed fields');
+    console.assert(first?.previousValues.valence === 3 && first.previousValues.tags?.length === 0, 'Revision should keep previous values');
+    
+    // Unset fields are recorded too; saving without changes adds nothing
+    const withoutSleep = { ...current() };
+    delete withoutSleep.sleepHours;
+    EntryManager.saveEntry(withoutSleep);
+    EntryManager.saveEntry(current());
+    const revisions = EntryManager.getRevisions('r1');
+    console.assert(revisions.length === 2 && revisions[0]!.changedFields.join() === 'sleepHours' && revisions[0]!.previousValues.sleepHours === 8, 'Unsetting a field should be a revision');
+    console.assert(current().sleepHours === undefined, 'Saved entry should drop the unset field');
+    
+    // Edited entries are rescored
+    const after = ScoreCacheManager.sync(EntryManager.getEntries(), DEFAULT_SCORING_PROFILE);
+    const row = (result: typeof before) => (result.success ? result.data.find(r => r.entryId === 'r1') : undefined);
+    console.assert(row(before) !== undefined && row(after)?.entryFingerprint !== row(before)?.entryFingerprint, 'Edits should invalidate cached scores');
+    
+    // Reverting rebuilds the entry from before the chosen revision and is itself a revision
+    const oldest = revisions[revisions.length - 1]!;
+    const state = EntryManager.getRevisionState('r1', oldest.id);
+    console.assert(state?.valence === 3 && state.sleepHours === 8 && state.tags.length === 0, 'Revision state should roll back every later edit');
+    const reverted = EntryManager.revertToRevision('r1', oldest.id);
+    console.assert(reverted.success && current().valence === 3 && current().sleepHours === 8, 'Revert should restore the earlier version');
+    console.assert(EntryManager.getRevisions('r1').length === 3 && EntryManager.peek().undo?.label === 'Revert check-in', 'Revert should be recorded and undoable');
+    EntryManager.undo();
+    console.assert(current().valence === 4 && EntryManager.getRevisions('r1').length === 4, 'Undoing a revert should be recorded as well');
+    
+    // Purging an entry for good drops its history
+    EntryManager.deleteEntries(['r1']);
+    EntryManager.purgeTrash(['r1']);
+    console.assert(EntryManager.getRevisions('r1').length === 0, 'Purged entries should lose their revisions');
+    
+    EntryManager.clearHistory();
+    StorageManager.setAdapter(previous);
+    console.log('✅ entry revision tests passed');
+  }
+
+  function testTagCombinations() {
+    // Study lifts MC by 1; coffee does nothing but is usually logged with study
+    const groups: Array<[string[], number, number]> = [
+      [['study', 'coffee'], 1, 6],
+      [['study'], 1, 2],
+      [['coffee'], 0, 2],
+      [[], 0, 6]
+    ];
+    const observations = groups.flatMap(([tags, mc, count]) =>
+      Array.from({ length: count }, (_, i) => ({ tags, MC: mc + (i % 2 === 0 ? 0.1 : -0.1), DSS: 0 }))
+    );
+    
+    const cooccurrence = calculateTagCooccurrence(observations, ['study', 'coffee']);
+    console.assert(cooccurrence.counts[0]![1] === 6, 'Co-occurrence should count joint use');
+    console.assert(cooccurrence.counts[1]![1] === 8, 'Diagonal should count each tag');
+    
+    // Effects add up, so there is no interaction
+    const [interaction] = analyzeTagInteractions(observations, ['study', 'coffee']);
+    console.assert(interaction !== undefined && Math.abs(interaction.interactionMC) < 0.01, 'Additive tags should not interact');
+    
+    // Marginally coffee looks helpful; the regression separates it from study
+    const coffeeMarginal = analyzeDriverObservations(observations, 3).find(d => d.tag === 'coffee')!;
+    console.assert(coffeeMarginal.mcImpact > 0.4, 'Coffee should get credit for study when analyzed alone');
+    const regression = regressOnTags(observations, ['study', 'coffee'])!;
+    const effectOf = (tag: string) => regression.effects.find(e => e.tag === tag)!;
+    console.assert(Math.abs(effectOf('study').mcEffect - 1) < 0.05, 'Study partial effect should be about 1');
+    console.assert(Math.abs(effectOf('coffee').mcEffect) < 0.05, 'Coffee partial effect should be about 0');
+    console.assert(effectOf('study').isSignificant && !effectOf('coffee').isSignificant, 'Only study should be significant');
+    
+    console.log('✅ tag combination tests passed');
+  }
+
   function testValidateScoringConfig() {
     const isValid = validateScoringConfig();
     
@@ -388,6 +1484,31 @@ function runScoringTests() {
       testAnalyzeDrivers();
       testGeneratePowerHours();
       testCalculateAllScores();
+      testCanonicalScoring();
+      testScoringProfiles();
+      testBaselineModes();
+      testScoreCache();
+      testRobustNormalization();
+      testDailySummaries();
+      testDriverSignificance();
+      testLaggedDrivers();
+      testTagCombinations();
+      testStreakEngine();
+      testTrendEngine();
+      testForecast();
+      testAnomalyDetection();
+      testBurnoutRisk();
+      testSleepMetrics();
+      testPowerHoursSmoothing();
+      testScheduleRecommender();
+      testGoals();
+      testPhaseBaselines();
+      testScoreExplanations();
+      testStorageAdapters();
+      testMigrationPipeline();
+      testSchemaQuarantine();
+      testEntryHistoryAndTrash();
+      testEntryRevisions();
       testValidateScoringConfig();
       testEdgeCases();
       
@@ -7,7 +7,29 @@
  * All calculations use z-score normalization with historical data as baseline.
  */
 
-import { MoodEntry, TimeBucket } from '@/types';
+import {
+  MoodEntry,
+  TimeBucket,
+  ComputedScores,
+  ScoringProfile,
+  BaselineConfig,
+  BaselineMode,
+  NormalizationConfig,
+  CachedEntryScores,
+  DriverSignificance,
+  PowerHourHeatmap,
+  PowerHourMetric,
+  PowerHourCell,
+  AcademicCalendar
+} from '@/types';
+import {
+  welchTTest,
+  cohensD,
+  bootstrapMeanDifferenceCI,
+  benjaminiHochberg,
+  seedFromString
+} from './statistics';
+import { getPhaseForDay } from './phases';
 
 /**
  * Scoring configuration constants
@@ -38,17 +60,205 @@ const SCORING_CONFIG = {
   DSS_MULTIPLIERS: {
     TASKS_TO_LM: 10, // Each task completed adds 10 to LM
     RECOVERY_TO_RI: 1 // Recovery action adds 1 to RI
+  },
+  
+  /** Burnout risk component weights */
+  BURNOUT_WEIGHTS: {
+    STRESS: 0.35,      // Sustained high stress
+    SLEEP_DEBT: 0.3,   // Accumulated sleep debt
+    RECOVERY_GAP: 0.2, // Days without a recovery action
+    SOCIAL_DECLINE: 0.15 // Falling social touchpoints
   }
 } as const;
 
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Settings for driver significance testing
+ */
+export const DRIVER_SIGNIFICANCE_CONFIG = {
+  /** False discovery rate for Benjamini–Hochberg correction across tags */
+  FALSE_DISCOVERY_RATE: 0.05,
+  /** Bootstrap resamples for mean-difference intervals */
+  BOOTSTRAP_ITERATIONS: 1000,
+  /** Confidence level of bootstrap intervals */
+  CONFIDENCE_LEVEL: 0.95,
+  /** Cohen's d at which a significant effect counts as strong */
+  STRONG_EFFECT_SIZE: 0.5
+} as const;
+
+/**
+ * Settings for power hour smoothing
+ */
+export const POWER_HOURS_CONFIG = {
+  /** Pseudo-entries pulling each cell toward its weekday and hour averages */
+  CELL_PRIOR_STRENGTH: 3,
+  /** Pseudo-entries pulling each weekday and hour average toward the overall average */
+  MARGINAL_PRIOR_STRENGTH: 5,
+  /** Share of logged cells reported as peak (and as low) hours */
+  PEAK_FRACTION: 0.1,
+  /** Confidence below which a cell is shown faded */
+  LOW_CONFIDENCE: 0.5
+} as const;
+
+/**
+ * Default baseline: every earlier entry counts equally, as in the specification
+ */
+export const DEFAULT_BASELINE_CONFIG: BaselineConfig = {
+  mode: 'all-history',
+  windowDays: 28,
+  halfLifeDays: 14
+};
+
+/**
+ * Default normalization: mean/standard deviation without winsorization
+ */
+export const DEFAULT_NORMALIZATION_CONFIG: NormalizationConfig = {
+  method: 'mean-sd',
+  winsorizeLimit: 0
+};
+
+/**
+ * Default scoring profile, mirroring the specification weights in SCORING_CONFIG
+ */
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: 'default-spec',
+  name: 'Default spec',
+  description: 'The weights from the CampusThrive specification',
+  mcWeights: {
+    valence: SCORING_CONFIG.MC_WEIGHTS.VALENCE,
+    energy: SCORING_CONFIG.MC_WEIGHTS.ENERGY,
+    focus: SCORING_CONFIG.MC_WEIGHTS.FOCUS,
+    stress: SCORING_CONFIG.MC_WEIGHTS.STRESS
+  },
+  dssWeights: {
+    lm: SCORING_CONFIG.DSS_WEIGHTS.LM,
+    ri: SCORING_CONFIG.DSS_WEIGHTS.RI,
+    cn: SCORING_CONFIG.DSS_WEIGHTS.CN
+  },
+  dssMultipliers: {
+    tasksToLM: SCORING_CONFIG.DSS_MULTIPLIERS.TASKS_TO_LM,
+    recoveryToRI: SCORING_CONFIG.DSS_MULTIPLIERS.RECOVERY_TO_RI
+  },
+  baseline: DEFAULT_BASELINE_CONFIG,
+  normalization: DEFAULT_NORMALIZATION_CONFIG,
+  builtIn: true
+};
+
+/**
+ * Profiles that ship with the app
+ */
+export const BUILT_IN_SCORING_PROFILES: ScoringProfile[] = [
+  DEFAULT_SCORING_PROFILE,
+  {
+    id: 'exam-season',
+    name: 'Exam season',
+    description: 'Focus and stress weigh more; study output dominates DSS',
+    mcWeights: { valence: 0.3, energy: 0.2, focus: 0.4, stress: -0.3 },
+    dssWeights: { lm: 0.6, ri: 0.3, cn: 0.1 },
+    dssMultipliers: { tasksToLM: 15, recoveryToRI: 1 },
+    builtIn: true
+  },
+  {
+    id: 'athlete',
+    name: 'Athlete',
+    description: 'Energy and recovery weigh more for training-heavy weeks',
+    mcWeights: { valence: 0.3, energy: 0.5, focus: 0.2, stress: -0.2 },
+    dssWeights: { lm: 0.3, ri: 0.5, cn: 0.2 },
+    dssMultipliers: { tasksToLM: 10, recoveryToRI: 2 },
+    builtIn: true
+  }
+];
+
+/**
+ * Find a profile by ID, falling back to the default spec profile
+ */
+export function resolveScoringProfile(
+  profiles: ScoringProfile[],
+  profileId: string | undefined
+): ScoringProfile {
+  return profiles.find(profile => profile.id === profileId) ?? DEFAULT_SCORING_PROFILE;
+}
+
+/**
+ * Apply the academic calendar to a profile's baseline
+ *
+ * With same-phase baselines turned on and at least one phase defined, the
+ * profile's baseline only compares entries within the same phase type.
+ * Entries are placed in phases by the day they count toward under
+ * `dayStartHour`, as in the daily summaries. Otherwise the profile is
+ * returned unchanged.
+ */
+export function applyAcademicCalendar(
+  profile: ScoringProfile,
+  calendar: AcademicCalendar | undefined,
+  dayStartHour: number
+): ScoringProfile {
+  if (!calendar?.samePhaseBaselines || calendar.phases.length === 0) {
+    return profile;
+  }
+  return {
+    ...profile,
+    baseline: { ...(profile.baseline ?? DEFAULT_BASELINE_CONFIG), phases: calendar.phases, dayStartHour }
+  };
+}
+
 /**
  * Z-score calculation result
  */
-interface ZScoreResult {
+export interface ZScoreResult {
   zScore: number;
   mean: number;
   sigma: number;
   isValid: boolean;
+  /** Value is beyond the winsorize limit from the baseline median */
+  isOutlier: boolean;
+  /** Indexes of historical values that were winsorized */
+  winsorizedIndexes: number[];
+}
+
+/**
+ * Outliers found while scoring an entry
+ */
+interface OutlierInfo {
+  /** The scored entry is beyond the outlier limit on at least one dimension */
+  isOutlier: boolean;
+  /** Dimensions on which the scored entry is an outlier */
+  dimensions: string[];
+  /** Baseline entries winsorized on at least one dimension */
+  winsorizedEntryIds: string[];
+}
+
+/**
+ * Raw value, z-score and the baseline statistics it was normalized against
+ */
+interface ComponentScore {
+  raw: number;
+  zScore: number;
+  mean: number;
+  sigma: number;
+}
+
+/**
+ * Baseline that produced a score, for labelling charts and breakdowns
+ */
+interface BaselineInfo {
+  mode: BaselineMode;
+  /** Human-readable description, e.g. "28-day rolling" */
+  label: string;
+  /** Number of historical entries that contributed */
+  entriesUsed: number;
+  /** Kish effective sample size; equals entriesUsed unless weighted */
+  effectiveSize: number;
+}
+
+/**
+ * Historical entries selected for a baseline, with per-entry weights
+ */
+interface WeightedBaseline {
+  entries: MoodEntry[];
+  weights: number[];
+  info: BaselineInfo;
 }
 
 /**
@@ -57,11 +267,13 @@ interface ZScoreResult {
 interface MCCalculationResult {
   mc: number;
   components: {
-    valence: { raw: number; zScore: number };
-    energy: { raw: number; zScore: number };
-    focus: { raw: number; zScore: number };
-    stress: { raw: number; zScore: number };
+    valence: ComponentScore;
+    energy: ComponentScore;
+    focus: ComponentScore;
+    stress: ComponentScore;
   };
+  baseline: BaselineInfo;
+  outliers: OutlierInfo;
   isValid: boolean;
   error: string | undefined;
 }
@@ -72,18 +284,29 @@ interface MCCalculationResult {
 interface DSSCalculationResult {
   dss: number;
   components: {
-    lm: { raw: number; zScore: number };
-    ri: { raw: number; zScore: number };
-    cn: { raw: number; zScore: number };
+    lm: ComponentScore;
+    ri: ComponentScore;
+    cn: ComponentScore;
   };
+  baseline: BaselineInfo;
+  outliers: OutlierInfo;
   isValid: boolean;
   error: string | undefined;
 }
 
+/**
+ * Tags of one exposure paired with the outcome scores being compared
+ */
+export interface DriverObservation {
+  tags: string[];
+  MC: number;
+  DSS: number;
+}
+
 /**
  * Driver analysis result
  */
-interface DriverAnalysisResult {
+export interface DriverAnalysisResult {
   tag: string;
   occurrences: number;
   mcImpact: number;
@@ -92,31 +315,23 @@ interface DriverAnalysisResult {
   avgMCWithout: number;
   avgDSSWith: number;
   avgDSSWithout: number;
+  mcSignificance: DriverSignificance;
+  dssSignificance: DriverSignificance;
   confidence: 'high' | 'medium' | 'low';
 }
 
 /**
- * Power hours analysis result
+ * Options for power hours analysis
  */
-interface PowerHoursResult {
-  matrix: number[][]; // 7x24 matrix (weekday x hour)
-  peakHours: Array<{
-    weekday: number;
-    hour: number;
-    score: number;
-  }>;
-  lowHours: Array<{
-    weekday: number;
-    hour: number;
-    score: number;
-  }>;
-  lastUpdated: Date;
+export interface PowerHoursOptions {
+  /** Metric to map; defaults to MC */
+  metric?: PowerHourMetric;
 }
 
 /**
  * Streak calculation result
  */
-interface StreakResult {
+export interface StreakResult {
   currentStreak: number;
   longestStreak: number;
   streakStartDate: string | null;
@@ -125,46 +340,220 @@ interface StreakResult {
 }
 
 /**
- * Calculate z-score for a value against historical data
+ * Describe a baseline configuration for chart labels
  */
-function calculateZScore(value: number, historicalValues: number[]): ZScoreResult {
-  console.log('Z-Score Calculation Debug:', {
-    value,
-    historicalValues: historicalValues.slice(0, 10), // First 10 for debugging
-    allHistoricalValues: historicalValues,
-    length: historicalValues.length,
-    minRequired: SCORING_CONFIG.MIN_HISTORICAL_ENTRIES
-  });
+export function describeBaseline(config: BaselineConfig = DEFAULT_BASELINE_CONFIG): string {
+  const samePhase = config.phases && config.phases.length > 0 ? ', same phase' : '';
+  switch (config.mode) {
+    case 'rolling':
+      return `${config.windowDays}-day rolling${samePhase}`;
+    case 'ewma':
+      return `EWMA, ${config.halfLifeDays}-day half-life${samePhase}`;
+    default:
+      return `All history${samePhase}`;
+  }
+}
+
+/**
+ * Select and weight the historical entries that form a baseline
+ *
+ * Ages are measured as the distance in days from the scored entry. With
+ * academic phases set, only entries from the same phase type as the scored
+ * entry (by the day they count toward) are considered first.
+ * - all-history: every entry, weight 1
+ * - rolling: entries less than `windowDays` away, weight 1
+ * - ewma: every entry, weight 0.5^(age / halfLifeDays)
+ */
+function buildBaseline(
+  referenceEntry: MoodEntry,
+  historicalEntries: MoodEntry[],
+  config: BaselineConfig = DEFAULT_BASELINE_CONFIG
+): WeightedBaseline {
+  const referenceTime = new Date(referenceEntry.timestamp).getTime();
+  const ageInDays = (entry: MoodEntry) =>
+    Math.abs(referenceTime - new Date(entry.timestamp).getTime()) / MS_PER_DAY;
+
+  let entries = historicalEntries;
+  let weights: number[];
+
+  if (config.phases && config.phases.length > 0) {
+    const phases = config.phases;
+    const dayStartHour = config.dayStartHour ?? 0;
+    const phaseOf = (entry: MoodEntry) => getPhaseForDay(phases, getDayKey(entry.timestamp, dayStartHour))?.type ?? null;
+    const referencePhase = phaseOf(referenceEntry);
+    entries = entries.filter(entry => phaseOf(entry) === referencePhase);
+  }
+
+  if (config.mode === 'rolling') {
+    entries = entries.filter(entry => ageInDays(entry) < config.windowDays);
+    weights = entries.map(() => 1);
+  } else if (config.mode === 'ewma') {
+    weights = entries.map(entry => Math.pow(0.5, ageInDays(entry) / config.halfLifeDays));
+  } else {
+    weights = entries.map(() => 1);
+  }
+
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  const totalSquaredWeight = weights.reduce((sum, w) => sum + w * w, 0);
+
+  return {
+    entries,
+    weights,
+    info: {
+      mode: config.mode,
+      label: describeBaseline(config),
+      entriesUsed: entries.length,
+      effectiveSize: totalSquaredWeight > 0
+        ? parseFloat((totalWeight * totalWeight / totalSquaredWeight).toFixed(2))
+        : 0
+    }
+  };
+}
+
+/**
+ * Baseline info for a failed calculation
+ */
+function emptyBaselineInfo(config: BaselineConfig = DEFAULT_BASELINE_CONFIG): BaselineInfo {
+  return { mode: config.mode, label: describeBaseline(config), entriesUsed: 0, effectiveSize: 0 };
+}
+
+/**
+ * Weighted median (the average of the two middle values when they split
+ * the weight exactly in half)
+ */
+function weightedMedian(values: number[], weights: number[]): number {
+  const order = values.map((_, i) => i).sort((a, b) => values[a]! - values[b]!);
+  const half = weights.reduce((sum, w) => sum + w, 0) / 2;
+
+  let cumulative = 0;
+  for (let k = 0; k < order.length; k++) {
+    const i = order[k]!;
+    cumulative += weights[i]!;
+    if (cumulative > half) {
+      return values[i]!;
+    }
+    if (cumulative === half && k + 1 < order.length) {
+      return (values[i]! + values[order[k + 1]!]!) / 2;
+    }
+  }
+
+  return values[order[order.length - 1]!] ?? 0;
+}
 
+/**
+ * Median and robust sigma (1.4826 * MAD, comparable to a standard deviation
+ * for normally distributed data)
+ */
+function robustStatistics(values: number[], weights: number[]): { median: number; sigma: number } {
+  const median = weightedMedian(values, weights);
+  const mad = weightedMedian(values.map(v => Math.abs(v - median)), weights);
+  return { median, sigma: Math.max(1.4826 * mad, SCORING_CONFIG.SIGMA_FLOOR) };
+}
+
+/**
+ * Calculate z-score for a value against historical data
+ *
+ * When `weights` is given, the statistics are weighted (used by the EWMA
+ * baseline); otherwise every historical value counts equally.
+ *
+ * With a winsorize limit, historical values further than that many robust
+ * sigmas from the median are clamped before the statistics are computed,
+ * and the value itself is flagged as an outlier if it lies beyond it.
+ */
+export function calculateZScore(
+  value: number,
+  historicalValues: number[],
+  weights?: number[],
+  normalization: NormalizationConfig = DEFAULT_NORMALIZATION_CONFIG
+): ZScoreResult {
   if (historicalValues.length < SCORING_CONFIG.MIN_HISTORICAL_ENTRIES) {
-    console.log('Z-Score: Not enough historical entries');
     return {
       zScore: 0,
       mean: value,
       sigma: SCORING_CONFIG.SIGMA_FLOOR,
-      isValid: false
+      isValid: false,
+      isOutlier: false,
+      winsorizedIndexes: []
     };
   }
 
-  const mean = historicalValues.reduce((sum, val) => sum + val, 0) / historicalValues.length;
-  const variance = historicalValues.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / historicalValues.length;
-  const sigma = Math.max(Math.sqrt(variance), SCORING_CONFIG.SIGMA_FLOOR);
+  const w = weights ?? historicalValues.map(() => 1);
+  const robust = robustStatistics(historicalValues, w);
+  const limit = normalization.winsorizeLimit;
+
+  // Winsorize: clamp outlying baseline values to the limit
+  const winsorizedIndexes: number[] = [];
+  const values = limit > 0
+    ? historicalValues.map((val, i) => {
+        const lower = robust.median - limit * robust.sigma;
+        const upper = robust.median + limit * robust.sigma;
+        if (val < lower || val > upper) {
+          winsorizedIndexes.push(i);
+          return Math.min(upper, Math.max(lower, val));
+        }
+        return val;
+      })
+    : historicalValues;
+
+  let mean: number;
+  let sigma: number;
+  if (normalization.method === 'median-mad') {
+    // Clamping does not move the median or MAD, so the robust statistics stand
+    mean = robust.median;
+    sigma = robust.sigma;
+  } else {
+    const totalWeight = w.reduce((sum, weight) => sum + weight, 0);
+    mean = values.reduce((sum, val, i) => sum + w[i]! * val, 0) / totalWeight;
+    const variance = values.reduce((sum, val, i) => sum + w[i]! * Math.pow(val - mean, 2), 0) / totalWeight;
+    sigma = Math.max(Math.sqrt(variance), SCORING_CONFIG.SIGMA_FLOOR);
+  }
   
   const zScore = sigma === 0 ? 0 : (value - mean) / sigma;
   
-  console.log('Z-Score Calculation Result:', {
-    mean,
-    variance,
-    sigma,
-    zScore,
-    isValid: true
-  });
-  
   return {
     zScore,
     mean,
     sigma,
-    isValid: true
+    isValid: true,
+    isOutlier: limit > 0 && Math.abs(value - robust.median) > limit * robust.sigma,
+    winsorizedIndexes
+  };
+}
+
+/**
+ * Summarize outliers across the z-scores of one calculation
+ */
+function collectOutliers(zScores: Record<string, ZScoreResult>, baselineEntries: MoodEntry[]): OutlierInfo {
+  const dimensions = Object.keys(zScores).filter(key => zScores[key]!.isOutlier);
+  const winsorizedIds = new Set<string>();
+  Object.values(zScores).forEach(z => {
+    z.winsorizedIndexes.forEach(i => {
+      const entry = baselineEntries[i];
+      if (entry) winsorizedIds.add(entry.id);
+    });
+  });
+
+  return {
+    isOutlier: dimensions.length > 0,
+    dimensions,
+    winsorizedEntryIds: Array.from(winsorizedIds)
+  };
+}
+
+/**
+ * Outlier info for a calculation without a baseline
+ */
+const NO_OUTLIERS: OutlierInfo = { isOutlier: false, dimensions: [], winsorizedEntryIds: [] };
+
+/**
+ * Build a component score; without a z-score the value is its own baseline
+ */
+function componentScore(raw: number, z?: ZScoreResult): ComponentScore {
+  return {
+    raw,
+    zScore: z?.zScore ?? 0,
+    mean: z?.mean ?? raw,
+    sigma: z?.sigma ?? SCORING_CONFIG.SIGMA_FLOOR
   };
 }
 
@@ -172,18 +561,23 @@ function calculateZScore(value: number, historicalValues: number[]): ZScoreResul
  * Calculate Mood Composite (MC) score
  * 
  * Formula: MC = 0.4*zV + 0.3*zE + 0.2*zF - 0.2*zS
- * Where zV, zE, zF, zS are z-scores of valence, energy, focus, stress
+ * Where zV, zE, zF, zS are z-scores of valence, energy, focus, stress.
+ * The weights shown are the default spec; `profile` can override them, and
+ * its `baseline` selects which historical entries the z-scores use.
  */
 export function calculateMC(
   currentEntry: MoodEntry,
   historicalEntries: MoodEntry[],
-  timeBucket?: TimeBucket
+  timeBucket?: TimeBucket,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ): MCCalculationResult {
   try {
     // Filter historical entries by time bucket if specified
-    const relevantHistorical = timeBucket 
+    const bucketHistorical = timeBucket 
       ? historicalEntries.filter(entry => entry.timeBucket === timeBucket)
       : historicalEntries;
+    const baseline = buildBaseline(currentEntry, bucketHistorical, profile.baseline);
+    const relevantHistorical = baseline.entries;
 
     // Extract current values
     const currentValence = currentEntry.valence;
@@ -198,17 +592,17 @@ export function calculateMC(
     const historicalStress = relevantHistorical.map(e => e.stress);
 
     // Calculate z-scores
-    const valenceZ = calculateZScore(currentValence, historicalValence);
-    const energyZ = calculateZScore(currentEnergy, historicalEnergy);
-    const focusZ = calculateZScore(currentFocus, historicalFocus);
-    const stressZ = calculateZScore(currentStress, historicalStress);
+    const valenceZ = calculateZScore(currentValence, historicalValence, baseline.weights, profile.normalization);
+    const energyZ = calculateZScore(currentEnergy, historicalEnergy, baseline.weights, profile.normalization);
+    const focusZ = calculateZScore(currentFocus, historicalFocus, baseline.weights, profile.normalization);
+    const stressZ = calculateZScore(currentStress, historicalStress, baseline.weights, profile.normalization);
 
-    // Calculate MC using the exact formula
+    // Calculate MC using the profile's weights
     const mc = 
-      SCORING_CONFIG.MC_WEIGHTS.VALENCE * valenceZ.zScore +
-      SCORING_CONFIG.MC_WEIGHTS.ENERGY * energyZ.zScore +
-      SCORING_CONFIG.MC_WEIGHTS.FOCUS * focusZ.zScore +
-      SCORING_CONFIG.MC_WEIGHTS.STRESS * stressZ.zScore;
+      profile.mcWeights.valence * valenceZ.zScore +
+      profile.mcWeights.energy * energyZ.zScore +
+      profile.mcWeights.focus * focusZ.zScore +
+      profile.mcWeights.stress * stressZ.zScore;
 
     // Check if calculation is valid
     const isValid = valenceZ.isValid && energyZ.isValid && focusZ.isValid && stressZ.isValid;
@@ -216,11 +610,16 @@ export function calculateMC(
     return {
       mc: parseFloat(mc.toFixed(3)),
       components: {
-        valence: { raw: currentValence, zScore: valenceZ.zScore },
-        energy: { raw: currentEnergy, zScore: energyZ.zScore },
-        focus: { raw: currentFocus, zScore: focusZ.zScore },
-        stress: { raw: currentStress, zScore: stressZ.zScore }
+        valence: componentScore(currentValence, valenceZ),
+        energy: componentScore(currentEnergy, energyZ),
+        focus: componentScore(currentFocus, focusZ),
+        stress: componentScore(currentStress, stressZ)
       },
+      baseline: baseline.info,
+      outliers: collectOutliers(
+        { valence: valenceZ, energy: energyZ, focus: focusZ, stress: stressZ },
+        relevantHistorical
+      ),
       isValid,
       error: isValid ? undefined : 'Insufficient historical data for reliable calculation'
     };
@@ -228,11 +627,13 @@ export function calculateMC(
     return {
       mc: 0,
       components: {
-        valence: { raw: currentEntry.valence, zScore: 0 },
-        energy: { raw: currentEntry.energy, zScore: 0 },
-        focus: { raw: currentEntry.focus, zScore: 0 },
-        stress: { raw: currentEntry.stress, zScore: 0 }
+        valence: componentScore(currentEntry.valence),
+        energy: componentScore(currentEntry.energy),
+        focus: componentScore(currentEntry.focus),
+        stress: componentScore(currentEntry.stress)
       },
+      baseline: emptyBaselineInfo(profile.baseline),
+      outliers: NO_OUTLIERS,
       isValid: false,
       error: `MC calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
     };
@@ -248,62 +649,49 @@ export function calculateMC(
  * - CN (Connection) = positive_social_touchpoints
  * 
  * Formula: DSS = 0.5*zLM + 0.3*zRI + 0.2*zCN
+ * Weights and multipliers shown are the default spec; `profile` can override them,
+ * and its `baseline` selects which historical entries the z-scores use.
  */
 export function calculateDSS(
   entry: MoodEntry,
-  historicalEntries: MoodEntry[]
+  historicalEntries: MoodEntry[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ): DSSCalculationResult {
   try {
     // Calculate raw component values
-    const lmRaw = (entry.deepworkMinutes || 0) + 
-                  SCORING_CONFIG.DSS_MULTIPLIERS.TASKS_TO_LM * (entry.tasksCompleted || 0);
+    const { tasksToLM, recoveryToRI } = profile.dssMultipliers;
+    const lmRaw = (entry.deepworkMinutes || 0) + tasksToLM * (entry.tasksCompleted || 0);
     
-    const riRaw = (entry.sleepHours || 0) + 
-                  (entry.recoveryAction ? SCORING_CONFIG.DSS_MULTIPLIERS.RECOVERY_TO_RI : 0);
+    const riRaw = (entry.sleepHours || 0) + (entry.recoveryAction ? recoveryToRI : 0);
     
     // For Connection score, use the average of recent socialTouchpoints instead of just current entry
     const allEntries = [...historicalEntries, entry];
     const recentSocialTouchpoints = allEntries.slice(-7).map(e => e.socialTouchpoints || 0); // Last 7 entries
     const cnRaw = recentSocialTouchpoints.reduce((sum, val) => sum + val, 0) / recentSocialTouchpoints.length;
 
-    // Extract historical component values
-    const historicalLM = historicalEntries.map(e => 
-      (e.deepworkMinutes || 0) + SCORING_CONFIG.DSS_MULTIPLIERS.TASKS_TO_LM * (e.tasksCompleted || 0)
+    // Extract historical component values from the selected baseline
+    const baseline = buildBaseline(entry, historicalEntries, profile.baseline);
+
+    const historicalLM = baseline.entries.map(e => 
+      (e.deepworkMinutes || 0) + tasksToLM * (e.tasksCompleted || 0)
     );
     
-    const historicalRI = historicalEntries.map(e => 
-      (e.sleepHours || 0) + (e.recoveryAction ? SCORING_CONFIG.DSS_MULTIPLIERS.RECOVERY_TO_RI : 0)
+    const historicalRI = baseline.entries.map(e => 
+      (e.sleepHours || 0) + (e.recoveryAction ? recoveryToRI : 0)
     );
     
-    const historicalCN = historicalEntries.map(e => e.socialTouchpoints || 0);
-
-    console.log('DSS Calculation Debug:', {
-      cnRaw,
-      recentSocialTouchpoints,
-      historicalCN: historicalCN.slice(0, 10), // First 10 for debugging
-      allHistoricalCN: historicalCN,
-      historicalEntriesLength: historicalEntries.length
-    });
+    const historicalCN = baseline.entries.map(e => e.socialTouchpoints || 0);
 
     // Calculate z-scores
-    const lmZ = calculateZScore(lmRaw, historicalLM);
-    const riZ = calculateZScore(riRaw, historicalRI);
-    const cnZ = calculateZScore(cnRaw, historicalCN);
-
-    console.log('DSS Z-Scores Debug:', {
-      cnZ: {
-        zScore: cnZ.zScore,
-        mean: cnZ.mean,
-        sigma: cnZ.sigma,
-        isValid: cnZ.isValid
-      }
-    });
+    const lmZ = calculateZScore(lmRaw, historicalLM, baseline.weights, profile.normalization);
+    const riZ = calculateZScore(riRaw, historicalRI, baseline.weights, profile.normalization);
+    const cnZ = calculateZScore(cnRaw, historicalCN, baseline.weights, profile.normalization);
 
-    // Calculate DSS using the exact formula
+    // Calculate DSS using the profile's weights
     const dss = 
-      SCORING_CONFIG.DSS_WEIGHTS.LM * lmZ.zScore +
-      SCORING_CONFIG.DSS_WEIGHTS.RI * riZ.zScore +
-      SCORING_CONFIG.DSS_WEIGHTS.CN * cnZ.zScore;
+      profile.dssWeights.lm * lmZ.zScore +
+      profile.dssWeights.ri * riZ.zScore +
+      profile.dssWeights.cn * cnZ.zScore;
 
     // Check if calculation is valid
     const isValid = lmZ.isValid && riZ.isValid && cnZ.isValid;
@@ -311,10 +699,12 @@ export function calculateDSS(
     return {
       dss: parseFloat(dss.toFixed(3)),
       components: {
-        lm: { raw: lmRaw, zScore: lmZ.zScore },
-        ri: { raw: riRaw, zScore: riZ.zScore },
-        cn: { raw: cnRaw, zScore: cnZ.zScore }
+        lm: componentScore(lmRaw, lmZ),
+        ri: componentScore(riRaw, riZ),
+        cn: componentScore(cnRaw, cnZ)
       },
+      baseline: baseline.info,
+      outliers: collectOutliers({ lm: lmZ, ri: riZ, cn: cnZ }, baseline.entries),
       isValid,
       error: isValid ? undefined : 'Insufficient historical data for reliable calculation'
     };
@@ -322,10 +712,12 @@ export function calculateDSS(
     return {
       dss: 0,
       components: {
-        lm: { raw: 0, zScore: 0 },
-        ri: { raw: 0, zScore: 0 },
-        cn: { raw: 0, zScore: 0 }
+        lm: componentScore(0),
+        ri: componentScore(0),
+        cn: componentScore(0)
       },
+      baseline: emptyBaselineInfo(profile.baseline),
+      outliers: NO_OUTLIERS,
       isValid: false,
       error: `DSS calculation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
     };
@@ -333,98 +725,112 @@ export function calculateDSS(
 }
 
 /**
- * Calculate streak information
+ * Logical day (YYYY-MM-DD, local time) a timestamp belongs to
+ *
+ * Timestamps before `dayStartHour` count toward the previous day, so a
+ * 1am check-in after a late night belongs to the day it ended.
  */
-export function calculateStreak(entries: MoodEntry[]): StreakResult {
-  try {
-    if (entries.length === 0) {
-      return {
-        currentStreak: 0,
-        longestStreak: 0,
-        streakStartDate: null,
-        lastEntryDate: null,
-        isActive: false
-      };
-    }
+export function getDayKey(timestamp: Date | string, dayStartHour: number = 0): string {
+  const shifted = new Date(timestamp);
+  shifted.setHours(shifted.getHours() - dayStartHour);
 
-    // Sort entries by date (newest first)
-    const sortedEntries = [...entries].sort((a, b) => 
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    );
+  const month = String(shifted.getMonth() + 1).padStart(2, '0');
+  const day = String(shifted.getDate()).padStart(2, '0');
+  return `${shifted.getFullYear()}-${month}-${day}`;
+}
 
-    const lastEntryDate = sortedEntries[0]?.timestamp || '';
-    const today = new Date();
-    const yesterday = new Date(today);
-    yesterday.setDate(yesterday.getDate() - 1);
-
-    // Group entries by date
-    const entriesByDate = new Map<string, MoodEntry[]>();
-    sortedEntries.forEach(entry => {
-      const dateKey = new Date(entry.timestamp).toDateString();
-      if (!entriesByDate.has(dateKey)) {
-        entriesByDate.set(dateKey, []);
-      }
-      entriesByDate.get(dateKey)!.push(entry);
-    });
+/**
+ * Whole days from one day key to another (positive when `to` is later)
+ */
+export function daysBetweenKeys(from: string, to: string): number {
+  const toUTC = (key: string) => {
+    const [year, month, day] = key.split('-').map(Number);
+    return Date.UTC(year!, month! - 1, day!);
+  };
+  return Math.round((toUTC(to) - toUTC(from)) / MS_PER_DAY);
+}
 
-    const sortedDates = Array.from(entriesByDate.keys()).sort((a, b) => 
-      new Date(b).getTime() - new Date(a).getTime()
-    );
+/**
+ * Calculate streak information from the days that have check-ins
+ *
+ * The current streak counts consecutive days ending today.
+ */
+export function calculateStreakFromDays(
+  dayKeys: string[],
+  lastEntryDate: string | null,
+  todayKey: string = getDayKey(new Date())
+): StreakResult {
+  const sortedDates = Array.from(new Set(dayKeys)).sort().reverse();
+
+  if (sortedDates.length === 0) {
+    return {
+      currentStreak: 0,
+      longestStreak: 0,
+      streakStartDate: null,
+      lastEntryDate: null,
+      isActive: false
+    };
+  }
 
-    // Calculate current streak
-    let currentStreak = 0;
-    let streakStartDate: string | null = null;
-    let isActive = false;
-
-    for (let i = 0; i < sortedDates.length; i++) {
-      const currentDate = new Date(sortedDates[i] || '');
-      const expectedDate = new Date(today);
-      expectedDate.setDate(expectedDate.getDate() - i);
-
-      // Check if this date matches the expected streak date
-      if (currentDate.toDateString() === expectedDate.toDateString()) {
-        currentStreak++;
-        streakStartDate = sortedDates[i] || null;
-        if (i === 0) {
-          isActive = true; // Most recent entry is today
-        }
-      } else {
-        break;
+  // Calculate current streak
+  let currentStreak = 0;
+  let streakStartDate: string | null = null;
+  let isActive = false;
+
+  for (let i = 0; i < sortedDates.length; i++) {
+    // Check if this date matches the expected streak date
+    if (daysBetweenKeys(sortedDates[i]!, todayKey) === i) {
+      currentStreak++;
+      streakStartDate = sortedDates[i]!;
+      if (i === 0) {
+        isActive = true; // Most recent entry is today
       }
+    } else {
+      break;
     }
+  }
 
-    // Calculate longest streak
-    let longestStreak = 0;
-    let tempStreak = 0;
-    let lastDate: Date | null = null;
-
-    for (const dateStr of sortedDates.reverse()) {
-      const currentDate = new Date(dateStr);
-      
-      if (lastDate === null) {
-        tempStreak = 1;
-      } else {
-        const daysDiff = Math.floor((lastDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
-        if (daysDiff === 1) {
-          tempStreak++;
-        } else {
-          longestStreak = Math.max(longestStreak, tempStreak);
-          tempStreak = 1;
-        }
-      }
-      
-      lastDate = currentDate;
+  // Calculate longest streak
+  let longestStreak = 0;
+  let tempStreak = 0;
+  let lastDate: string | null = null;
+
+  for (const dateKey of [...sortedDates].reverse()) {
+    if (lastDate !== null && daysBetweenKeys(lastDate, dateKey) === 1) {
+      tempStreak++;
+    } else {
+      longestStreak = Math.max(longestStreak, tempStreak);
+      tempStreak = 1;
     }
-    
-    longestStreak = Math.max(longestStreak, tempStreak);
+    lastDate = dateKey;
+  }
 
-    return {
-      currentStreak,
-      longestStreak,
-      streakStartDate,
-      lastEntryDate: typeof lastEntryDate === 'string' ? lastEntryDate : lastEntryDate.toISOString(),
-      isActive
-    };
+  longestStreak = Math.max(longestStreak, tempStreak);
+
+  return {
+    currentStreak,
+    longestStreak,
+    streakStartDate,
+    lastEntryDate,
+    isActive
+  };
+}
+
+/**
+ * Calculate streak information
+ *
+ * Days are logical days: entries before `dayStartHour` count toward the
+ * previous day (see `getDayKey`).
+ */
+export function calculateStreak(entries: MoodEntry[], dayStartHour: number = 0): StreakResult {
+  try {
+    const lastEntry = sortChronologically(entries)[entries.length - 1];
+
+    return calculateStreakFromDays(
+      entries.map(entry => getDayKey(entry.timestamp, dayStartHour)),
+      lastEntry ? new Date(lastEntry.timestamp).toISOString() : null,
+      getDayKey(new Date(), dayStartHour)
+    );
   } catch {
     return {
       currentStreak: 0,
@@ -436,55 +842,137 @@ export function calculateStreak(entries: MoodEntry[]): StreakResult {
   }
 }
 
+/**
+ * Test whether a metric differs between entries with and without a tag
+ *
+ * The adjusted p-value starts equal to the raw one; apply
+ * `adjustDriverSignificance` across all tags before reporting.
+ */
+export function testDriverEffect(
+  withTag: number[],
+  withoutTag: number[],
+  seedKey: string = ''
+): DriverSignificance {
+  const { t, degreesOfFreedom, pValue } = welchTTest(withTag, withoutTag);
+  const interval = bootstrapMeanDifferenceCI(withTag, withoutTag, {
+    iterations: DRIVER_SIGNIFICANCE_CONFIG.BOOTSTRAP_ITERATIONS,
+    level: DRIVER_SIGNIFICANCE_CONFIG.CONFIDENCE_LEVEL,
+    seed: seedFromString(seedKey)
+  });
+  const meanOf = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    meanDifference: parseFloat((meanOf(withTag) - meanOf(withoutTag)).toFixed(3)),
+    tStatistic: parseFloat(t.toFixed(3)),
+    degreesOfFreedom: parseFloat(degreesOfFreedom.toFixed(1)),
+    pValue,
+    adjustedPValue: pValue,
+    cohensD: parseFloat(cohensD(withTag, withoutTag).toFixed(3)),
+    confidenceInterval: {
+      lower: parseFloat(interval.lower.toFixed(3)),
+      upper: parseFloat(interval.upper.toFixed(3)),
+      level: interval.level
+    },
+    isSignificant: pValue <= DRIVER_SIGNIFICANCE_CONFIG.FALSE_DISCOVERY_RATE
+  };
+}
+
+/**
+ * Apply Benjamini–Hochberg correction to one metric's tests across all tags
+ */
+export function adjustDriverSignificance(
+  tests: DriverSignificance[],
+  falseDiscoveryRate: number = DRIVER_SIGNIFICANCE_CONFIG.FALSE_DISCOVERY_RATE
+): DriverSignificance[] {
+  const adjusted = benjaminiHochberg(tests.map(test => test.pValue));
+
+  return tests.map((test, index) => ({
+    ...test,
+    adjustedPValue: adjusted[index]!,
+    isSignificant: adjusted[index]! <= falseDiscoveryRate
+  }));
+}
+
+/**
+ * Grade a driver by its corrected significance and effect size
+ */
+function getDriverConfidence(
+  mc: DriverSignificance,
+  dss: DriverSignificance
+): 'high' | 'medium' | 'low' {
+  const strongest = [mc, dss]
+    .filter(test => test.isSignificant)
+    .reduce((max, test) => Math.max(max, Math.abs(test.cohensD)), -1);
+
+  if (strongest >= DRIVER_SIGNIFICANCE_CONFIG.STRONG_EFFECT_SIZE) {
+    return 'high';
+  }
+  return strongest >= 0 ? 'medium' : 'low';
+}
+
 /**
  * Analyze activity drivers (tags) and their impact on MC and DSS
+ *
+ * Reads each entry's canonical MC/DSS from `scores`; pass the cached scores
+ * (see `updateScoreCache`) to avoid rescoring the whole history.
  */
 export function analyzeDrivers(
   entries: MoodEntry[],
+  minOccurrences: number = 3,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  scores: Map<string, ComputedScores> = scoreEntriesById(entries, profile)
+): DriverAnalysisResult[] {
+  return analyzeDriverObservations(
+    entries.map(entry => ({
+      tags: entry.tags ?? [],
+      MC: scores.get(entry.id)?.MC ?? 0,
+      DSS: scores.get(entry.id)?.DSS ?? 0
+    })),
+    minOccurrences
+  );
+}
+
+/**
+ * Analyze tags against the outcomes they are paired with
+ *
+ * Each observation pairs the tags of an exposure (an entry or a day) with
+ * an outcome, which may be the same entry or a later one (see
+ * `analyzeLaggedDrivers`). Tags are compared by Welch t-test with
+ * Benjamini–Hochberg correction across all tags.
+ */
+export function analyzeDriverObservations(
+  observations: DriverObservation[],
   minOccurrences: number = 3
 ): DriverAnalysisResult[] {
   try {
-    if (entries.length === 0) {
+    if (observations.length === 0) {
       return [];
     }
 
     // Collect all unique tags
     const allTags = new Set<string>();
-    entries.forEach(entry => {
-      entry.tags?.forEach(tag => allTags.add(tag));
+    observations.forEach(observation => {
+      observation.tags.forEach(tag => allTags.add(tag));
     });
 
     const driverResults: DriverAnalysisResult[] = [];
 
     for (const tag of allTags) {
-      // Find entries with and without this tag
-      const entriesWithTag = entries.filter(entry => entry.tags?.includes(tag));
-      const entriesWithoutTag = entries.filter(entry => !entry.tags?.includes(tag));
+      // Find observations with and without this tag
+      const withTag = observations.filter(observation => observation.tags.includes(tag));
+      const withoutTag = observations.filter(observation => !observation.tags.includes(tag));
 
       // Skip if not enough occurrences
-      if (entriesWithTag.length < minOccurrences) {
+      if (withTag.length < minOccurrences) {
         continue;
       }
 
-      // Calculate MC and DSS for entries with tag
-      const mcWithTag = entriesWithTag.map(entry => {
-        const mcResult = calculateMC(entry, entries);
-        return mcResult.mc;
-      });
-      const dssWithTag = entriesWithTag.map(entry => {
-        const dssResult = calculateDSS(entry, entries);
-        return dssResult.dss;
-      });
-
-      // Calculate MC and DSS for entries without tag
-      const mcWithoutTag = entriesWithoutTag.map(entry => {
-        const mcResult = calculateMC(entry, entries);
-        return mcResult.mc;
-      });
-      const dssWithoutTag = entriesWithoutTag.map(entry => {
-        const dssResult = calculateDSS(entry, entries);
-        return dssResult.dss;
-      });
+      // Outcome MC and DSS with and without the tag
+      const mcWithTag = withTag.map(observation => observation.MC);
+      const dssWithTag = withTag.map(observation => observation.DSS);
+      const mcWithoutTag = withoutTag.map(observation => observation.MC);
+      const dssWithoutTag = withoutTag.map(observation => observation.DSS);
 
       // Calculate averages
       const avgMCWith = mcWithTag.length > 0 ? mcWithTag.reduce((sum, mc) => sum + mc, 0) / mcWithTag.length : 0;
@@ -496,45 +984,83 @@ export function analyzeDrivers(
       const mcImpact = avgMCWith - avgMCWithout;
       const dssImpact = avgDSSWith - avgDSSWithout;
 
-      // Determine confidence based on sample size
-      let confidence: 'high' | 'medium' | 'low';
-      if (entriesWithTag.length >= 10 && entriesWithoutTag.length >= 10) {
-        confidence = 'high';
-      } else if (entriesWithTag.length >= 5 && entriesWithoutTag.length >= 5) {
-        confidence = 'medium';
-      } else {
-        confidence = 'low';
-      }
-
       driverResults.push({
         tag,
-        occurrences: entriesWithTag.length,
+        occurrences: withTag.length,
         mcImpact: parseFloat(mcImpact.toFixed(3)),
         dssImpact: parseFloat(dssImpact.toFixed(3)),
         avgMCWith: parseFloat(avgMCWith.toFixed(3)),
         avgMCWithout: parseFloat(avgMCWithout.toFixed(3)),
         avgDSSWith: parseFloat(avgDSSWith.toFixed(3)),
         avgDSSWithout: parseFloat(avgDSSWithout.toFixed(3)),
-        confidence
+        mcSignificance: testDriverEffect(mcWithTag, mcWithoutTag, `${tag}:MC`),
+        dssSignificance: testDriverEffect(dssWithTag, dssWithoutTag, `${tag}:DSS`),
+        confidence: 'low'
       });
     }
 
+    // Correct for testing every tag at once, then grade confidence
+    const mcAdjusted = adjustDriverSignificance(driverResults.map(r => r.mcSignificance));
+    const dssAdjusted = adjustDriverSignificance(driverResults.map(r => r.dssSignificance));
+    const corrected = driverResults.map((result, index) => {
+      const mcSignificance = mcAdjusted[index]!;
+      const dssSignificance = dssAdjusted[index]!;
+      return {
+        ...result,
+        mcSignificance,
+        dssSignificance,
+        confidence: getDriverConfidence(mcSignificance, dssSignificance)
+      };
+    });
+
     // Sort by absolute MC impact (strongest effects first)
-    return driverResults.sort((a, b) => Math.abs(b.mcImpact) - Math.abs(a.mcImpact));
+    return corrected.sort((a, b) => Math.abs(b.mcImpact) - Math.abs(a.mcImpact));
   } catch (error) {
     console.error('Driver analysis failed:', error);
     return [];
   }
 }
 
+/**
+ * 0-5 power hour score of one entry
+ *
+ * MC and DSS are centred on 0 and shifted by 3; focus and energy are
+ * already on a 0-5 scale.
+ */
+function getPowerHourValue(entry: MoodEntry, scores: ComputedScores | undefined, metric: PowerHourMetric): number {
+  switch (metric) {
+    case 'focus':
+      return entry.focus;
+    case 'energy':
+      return entry.energy;
+    default:
+      return Math.max(0, Math.min(5, (scores?.[metric] ?? 0) + 3));
+  }
+}
+
 /**
  * Generate power hours analysis (7x24 matrix of productivity scores)
+ *
+ * Like `analyzeDrivers`, reads canonical MC and DSS from `scores` when given.
+ *
+ * Each cell's average is shrunk toward a prior built from its weekday and
+ * hour averages (themselves shrunk toward the overall average), weighted by
+ * `CELL_PRIOR_STRENGTH` pseudo-entries. A cell's confidence is the weight
+ * its own entries get: n / (n + strength). Peak and low hours are ranked
+ * on the smoothed scores, so one good check-in cannot make a peak.
  */
-export function generatePowerHours(entries: MoodEntry[]): PowerHoursResult {
+export function generatePowerHours(
+  entries: MoodEntry[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  scores: Map<string, ComputedScores> = scoreEntriesById(entries, profile),
+  options: PowerHoursOptions = {}
+): PowerHourHeatmap {
+  const metric = options.metric ?? 'MC';
+  const emptyGrid = () => Array(7).fill(null).map(() => Array(24).fill(0) as number[]);
+
   try {
-    // Initialize 7x24 matrix (weekday x hour)
-    const matrix: number[][] = Array(7).fill(null).map(() => Array(24).fill(0));
-    const counts: number[][] = Array(7).fill(null).map(() => Array(24).fill(0));
+    const sums = emptyGrid();
+    const counts = emptyGrid();
 
     // Process each entry
     entries.forEach(entry => {
@@ -542,58 +1068,65 @@ export function generatePowerHours(entries: MoodEntry[]): PowerHoursResult {
       const weekday = entryDate.getDay(); // 0 = Sunday, 1 = Monday, ..., 6 = Saturday
       const hour = entryDate.getHours();
 
-      // Calculate productivity score (simplified MC)
-      const mcResult = calculateMC(entry, entries);
-      const productivityScore = Math.max(0, Math.min(5, mcResult.mc + 3)); // Normalize to 0-5 scale
-
-      matrix[weekday]![hour]! += productivityScore;
+      sums[weekday]![hour]! += getPowerHourValue(entry, scores.get(entry.id), metric);
       counts[weekday]![hour]!++;
     });
 
-    // Calculate averages
-    for (let weekday = 0; weekday < 7; weekday++) {
-      for (let hour = 0; hour < 24; hour++) {
-        if (counts[weekday]![hour]! > 0) {
-          matrix[weekday]![hour]! = matrix[weekday]![hour]! / counts[weekday]![hour]!;
-        }
-      }
-    }
+    // Overall, weekday and hour averages, each shrunk toward the overall average
+    const total = entries.length;
+    const overall = total > 0 ? sums.flat().reduce((sum, value) => sum + value, 0) / total : 0;
+    const marginal = (sum: number, count: number) =>
+      (sum + POWER_HOURS_CONFIG.MARGINAL_PRIOR_STRENGTH * overall) / (count + POWER_HOURS_CONFIG.MARGINAL_PRIOR_STRENGTH);
+    const weekdayMeans = sums.map((row, weekday) =>
+      marginal(row.reduce((sum, value) => sum + value, 0), counts[weekday]!.reduce((sum, value) => sum + value, 0))
+    );
+    const hourMeans = Array.from({ length: 24 }, (_, hour) =>
+      marginal(sums.reduce((sum, row) => sum + row[hour]!, 0), counts.reduce((sum, row) => sum + row[hour]!, 0))
+    );
+
+    // Shrink each logged cell toward its additive weekday + hour prior
+    const strength = POWER_HOURS_CONFIG.CELL_PRIOR_STRENGTH;
+    const matrix = emptyGrid();
+    const confidence = emptyGrid();
+    const cells: PowerHourCell[] = [];
 
-    // Find peak and low hours
-    const allHours: Array<{ weekday: number; hour: number; score: number }> = [];
-    
     for (let weekday = 0; weekday < 7; weekday++) {
       for (let hour = 0; hour < 24; hour++) {
-        if (counts[weekday]![hour]! > 0) {
-          allHours.push({
-            weekday,
-            hour,
-            score: matrix[weekday]![hour]!
-          });
-        }
+        const count = counts[weekday]![hour]!;
+        if (count === 0) continue;
+
+        const prior = Math.max(0, Math.min(5, weekdayMeans[weekday]! + hourMeans[hour]! - overall));
+        const score = parseFloat(((sums[weekday]![hour]! + strength * prior) / (count + strength)).toFixed(3));
+        const cellConfidence = parseFloat((count / (count + strength)).toFixed(3));
+
+        matrix[weekday]![hour] = score;
+        confidence[weekday]![hour] = cellConfidence;
+        cells.push({ weekday, hour, score, count, confidence: cellConfidence });
       }
     }
 
     // Sort by score
-    allHours.sort((a, b) => b.score - a.score);
+    cells.sort((a, b) => b.score - a.score);
 
-    // Get top 10% as peak hours and bottom 10% as low hours
-    const peakCount = Math.max(1, Math.floor(allHours.length * 0.1));
-    const lowCount = Math.max(1, Math.floor(allHours.length * 0.1));
-
-    const peakHours = allHours.slice(0, peakCount);
-    const lowHours = allHours.slice(-lowCount).reverse();
+    // Get the top and bottom PEAK_FRACTION of logged cells
+    const peakCount = Math.max(1, Math.floor(cells.length * POWER_HOURS_CONFIG.PEAK_FRACTION));
 
     return {
+      metric,
       matrix,
-      peakHours,
-      lowHours,
+      counts,
+      confidence,
+      peakHours: cells.slice(0, peakCount),
+      lowHours: cells.slice(-peakCount).reverse(),
       lastUpdated: new Date()
     };
   } catch (error) {
     console.error('Power hours generation failed:', error);
     return {
-      matrix: Array(7).fill(null).map(() => Array(24).fill(0)),
+      metric,
+      matrix: emptyGrid(),
+      counts: emptyGrid(),
+      confidence: emptyGrid(),
       peakHours: [],
       lowHours: [],
       lastUpdated: new Date()
@@ -601,12 +1134,328 @@ export function generatePowerHours(entries: MoodEntry[]): PowerHoursResult {
   }
 }
 
+/**
+ * Canonical scores for a single mood entry
+ *
+ * This is the one shape that pages, exporters and charts read MC/DSS from,
+ * so the same entry shows the same numbers everywhere in the app.
+ */
+export interface EntryScores extends ComputedScores {
+  /** ID of the scored mood entry */
+  entryId: string;
+  /** Timestamp of the scored mood entry */
+  timestamp: Date;
+  /** Number of earlier entries used as the personal baseline (after windowing) */
+  baselineSize: number;
+  /** ID of the scoring profile the scores were computed with */
+  profileId: string;
+  /** False when the insufficient-history fallback was applied */
+  isValid: boolean;
+  /** Entry is an outlier against its baseline (only when an outlier limit is set) */
+  isOutlier: boolean;
+  /** Full MC breakdown (raw values and z-scores) */
+  mcResult: MCCalculationResult;
+  /** Full DSS breakdown (raw values and z-scores) */
+  dssResult: DSSCalculationResult;
+}
+
+/**
+ * Sort entries oldest first without mutating the input
+ */
+function sortChronologically(entries: MoodEntry[]): MoodEntry[] {
+  return [...entries].sort((a, b) =>
+    new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
+
+/**
+ * Build canonical scores from an entry and the baseline that preceded it
+ */
+function buildEntryScores(
+  entry: MoodEntry,
+  baseline: MoodEntry[],
+  profile: ScoringProfile
+): EntryScores {
+  const mcResult = calculateMC(entry, baseline, undefined, profile);
+  const dssResult = calculateDSS(entry, baseline, profile);
+
+  return {
+    entryId: entry.id,
+    timestamp: new Date(entry.timestamp),
+    MC: mcResult.mc,
+    DSS: dssResult.dss,
+    LM: dssResult.components.lm.raw,
+    RI: dssResult.components.ri.raw,
+    CN: parseFloat(dssResult.components.cn.raw.toFixed(3)),
+    baselineSize: mcResult.baseline.entriesUsed,
+    profileId: profile.id,
+    isValid: mcResult.isValid && dssResult.isValid,
+    isOutlier: mcResult.outliers.isOutlier || dssResult.outliers.isOutlier,
+    mcResult,
+    dssResult
+  };
+}
+
+/**
+ * Score a single entry against every entry logged before it
+ *
+ * The baseline is point-in-time: only entries with an earlier timestamp are
+ * used, so an entry keeps the score it had when it was logged no matter how
+ * much data is added afterwards. All time buckets share one baseline. The
+ * profile's baseline mode can narrow (rolling) or re-weight (EWMA) those
+ * earlier entries.
+ *
+ * Insufficient-history fallback: while fewer than
+ * `SCORING_CONFIG.MIN_HISTORICAL_ENTRIES` baseline entries exist there is no
+ * personal baseline to normalise against, so every z-score is 0 and MC/DSS
+ * read as 0 ("at baseline") with `isValid: false`. LM, RI and CN are raw
+ * values and are always reported. Callers should present such scores as
+ * provisional rather than substituting a different formula.
+ *
+ * Pass the user's active profile so every caller applies the same weights.
+ */
+export function scoreEntry(
+  entry: MoodEntry,
+  entries: MoodEntry[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): EntryScores {
+  const entryTime = new Date(entry.timestamp).getTime();
+  const baseline = sortChronologically(
+    entries.filter(e => e.id !== entry.id && new Date(e.timestamp).getTime() < entryTime)
+  );
+
+  return buildEntryScores(entry, baseline, profile);
+}
+
+/**
+ * Score every entry against its own point-in-time baseline
+ *
+ * Equivalent to calling `scoreEntry` for each entry, returned oldest first.
+ */
+export function scoreEntries(
+  entries: MoodEntry[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): EntryScores[] {
+  const sorted = sortChronologically(entries);
+  return sorted.map((entry, index) => buildEntryScores(entry, sorted.slice(0, index), profile));
+}
+
+/**
+ * Index canonical scores by entry ID for lookups while iterating entries
+ */
+export function scoreEntriesById(
+  entries: MoodEntry[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): Map<string, EntryScores> {
+  return new Map(scoreEntries(entries, profile).map(scores => [scores.entryId, scores]));
+}
+
+/**
+ * Average a set of canonical scores (e.g. a day or a week)
+ */
+export function averageScores(scores: ComputedScores[]): ComputedScores {
+  if (scores.length === 0) {
+    return { MC: 0, DSS: 0, LM: 0, RI: 0, CN: 0 };
+  }
+
+  const average = (pick: (s: ComputedScores) => number) =>
+    parseFloat((scores.reduce((sum, s) => sum + pick(s), 0) / scores.length).toFixed(3));
+
+  return {
+    MC: average(s => s.MC),
+    DSS: average(s => s.DSS),
+    LM: average(s => s.LM),
+    RI: average(s => s.RI),
+    CN: average(s => s.CN)
+  };
+}
+
+/**
+ * Convert a z-score to a 0-1 percentile of the personal baseline
+ *
+ * Uses the Abramowitz-Stegun approximation of the normal CDF, which is
+ * accurate to ~1e-7 and plenty for display purposes.
+ */
+export function zScoreToPercentile(zScore: number): number {
+  const x = Math.abs(zScore) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return zScore >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * One entry scored under two profiles
+ */
+export interface ProfileComparisonRow {
+  entryId: string;
+  timestamp: Date;
+  a: EntryScores;
+  b: EntryScores;
+  mcDelta: number;
+  dssDelta: number;
+}
+
+/**
+ * Recompute the whole history under two profiles for side-by-side comparison
+ *
+ * Rows are oldest first; deltas are `b - a`.
+ */
+export function compareScoringProfiles(
+  entries: MoodEntry[],
+  profileA: ScoringProfile,
+  profileB: ScoringProfile
+): ProfileComparisonRow[] {
+  const scoresA = scoreEntries(entries, profileA);
+  const scoresB = scoreEntries(entries, profileB);
+
+  return scoresA.map((a, index) => {
+    const b = scoresB[index]!;
+    return {
+      entryId: a.entryId,
+      timestamp: a.timestamp,
+      a,
+      b,
+      mcDelta: parseFloat((b.MC - a.MC).toFixed(3)),
+      dssDelta: parseFloat((b.DSS - a.DSS).toFixed(3))
+    };
+  });
+}
+
+/**
+ * Fingerprint of the entry fields that feed MC and DSS
+ *
+ * Tags and notes are left out because they do not change scores.
+ */
+export function getEntryFingerprint(entry: MoodEntry): string {
+  return [
+    new Date(entry.timestamp).getTime(),
+    entry.valence,
+    entry.energy,
+    entry.focus,
+    entry.stress,
+    entry.deepworkMinutes ?? '',
+    entry.tasksCompleted ?? '',
+    entry.sleepHours ?? '',
+    entry.recoveryAction ?? '',
+    entry.socialTouchpoints ?? ''
+  ].join('|');
+}
+
+/**
+ * Fingerprint of everything in a profile that changes scores
+ */
+export function getScoringProfileFingerprint(profile: ScoringProfile): string {
+  return JSON.stringify({
+    mcWeights: profile.mcWeights,
+    dssWeights: profile.dssWeights,
+    dssMultipliers: profile.dssMultipliers,
+    baseline: profile.baseline ?? DEFAULT_BASELINE_CONFIG,
+    normalization: profile.normalization ?? DEFAULT_NORMALIZATION_CONFIG,
+    sigmaFloor: SCORING_CONFIG.SIGMA_FLOOR,
+    minHistoricalEntries: SCORING_CONFIG.MIN_HISTORICAL_ENTRIES
+  });
+}
+
+/**
+ * Flatten canonical scores into a cache row
+ */
+function toCachedEntryScores(
+  scores: EntryScores,
+  entry: MoodEntry,
+  configFingerprint: string
+): CachedEntryScores {
+  const stat = ({ mean, sigma }: ComponentScore) => ({
+    mean: parseFloat(mean.toFixed(3)),
+    sigma: parseFloat(sigma.toFixed(3))
+  });
+  const mc = scores.mcResult.components;
+  const dss = scores.dssResult.components;
+
+  return {
+    entryId: scores.entryId,
+    timestamp: scores.timestamp,
+    MC: scores.MC,
+    DSS: scores.DSS,
+    LM: scores.LM,
+    RI: scores.RI,
+    CN: scores.CN,
+    entryFingerprint: getEntryFingerprint(entry),
+    configFingerprint,
+    isValid: scores.isValid,
+    isOutlier: scores.isOutlier,
+    baseline: {
+      mode: scores.mcResult.baseline.mode,
+      entriesUsed: scores.baselineSize,
+      valence: stat(mc.valence),
+      energy: stat(mc.energy),
+      focus: stat(mc.focus),
+      stress: stat(mc.stress),
+      lm: stat(dss.lm),
+      ri: stat(dss.ri),
+      cn: stat(dss.cn)
+    }
+  };
+}
+
+/**
+ * Result of bringing the score cache up to date
+ */
+export interface ScoreCacheUpdate {
+  /** Cache rows for every entry, oldest first */
+  scores: CachedEntryScores[];
+  /** Number of rows that had to be recomputed */
+  recomputed: number;
+}
+
+/**
+ * Bring cached scores up to date with the current entries and profile
+ *
+ * Scores are point-in-time, so a row only depends on the entries before it.
+ * Rows are reused while the cached prefix still matches the entries (same
+ * IDs in the same order, same fingerprints); everything from the first
+ * mismatch onwards is recomputed. Appending a check-in therefore rescores a
+ * single entry, editing or deleting an entry rescores it and everything
+ * after it, and a different profile rescores everything.
+ */
+export function updateScoreCache(
+  cached: CachedEntryScores[],
+  entries: MoodEntry[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ScoreCacheUpdate {
+  const configFingerprint = getScoringProfileFingerprint(profile);
+  const sorted = sortChronologically(entries);
+
+  let reusable = 0;
+  while (
+    reusable < sorted.length &&
+    reusable < cached.length &&
+    cached[reusable]!.configFingerprint === configFingerprint &&
+    cached[reusable]!.entryId === sorted[reusable]!.id &&
+    cached[reusable]!.entryFingerprint === getEntryFingerprint(sorted[reusable]!)
+  ) {
+    reusable++;
+  }
+
+  const scores = cached.slice(0, reusable);
+  for (let index = reusable; index < sorted.length; index++) {
+    const entry = sorted[index]!;
+    const entryScores = buildEntryScores(entry, sorted.slice(0, index), profile);
+    scores.push(toCachedEntryScores(entryScores, entry, configFingerprint));
+  }
+
+  return { scores, recomputed: sorted.length - reusable };
+}
+
 /**
  * Calculate all scores for an entry
+ *
+ * `historicalEntries` is used as the baseline as-is; like `scoreEntry`, all
+ * time buckets share that baseline.
  */
 export function calculateAllScores(
   entry: MoodEntry,
-  historicalEntries: MoodEntry[]
+  historicalEntries: MoodEntry[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ): {
   mc: MCCalculationResult;
   dss: DSSCalculationResult;
@@ -615,34 +1464,113 @@ export function calculateAllScores(
   const allEntries = [...historicalEntries, entry];
   
   return {
-    mc: calculateMC(entry, historicalEntries, entry.timeBucket),
-    dss: calculateDSS(entry, historicalEntries),
+    mc: calculateMC(entry, historicalEntries, undefined, profile),
+    dss: calculateDSS(entry, historicalEntries, profile),
     streak: calculateStreak(allEntries)
   };
 }
 
+/**
+ * List everything wrong with a scoring profile (empty when valid)
+ *
+ * MC weights are not required to sum to 1 — the specification itself uses
+ * 0.4/0.3/0.2/-0.2 — but stress must pull MC down and the other dimensions
+ * must push it up. DSS weights must sum to 1.
+ */
+export function getScoringProfileErrors(profile: ScoringProfile): string[] {
+  const errors: string[] = [];
+  const isFiniteNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value);
+
+  if (!profile.id || profile.id.trim() === '') {
+    errors.push('Profile ID is required');
+  }
+  if (!profile.name || profile.name.trim() === '') {
+    errors.push('Profile name is required');
+  }
+
+  const { valence, energy, focus, stress } = profile.mcWeights;
+  if (![valence, energy, focus, stress].every(isFiniteNumber)) {
+    errors.push('MC weights must be numbers');
+  } else {
+    if (valence < 0 || energy < 0 || focus < 0) {
+      errors.push('Valence, energy and focus weights must not be negative');
+    }
+    if (stress > 0) {
+      errors.push('Stress weight must be zero or negative');
+    }
+    if (Math.abs(valence) + Math.abs(energy) + Math.abs(focus) + Math.abs(stress) === 0) {
+      errors.push('At least one MC weight must be non-zero');
+    }
+  }
+
+  const { lm, ri, cn } = profile.dssWeights;
+  if (![lm, ri, cn].every(isFiniteNumber)) {
+    errors.push('DSS weights must be numbers');
+  } else {
+    if (lm < 0 || ri < 0 || cn < 0) {
+      errors.push('DSS weights must not be negative');
+    }
+    if (Math.abs(lm + ri + cn - 1.0) > 0.001) {
+      errors.push(`DSS weights must sum to 1.0 (currently ${(lm + ri + cn).toFixed(2)})`);
+    }
+  }
+
+  const { tasksToLM, recoveryToRI } = profile.dssMultipliers;
+  if (![tasksToLM, recoveryToRI].every(isFiniteNumber) || tasksToLM < 0 || recoveryToRI < 0) {
+    errors.push('DSS multipliers must be non-negative numbers');
+  }
+
+  if (profile.baseline) {
+    const { mode, windowDays, halfLifeDays } = profile.baseline;
+    if (!['all-history', 'rolling', 'ewma'].includes(mode)) {
+      errors.push(`Unknown baseline mode: ${mode}`);
+    }
+    if (mode === 'rolling' && (!Number.isInteger(windowDays) || windowDays < 1)) {
+      errors.push('Rolling window must be a whole number of days (at least 1)');
+    }
+    if (mode === 'ewma' && (!isFiniteNumber(halfLifeDays) || halfLifeDays <= 0)) {
+      errors.push('EWMA half-life must be a positive number of days');
+    }
+  }
+
+  if (profile.normalization) {
+    const { method, winsorizeLimit } = profile.normalization;
+    if (!['mean-sd', 'median-mad'].includes(method)) {
+      errors.push(`Unknown normalization method: ${method}`);
+    }
+    if (!isFiniteNumber(winsorizeLimit) || winsorizeLimit < 0) {
+      errors.push('Winsorize limit must be zero (off) or a positive number of sigmas');
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Validate scoring configuration
+ *
+ * Checks the global constants and the given profile (the default spec
+ * profile when omitted).
  */
-export function validateScoringConfig(): boolean {
+export function validateScoringConfig(profile: ScoringProfile = DEFAULT_SCORING_PROFILE): boolean {
   try {
-    // Check that weights sum to 1.0 for MC
-    const mcWeightSum = Object.values(SCORING_CONFIG.MC_WEIGHTS).reduce((sum, weight) => sum + Math.abs(weight), 0);
-    if (Math.abs(mcWeightSum - 1.0) > 0.001) {
-      console.error('MC weights do not sum to 1.0:', mcWeightSum);
+    // Check sigma floor is positive
+    if (SCORING_CONFIG.SIGMA_FLOOR <= 0) {
+      console.error('Sigma floor must be positive:', SCORING_CONFIG.SIGMA_FLOOR);
       return false;
     }
 
-    // Check that weights sum to 1.0 for DSS
-    const dssWeightSum = Object.values(SCORING_CONFIG.DSS_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
-    if (Math.abs(dssWeightSum - 1.0) > 0.001) {
-      console.error('DSS weights do not sum to 1.0:', dssWeightSum);
+    // Check burnout weights sum to 1
+    const burnoutWeightSum = Object.values(SCORING_CONFIG.BURNOUT_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+    if (Math.abs(burnoutWeightSum - 1) > 0.001) {
+      console.error('Burnout weights must sum to 1:', burnoutWeightSum);
       return false;
     }
 
-    // Check sigma floor is positive
-    if (SCORING_CONFIG.SIGMA_FLOOR <= 0) {
-      console.error('Sigma floor must be positive:', SCORING_CONFIG.SIGMA_FLOOR);
+    const errors = getScoringProfileErrors(profile);
+    if (errors.length > 0) {
+      console.error(`Scoring profile "${profile.name}" is invalid:`, errors);
       return false;
     }
 
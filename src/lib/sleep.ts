@@ -0,0 +1,343 @@
+/**
+ * CampusThrive Sleep Metrics
+ *
+ * Goes beyond `sleepHours` as a raw RI input:
+ * - sleep debt accumulated against the user's nightly target
+ * - sleep regularity: how much duration, bedtime and wake time vary
+ * - chronotype, inferred from the time buckets high-energy check-ins fall in
+ *
+ * Bed and wake times are optional (HH:mm, local time). Without them,
+ * regularity falls back to the variation in sleep duration.
+ */
+
+import type { Chronotype, DailySummary, MoodEntry, SleepSettings, TimeBucket } from '@/types';
+import { daysBetweenKeys } from './scoring';
+import { mean, sampleVariance } from './statistics';
+
+/**
+ * Default sleep goals: eight hours a night, debt over the last two weeks
+ */
+export const DEFAULT_SLEEP_SETTINGS: SleepSettings = {
+  targetHours: 8,
+  debtWindowDays: 14
+};
+
+/**
+ * Sleep metric configuration
+ */
+export const SLEEP_CONFIG = {
+  /** Days looked back for sleep regularity */
+  REGULARITY_DAYS: 14,
+  /** Nights needed before regularity is reported */
+  MIN_REGULARITY_NIGHTS: 3,
+  /** Night-to-night variation, in minutes, at which regularity reaches zero */
+  MAX_VARIATION_MINUTES: 120,
+  /** Check-ins needed before a chronotype is inferred */
+  MIN_CHRONOTYPE_ENTRIES: 10,
+  /** Energy quantile at or above which a check-in counts as high-energy */
+  HIGH_ENERGY_QUANTILE: 0.75,
+  /** Pseudo-observations pulling each bucket's rate toward the overall rate */
+  CHRONOTYPE_PRIOR: 2,
+  /** Morning-minus-evening rate difference needed to call a chronotype */
+  CHRONOTYPE_LEAN: 0.15
+} as const;
+
+const TIME_BUCKETS: TimeBucket[] = ['Morning', 'Midday', 'Evening', 'Night'];
+const MINUTES_PER_DAY = 24 * 60;
+const CLOCK_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Regularity of recent nights
+ */
+export interface SleepRegularity {
+  /** 0-100, where 100 means identical nights */
+  score: number;
+  /** Standard deviation of sleep duration in hours */
+  durationSD: number;
+  /** Standard deviation of bed and wake times in minutes; null without times */
+  bedTimeSD: number | null;
+  wakeTimeSD: number | null;
+  /** Average midpoint of sleep in minutes after midnight; null without times */
+  midSleep: number | null;
+  nights: number;
+}
+
+/**
+ * Chronotype with the evidence behind it
+ */
+export interface ChronotypeResult {
+  chronotype: Chronotype;
+  /** Time bucket with the highest share of high-energy check-ins */
+  peakBucket: TimeBucket | null;
+  /** Shrunk share of high-energy check-ins per bucket; null if never logged */
+  highEnergyRates: Record<TimeBucket, number | null>;
+  /** Morning rate minus the evening and night rate; positive leans early */
+  lean: number;
+  entries: number;
+}
+
+/**
+ * Sleep debt at the end of one logical day
+ */
+export interface SleepDebtPoint {
+  date: string;
+  /** Reported sleep the night before; undefined when not reported */
+  sleepHours?: number;
+  debtHours: number;
+}
+
+/**
+ * All sleep metrics as of the last logged day
+ */
+export interface SleepReport {
+  targetHours: number;
+  /** Current sleep debt in hours */
+  debtHours: number;
+  /** Sleep debt per logged day, oldest first */
+  debtHistory: SleepDebtPoint[];
+  /** Average reported sleep over the debt window; null without reports */
+  averageSleepHours: number | null;
+  /** Null until enough nights were reported */
+  regularity: SleepRegularity | null;
+  chronotype: ChronotypeResult;
+}
+
+const round = (value: number) => parseFloat(value.toFixed(3));
+
+/**
+ * Whether a value is a 24-hour HH:mm time
+ */
+export function isClockTime(value: unknown): value is string {
+  return typeof value === 'string' && CLOCK_TIME_PATTERN.test(value);
+}
+
+/**
+ * Minutes after midnight of an HH:mm time, or null if malformed
+ */
+export function parseClockTime(value: string): number | null {
+  const match = CLOCK_TIME_PATTERN.exec(value);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Hours asleep between a bedtime and a wake time, across midnight if needed
+ *
+ * Returns null when either time is malformed.
+ */
+export function getSleepDurationHours(bedTime: string, wakeTime: string): number | null {
+  const bed = parseClockTime(bedTime);
+  const wake = parseClockTime(wakeTime);
+  if (bed === null || wake === null) {
+    return null;
+  }
+  const minutes = (wake - bed + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return parseFloat((minutes / 60).toFixed(2));
+}
+
+/**
+ * Validate sleep settings, returning human-readable problems
+ */
+export function getSleepSettingsErrors(settings: SleepSettings): string[] {
+  const errors: string[] = [];
+
+  if (!Number.isFinite(settings.targetHours) || settings.targetHours < 4 || settings.targetHours > 12) {
+    errors.push('Sleep target must be between 4 and 12 hours');
+  }
+  if (!Number.isInteger(settings.debtWindowDays) || settings.debtWindowDays < 3 || settings.debtWindowDays > 28) {
+    errors.push('Sleep debt window must be a whole number of days from 3 to 28');
+  }
+
+  return errors;
+}
+
+/**
+ * Sleep debt carried into the last of the given days
+ *
+ * Short nights add to the debt and long nights pay it back; the debt never
+ * goes negative, so banked sleep does not offset later short nights. Days
+ * without a sleep report leave it unchanged.
+ */
+export function calculateSleepDebt(
+  days: DailySummary[],
+  targetHours: number = DEFAULT_SLEEP_SETTINGS.targetHours
+): number {
+  return days.reduce((debt, day) => {
+    const sleepHours = day.dayEnd.sleepHours;
+    return sleepHours === undefined ? debt : Math.max(0, debt + targetHours - sleepHours);
+  }, 0);
+}
+
+/**
+ * Rolling sleep debt for every logged day, over the settings' debt window
+ */
+export function calculateSleepDebtHistory(
+  summaries: DailySummary[],
+  settings: SleepSettings = DEFAULT_SLEEP_SETTINGS
+): SleepDebtPoint[] {
+  const days = [...summaries].sort((a, b) => a.date.localeCompare(b.date));
+
+  return days.map(day => {
+    const window = days.filter(other => {
+      const daysBefore = daysBetweenKeys(other.date, day.date);
+      return daysBefore >= 0 && daysBefore < settings.debtWindowDays;
+    });
+
+    return {
+      date: day.date,
+      ...(day.dayEnd.sleepHours !== undefined && { sleepHours: day.dayEnd.sleepHours }),
+      debtHours: parseFloat(calculateSleepDebt(window, settings.targetHours).toFixed(1))
+    };
+  });
+}
+
+/**
+ * Standard deviation of clock times in minutes
+ *
+ * Times are unwrapped around `pivot` first, so 23:30 and 00:30 are an hour
+ * apart rather than 23 hours.
+ */
+function clockTimeSD(minutes: number[], pivot: number): number {
+  const unwrapped = minutes.map(value => (value < pivot ? value + MINUTES_PER_DAY : value));
+  return Math.sqrt(sampleVariance(unwrapped));
+}
+
+/**
+ * Sleep regularity over the `REGULARITY_DAYS` up to the last logged day
+ *
+ * The score falls linearly from 100 to 0 as the average variation of
+ * duration, bedtime and wake time (whichever were reported) grows to
+ * `MAX_VARIATION_MINUTES`. Returns null with fewer than
+ * `MIN_REGULARITY_NIGHTS` reported nights.
+ */
+export function calculateSleepRegularity(summaries: DailySummary[]): SleepRegularity | null {
+  const days = [...summaries].sort((a, b) => a.date.localeCompare(b.date));
+  const lastDate = days[days.length - 1]?.date;
+  if (!lastDate) {
+    return null;
+  }
+
+  const nights = days
+    .filter(day => daysBetweenKeys(day.date, lastDate) < SLEEP_CONFIG.REGULARITY_DAYS)
+    .map(day => day.dayEnd);
+  const durations = nights
+    .map(night => night.sleepHours)
+    .filter((hours): hours is number => hours !== undefined);
+  if (durations.length < SLEEP_CONFIG.MIN_REGULARITY_NIGHTS) {
+    return null;
+  }
+
+  const bedTimes = nights
+    .map(night => (night.bedTime ? parseClockTime(night.bedTime) : null))
+    .filter((minutes): minutes is number => minutes !== null);
+  const wakeTimes = nights
+    .map(night => (night.wakeTime ? parseClockTime(night.wakeTime) : null))
+    .filter((minutes): minutes is number => minutes !== null);
+
+  // Bedtimes before noon are after midnight; wake times after noon are rare
+  const bedTimeSD = bedTimes.length >= SLEEP_CONFIG.MIN_REGULARITY_NIGHTS ? clockTimeSD(bedTimes, 12 * 60) : null;
+  const wakeTimeSD = wakeTimes.length >= SLEEP_CONFIG.MIN_REGULARITY_NIGHTS ? clockTimeSD(wakeTimes, 0) : null;
+  const durationSD = Math.sqrt(sampleVariance(durations));
+
+  const variations = [durationSD * 60, bedTimeSD, wakeTimeSD].filter((sd): sd is number => sd !== null);
+  const score = 100 * Math.max(0, 1 - mean(variations) / SLEEP_CONFIG.MAX_VARIATION_MINUTES);
+
+  const midSleep = bedTimeSD !== null
+    ? (mean(bedTimes.map(value => (value < 12 * 60 ? value + MINUTES_PER_DAY : value))) + (mean(durations) * 60) / 2) % MINUTES_PER_DAY
+    : null;
+
+  return {
+    score: parseFloat(score.toFixed(1)),
+    durationSD: round(durationSD),
+    bedTimeSD: bedTimeSD === null ? null : round(bedTimeSD),
+    wakeTimeSD: wakeTimeSD === null ? null : round(wakeTimeSD),
+    midSleep: midSleep === null ? null : Math.round(midSleep),
+    nights: durations.length
+  };
+}
+
+/**
+ * Infer chronotype from when high-energy check-ins happen
+ *
+ * A check-in is high-energy at or above the user's own
+ * `HIGH_ENERGY_QUANTILE` of energy. Each bucket's share of high-energy
+ * check-ins is shrunk toward the overall share, so a bucket logged twice
+ * cannot decide the result. Morning types peak in the morning, evening
+ * types in the evening or at night.
+ */
+export function inferChronotype(entries: MoodEntry[]): ChronotypeResult {
+  const energies = entries.map(entry => entry.energy).sort((a, b) => a - b);
+  const emptyRates = Object.fromEntries(TIME_BUCKETS.map(bucket => [bucket, null])) as Record<TimeBucket, number | null>;
+  const unknown: ChronotypeResult = {
+    chronotype: 'unknown',
+    peakBucket: null,
+    highEnergyRates: emptyRates,
+    lean: 0,
+    entries: entries.length
+  };
+  if (entries.length < SLEEP_CONFIG.MIN_CHRONOTYPE_ENTRIES) {
+    return unknown;
+  }
+
+  const threshold = energies[Math.floor(SLEEP_CONFIG.HIGH_ENERGY_QUANTILE * (energies.length - 1))]!;
+  const isHigh = (entry: MoodEntry) => entry.energy >= threshold;
+  const overallRate = entries.filter(isHigh).length / entries.length;
+
+  const highEnergyRates = Object.fromEntries(TIME_BUCKETS.map(bucket => {
+    const inBucket = entries.filter(entry => entry.timeBucket === bucket);
+    if (inBucket.length === 0) {
+      return [bucket, null];
+    }
+    const rate = (inBucket.filter(isHigh).length + SLEEP_CONFIG.CHRONOTYPE_PRIOR * overallRate) /
+      (inBucket.length + SLEEP_CONFIG.CHRONOTYPE_PRIOR);
+    return [bucket, round(rate)];
+  })) as Record<TimeBucket, number | null>;
+
+  const lateRates = [highEnergyRates.Evening, highEnergyRates.Night].filter((rate): rate is number => rate !== null);
+  if (highEnergyRates.Morning === null || lateRates.length === 0) {
+    return { ...unknown, highEnergyRates };
+  }
+
+  const lean = highEnergyRates.Morning - mean(lateRates);
+  const peakBucket = TIME_BUCKETS
+    .filter(bucket => highEnergyRates[bucket] !== null)
+    .reduce((best, bucket) => (highEnergyRates[bucket]! > highEnergyRates[best]! ? bucket : best));
+
+  let chronotype: Chronotype = 'intermediate';
+  if (lean >= SLEEP_CONFIG.CHRONOTYPE_LEAN) chronotype = 'morning';
+  else if (lean <= -SLEEP_CONFIG.CHRONOTYPE_LEAN) chronotype = 'evening';
+
+  return { chronotype, peakBucket, highEnergyRates, lean: round(lean), entries: entries.length };
+}
+
+/**
+ * Sleep debt, regularity and chronotype as of the last logged day
+ */
+export function calculateSleepReport(
+  summaries: DailySummary[],
+  entries: MoodEntry[],
+  settings: SleepSettings = DEFAULT_SLEEP_SETTINGS
+): SleepReport {
+  const debtHistory = calculateSleepDebtHistory(summaries, settings);
+  const lastDate = debtHistory[debtHistory.length - 1]?.date;
+  const recentSleep = debtHistory
+    .filter(point => lastDate !== undefined && daysBetweenKeys(point.date, lastDate) < settings.debtWindowDays)
+    .map(point => point.sleepHours)
+    .filter((hours): hours is number => hours !== undefined);
+
+  return {
+    targetHours: settings.targetHours,
+    debtHours: debtHistory[debtHistory.length - 1]?.debtHours ?? 0,
+    debtHistory,
+    averageSleepHours: recentSleep.length > 0 ? parseFloat(mean(recentSleep).toFixed(1)) : null,
+    regularity: calculateSleepRegularity(summaries),
+    chronotype: inferChronotype(entries)
+  };
+}
+
+/**
+ * Clock time (HH:mm) of minutes after midnight
+ */
+export function formatClockTime(minutes: number): string {
+  const wrapped = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,478 @@
+/**
+ * CampusThrive Statistics Helpers
+ *
+ * Small, dependency-free hypothesis tests and effect sizes used to decide
+ * whether a pattern in the user's data is more than noise.
+ *
+ * Randomized procedures (bootstrap) take a seed so the same data always
+ * produces the same result.
+ */
+
+/**
+ * Result of a two-sample t-test
+ */
+export interface TTestResult {
+  /** t statistic (positive when the first sample has the larger mean) */
+  t: number;
+  /** Welch–Satterthwaite degrees of freedom */
+  degreesOfFreedom: number;
+  /** Two-sided p-value */
+  pValue: number;
+}
+
+/**
+ * Confidence interval for a statistic
+ */
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+  /** Confidence level (e.g. 0.95) */
+  level: number;
+}
+
+/**
+ * Options for bootstrap confidence intervals
+ */
+export interface BootstrapOptions {
+  /** Number of resamples */
+  iterations?: number;
+  /** Confidence level (e.g. 0.95) */
+  level?: number;
+  /** Seed for the resampling generator */
+  seed?: number;
+}
+
+/**
+ * Arithmetic mean (0 for an empty sample)
+ */
+export function mean(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Unbiased sample variance (0 for fewer than two values)
+ */
+export function sampleVariance(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const avg = mean(values);
+  return values.reduce((sum, value) => sum + Math.pow(value - avg, 2), 0) / (values.length - 1);
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32) returning values in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Stable 32-bit seed derived from a string (FNV-1a)
+ */
+export function seedFromString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) {
+    series += coefficient / ++y;
+  }
+  return -tmp + Math.log(2.5066282746310005 * series / x);
+}
+
+/**
+ * Continued fraction for the incomplete beta function (modified Lentz)
+ */
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const MAX_ITERATIONS = 200;
+  const EPSILON = 3e-12;
+  const TINY = 1e-300;
+
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+
+    if (Math.abs(delta - 1) < EPSILON) {
+      break;
+    }
+  }
+
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+
+  // The continued fraction converges fastest on this side of the mean
+  if (x < (a + 1) / (a + b + 2)) {
+    return front * betaContinuedFraction(x, a, b) / a;
+  }
+  return 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+/**
+ * Two-sided p-value of a t statistic with the given degrees of freedom
+ */
+export function studentTPValue(t: number, degreesOfFreedom: number): number {
+  if (!Number.isFinite(t)) {
+    return 0;
+  }
+  if (degreesOfFreedom <= 0) {
+    return 1;
+  }
+  return incompleteBeta(degreesOfFreedom / (degreesOfFreedom + t * t), degreesOfFreedom / 2, 0.5);
+}
+
+/**
+ * Inverse of the standard normal CDF (Acklam's approximation)
+ *
+ * Accurate to about 1e-9 for p in (0, 1).
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  const tail = (q: number) =>
+    (((((c[0]! * q + c[1]!) * q + c[2]!) * q + c[3]!) * q + c[4]!) * q + c[5]!) /
+    ((((d[0]! * q + d[1]!) * q + d[2]!) * q + d[3]!) * q + 1);
+
+  if (p < low) {
+    return tail(Math.sqrt(-2 * Math.log(p)));
+  }
+  if (p > 1 - low) {
+    return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0]! * r + a[1]!) * r + a[2]!) * r + a[3]!) * r + a[4]!) * r + a[5]!) * q /
+    (((((b[0]! * r + b[1]!) * r + b[2]!) * r + b[3]!) * r + b[4]!) * r + 1);
+}
+
+/**
+ * Welch's unequal-variance t-test for a difference in means
+ *
+ * Returns p = 1 when either sample has fewer than two values, or when
+ * both samples are constant and equal.
+ */
+export function welchTTest(a: number[], b: number[]): TTestResult {
+  if (a.length < 2 || b.length < 2) {
+    return { t: 0, degreesOfFreedom: 0, pValue: 1 };
+  }
+
+  const varianceA = sampleVariance(a) / a.length;
+  const varianceB = sampleVariance(b) / b.length;
+  const standardError = Math.sqrt(varianceA + varianceB);
+  const difference = mean(a) - mean(b);
+
+  if (standardError === 0) {
+    return difference === 0
+      ? { t: 0, degreesOfFreedom: a.length + b.length - 2, pValue: 1 }
+      : { t: difference > 0 ? Infinity : -Infinity, degreesOfFreedom: a.length + b.length - 2, pValue: 0 };
+  }
+
+  const t = difference / standardError;
+  const degreesOfFreedom = Math.pow(varianceA + varianceB, 2) / (
+    Math.pow(varianceA, 2) / (a.length - 1) + Math.pow(varianceB, 2) / (b.length - 1)
+  );
+
+  return { t, degreesOfFreedom, pValue: studentTPValue(t, degreesOfFreedom) };
+}
+
+/**
+ * Result of a one-way analysis of variance
+ */
+export interface AnovaResult {
+  /** F statistic (between-group over within-group mean square) */
+  f: number;
+  betweenDegreesOfFreedom: number;
+  withinDegreesOfFreedom: number;
+  pValue: number;
+}
+
+/**
+ * One-way ANOVA: do the group means differ?
+ *
+ * Empty groups are ignored. Returns p = 1 when there are fewer than two
+ * groups or no within-group degrees of freedom.
+ */
+export function oneWayAnova(groups: number[][]): AnovaResult {
+  const nonEmpty = groups.filter(group => group.length > 0);
+  const total = nonEmpty.reduce((sum, group) => sum + group.length, 0);
+  const betweenDegreesOfFreedom = nonEmpty.length - 1;
+  const withinDegreesOfFreedom = total - nonEmpty.length;
+
+  if (betweenDegreesOfFreedom < 1 || withinDegreesOfFreedom < 1) {
+    return { f: 0, betweenDegreesOfFreedom: Math.max(0, betweenDegreesOfFreedom), withinDegreesOfFreedom: Math.max(0, withinDegreesOfFreedom), pValue: 1 };
+  }
+
+  const grandMean = mean(nonEmpty.flat());
+  const betweenSS = nonEmpty.reduce((sum, group) => sum + group.length * Math.pow(mean(group) - grandMean, 2), 0);
+  const withinSS = nonEmpty.reduce((sum, group) => {
+    const groupMean = mean(group);
+    return sum + group.reduce((acc, value) => acc + Math.pow(value - groupMean, 2), 0);
+  }, 0);
+
+  if (withinSS === 0) {
+    return { f: betweenSS > 0 ? Infinity : 0, betweenDegreesOfFreedom, withinDegreesOfFreedom, pValue: betweenSS > 0 ? 0 : 1 };
+  }
+
+  const f = (betweenSS / betweenDegreesOfFreedom) / (withinSS / withinDegreesOfFreedom);
+  const pValue = incompleteBeta(
+    withinDegreesOfFreedom / (withinDegreesOfFreedom + betweenDegreesOfFreedom * f),
+    withinDegreesOfFreedom / 2,
+    betweenDegreesOfFreedom / 2
+  );
+
+  return { f, betweenDegreesOfFreedom, withinDegreesOfFreedom, pValue };
+}
+
+/**
+ * Cohen's d: difference in means over the pooled standard deviation
+ *
+ * Conventional reading: 0.2 small, 0.5 medium, 0.8 large.
+ */
+export function cohensD(a: number[], b: number[]): number {
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+
+  const pooledVariance = (
+    (a.length - 1) * sampleVariance(a) + (b.length - 1) * sampleVariance(b)
+  ) / (a.length + b.length - 2);
+
+  if (pooledVariance === 0) {
+    return 0;
+  }
+  return (mean(a) - mean(b)) / Math.sqrt(pooledVariance);
+}
+
+/**
+ * Percentile bootstrap confidence interval for mean(a) - mean(b)
+ */
+export function bootstrapMeanDifferenceCI(
+  a: number[],
+  b: number[],
+  options: BootstrapOptions = {}
+): ConfidenceInterval {
+  const { iterations = 1000, level = 0.95, seed = 1 } = options;
+
+  if (a.length === 0 || b.length === 0) {
+    return { lower: 0, upper: 0, level };
+  }
+
+  const random = createRandom(seed);
+  const resampleMean = (values: number[]) => {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) {
+      sum += values[Math.floor(random() * values.length)]!;
+    }
+    return sum / values.length;
+  };
+
+  const differences: number[] = [];
+  for (let i = 0; i < iterations; i++) {
+    differences.push(resampleMean(a) - resampleMean(b));
+  }
+  differences.sort((x, y) => x - y);
+
+  const tail = (1 - level) / 2;
+  const lowerIndex = Math.min(iterations - 1, Math.max(0, Math.floor(tail * iterations)));
+  const upperIndex = Math.min(iterations - 1, Math.max(0, Math.ceil((1 - tail) * iterations) - 1));
+
+  return { lower: differences[lowerIndex]!, upper: differences[upperIndex]!, level };
+}
+
+/**
+ * Benjamini–Hochberg adjusted p-values (false discovery rate), in input order
+ *
+ * A test is significant at FDR q when its adjusted p-value is at most q.
+ */
+export function benjaminiHochberg(pValues: number[]): number[] {
+  const m = pValues.length;
+  const order = pValues
+    .map((pValue, index) => ({ pValue, index }))
+    .sort((x, y) => x.pValue - y.pValue);
+
+  const adjusted = new Array<number>(m);
+  let runningMin = 1;
+  for (let rank = m; rank >= 1; rank--) {
+    const { pValue, index } = order[rank - 1]!;
+    runningMin = Math.min(runningMin, pValue * m / rank);
+    adjusted[index] = runningMin;
+  }
+
+  return adjusted;
+}
+
+/**
+ * Result of a linear regression
+ */
+export interface RegressionResult {
+  /** One coefficient per design-matrix column */
+  coefficients: number[];
+  standardErrors: number[];
+  /** Two-sided p-values of each coefficient being zero */
+  pValues: number[];
+  rSquared: number;
+  /** Residual degrees of freedom (rows minus columns) */
+  degreesOfFreedom: number;
+}
+
+/**
+ * Invert a square matrix by Gauss–Jordan elimination, or null if singular
+ */
+function invertMatrix(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const augmented = matrix.map((row, i) => [
+    ...row,
+    ...Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
+  ]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(augmented[row]![col]!) > Math.abs(augmented[pivot]![col]!)) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(augmented[pivot]![col]!) < 1e-12) {
+      return null;
+    }
+    [augmented[col], augmented[pivot]] = [augmented[pivot]!, augmented[col]!];
+
+    const pivotRow = augmented[col]!;
+    const pivotValue = pivotRow[col]!;
+    for (let k = 0; k < 2 * n; k++) {
+      pivotRow[k] = pivotRow[k]! / pivotValue;
+    }
+
+    for (let row = 0; row < n; row++) {
+      if (row === col) continue;
+      const current = augmented[row]!;
+      const factor = current[col]!;
+      if (factor === 0) continue;
+      for (let k = 0; k < 2 * n; k++) {
+        current[k] = current[k]! - factor * pivotRow[k]!;
+      }
+    }
+  }
+
+  return augmented.map(row => row.slice(n));
+}
+
+/**
+ * Least-squares fit of y on the columns of X
+ *
+ * Include a column of ones in X for an intercept. A small `ridge` penalty
+ * (not applied to column 0) keeps the fit stable when columns are nearly
+ * collinear, e.g. two tags that are almost always logged together.
+ * Returns null when there are no residual degrees of freedom.
+ */
+export function linearRegression(
+  X: number[][],
+  y: number[],
+  ridge: number = 0
+): RegressionResult | null {
+  const n = X.length;
+  const p = X[0]?.length ?? 0;
+  if (n === 0 || p === 0 || n <= p) {
+    return null;
+  }
+
+  const xtx = Array.from({ length: p }, (_, i) =>
+    Array.from({ length: p }, (_, j) =>
+      X.reduce((sum, row) => sum + row[i]! * row[j]!, 0) + (i === j && i > 0 ? ridge : 0)
+    )
+  );
+  const xty = Array.from({ length: p }, (_, i) =>
+    X.reduce((sum, row, r) => sum + row[i]! * y[r]!, 0)
+  );
+
+  const inverse = invertMatrix(xtx);
+  if (!inverse) {
+    return null;
+  }
+
+  const coefficients = inverse.map(row => row.reduce((sum, value, j) => sum + value * xty[j]!, 0));
+  const fitted = X.map(row => row.reduce((sum, value, j) => sum + value * coefficients[j]!, 0));
+  const residualSS = y.reduce((sum, value, i) => sum + Math.pow(value - fitted[i]!, 2), 0);
+  const avg = mean(y);
+  const totalSS = y.reduce((sum, value) => sum + Math.pow(value - avg, 2), 0);
+
+  const degreesOfFreedom = n - p;
+  const residualVariance = residualSS / degreesOfFreedom;
+  const standardErrors = inverse.map((row, i) => Math.sqrt(Math.max(0, residualVariance * row[i]!)));
+  const pValues = coefficients.map((coefficient, i) =>
+    standardErrors[i]! > 0 ? studentTPValue(coefficient / standardErrors[i]!, degreesOfFreedom) : 1
+  );
+
+  return {
+    coefficients,
+    standardErrors,
+    pValues,
+    rSquared: totalSS > 0 ? 1 - residualSS / totalSS : 0,
+    degreesOfFreedom
+  };
+}
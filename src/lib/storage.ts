@@ -1,13 +1,20 @@
 /**
  * CampusThrive Storage Management System
  * 
- * This module provides comprehensive localStorage management with:
+ * This module provides comprehensive browser storage management with:
+ * - Pluggable backends (IndexedDB, localStorage, memory) with automatic
+ *   migration from localStorage
  * - TypeScript generics for type safety
  * - Automatic JSON serialization/deserialization
- * - Error handling and data validation
- * - Migration system for data structure changes
+ * - Schema validation with path-level errors and a quarantine for bad records
+ * - Semver-ordered migrations with snapshots, dry runs, rollback and a log
+ * - Trash bin and undo/redo for mood entry edits, imports and deletions
+ * - Per-entry revision history with revert
  * - Export/import functionality
  * - Data expiration and cleanup
+ * - Incremental per-entry score cache
+ * - Stored anomaly alerts
+ * - Stored weekly goal results
  * - Test data generation
  */
 
@@ -20,16 +27,78 @@ import type {
   AppSettings,
   JSONExportData,
   CSVExportData,
-  TimeBucket
+  TimeBucket,
+  ScoringProfile,
+  CachedEntryScores,
+  DriverSignificance,
+  DailySummary,
+  Anomaly,
+  StudyTask,
+  StudyPlan,
+  ScheduleBlock,
+  Goal,
+  GoalProgress,
+  MigrationLogEntry,
+  QuarantinedRecord,
+  SchemaIssue,
+  TrashedEntry,
+  EntryRevision,
+  EntryChange,
+  EntryHistoryAction,
+  UpdateMoodEntry
 } from '@/types';
+import {
+  scoreEntriesById,
+  analyzeDrivers,
+  updateScoreCache,
+  resolveScoringProfile,
+  BUILT_IN_SCORING_PROFILES,
+  DEFAULT_SCORING_PROFILE
+} from './scoring';
+import { buildDailySummaries, DEFAULT_DAY_START_HOUR } from './daily';
+import { detectAnomalies, mergeAnomalies } from './anomalies';
+import { evaluateGoalHistory, mergeGoalHistory } from './goals';
+import {
+  IndexedDBAdapter,
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+  copyAdapterKeys,
+  type StorageAdapter
+} from './adapters';
+import {
+  arraySchema,
+  nullableSchema,
+  isValidForSchema,
+  validateSchema,
+  formatSchemaIssue,
+  MOOD_ENTRY_SCHEMA,
+  TRASHED_ENTRY_SCHEMA,
+  ENTRY_REVISION_SCHEMA,
+  COMPUTED_SCORES_SCHEMA,
+  CACHED_ENTRY_SCORES_SCHEMA,
+  ANOMALY_SCHEMA,
+  STUDY_TASK_SCHEMA,
+  SCHEDULE_BLOCK_SCHEMA,
+  STUDY_PLAN_SCHEMA,
+  GOAL_SCHEMA,
+  GOAL_PROGRESS_SCHEMA,
+  APP_SETTINGS_SCHEMA,
+  DRIVER_ANALYSIS_SCHEMA,
+  POWER_HOUR_HEATMAP_SCHEMA,
+  COACH_TIP_SCHEMA,
+  MIGRATION_LOG_ENTRY_SCHEMA,
+  QUARANTINED_RECORD_SCHEMA,
+  type Schema
+} from './schema';
 
 /**
  * Storage configuration and constants
  */
 export const STORAGE_CONFIG = {
-  // Data retention settings
-  MOOD_ENTRIES_RETENTION_DAYS: 14,
+  // Data retention settings (0 keeps entries forever)
+  MOOD_ENTRIES_RETENTION_DAYS: 0,
   COMPUTED_SCORES_RETENTION_DAYS: 30,
+  TRASH_RETENTION_DAYS: 30,
   
   // Storage keys
   KEYS: {
@@ -41,16 +110,43 @@ export const STORAGE_CONFIG = {
     SETTINGS: 'campus-thrive-settings',
     APP_STATE: 'campus-thrive-app-state',
     MIGRATION_VERSION: 'campus-thrive-migration-version',
+    ANOMALIES: 'campus-thrive-anomalies',
+    STUDY_TASKS: 'campus-thrive-study-tasks',
+    STUDY_PLAN: 'campus-thrive-study-plan',
+    GOALS: 'campus-thrive-goals',
+    GOAL_HISTORY: 'campus-thrive-goal-history',
+    MIGRATION_LOG: 'campus-thrive-migration-log',
+    MIGRATION_SNAPSHOT: 'campus-thrive-migration-snapshot',
+    QUARANTINE: 'campus-thrive-quarantine',
+    TRASH: 'campus-thrive-trash',
+    ENTRY_REVISIONS: 'campus-thrive-entry-revisions',
   },
   
   // Current data version for migrations
-  CURRENT_VERSION: '1.0.0',
+  CURRENT_VERSION: '1.1.0',
   
-  // Storage quota limits (in bytes)
-  MAX_STORAGE_SIZE: 5 * 1024 * 1024, // 5MB
-  CLEANUP_THRESHOLD: 4 * 1024 * 1024, // 4MB
+  // Migration runs kept in the log
+  MIGRATION_LOG_LIMIT: 50,
+  
+  // Entry changes that can be undone in one session
+  ENTRY_HISTORY_LIMIT: 50,
+  
+  // Share of the backend's capacity at which derived data may be dropped
+  CLEANUP_THRESHOLD_PERCENT: 80,
 } as const;
 
+/**
+ * Keys holding data recomputed from mood entries, which may be dropped
+ * to make room. Everything else is user data and is never removed to
+ * free space.
+ */
+const DERIVED_KEYS = [
+  STORAGE_CONFIG.KEYS.COMPUTED_SCORES,
+  STORAGE_CONFIG.KEYS.DRIVER_ANALYSIS,
+  STORAGE_CONFIG.KEYS.POWER_HOUR_HEATMAP,
+  STORAGE_CONFIG.KEYS.COACH_TIPS
+] as const;
+
 /**
  * Storage error types
  */
@@ -77,67 +173,170 @@ export type StorageResult<T> = {
 };
 
 /**
- * Data validation schemas
+ * Data validation, backed by the schemas in ./schema
  */
-export const validateMoodEntry = (data: unknown): data is MoodEntry => {
-  if (!data || typeof data !== 'object') return false;
-  const entry = data as Record<string, unknown>;
-  
-  return (
-    typeof entry.id === 'string' &&
-    entry.timestamp instanceof Date &&
-    typeof entry.timeBucket === 'string' && ['Morning', 'Midday', 'Evening', 'Night'].includes(entry.timeBucket) &&
-    typeof entry.valence === 'number' && entry.valence >= 0 && entry.valence <= 5 &&
-    typeof entry.energy === 'number' && entry.energy >= 0 && entry.energy <= 5 &&
-    typeof entry.focus === 'number' && entry.focus >= 0 && entry.focus <= 5 &&
-    typeof entry.stress === 'number' && entry.stress >= 0 && entry.stress <= 5 &&
-    Array.isArray(entry.tags) && entry.tags.every((tag: unknown) => typeof tag === 'string')
-  );
-};
+export const validateMoodEntry = (data: unknown): data is MoodEntry =>
+  isValidForSchema(MOOD_ENTRY_SCHEMA, data);
 
-export const validateComputedScores = (data: unknown): data is ComputedScores => {
-  if (!data || typeof data !== 'object') return false;
-  const scores = data as Record<string, unknown>;
-  
-  return (
-    typeof scores.MC === 'number' &&
-    typeof scores.DSS === 'number' &&
-    typeof scores.LM === 'number' &&
-    typeof scores.RI === 'number' &&
-    typeof scores.CN === 'number'
-  );
-};
+export const validateComputedScores = (data: unknown): data is ComputedScores =>
+  isValidForSchema(COMPUTED_SCORES_SCHEMA, data);
 
-export const validateAppSettings = (data: unknown): data is AppSettings => {
-  if (!data || typeof data !== 'object') return false;
-  const settings = data as Record<string, unknown>;
-  
-  return (
-    typeof settings.theme === 'string' && ['light', 'dark', 'system'].includes(settings.theme) &&
-    typeof settings.defaultTimeBucket === 'string' && ['Morning', 'Midday', 'Evening', 'Night'].includes(settings.defaultTimeBucket) &&
-    typeof settings.showCoachTips === 'boolean' &&
-    typeof settings.notifications === 'object' &&
-    typeof settings.dataRetention === 'object' &&
-    typeof settings.privacy === 'object'
-  );
+export const validateCachedEntryScores = (data: unknown): data is CachedEntryScores =>
+  isValidForSchema(CACHED_ENTRY_SCORES_SCHEMA, data);
+
+export const validateAnomaly = (data: unknown): data is Anomaly =>
+  isValidForSchema(ANOMALY_SCHEMA, data);
+
+export const validateStudyTask = (data: unknown): data is StudyTask =>
+  isValidForSchema(STUDY_TASK_SCHEMA, data);
+
+export const validateScheduleBlock = (data: unknown): data is ScheduleBlock =>
+  isValidForSchema(SCHEDULE_BLOCK_SCHEMA, data);
+
+export const validateStudyPlan = (data: unknown): data is StudyPlan =>
+  isValidForSchema(STUDY_PLAN_SCHEMA, data);
+
+export const validateGoal = (data: unknown): data is Goal =>
+  isValidForSchema(GOAL_SCHEMA, data);
+
+export const validateGoalProgress = (data: unknown): data is GoalProgress =>
+  isValidForSchema(GOAL_PROGRESS_SCHEMA, data);
+
+export const validateAppSettings = (data: unknown): data is AppSettings =>
+  isValidForSchema(APP_SETTINGS_SCHEMA, data);
+
+export const validateMigrationLogEntry = (data: unknown): data is MigrationLogEntry =>
+  isValidForSchema(MIGRATION_LOG_ENTRY_SCHEMA, data);
+
+/**
+ * Schema of the value stored under each key. Collections are checked
+ * record by record, so one bad record is quarantined on its own.
+ */
+export const STORAGE_SCHEMAS: Record<string, Schema<unknown>> = {
+  [STORAGE_CONFIG.KEYS.MOOD_ENTRIES]: arraySchema(MOOD_ENTRY_SCHEMA),
+  [STORAGE_CONFIG.KEYS.COMPUTED_SCORES]: arraySchema(CACHED_ENTRY_SCORES_SCHEMA),
+  [STORAGE_CONFIG.KEYS.DRIVER_ANALYSIS]: nullableSchema(DRIVER_ANALYSIS_SCHEMA),
+  [STORAGE_CONFIG.KEYS.POWER_HOUR_HEATMAP]: nullableSchema(POWER_HOUR_HEATMAP_SCHEMA),
+  [STORAGE_CONFIG.KEYS.COACH_TIPS]: arraySchema(COACH_TIP_SCHEMA),
+  [STORAGE_CONFIG.KEYS.SETTINGS]: APP_SETTINGS_SCHEMA,
+  [STORAGE_CONFIG.KEYS.ANOMALIES]: arraySchema(ANOMALY_SCHEMA),
+  [STORAGE_CONFIG.KEYS.STUDY_TASKS]: arraySchema(STUDY_TASK_SCHEMA),
+  [STORAGE_CONFIG.KEYS.STUDY_PLAN]: nullableSchema(STUDY_PLAN_SCHEMA),
+  [STORAGE_CONFIG.KEYS.GOALS]: arraySchema(GOAL_SCHEMA),
+  [STORAGE_CONFIG.KEYS.GOAL_HISTORY]: arraySchema(GOAL_PROGRESS_SCHEMA),
+  [STORAGE_CONFIG.KEYS.MIGRATION_LOG]: arraySchema(MIGRATION_LOG_ENTRY_SCHEMA),
+  [STORAGE_CONFIG.KEYS.QUARANTINE]: arraySchema(QUARANTINED_RECORD_SCHEMA),
+  [STORAGE_CONFIG.KEYS.TRASH]: arraySchema(TRASHED_ENTRY_SCHEMA),
+  [STORAGE_CONFIG.KEYS.ENTRY_REVISIONS]: arraySchema(ENTRY_REVISION_SCHEMA)
 };
 
 /**
  * Core storage utilities
  */
 export class StorageManager {
+  private static adapter: StorageAdapter = new LocalStorageAdapter();
+  private static ready: Promise<StorageAdapter> | null = null;
+
   /**
-   * Check if localStorage is available
+   * Open the preferred storage backend
+   * 
+   * Uses IndexedDB when the browser allows it and moves any CampusThrive
+   * keys still in localStorage into it; otherwise stays on localStorage,
+   * or falls back to memory. Repeated calls share the first call's result.
    */
-  static isAvailable(): boolean {
+  static initialize(): Promise<StorageAdapter> {
+    if (!this.ready) {
+      this.ready = this.openPreferredAdapter();
+    }
+    return this.ready;
+  }
+
+  /**
+   * Use a specific backend (tests, or an explicit user choice)
+   */
+  static setAdapter(adapter: StorageAdapter): void {
+    this.adapter = adapter;
+    this.ready = Promise.resolve(adapter);
+  }
+
+  /**
+   * The backend currently in use
+   */
+  static getAdapter(): StorageAdapter {
+    return this.adapter;
+  }
+
+  /**
+   * Wait until every write so far is persisted
+   */
+  static flush(): Promise<void> {
+    return this.adapter.flush();
+  }
+
+  private static async openPreferredAdapter(): Promise<StorageAdapter> {
+    const local = new LocalStorageAdapter();
+    const localAvailable = typeof window !== 'undefined' && local.isAvailable();
+
+    if (typeof window !== 'undefined' && IndexedDBAdapter.isSupported()) {
+      const indexed = new IndexedDBAdapter();
+      try {
+        await indexed.init();
+        if (localAvailable) {
+          const moved = await this.migrateAdapter(local, indexed);
+          if (moved > 0) {
+            console.log(`Moved ${moved} keys from localStorage to IndexedDB`);
+          }
+        }
+        this.adapter = indexed;
+        return indexed;
+      } catch (error) {
+        console.warn('IndexedDB unavailable, staying on localStorage:', error);
+      }
+    }
+
+    this.adapter = localAvailable ? local : new MemoryStorageAdapter();
+    return this.adapter;
+  }
+
+  /**
+   * Move CampusThrive keys from one backend to another
+   * 
+   * Switches to the target before copying, so writes made while the copy
+   * is being flushed land in the target rather than in keys about to be
+   * removed. Keys are removed from the source only after the target has
+   * persisted them; if that fails, the target's current values are written
+   * back and the source stays in use, so the migration is retried on the
+   * next load. Returns the number of keys moved.
+   */
+  static async migrateAdapter(source: StorageAdapter, target: StorageAdapter): Promise<number> {
+    const keys = Object.values(STORAGE_CONFIG.KEYS);
+    this.adapter = target;
+    const moved = copyAdapterKeys(source, target, keys);
+
     try {
-      const test = '__storage_test__';
-      localStorage.setItem(test, test);
-      localStorage.removeItem(test);
-      return true;
-    } catch {
-      return false;
+      await target.flush();
+    } catch (error) {
+      keys.forEach(key => {
+        const value = target.getItem(key);
+        if (value === null) {
+          source.removeItem(key);
+        } else {
+          source.setItem(key, value);
+        }
+      });
+      this.adapter = source;
+      throw error;
     }
+
+    moved.forEach(key => source.removeItem(key));
+    return moved.length;
+  }
+
+  /**
+   * Check if the storage backend is available
+   */
+  static isAvailable(): boolean {
+    return this.adapter.isAvailable();
   }
 
   /**
@@ -149,14 +348,13 @@ export class StorageManager {
     }
 
     let used = 0;
-    for (const key in localStorage) {
-      if (localStorage.hasOwnProperty(key)) {
-        used += localStorage[key].length + key.length;
-      }
+    for (const key of this.adapter.keys()) {
+      used += (this.adapter.getItem(key)?.length ?? 0) + key.length;
     }
 
-    const available = STORAGE_CONFIG.MAX_STORAGE_SIZE - used;
-    const percentage = (used / STORAGE_CONFIG.MAX_STORAGE_SIZE) * 100;
+    const { maxSize } = this.adapter;
+    const available = maxSize - used;
+    const percentage = Number.isFinite(maxSize) ? (used / maxSize) * 100 : 0;
 
     return { used, available, percentage };
   }
@@ -174,17 +372,12 @@ export class StorageManager {
         return { success: true, data: defaultValue };
       }
 
-      const item = localStorage.getItem(key);
+      const item = this.adapter.getItem(key);
       if (!item) {
         return { success: true, data: defaultValue };
       }
 
-      const parsed = JSON.parse(item);
-      
-      // Handle date deserialization
-      if (parsed && typeof parsed === 'object') {
-        this.deserializeDates(parsed);
-      }
+      const parsed = this.parse(item);
 
       if (validator(parsed)) {
         return { success: true, data: parsed };
@@ -193,7 +386,7 @@ export class StorageManager {
         return { success: true, data: defaultValue };
       }
     } catch (error) {
-      console.error(`Error reading from localStorage for key ${key}:`, error);
+      console.error(`Error reading from ${this.adapter.backend} for key ${key}:`, error);
       return { 
         success: false, 
         error: new StorageError(
@@ -206,241 +399,1427 @@ export class StorageManager {
   }
 
   /**
-   * Generic storage setter with error handling
+   * Storage getter that checks the value against a schema
+   * 
+   * Values that fail are moved to the quarantine with their issues instead
+   * of being discarded: a collection keeps its valid records and sets the
+   * others aside one by one; any other value falls back to the default.
+   * If the quarantine cannot be written, nothing is moved.
+   */
+  static getValidatedItem<T>(key: string, schema: Schema<T>, defaultValue: T): StorageResult<T> {
+    const result = this.getItem(key, (_data: unknown): _data is unknown => true, defaultValue as unknown);
+    if (!result.success) {
+      return result;
+    }
+
+    const validation = validateSchema(schema, result.data);
+    if (validation.valid) {
+      return { success: true, data: validation.value };
+    }
+
+    console.warn(`Invalid data for key ${key}: ${validation.issues.map(formatSchemaIssue).join('; ')}`);
+
+    if (schema.element && Array.isArray(result.data)) {
+      const element = schema.element;
+      const valid: unknown[] = [];
+      const rejected: Array<{ value: unknown; issues: SchemaIssue[] }> = [];
+      result.data.forEach(record => {
+        const issues = element.check(record, '');
+        if (issues.length === 0) {
+          valid.push(record);
+        } else {
+          rejected.push({ value: record, issues });
+        }
+      });
+
+      if (QuarantineManager.add(key, rejected, true).success) {
+        this.setItem(key, valid);
+      }
+      return { success: true, data: valid as T };
+    }
+
+    if (QuarantineManager.add(key, [{ value: result.data, issues: validation.issues }], false).success) {
+      this.removeItem(key);
+    }
+    return { success: true, data: defaultValue };
+  }
+
+  /**
+   * Parse a stored JSON string, restoring ISO date strings to Dates
+   */
+  static parse(raw: string): unknown {
+    const parsed = JSON.parse(raw);
+
+    if (parsed && typeof parsed === 'object') {
+      this.deserializeDates(parsed);
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Generic storage setter with error handling
+   */
+  static setItem<T>(key: string, value: T): StorageResult<void> {
+    try {
+      if (!this.isAvailable()) {
+        throw new Error(`${this.adapter.backend} is not available`);
+      }
+
+      // Check storage quota before writing; the old value is replaced
+      const currentSize = this.getStorageInfo().used;
+      const serialized = JSON.stringify(value);
+      const newSize = currentSize - (this.adapter.getItem(key)?.length ?? 0) + serialized.length;
+
+      if (newSize > this.adapter.maxSize) {
+        throw new StorageError(
+          'Storage quota exceeded. Please clean up old data.',
+          'QUOTA_EXCEEDED'
+        );
+      }
+
+      this.adapter.setItem(key, serialized);
+      return { success: true, data: undefined };
+    } catch (error) {
+      if (error instanceof StorageError) {
+        return { success: false, error };
+      }
+      
+      return { 
+        success: false, 
+        error: new StorageError(
+          `Failed to save data for key ${key}`,
+          'QUOTA_EXCEEDED',
+          error as Error
+        )
+      };
+    }
+  }
+
+  /**
+   * Remove item from storage
+   */
+  static removeItem(key: string): void {
+    if (this.isAvailable()) {
+      this.adapter.removeItem(key);
+    }
+  }
+
+  /**
+   * Clear all CampusThrive data (see `EntryManager.clearAll`)
+   */
+  static clearAll(): StorageResult<void> {
+    if (!this.isAvailable()) return { success: true, data: undefined };
+    return EntryManager.clearAll();
+  }
+
+  /**
+   * Deserialize dates in objects
+   */
+  private static deserializeDates(obj: Record<string, unknown>): void {
+    if (!obj || typeof obj !== 'object') return;
+
+    for (const key in obj) {
+      if (obj.hasOwnProperty(key)) {
+        const value = obj[key];
+        
+        if (typeof value === 'string' && this.isISODateString(value)) {
+          obj[key] = new Date(value);
+        } else if (Array.isArray(value)) {
+          value.forEach(item => this.deserializeDates(item as Record<string, unknown>));
+        } else if (value && typeof value === 'object') {
+          this.deserializeDates(value as Record<string, unknown>);
+        }
+      }
+    }
+  }
+
+  /**
+   * Check if string is ISO date format
+   */
+  private static isISODateString(str: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/.test(str);
+  }
+
+  /**
+   * Clean up expired data
+   * 
+   * Mood entries older than the retention period in app settings are
+   * moved to the trash, where they can be restored or the move undone; a
+   * period of 0 days keeps them forever. Trashed entries past the trash
+   * retention period are purged, which is the only place entries are
+   * deleted for good.
+   */
+  static cleanupExpiredData(): { removed: number; freed: number } {
+    let removed = 0;
+    let freed = 0;
+
+    try {
+      const purged = EntryManager.purgeExpiredTrash();
+      removed += purged;
+      freed += purged * 200; // ~200 bytes per entry
+
+      const retentionDays = this.getAppSettings()?.dataRetention.moodEntriesDays
+        ?? STORAGE_CONFIG.MOOD_ENTRIES_RETENTION_DAYS;
+      if (retentionDays <= 0) {
+        return { removed, freed };
+      }
+
+      const cutoffDate = new Date();
+      cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+      const expiredIds = EntryManager.getEntries()
+        .filter(entry => new Date(entry.timestamp) < cutoffDate)
+        .map(entry => entry.id);
+
+      const trashResult = EntryManager.deleteEntries(expiredIds);
+      if (trashResult.success) {
+        removed += trashResult.data;
+      } else {
+        console.error('Could not move expired entries to the trash:', trashResult.error.message);
+      }
+
+    } catch (error) {
+      console.error('Error during cleanup:', error);
+    }
+
+    return { removed, freed };
+  }
+
+  /**
+   * Free space when storage is near capacity
+   * 
+   * Only drops data that is rebuilt from mood entries on the next read
+   * (score cache, driver analysis, heatmap, coach tips). Mood entries,
+   * goals and settings are never removed to make room; a write that still
+   * does not fit fails with QUOTA_EXCEEDED.
+   */
+  static forceCleanup(): { removed: number; freed: number } {
+    const info = this.getStorageInfo();
+    
+    if (info.percentage < STORAGE_CONFIG.CLEANUP_THRESHOLD_PERCENT) {
+      return { removed: 0, freed: 0 };
+    }
+
+    let removed = 0;
+    let freed = 0;
+
+    DERIVED_KEYS.forEach(key => {
+      const item = this.adapter.getItem(key);
+      if (item !== null) {
+        this.adapter.removeItem(key);
+        removed++;
+        freed += key.length + item.length;
+      }
+    });
+
+    return { removed, freed };
+  }
+
+  /**
+   * Read stored app settings, or null when none are saved
+   */
+  static getAppSettings(): AppSettings | null {
+    const result = this.getValidatedItem<AppSettings | null>(
+      STORAGE_CONFIG.KEYS.SETTINGS,
+      nullableSchema(APP_SETTINGS_SCHEMA),
+      null
+    );
+
+    return result.success ? result.data : null;
+  }
+
+  /**
+   * Resolve the user's active scoring profile from stored settings
+   */
+  static getActiveScoringProfile(): ScoringProfile {
+    const settings = this.getAppSettings();
+
+    return resolveScoringProfile(
+      [...BUILT_IN_SCORING_PROFILES, ...(settings?.scoringProfiles ?? [])],
+      settings?.activeScoringProfileId
+    );
+  }
+}
+
+/**
+ * Records set aside by schema validation
+ * 
+ * Reads never delete data that fails its schema: the record is stored here
+ * with its issues until the user repairs it back into place or drops it.
+ */
+export class QuarantineManager {
+  private static listeners = new Set<() => void>();
+
+  /**
+   * Listen for records being added, repaired or dropped in this tab
+   */
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Read quarantined records, oldest first
+   * 
+   * Stored records that are themselves damaged are skipped here but stay
+   * in storage, since `add` and `drop` write back everything they read.
+   */
+  static getRecords(): QuarantinedRecord[] {
+    return this.readStored().filter((record): record is QuarantinedRecord =>
+      isValidForSchema(QUARANTINED_RECORD_SCHEMA, record)
+    );
+  }
+
+  /**
+   * Every stored quarantine record, readable or not
+   */
+  private static readStored(): unknown[] {
+    // Read without schema validation, so a bad quarantine entry cannot
+    // quarantine itself
+    const result = StorageManager.getItem(
+      STORAGE_CONFIG.KEYS.QUARANTINE,
+      (data): data is unknown => data !== null,
+      [] as unknown
+    );
+
+    if (!result.success) return [];
+    return Array.isArray(result.data) ? result.data : [result.data];
+  }
+
+  /**
+   * Quarantine records read from a key
+   */
+  static add(
+    key: string,
+    records: Array<{ value: unknown; issues: SchemaIssue[] }>,
+    isElement: boolean
+  ): StorageResult<QuarantinedRecord[]> {
+    const added: QuarantinedRecord[] = records.map(record => ({
+      id: `quarantine_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      key,
+      isElement,
+      value: record.value,
+      issues: record.issues,
+      quarantinedAt: new Date()
+    }));
+
+    const saveResult = StorageManager.setItem(STORAGE_CONFIG.KEYS.QUARANTINE, [...this.readStored(), ...added]);
+    if (!saveResult.success) {
+      return { success: false, error: saveResult.error };
+    }
+
+    this.listeners.forEach(listener => listener());
+    return { success: true, data: added };
+  }
+
+  /**
+   * Schema a quarantined record must pass to be restored
+   */
+  static getSchema(record: QuarantinedRecord): Schema<unknown> | null {
+    const schema = STORAGE_SCHEMAS[record.key];
+    if (!schema) return null;
+    return record.isElement ? schema.element ?? null : schema;
+  }
+
+  /**
+   * Put a corrected record back where it came from
+   * 
+   * `json` is the edited record. Collection records are appended to their
+   * collection; a whole value replaces what is stored under its key.
+   */
+  static repair(recordId: string, json: string): StorageResult<void> {
+    const record = this.getRecords().find(r => r.id === recordId);
+    const schema = record ? this.getSchema(record) : null;
+    if (!record || !schema) {
+      return { success: false, error: new StorageError('Quarantined record not found', 'INVALID_DATA') };
+    }
+
+    let value: unknown;
+    try {
+      value = StorageManager.parse(json);
+    } catch (error) {
+      return {
+        success: false,
+        error: new StorageError(`Not valid JSON: ${(error as Error).message}`, 'INVALID_DATA', error as Error)
+      };
+    }
+
+    const validation = validateSchema(schema, value);
+    if (!validation.valid) {
+      return {
+        success: false,
+        error: new StorageError(validation.issues.map(formatSchemaIssue).join('; '), 'INVALID_DATA')
+      };
+    }
+
+    let restored = value;
+    if (record.isElement) {
+      const current = StorageManager.getItem(record.key, (data): data is unknown[] => Array.isArray(data), []);
+      restored = [...(current.success ? current.data : []), value];
+    }
+
+    const saveResult = StorageManager.setItem(record.key, restored);
+    if (!saveResult.success) {
+      return saveResult;
+    }
+
+    if (record.key === STORAGE_CONFIG.KEYS.MOOD_ENTRIES) {
+      // A restored entry changes later baselines; rebuild the score cache
+      ScoreCacheManager.invalidate();
+    }
+
+    return this.drop(recordId);
+  }
+
+  /**
+   * Permanently delete a quarantined record
+   */
+  static drop(recordId: string): StorageResult<void> {
+    const saveResult = StorageManager.setItem(
+      STORAGE_CONFIG.KEYS.QUARANTINE,
+      this.readStored().filter(record =>
+        !(isValidForSchema(QUARANTINED_RECORD_SCHEMA, record) && record.id === recordId)
+      )
+    );
+
+    if (saveResult.success) {
+      this.listeners.forEach(listener => listener());
+    }
+    return saveResult;
+  }
+}
+
+/**
+ * Undoable changes to mood entries and the trash bin
+ * 
+ * Edits, imports, deletions and restores go through here so each one is
+ * recorded as an action on the undo/redo stack. Deleted entries are moved
+ * to the trash, kept for the trash retention period in app settings and
+ * can be restored one at a time. The stack lives for the session; the
+ * trash is stored. Every change to an entry's fields, including undo and
+ * redo, is also written to the entry's revision history.
+ * 
+ * The score cache notices changed entries by fingerprint on its next
+ * sync, so nothing here touches it.
+ */
+export class EntryManager {
+  private static undoStack: EntryHistoryAction[] = [];
+  private static redoStack: EntryHistoryAction[] = [];
+  private static listeners = new Set<() => void>();
+
+  /**
+   * Listen for entry, trash and undo/redo stack changes in this tab
+   */
+  static subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Read stored mood entries
+   */
+  static getEntries(): MoodEntry[] {
+    const result = StorageManager.getValidatedItem(
+      STORAGE_CONFIG.KEYS.MOOD_ENTRIES,
+      arraySchema(MOOD_ENTRY_SCHEMA),
+      [] as MoodEntry[]
+    );
+
+    return result.success ? result.data : [];
+  }
+
+  /**
+   * Read trashed entries, oldest deletion first
+   */
+  static getTrash(): TrashedEntry[] {
+    const result = StorageManager.getValidatedItem(
+      STORAGE_CONFIG.KEYS.TRASH,
+      arraySchema(TRASHED_ENTRY_SCHEMA),
+      [] as TrashedEntry[]
+    );
+
+    return result.success ? result.data : [];
+  }
+
+  /**
+   * Days trashed entries are kept (0 keeps them until the trash is emptied)
+   */
+  static getTrashRetentionDays(): number {
+    return StorageManager.getAppSettings()?.dataRetention.trashDays ?? STORAGE_CONFIG.TRASH_RETENTION_DAYS;
+  }
+
+  /**
+   * Next action to undo and to redo
+   */
+  static peek(): { undo: EntryHistoryAction | null; redo: EntryHistoryAction | null } {
+    return {
+      undo: this.undoStack[this.undoStack.length - 1] ?? null,
+      redo: this.redoStack[this.redoStack.length - 1] ?? null
+    };
+  }
+
+  /**
+   * Apply changes to one stored entry
+   */
+  static editEntry(update: UpdateMoodEntry): StorageResult<MoodEntry> {
+    const before = this.getEntries().find(entry => entry.id === update.id);
+    if (!before) {
+      return { success: false, error: new StorageError(`Entry ${update.id} not found`, 'INVALID_DATA') };
+    }
+
+    return this.replaceEntry(before, { ...before, ...update }, 'Edit check-in');
+  }
+
+  /**
+   * Save an edited copy of a stored entry
+   * 
+   * Unlike `editEntry`, optional fields missing from `entry` are unset.
+   */
+  static saveEntry(entry: MoodEntry): StorageResult<MoodEntry> {
+    const before = this.getEntries().find(stored => stored.id === entry.id);
+    if (!before) {
+      return { success: false, error: new StorageError(`Entry ${entry.id} not found`, 'INVALID_DATA') };
+    }
+
+    return this.replaceEntry(before, entry, 'Edit check-in');
+  }
+
+  /**
+   * Read an entry's revisions, newest first
+   */
+  static getRevisions(entryId: string): EntryRevision[] {
+    const result = StorageManager.getValidatedItem(
+      STORAGE_CONFIG.KEYS.ENTRY_REVISIONS,
+      arraySchema(ENTRY_REVISION_SCHEMA),
+      [] as EntryRevision[]
+    );
+
+    return (result.success ? result.data : [])
+      .filter(revision => revision.entryId === entryId)
+      .reverse();
+  }
+
+  /**
+   * The entry as it was just before a revision
+   * 
+   * Rolls the current entry back through that revision and every later
+   * one. Returns null when the entry or revision is unknown.
+   */
+  static getRevisionState(entryId: string, revisionId: string): MoodEntry | null {
+    const current = this.getEntries().find(entry => entry.id === entryId)
+      ?? this.getTrash().find(item => item.entry.id === entryId)?.entry;
+    const revisions = this.getRevisions(entryId);
+    const index = revisions.findIndex(revision => revision.id === revisionId);
+    if (!current || index < 0) return null;
+
+    const state: Record<string, unknown> = { ...current };
+    revisions.slice(0, index + 1).forEach(revision => {
+      revision.changedFields.forEach(field => {
+        if (field in revision.previousValues) {
+          state[field] = revision.previousValues[field];
+        } else {
+          delete state[field];
+        }
+      });
+    });
+
+    return state as unknown as MoodEntry;
+  }
+
+  /**
+   * Put an entry back the way it was before a revision
+   * 
+   * Recorded as a new edit, so it shows up in the history and can be undone.
+   */
+  static revertToRevision(entryId: string, revisionId: string): StorageResult<MoodEntry> {
+    const before = this.getEntries().find(entry => entry.id === entryId);
+    const state = this.getRevisionState(entryId, revisionId);
+    if (!before || !state) {
+      return { success: false, error: new StorageError(`Revision ${revisionId} not found`, 'INVALID_DATA') };
+    }
+
+    return this.replaceEntry(before, state, 'Revert check-in');
+  }
+
+  /**
+   * Drop the revision history of entries that are gone for good
+   */
+  static removeRevisions(entryIds: string[]): void {
+    if (entryIds.length === 0) return;
+
+    const ids = new Set(entryIds);
+    const result = StorageManager.getValidatedItem(
+      STORAGE_CONFIG.KEYS.ENTRY_REVISIONS,
+      arraySchema(ENTRY_REVISION_SCHEMA),
+      [] as EntryRevision[]
+    );
+    if (!result.success || !result.data.some(revision => ids.has(revision.entryId))) return;
+
+    StorageManager.setItem(
+      STORAGE_CONFIG.KEYS.ENTRY_REVISIONS,
+      result.data.filter(revision => !ids.has(revision.entryId))
+    );
+  }
+
+  /**
+   * Add imported entries, skipping IDs that are already stored
+   * 
+   * Returns the number of entries added.
+   */
+  static importEntries(entries: MoodEntry[]): StorageResult<number> {
+    const seen = new Set(this.getEntries().map(entry => entry.id));
+    const changes: EntryChange[] = [];
+
+    entries.forEach(entry => {
+      if (seen.has(entry.id)) return;
+      seen.add(entry.id);
+      // Parsed import files carry timestamps as strings
+      changes.push({ entryId: entry.id, before: null, after: { ...entry, timestamp: new Date(entry.timestamp) } });
+    });
+
+    if (changes.length === 0) {
+      return { success: true, data: 0 };
+    }
+
+    const result = this.perform('import', `Import ${pluralizeEntries(changes.length)}`, changes);
+    return result.success ? { success: true, data: changes.length } : result;
+  }
+
+  /**
+   * Move entries to the trash
+   * 
+   * Returns the number of entries moved; unknown IDs are ignored.
+   */
+  static deleteEntries(entryIds: string[]): StorageResult<number> {
+    const ids = new Set(entryIds);
+    const changes: EntryChange[] = this.getEntries()
+      .filter(entry => ids.has(entry.id))
+      .map(entry => ({ entryId: entry.id, before: entry, after: null }));
+
+    if (changes.length === 0) {
+      return { success: true, data: 0 };
+    }
+
+    const result = this.perform('delete', `Delete ${pluralizeEntries(changes.length)}`, changes);
+    return result.success ? { success: true, data: changes.length } : result;
+  }
+
+  /**
+   * Move every entry to the trash and remove data derived from them
+   * 
+   * The deletion is one undoable action. App settings (scoring profiles,
+   * academic calendar, day boundary, streak and sleep settings), revision
+   * history, the quarantine, goals, the study plan and other data the user
+   * created are kept, so undoing or restoring brings entries back with
+   * their history. Nothing is removed when the entries cannot be moved.
+   */
+  static clearAll(): StorageResult<void> {
+    const deleteResult = this.deleteEntries(this.getEntries().map(entry => entry.id));
+    if (!deleteResult.success) {
+      return { success: false, error: deleteResult.error };
+    }
+
+    DERIVED_KEYS.forEach(key => StorageManager.removeItem(key));
+    return { success: true, data: undefined };
+  }
+
+  /**
+   * Move one entry from the trash back into the stored entries
+   */
+  static restoreEntry(entryId: string): StorageResult<MoodEntry> {
+    const trashed = this.getTrash().find(item => item.entry.id === entryId);
+    if (!trashed) {
+      return { success: false, error: new StorageError(`Entry ${entryId} is not in the trash`, 'INVALID_DATA') };
+    }
+    if (this.getEntries().some(entry => entry.id === entryId)) {
+      return { success: false, error: new StorageError(`An entry with ID ${entryId} already exists`, 'INVALID_DATA') };
+    }
+
+    const result = this.perform('restore', 'Restore check-in', [{ entryId, before: null, after: trashed.entry }]);
+    return result.success ? { success: true, data: trashed.entry } : result;
+  }
+
+  /**
+   * Permanently delete trashed entries (all of them when no IDs are given)
+   * 
+   * Their revision history and any undo steps that could bring them back
+   * are discarded too.
+   */
+  static purgeTrash(entryIds?: string[]): StorageResult<number> {
+    const trash = this.getTrash();
+    const purged = new Set(entryIds ?? trash.map(item => item.entry.id));
+    const kept = trash.filter(item => !purged.has(item.entry.id));
+
+    const saveResult = StorageManager.setItem(STORAGE_CONFIG.KEYS.TRASH, kept);
+    if (!saveResult.success) {
+      return saveResult;
+    }
+    this.removeRevisions([...purged]);
+
+    const touchesPurged = (action: EntryHistoryAction) => action.changes.some(change => purged.has(change.entryId));
+    this.undoStack = this.undoStack.filter(action => !touchesPurged(action));
+    this.redoStack = this.redoStack.filter(action => !touchesPurged(action));
+
+    this.listeners.forEach(listener => listener());
+    return { success: true, data: trash.length - kept.length };
+  }
+
+  /**
+   * Purge trashed entries older than the trash retention period
+   * 
+   * Returns the number of entries purged.
+   */
+  static purgeExpiredTrash(now: Date = new Date()): number {
+    const retentionDays = this.getTrashRetentionDays();
+    if (retentionDays <= 0) return 0;
+
+    const cutoffDate = new Date(now);
+    cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
+
+    const expired = this.getTrash()
+      .filter(item => item.deletedAt < cutoffDate)
+      .map(item => item.entry.id);
+    if (expired.length === 0) return 0;
+
+    const result = this.purgeTrash(expired);
+    return result.success ? result.data : 0;
+  }
+
+  /**
+   * Revert the most recent action
+   * 
+   * Returns the undone action, or null when there is nothing to undo.
+   */
+  static undo(): StorageResult<EntryHistoryAction | null> {
+    const action = this.undoStack[this.undoStack.length - 1];
+    if (!action) return { success: true, data: null };
+
+    const result = this.apply(action, true);
+    if (!result.success) return result;
+
+    this.undoStack.pop();
+    this.redoStack.push(action);
+    this.listeners.forEach(listener => listener());
+    return { success: true, data: action };
+  }
+
+  /**
+   * Apply the most recently undone action again
+   * 
+   * Returns the redone action, or null when there is nothing to redo.
+   */
+  static redo(): StorageResult<EntryHistoryAction | null> {
+    const action = this.redoStack[this.redoStack.length - 1];
+    if (!action) return { success: true, data: null };
+
+    const result = this.apply(action, false);
+    if (!result.success) return result;
+
+    this.redoStack.pop();
+    this.undoStack.push(action);
+    this.listeners.forEach(listener => listener());
+    return { success: true, data: action };
+  }
+
+  /**
+   * Forget every undo and redo step
+   */
+  static clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Validate and save a changed version of an entry as an edit
+   */
+  private static replaceEntry(before: MoodEntry, after: MoodEntry, label: string): StorageResult<MoodEntry> {
+    const validation = validateSchema(MOOD_ENTRY_SCHEMA, after);
+    if (!validation.valid) {
+      return {
+        success: false,
+        error: new StorageError(validation.issues.map(formatSchemaIssue).join('; '), 'INVALID_DATA')
+      };
+    }
+
+    // Nothing changed; keep the history free of empty edits
+    if (getChangedFields(before, validation.value).length === 0) {
+      return { success: true, data: before };
+    }
+
+    const result = this.perform('edit', label, [{ entryId: before.id, before, after: validation.value }]);
+    return result.success ? { success: true, data: validation.value } : result;
+  }
+
+  /**
+   * Apply a new action and put it on the undo stack
+   */
+  private static perform(
+    kind: EntryHistoryAction['kind'],
+    label: string,
+    changes: EntryChange[]
+  ): StorageResult<EntryHistoryAction> {
+    const action: EntryHistoryAction = {
+      id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      kind,
+      label,
+      changes,
+      performedAt: new Date()
+    };
+
+    const result = this.apply(action, false);
+    if (!result.success) return result;
+
+    this.undoStack = [...this.undoStack, action].slice(-STORAGE_CONFIG.ENTRY_HISTORY_LIMIT);
+    this.redoStack = [];
+    this.listeners.forEach(listener => listener());
+    return { success: true, data: action };
+  }
+
+  /**
+   * Write an action's changes (or reverse them) to the entries and trash
+   * 
+   * Entries removed by a deletion, or by undoing a restore, go to the
+   * trash; entries that come back are taken out of it. Entries whose
+   * fields change get a revision. Writes go revisions, trash, entries;
+   * if one fails, the ones before it are put back.
+   */
+  private static apply(action: EntryHistoryAction, reverse: boolean): StorageResult<void> {
+    const movesToTrash = reverse ? action.kind === 'restore' : action.kind === 'delete';
+    const entries = new Map(this.getEntries().map(entry => [entry.id, entry]));
+    const previousTrash = this.getTrash();
+    const trash = new Map(previousTrash.map(item => [item.entry.id, item]));
+    const revisionsResult = StorageManager.getValidatedItem(
+      STORAGE_CONFIG.KEYS.ENTRY_REVISIONS,
+      arraySchema(ENTRY_REVISION_SCHEMA),
+      [] as EntryRevision[]
+    );
+    const previousRevisions = revisionsResult.success ? revisionsResult.data : [];
+    const revisions: EntryRevision[] = [];
+    const now = new Date();
+
+    action.changes.forEach(change => {
+      const from = reverse ? change.after : change.before;
+      const to = reverse ? change.before : change.after;
+
+      if (from && to) {
+        const changedFields = getChangedFields(from, to);
+        if (changedFields.length > 0) {
+          revisions.push({
+            id: `revision_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            entryId: change.entryId,
+            editedAt: now,
+            changedFields,
+            previousValues: Object.fromEntries(
+              changedFields.filter(field => from[field] !== undefined).map(field => [field, from[field]])
+            )
+          });
+        }
+      }
+
+      if (to) {
+        entries.set(change.entryId, to);
+        trash.delete(change.entryId);
+      } else {
+        entries.delete(change.entryId);
+        if (from && movesToTrash) {
+          trash.set(change.entryId, { entry: from, deletedAt: now });
+        }
+      }
+    });
+
+    const writes: Array<{ key: string; value: unknown; previous: unknown }> = [
+      ...(revisions.length > 0
+        ? [{ key: STORAGE_CONFIG.KEYS.ENTRY_REVISIONS, value: [...previousRevisions, ...revisions], previous: previousRevisions }]
+        : []),
+      { key: STORAGE_CONFIG.KEYS.TRASH, value: [...trash.values()], previous: previousTrash },
+      { key: STORAGE_CONFIG.KEYS.MOOD_ENTRIES, value: [...entries.values()], previous: null }
+    ];
+
+    for (let index = 0; index < writes.length; index++) {
+      const result = StorageManager.setItem(writes[index]!.key, writes[index]!.value);
+      if (!result.success) {
+        writes.slice(0, index).reverse().forEach(write => StorageManager.setItem(write.key, write.previous));
+        return result;
+      }
+    }
+
+    return { success: true, data: undefined };
+  }
+}
+
+/**
+ * Fields that differ between two versions of an entry (never `id`)
+ */
+function getChangedFields(before: MoodEntry, after: MoodEntry): Array<keyof MoodEntry> {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)] as Array<keyof MoodEntry>);
+  fields.delete('id');
+
+  return [...fields].filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
+
+/**
+ * "1 entry" / "3 entries"
+ */
+function pluralizeEntries(count: number): string {
+  return `${count} ${count === 1 ? 'entry' : 'entries'}`;
+}
+
+/**
+ * Persisted per-entry score cache
+ * 
+ * Stored under the computed scores key, one row per entry, oldest first.
+ * Rows carry fingerprints of the entry and the scoring profile, so edited
+ * entries and profile changes are detected on the next sync and only the
+ * affected rows are recomputed (see `updateScoreCache`).
+ */
+export class ScoreCacheManager {
+  /**
+   * Read the cached rows, discarding data in any other format
+   * (e.g. daily averages written by older versions)
+   */
+  static getCachedScores(): CachedEntryScores[] {
+    const result = StorageManager.getItem(
+      STORAGE_CONFIG.KEYS.COMPUTED_SCORES,
+      (data): data is CachedEntryScores[] => Array.isArray(data) && data.every(validateCachedEntryScores),
+      []
+    );
+
+    return result.success ? result.data : [];
+  }
+
+  /**
+   * Bring the cached rows up to date with the entries and profile without
+   * writing; `changed` tells whether they need saving
+   */
+  static compute(
+    entries: MoodEntry[],
+    profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+  ): { scores: CachedEntryScores[]; changed: boolean } {
+    const cached = this.getCachedScores();
+    const { scores, recomputed } = updateScoreCache(cached, entries, profile);
+
+    return { scores, changed: recomputed > 0 || scores.length !== cached.length };
+  }
+
+  /**
+   * Persist cache rows from `compute`
+   */
+  static save(scores: CachedEntryScores[]): StorageResult<void> {
+    return StorageManager.setItem(STORAGE_CONFIG.KEYS.COMPUTED_SCORES, scores);
+  }
+
+  /**
+   * Bring the cache up to date with the entries and profile, persisting it
+   * when anything changed
+   */
+  static sync(
+    entries: MoodEntry[],
+    profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+  ): StorageResult<CachedEntryScores[]> {
+    const { scores, changed } = this.compute(entries, profile);
+
+    if (changed) {
+      const saveResult = this.save(scores);
+      if (!saveResult.success) {
+        return { success: false, error: saveResult.error };
+      }
+    }
+
+    return { success: true, data: scores };
+  }
+
+  /**
+   * Drop the cache so the next sync rescores every entry
+   */
+  static invalidate(): void {
+    StorageManager.removeItem(STORAGE_CONFIG.KEYS.COMPUTED_SCORES);
+  }
+
+  /**
+   * Index cache rows by entry ID
+   */
+  static toLookup(scores: CachedEntryScores[]): Map<string, CachedEntryScores> {
+    return new Map(scores.map(row => [row.entryId, row]));
+  }
+}
+
+/**
+ * Persisted anomaly alerts
+ * 
+ * Detection runs over the full history on every sync; the stored copy
+ * remembers when each anomaly was first seen and whether it was dismissed.
+ */
+export class AnomalyManager {
+  /**
+   * Read stored anomalies, newest first
    */
-  static setItem<T>(key: string, value: T): StorageResult<void> {
-    try {
-      if (!this.isAvailable()) {
-        throw new Error('localStorage is not available');
-      }
+  static getAnomalies(): Anomaly[] {
+    const result = StorageManager.getValidatedItem(
+      STORAGE_CONFIG.KEYS.ANOMALIES,
+      arraySchema(ANOMALY_SCHEMA),
+      [] as Anomaly[]
+    );
+
+    return result.success ? result.data : [];
+  }
 
-      // Check storage quota before writing
-      const currentSize = this.getStorageInfo().used;
-      const serialized = JSON.stringify(value);
-      const newSize = currentSize + serialized.length;
+  /**
+   * Detect anomalies in the current data and merge them with the stored
+   * ones without writing; `changed` tells whether they need saving
+   */
+  static detect(
+    entries: MoodEntry[],
+    scores: Map<string, ComputedScores>,
+    summaries: DailySummary[],
+    dayStartHour: number = DEFAULT_DAY_START_HOUR
+  ): { anomalies: Anomaly[]; changed: boolean } {
+    const stored = this.getAnomalies();
+    const anomalies = mergeAnomalies(stored, detectAnomalies(entries, scores, summaries, { dayStartHour }));
+
+    return { anomalies, changed: JSON.stringify(anomalies) !== JSON.stringify(stored) };
+  }
 
-      if (newSize > STORAGE_CONFIG.MAX_STORAGE_SIZE) {
-        throw new StorageError(
-          'Storage quota exceeded. Please clean up old data.',
-          'QUOTA_EXCEEDED'
-        );
-      }
+  /**
+   * Persist anomalies from `detect`
+   */
+  static save(anomalies: Anomaly[]): StorageResult<void> {
+    return StorageManager.setItem(STORAGE_CONFIG.KEYS.ANOMALIES, anomalies);
+  }
 
-      localStorage.setItem(key, serialized);
-      return { success: true, data: undefined };
-    } catch (error) {
-      if (error instanceof StorageError) {
-        return { success: false, error };
+  /**
+   * Detect anomalies in the current data and persist them
+   */
+  static sync(
+    entries: MoodEntry[],
+    scores: Map<string, ComputedScores>,
+    summaries: DailySummary[],
+    dayStartHour: number = DEFAULT_DAY_START_HOUR
+  ): StorageResult<Anomaly[]> {
+    const { anomalies, changed } = this.detect(entries, scores, summaries, dayStartHour);
+
+    if (changed) {
+      const saveResult = this.save(anomalies);
+      if (!saveResult.success) {
+        return { success: false, error: saveResult.error };
       }
-      
-      return { 
-        success: false, 
-        error: new StorageError(
-          `Failed to save data for key ${key}`,
-          'QUOTA_EXCEEDED',
-          error as Error
-        )
-      };
     }
+
+    return { success: true, data: anomalies };
   }
 
   /**
-   * Remove item from storage
+   * Hide an anomaly from alerts; it stays dismissed across syncs
    */
-  static removeItem(key: string): void {
-    if (this.isAvailable()) {
-      localStorage.removeItem(key);
+  static dismiss(anomalyId: string): StorageResult<Anomaly[]> {
+    const anomalies = this.getAnomalies().map(anomaly =>
+      anomaly.id === anomalyId ? { ...anomaly, dismissed: true } : anomaly
+    );
+
+    const saveResult = StorageManager.setItem(STORAGE_CONFIG.KEYS.ANOMALIES, anomalies);
+    if (!saveResult.success) {
+      return { success: false, error: saveResult.error };
     }
+
+    return { success: true, data: anomalies };
   }
+}
 
+/**
+ * Persisted results of finished goal weeks
+ * 
+ * Each sync evaluates every active goal over the weeks since it was created
+ * and stores the finished weeks; stored weeks are never re-evaluated.
+ */
+export class GoalManager {
   /**
-   * Clear all CampusThrive data
+   * Read stored goal results, newest week first
    */
-  static clearAll(): void {
-    if (!this.isAvailable()) return;
-
-    Object.values(STORAGE_CONFIG.KEYS).forEach(key => {
-      localStorage.removeItem(key);
-    });
+  static getHistory(): GoalProgress[] {
+    const result = StorageManager.getValidatedItem(
+      STORAGE_CONFIG.KEYS.GOAL_HISTORY,
+      arraySchema(GOAL_PROGRESS_SCHEMA),
+      [] as GoalProgress[]
+    );
+
+    return result.success ? result.data : [];
   }
 
   /**
-   * Deserialize dates in objects
+   * Evaluate goals over the current data and merge finished weeks into the
+   * stored history without writing; `changed` tells whether it needs saving
    */
-  private static deserializeDates(obj: Record<string, unknown>): void {
-    if (!obj || typeof obj !== 'object') return;
-
-    for (const key in obj) {
-      if (obj.hasOwnProperty(key)) {
-        const value = obj[key];
-        
-        if (typeof value === 'string' && this.isISODateString(value)) {
-          obj[key] = new Date(value);
-        } else if (Array.isArray(value)) {
-          value.forEach(item => this.deserializeDates(item as Record<string, unknown>));
-        } else if (value && typeof value === 'object') {
-          this.deserializeDates(value as Record<string, unknown>);
-        }
-      }
-    }
+  static evaluate(
+    goals: Goal[],
+    summaries: DailySummary[],
+    today: Date = new Date(),
+    dayStartHour: number = DEFAULT_DAY_START_HOUR
+  ): { history: GoalProgress[]; changed: boolean } {
+    const stored = this.getHistory();
+    const evaluated = goals
+      .filter(goal => goal.active)
+      .flatMap(goal => evaluateGoalHistory(goal, summaries, today, dayStartHour));
+    const history = mergeGoalHistory(stored, evaluated, goals);
+
+    return { history, changed: JSON.stringify(history) !== JSON.stringify(stored) };
   }
 
   /**
-   * Check if string is ISO date format
+   * Persist goal history from `evaluate`
    */
-  private static isISODateString(str: string): boolean {
-    return /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z?$/.test(str);
+  static save(history: GoalProgress[]): StorageResult<void> {
+    return StorageManager.setItem(STORAGE_CONFIG.KEYS.GOAL_HISTORY, history);
   }
 
   /**
-   * Clean up expired data
+   * Evaluate goals over the current data and persist finished weeks
    */
-  static cleanupExpiredData(): { removed: number; freed: number } {
-    let removed = 0;
-    let freed = 0;
+  static sync(
+    goals: Goal[],
+    summaries: DailySummary[],
+    today: Date = new Date(),
+    dayStartHour: number = DEFAULT_DAY_START_HOUR
+  ): StorageResult<GoalProgress[]> {
+    const { history, changed } = this.evaluate(goals, summaries, today, dayStartHour);
+
+    if (changed) {
+      const saveResult = this.save(history);
+      if (!saveResult.success) {
+        return { success: false, error: saveResult.error };
+      }
+    }
 
-    try {
-      // Clean up mood entries older than retention period
-      const moodEntriesResult = this.getItem(
-        STORAGE_CONFIG.KEYS.MOOD_ENTRIES,
-        (data): data is MoodEntry[] => Array.isArray(data) && data.every(validateMoodEntry),
-        []
-      );
+    return { success: true, data: history };
+  }
+}
 
-      if (moodEntriesResult.success) {
-        const cutoffDate = new Date();
-        cutoffDate.setDate(cutoffDate.getDate() - STORAGE_CONFIG.MOOD_ENTRIES_RETENTION_DAYS);
+/**
+ * Stored values keyed by storage key, as parsed JSON (dates are still
+ * ISO strings). A missing key means nothing is stored under it.
+ */
+export type StoredData = Partial<Record<string, unknown>>;
 
-        const originalLength = moodEntriesResult.data.length;
-        const filteredEntries = moodEntriesResult.data.filter(entry => 
-          new Date(entry.timestamp) >= cutoffDate
-        );
+/**
+ * One step of the migration pipeline
+ */
+export interface StorageMigration {
+  /** Data version this migration produces (semver) */
+  version: string;
+  description: string;
+  /** Return the migrated data; set a key to undefined to remove it */
+  migrate: (data: StoredData) => StoredData;
+}
 
-        if (filteredEntries.length < originalLength) {
-          removed += originalLength - filteredEntries.length;
-          this.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, filteredEntries);
-          
-          // Calculate freed space (rough estimate)
-          freed += (originalLength - filteredEntries.length) * 200; // ~200 bytes per entry
-        }
+/**
+ * What a migration run changes, or would change in a dry run
+ */
+export interface MigrationReport {
+  fromVersion: string;
+  toVersion: string;
+  steps: Array<{ version: string; description: string; changedKeys: string[] }>;
+  changedKeys: string[];
+}
+
+/**
+ * Compare two semver strings ('1.10.0' sorts after '1.9.0')
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(part => parseInt(part, 10) || 0);
+  const partsB = b.split('.').map(part => parseInt(part, 10) || 0);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Registered migrations; order does not matter, they are applied by version
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: '1.0.0',
+    description: 'Give every mood entry an ID and a timestamp',
+    migrate: data => {
+      const entries = data[STORAGE_CONFIG.KEYS.MOOD_ENTRIES];
+      if (!Array.isArray(entries)) return data;
+
+      return {
+        ...data,
+        [STORAGE_CONFIG.KEYS.MOOD_ENTRIES]: entries.map((entry: Record<string, unknown>) => ({
+          ...entry,
+          timestamp: entry.timestamp ?? new Date().toISOString(),
+          id: entry.id || `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        }))
+      };
+    }
+  },
+  {
+    version: '1.1.0',
+    description: 'Drop computed scores stored as daily averages; the per-entry score cache is rebuilt from entries',
+    migrate: data => {
+      const scores = data[STORAGE_CONFIG.KEYS.COMPUTED_SCORES];
+      if (!Array.isArray(scores) || scores.every(row => row && typeof row === 'object' && 'entryId' in row)) {
+        return data;
       }
 
-      // Clean up computed scores older than retention period
-      const scoresResult = this.getItem(
-        STORAGE_CONFIG.KEYS.COMPUTED_SCORES,
-        (data): data is ComputedScores[] => Array.isArray(data) && data.every(validateComputedScores),
-        []
-      );
+      return { ...data, [STORAGE_CONFIG.KEYS.COMPUTED_SCORES]: undefined };
+    }
+  }
+];
 
-      if (scoresResult.success) {
-        const cutoffDate = new Date();
-        cutoffDate.setDate(cutoffDate.getDate() - STORAGE_CONFIG.COMPUTED_SCORES_RETENTION_DAYS);
+/**
+ * Keys the pipeline migrates and snapshots (everything except its own bookkeeping)
+ */
+const MIGRATED_KEYS = Object.values(STORAGE_CONFIG.KEYS).filter(key =>
+  key !== STORAGE_CONFIG.KEYS.MIGRATION_VERSION &&
+  key !== STORAGE_CONFIG.KEYS.MIGRATION_LOG &&
+  key !== STORAGE_CONFIG.KEYS.MIGRATION_SNAPSHOT
+);
 
-        const originalLength = scoresResult.data.length;
-        const filteredScores = scoresResult.data.filter((_score, index) => {
-          // For computed scores, we'll keep them if they're recent enough
-          // This is a simplified approach - in practice, you'd want to track dates
-          return index >= originalLength - 30; // Keep last 30 entries
-        });
+/**
+ * Data migration system
+ * 
+ * Migrations run in semver order over every stored key. Before a run the
+ * raw stored values are copied as a snapshot; if any step throws or a write
+ * fails, the snapshot is written back and the stored version is left
+ * unchanged. The snapshot is also stored until the run finishes, so a run
+ * interrupted mid-write is undone on the next load. Every run with work to
+ * do is recorded in the migration log.
+ */
+export class MigrationManager {
+  private static sessionFailure: StorageResult<MigrationReport> | null = null;
 
-        if (filteredScores.length < originalLength) {
-          removed += originalLength - filteredScores.length;
-          this.setItem(STORAGE_CONFIG.KEYS.COMPUTED_SCORES, filteredScores);
-          freed += (originalLength - filteredScores.length) * 100; // ~100 bytes per score
-        }
+  /**
+   * Migrations after `fromVersion` up to and including `toVersion`, in order
+   */
+  static getPendingMigrations(
+    fromVersion: string,
+    toVersion: string = STORAGE_CONFIG.CURRENT_VERSION,
+    migrations: StorageMigration[] = STORAGE_MIGRATIONS
+  ): StorageMigration[] {
+    return migrations
+      .filter(m => compareVersions(m.version, fromVersion) > 0 && compareVersions(m.version, toVersion) <= 0)
+      .sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  /**
+   * Apply migrations to data without touching storage
+   */
+  static migrate(
+    data: StoredData,
+    fromVersion: string,
+    toVersion: string = STORAGE_CONFIG.CURRENT_VERSION,
+    migrations: StorageMigration[] = STORAGE_MIGRATIONS
+  ): { data: StoredData; report: MigrationReport } {
+    let migratedData = { ...data };
+    const steps: MigrationReport['steps'] = [];
+
+    this.getPendingMigrations(fromVersion, toVersion, migrations).forEach(migration => {
+      const next = migration.migrate({ ...migratedData });
+      steps.push({
+        version: migration.version,
+        description: migration.description,
+        changedKeys: this.diffKeys(migratedData, next)
+      });
+      migratedData = next;
+    });
+
+    return {
+      data: migratedData,
+      report: {
+        fromVersion,
+        toVersion,
+        steps,
+        changedKeys: this.diffKeys(data, migratedData)
       }
+    };
+  }
 
+  /**
+   * Report what a run would change, without writing anything
+   */
+  static dryRun(
+    toVersion: string = STORAGE_CONFIG.CURRENT_VERSION,
+    migrations: StorageMigration[] = STORAGE_MIGRATIONS
+  ): StorageResult<MigrationReport> {
+    try {
+      const { report } = this.migrate(this.readStoredData(), this.getStoredVersion(), toVersion, migrations);
+      return { success: true, data: report };
     } catch (error) {
-      console.error('Error during cleanup:', error);
+      return {
+        success: false,
+        error: new StorageError(
+          `Migration dry run failed: ${(error as Error).message}`,
+          'MIGRATION_FAILED',
+          error as Error
+        )
+      };
     }
-
-    return { removed, freed };
   }
 
   /**
-   * Force cleanup when storage is near capacity
+   * Migrate stored data to `toVersion`, rolling back on failure
    */
-  static forceCleanup(): { removed: number; freed: number } {
-    const info = this.getStorageInfo();
-    
-    if (info.percentage < 80) {
-      return { removed: 0, freed: 0 };
+  static run(
+    toVersion: string = STORAGE_CONFIG.CURRENT_VERSION,
+    migrations: StorageMigration[] = STORAGE_MIGRATIONS
+  ): StorageResult<MigrationReport> {
+    const adapter = StorageManager.getAdapter();
+    const fromVersion = this.getStoredVersion();
+    const emptyReport: MigrationReport = { fromVersion, toVersion, steps: [], changedKeys: [] };
+    this.restoreInterruptedRun(fromVersion);
+
+    if (compareVersions(fromVersion, toVersion) >= 0) {
+      return { success: true, data: emptyReport };
     }
 
-    // More aggressive cleanup
-    let removed = 0;
-    let freed = 0;
+    const snapshot: Record<string, string> = {};
+    MIGRATED_KEYS.forEach(key => {
+      const raw = adapter.getItem(key);
+      if (raw !== null) snapshot[key] = raw;
+    });
 
-    try {
-      // Remove oldest 25% of mood entries
-      const moodEntriesResult = this.getItem(
-        STORAGE_CONFIG.KEYS.MOOD_ENTRIES,
-        (data): data is MoodEntry[] => Array.isArray(data) && data.every(validateMoodEntry),
-        []
-      );
+    // Nothing stored yet (first launch): just record the version
+    if (Object.keys(snapshot).length === 0) {
+      this.setStoredVersion(toVersion);
+      return { success: true, data: emptyReport };
+    }
 
-      if (moodEntriesResult.success && moodEntriesResult.data.length > 10) {
-        const keepCount = Math.floor(moodEntriesResult.data.length * 0.75);
-        const filteredEntries = moodEntriesResult.data.slice(-keepCount);
-        
-        removed += moodEntriesResult.data.length - filteredEntries.length;
-        this.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, filteredEntries);
-        freed += (moodEntriesResult.data.length - filteredEntries.length) * 200;
+    const startedAt = new Date();
+    let report = emptyReport;
+
+    try {
+      const snapshotResult = StorageManager.setItem(STORAGE_CONFIG.KEYS.MIGRATION_SNAPSHOT, {
+        version: fromVersion,
+        takenAt: startedAt,
+        items: snapshot
+      });
+      if (!snapshotResult.success) {
+        // The in-memory copy is still enough to roll back this run
+        console.warn('Pre-migration snapshot could not be stored:', snapshotResult.error.message);
       }
 
+      const data: StoredData = {};
+      Object.entries(snapshot).forEach(([key, raw]) => {
+        data[key] = JSON.parse(raw);
+      });
+
+      const result = this.migrate(data, fromVersion, toVersion, migrations);
+      report = result.report;
+
+      report.changedKeys.forEach(key => {
+        const value = result.data[key];
+        if (value === undefined) {
+          adapter.removeItem(key);
+          return;
+        }
+        const writeResult = StorageManager.setItem(key, value);
+        if (!writeResult.success) {
+          throw writeResult.error;
+        }
+      });
+
+      this.setStoredVersion(toVersion);
+      this.appendLog({ report, status: 'success', startedAt });
+      return { success: true, data: report };
     } catch (error) {
-      console.error('Error during force cleanup:', error);
-    }
+      // Restore every migrated key exactly as it was
+      MIGRATED_KEYS.forEach(key => {
+        const raw = snapshot[key];
+        if (raw !== undefined) {
+          adapter.setItem(key, raw);
+        } else {
+          adapter.removeItem(key);
+        }
+      });
 
-    return { removed, freed };
+      const message = (error as Error).message;
+      console.error(`Migration ${fromVersion} -> ${toVersion} failed and was rolled back:`, error);
+      this.appendLog({ report, status: 'rolledBack', startedAt, error: message });
+
+      return {
+        success: false,
+        error: new StorageError(
+          `Migration ${fromVersion} -> ${toVersion} failed and was rolled back: ${message}`,
+          'MIGRATION_FAILED',
+          error as Error
+        )
+      };
+    } finally {
+      adapter.removeItem(STORAGE_CONFIG.KEYS.MIGRATION_SNAPSHOT);
+    }
   }
-}
 
-/**
- * Migration system for data structure changes
- */
-export class MigrationManager {
-  private static migrations: Record<string, (data: Record<string, unknown>) => Record<string, unknown>> = {
-    '1.0.0': (data: Record<string, unknown>) => {
-      // Initial migration - ensure all required fields exist
-      if (data.moodEntries && Array.isArray(data.moodEntries)) {
-        data.moodEntries = data.moodEntries.map((entry: Record<string, unknown>) => ({
-          ...entry,
-          timestamp: entry.timestamp ? new Date(entry.timestamp as string) : new Date(),
-          id: entry.id || `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        }));
-      }
-      return data;
-    },
-  };
+  /**
+   * Undo a run that was interrupted before it finished
+   * 
+   * A stored snapshot taken at the current version means the run never
+   * bumped the version, so its keys may be half migrated; they are put back
+   * exactly as the snapshot recorded them. A snapshot left behind after the
+   * version was bumped is stale and only deleted.
+   */
+  private static restoreInterruptedRun(storedVersion: string): void {
+    const adapter = StorageManager.getAdapter();
+    const raw = adapter.getItem(STORAGE_CONFIG.KEYS.MIGRATION_SNAPSHOT);
+    if (raw === null) return;
 
-  static migrate(data: Record<string, unknown>, fromVersion: string, toVersion: string): Record<string, unknown> {
-    if (fromVersion === toVersion) {
-      return data;
+    try {
+      const snapshot = JSON.parse(raw) as { version?: unknown; items?: Record<string, unknown> };
+      if (snapshot.version === storedVersion && snapshot.items && typeof snapshot.items === 'object') {
+        const items = snapshot.items;
+        MIGRATED_KEYS.forEach(key => {
+          const value = items[key];
+          if (typeof value === 'string') {
+            adapter.setItem(key, value);
+          } else {
+            adapter.removeItem(key);
+          }
+        });
+        console.warn(`Restored data from a migration of version ${storedVersion} that did not finish`);
+      }
+    } catch (error) {
+      console.warn('Ignoring an unreadable migration snapshot:', error);
     }
 
-    let migratedData = { ...data };
-    
-    // Apply migrations in order
-    const versions = Object.keys(this.migrations).sort();
-    const fromIndex = versions.indexOf(fromVersion);
-    const toIndex = versions.indexOf(toVersion);
-
-    if (fromIndex === -1 || toIndex === -1) {
-      throw new StorageError(
-        `Invalid migration version: ${fromVersion} -> ${toVersion}`,
-        'MIGRATION_FAILED'
-      );
+    adapter.removeItem(STORAGE_CONFIG.KEYS.MIGRATION_SNAPSHOT);
+  }
+
+  /**
+   * Run pending migrations once per session
+   * 
+   * After a rolled back run the failure is returned again instead of
+   * retrying on every load; the next page load tries again.
+   */
+  static ensureCurrent(): StorageResult<MigrationReport> {
+    if (this.sessionFailure) {
+      return this.sessionFailure;
     }
 
-    for (let i = fromIndex + 1; i <= toIndex; i++) {
-      const version = versions[i];
-      if (version && this.migrations[version]) {
-        migratedData = this.migrations[version](migratedData);
-      }
+    const result = this.run();
+    if (!result.success) {
+      this.sessionFailure = result;
     }
+    return result;
+  }
 
-    return migratedData;
+  /**
+   * Recorded runs, newest first
+   */
+  static getLog(): MigrationLogEntry[] {
+    const result = StorageManager.getValidatedItem(
+      STORAGE_CONFIG.KEYS.MIGRATION_LOG,
+      arraySchema(MIGRATION_LOG_ENTRY_SCHEMA),
+      [] as MigrationLogEntry[]
+    );
+
+    return result.success ? result.data : [];
   }
 
   static getCurrentVersion(): string {
@@ -452,15 +1831,62 @@ export class MigrationManager {
       return STORAGE_CONFIG.CURRENT_VERSION;
     }
 
-    const version = localStorage.getItem(STORAGE_CONFIG.KEYS.MIGRATION_VERSION);
+    const version = StorageManager.getAdapter().getItem(STORAGE_CONFIG.KEYS.MIGRATION_VERSION);
     return version || '0.0.0';
   }
 
   static setStoredVersion(version: string): void {
     if (StorageManager.isAvailable()) {
-      localStorage.setItem(STORAGE_CONFIG.KEYS.MIGRATION_VERSION, version);
+      StorageManager.getAdapter().setItem(STORAGE_CONFIG.KEYS.MIGRATION_VERSION, version);
     }
   }
+
+  /**
+   * Parse every migrated key that has a stored value
+   */
+  private static readStoredData(): StoredData {
+    const adapter = StorageManager.getAdapter();
+    const data: StoredData = {};
+
+    MIGRATED_KEYS.forEach(key => {
+      const raw = adapter.getItem(key);
+      if (raw !== null) data[key] = JSON.parse(raw);
+    });
+
+    return data;
+  }
+
+  /**
+   * Keys whose serialized value differs between two data sets
+   */
+  private static diffKeys(before: StoredData, after: StoredData): string[] {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return [...keys].filter(key => JSON.stringify(before[key]) !== JSON.stringify(after[key]));
+  }
+
+  private static appendLog(run: {
+    report: MigrationReport;
+    status: MigrationLogEntry['status'];
+    startedAt: Date;
+    error?: string;
+  }): void {
+    const entry: MigrationLogEntry = {
+      id: `migration_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      fromVersion: run.report.fromVersion,
+      toVersion: run.report.toVersion,
+      steps: run.report.steps.map(step => step.version),
+      changedKeys: run.report.changedKeys,
+      status: run.status,
+      ...(run.error !== undefined && { error: run.error }),
+      startedAt: run.startedAt,
+      finishedAt: new Date()
+    };
+
+    StorageManager.setItem(
+      STORAGE_CONFIG.KEYS.MIGRATION_LOG,
+      [entry, ...this.getLog()].slice(0, STORAGE_CONFIG.MIGRATION_LOG_LIMIT)
+    );
+  }
 }
 
 /**
@@ -472,10 +1898,10 @@ export class DataExporter {
    */
   static exportToJSON(): StorageResult<JSONExportData> {
     try {
-      const moodEntriesResult = StorageManager.getItem(
+      const moodEntriesResult = StorageManager.getValidatedItem(
         STORAGE_CONFIG.KEYS.MOOD_ENTRIES,
-        (data): data is MoodEntry[] => Array.isArray(data) && data.every(validateMoodEntry),
-        []
+        arraySchema(MOOD_ENTRY_SCHEMA),
+        [] as MoodEntry[]
       );
 
       const computedScoresResult = StorageManager.getItem(
@@ -545,19 +1971,13 @@ export class DataExporter {
    */
   static exportToCSV(): StorageResult<CSVExportData> {
     try {
-      const moodEntriesResult = StorageManager.getItem(
+      const moodEntriesResult = StorageManager.getValidatedItem(
         STORAGE_CONFIG.KEYS.MOOD_ENTRIES,
-        (data): data is MoodEntry[] => Array.isArray(data) && data.every(validateMoodEntry),
-        []
-      );
-
-      const computedScoresResult = StorageManager.getItem(
-        STORAGE_CONFIG.KEYS.COMPUTED_SCORES,
-        (data): data is ComputedScores[] => Array.isArray(data) && data.every(validateComputedScores),
-        []
+        arraySchema(MOOD_ENTRY_SCHEMA),
+        [] as MoodEntry[]
       );
 
-      if (!moodEntriesResult.success || !computedScoresResult.success) {
+      if (!moodEntriesResult.success) {
         throw new StorageError('Failed to read data for CSV export', 'EXPORT_FAILED');
       }
 
@@ -577,17 +1997,7 @@ export class DataExporter {
           ...(entry.recoveryAction !== undefined && { recoveryAction: entry.recoveryAction }),
           ...(entry.socialTouchpoints !== undefined && { socialTouchpoints: entry.socialTouchpoints }),
         })),
-        dailyScores: computedScoresResult.data.map((score, index) => {
-          const date = new Date(Date.now() - (computedScoresResult.data.length - index - 1) * 24 * 60 * 60 * 1000);
-          return {
-            date: date.toISOString().split('T')[0]!,
-            MC: score.MC,
-            DSS: score.DSS,
-            LM: score.LM,
-            RI: score.RI,
-            CN: score.CN,
-          };
-        }),
+        dailyScores: this.getDailyScores(moodEntriesResult.data),
         metadata: {
           exportDate: new Date().toISOString(),
           totalEntries: moodEntriesResult.data.length,
@@ -642,6 +2052,18 @@ export class DataExporter {
     return csvContent;
   }
 
+  /**
+   * One row of daily scores per logical day, using the stored day boundary
+   */
+  private static getDailyScores(entries: MoodEntry[]): CSVExportData['dailyScores'] {
+    const settings = StorageManager.getAppSettings();
+    const summaries = buildDailySummaries(entries, StorageManager.getActiveScoringProfile(), {
+      dayStartHour: settings?.dayStartHour ?? DEFAULT_DAY_START_HOUR
+    });
+
+    return summaries.map(summary => ({ date: summary.date, ...summary.scores }));
+  }
+
   private static getDateRange(entries: MoodEntry[]): { start: string; end: string } {
     if (entries.length === 0) {
       const now = new Date().toISOString();
@@ -700,10 +2122,10 @@ export class DataImporter {
         StorageManager.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, jsonData.moodEntries);
         imported += jsonData.moodEntries.length;
       } else {
-        const existingResult = StorageManager.getItem(
+        const existingResult = StorageManager.getValidatedItem(
           STORAGE_CONFIG.KEYS.MOOD_ENTRIES,
-          (data): data is MoodEntry[] => Array.isArray(data) && data.every(validateMoodEntry),
-          []
+          arraySchema(MOOD_ENTRY_SCHEMA),
+          [] as MoodEntry[]
         );
 
         if (existingResult.success) {
@@ -901,95 +2323,43 @@ export class TestDataGenerator {
     return entries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   }
 
-  /**
-   * Generate computed scores for mood entries
-   */
-  static generateComputedScores(moodEntries: MoodEntry[]): ComputedScores[] {
-    const scores: ComputedScores[] = [];
-    const dailyEntries = new Map<string, MoodEntry[]>();
-
-    // Group entries by date
-    moodEntries.forEach(entry => {
-      const dateKey = entry.timestamp.toISOString().split('T')[0];
-      if (dateKey) {
-        if (!dailyEntries.has(dateKey)) {
-          dailyEntries.set(dateKey, []);
-        }
-        dailyEntries.get(dateKey)!.push(entry);
-      }
-    });
-
-    // Generate scores for each day
-    dailyEntries.forEach((entries) => {
-      const avgValence = entries.reduce((sum, e) => sum + e.valence, 0) / entries.length;
-      const avgEnergy = entries.reduce((sum, e) => sum + e.energy, 0) / entries.length;
-      const avgFocus = entries.reduce((sum, e) => sum + e.focus, 0) / entries.length;
-      const avgStress = entries.reduce((sum, e) => sum + e.stress, 0) / entries.length;
-
-      const MC = (avgValence + avgEnergy + avgFocus - avgStress) / 4;
-      const DSS = (entries.reduce((sum, e) => sum + (e.tasksCompleted || 0), 0) * 0.4) +
-                 (entries.reduce((sum, e) => sum + (e.deepworkMinutes || 0), 0) * 0.01) +
-                 (MC * 0.3);
-      const LM = avgFocus + (entries.reduce((sum, e) => sum + (e.deepworkMinutes || 0), 0) * 0.1);
-      const RI = (entries.reduce((sum, e) => sum + (e.sleepHours || 0), 0) * 0.3) +
-                 (entries.filter(e => e.recoveryAction).length * 0.2) +
-                 ((5 - avgStress) * 0.1);
-      const CN = (entries.reduce((sum, e) => sum + (e.socialTouchpoints || 0), 0) * 0.1) +
-                 (avgValence > 3 ? 0.2 : 0);
-
-      scores.push({
-        MC: Math.max(-1.25, Math.min(5, MC)),
-        DSS: Math.max(0, DSS),
-        LM: Math.max(0, LM),
-        RI: Math.max(0, Math.min(5, RI)),
-        CN: Math.max(0, CN),
-      });
-    });
-
-    return scores;
-  }
-
   /**
    * Generate sample driver analysis
    */
-  static generateDriverAnalysis(moodEntries: MoodEntry[]): DriverAnalysis {
-    const tagStats = new Map<string, { count: number; totalMC: number; entries: MoodEntry[] }>();
-
-    moodEntries.forEach(entry => {
-      const MC = (entry.valence + entry.energy + entry.focus - entry.stress) / 4;
-      
-      entry.tags.forEach(tag => {
-        if (!tagStats.has(tag)) {
-          tagStats.set(tag, { count: 0, totalMC: 0, entries: [] });
-        }
-        const stats = tagStats.get(tag)!;
-        stats.count++;
-        stats.totalMC += MC;
-        stats.entries.push(entry);
-      });
-    });
-
-    const helpfulTags = Array.from(tagStats.entries())
-      .filter(([, stats]) => stats.count >= 3)
-      .map(([tag, stats]) => ({
-        tag,
-        correlation: (stats.totalMC / stats.count) - 2.5, // Baseline MC
-        mcImprovement: stats.totalMC / stats.count,
-        occurrences: stats.count,
+  static generateDriverAnalysis(
+    moodEntries: MoodEntry[],
+    profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+    scoresById: Map<string, ComputedScores> = scoreEntriesById(moodEntries, profile)
+  ): DriverAnalysis {
+    // Only tags whose MC effect survives multiple-comparison correction
+    const drivers = analyzeDrivers(moodEntries, 3, profile, scoresById)
+      .filter(driver => driver.mcSignificance.isSignificant);
+
+    // Point-biserial correlation recovered from the t statistic
+    const correlationOf = ({ tStatistic: t, degreesOfFreedom: df }: DriverSignificance) =>
+      Number.isFinite(t) ? t / Math.sqrt(t * t + df) : Math.sign(t);
+
+    const helpfulTags = drivers
+      .filter(driver => driver.mcImpact > 0)
+      .map(driver => ({
+        tag: driver.tag,
+        correlation: correlationOf(driver.mcSignificance),
+        mcImprovement: driver.mcImpact,
+        occurrences: driver.occurrences,
+        significance: driver.mcSignificance,
       }))
-      .filter(item => item.correlation > 0.1)
       .sort((a, b) => b.correlation - a.correlation)
       .slice(0, 5);
 
-    const harmfulTags = Array.from(tagStats.entries())
-      .filter(([, stats]) => stats.count >= 3)
-      .map(([tag, stats]) => ({
-        tag,
-        correlation: (stats.totalMC / stats.count) - 2.5,
-        mcDecrease: 2.5 - (stats.totalMC / stats.count),
-        occurrences: stats.count,
+    const harmfulTags = drivers
+      .filter(driver => driver.mcImpact < 0)
+      .map(driver => ({
+        tag: driver.tag,
+        correlation: correlationOf(driver.mcSignificance),
+        mcDecrease: -driver.mcImpact,
+        occurrences: driver.occurrences,
+        significance: driver.mcSignificance,
       }))
-      .filter(item => item.correlation < -0.1)
       .sort((a, b) => a.correlation - b.correlation)
       .slice(0, 5);
 
@@ -1068,13 +2438,18 @@ export class TestDataGenerator {
   }> {
     try {
       const moodEntries = this.generateHistoricalMoodEntries(daysBack);
-      const computedScores = this.generateComputedScores(moodEntries);
-      const driverAnalysis = this.generateDriverAnalysis(moodEntries);
+      const profile = StorageManager.getActiveScoringProfile();
       const coachTips = this.generateCoachTips(moodEntries);
 
-      // Save to storage
+      // Save to storage and rebuild the score cache for the new entries
       const moodResult = StorageManager.setItem(STORAGE_CONFIG.KEYS.MOOD_ENTRIES, moodEntries);
-      const scoresResult = StorageManager.setItem(STORAGE_CONFIG.KEYS.COMPUTED_SCORES, computedScores);
+      ScoreCacheManager.invalidate();
+      const scoresResult = ScoreCacheManager.sync(moodEntries, profile);
+      const driverAnalysis = this.generateDriverAnalysis(
+        moodEntries,
+        profile,
+        scoresResult.success ? ScoreCacheManager.toLookup(scoresResult.data) : undefined
+      );
       StorageManager.setItem(STORAGE_CONFIG.KEYS.DRIVER_ANALYSIS, driverAnalysis);
       StorageManager.setItem(STORAGE_CONFIG.KEYS.COACH_TIPS, coachTips);
 
@@ -1086,7 +2461,7 @@ export class TestDataGenerator {
         success: true,
         data: {
           moodEntries: moodEntries.length,
-          computedScores: computedScores.length,
+          computedScores: scoresResult.data.length,
           coachTips: coachTips.length,
         },
       };
@@ -0,0 +1,172 @@
+/**
+ * CampusThrive Streak Engine
+ *
+ * Counts streaks over logical days (see `getDayKey`), with:
+ * - grace ("freeze") days that bridge a limited number of missed days per week
+ * - a minimum number of check-ins for a day to count in full
+ * - partial days that keep a streak alive without meeting the minimum
+ * - a full history of past streaks
+ *
+ * Days are the user's local calendar days, shifted by the day-start hour,
+ * so streaks follow the device's time zone across DST changes.
+ */
+
+import type { DailySummary, StreakPeriod, StreakSettings } from '@/types';
+import { getDayKey, daysBetweenKeys, type StreakResult } from './scoring';
+import { getDayDate, shiftDayKey, DEFAULT_DAY_START_HOUR } from './daily';
+
+/**
+ * Default rules: every calendar day needs a check-in, as before grace days
+ */
+export const DEFAULT_STREAK_SETTINGS: StreakSettings = {
+  graceDaysPerWeek: 0,
+  minEntriesPerDay: 1,
+  partialDaysKeepStreak: true
+};
+
+/**
+ * Streak result with history and the rules that produced it
+ */
+export interface StreakReport extends StreakResult {
+  /** Every streak, oldest first; the last one may be the current streak */
+  history: StreakPeriod[];
+  /** Grace days still available this week */
+  graceDaysRemaining: number;
+  /** Logical day the report was computed for */
+  todayKey: string;
+  /** IANA time zone the day boundaries were computed in */
+  timeZone: string;
+  /** Hour the logical day starts */
+  dayStartHour: number;
+}
+
+type DayStatus = 'complete' | 'partial' | 'missed';
+
+/**
+ * Monday of the week a day belongs to, used to budget grace days
+ */
+function getWeekKey(dayKey: string): string {
+  const weekday = (getDayDate(dayKey).getDay() + 6) % 7; // Monday = 0
+  return shiftDayKey(dayKey, -weekday);
+}
+
+/**
+ * Validate streak settings, returning human-readable problems
+ */
+export function getStreakSettingsErrors(settings: StreakSettings): string[] {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(settings.graceDaysPerWeek) || settings.graceDaysPerWeek < 0 || settings.graceDaysPerWeek > 6) {
+    errors.push('Grace days per week must be a whole number from 0 to 6');
+  }
+  if (!Number.isInteger(settings.minEntriesPerDay) || settings.minEntriesPerDay < 1) {
+    errors.push('Minimum check-ins per day must be at least 1');
+  }
+
+  return errors;
+}
+
+/**
+ * Calculate the streak history from check-in counts per logical day
+ *
+ * A streak starts on a complete day. Missed days use a grace day if the
+ * week has one left, otherwise they end the streak. Today never breaks a
+ * streak: until it is logged the streak is still alive, just not active.
+ */
+export function calculateStreakHistory(
+  dayCounts: Map<string, number>,
+  settings: StreakSettings = DEFAULT_STREAK_SETTINGS,
+  todayKey: string = getDayKey(new Date(), DEFAULT_DAY_START_HOUR)
+): Pick<StreakReport, 'history' | 'graceDaysRemaining' | 'currentStreak' | 'longestStreak' | 'streakStartDate' | 'isActive'> {
+  const loggedDays = Array.from(dayCounts.keys()).filter(key => (dayCounts.get(key) ?? 0) > 0).sort();
+  const graceUsed = new Map<string, number>();
+  const history: StreakPeriod[] = [];
+  let current: StreakPeriod | null = null;
+
+  const statusOf = (dayKey: string): DayStatus => {
+    const count = dayCounts.get(dayKey) ?? 0;
+    if (count >= settings.minEntriesPerDay) return 'complete';
+    if (count > 0 && settings.partialDaysKeepStreak) return 'partial';
+    return 'missed';
+  };
+
+  const firstDay = loggedDays[0];
+  const totalDays = firstDay ? daysBetweenKeys(firstDay, todayKey) : -1;
+
+  for (let offset = 0; offset <= totalDays; offset++) {
+    const dayKey = shiftDayKey(firstDay!, offset);
+    const status = statusOf(dayKey);
+
+    if (status === 'missed') {
+      // Today is still open
+      if (dayKey === todayKey) break;
+
+      const weekKey = getWeekKey(dayKey);
+      const used = graceUsed.get(weekKey) ?? 0;
+      if (current && used < settings.graceDaysPerWeek) {
+        graceUsed.set(weekKey, used + 1);
+        current.graceDays.push(dayKey);
+      } else if (current) {
+        // Grace days after the last logged day bridged nothing
+        const { endDate } = current;
+        current.graceDays = current.graceDays.filter(day => day < endDate);
+        history.push(current);
+        current = null;
+      }
+      continue;
+    }
+
+    if (!current) {
+      // Streaks start on a day that counts in full
+      if (status !== 'complete') continue;
+      current = { startDate: dayKey, endDate: dayKey, length: 0, completeDays: 0, partialDays: [], graceDays: [] };
+    }
+
+    current.endDate = dayKey;
+    current.length = daysBetweenKeys(current.startDate, dayKey) + 1;
+    if (status === 'complete') {
+      current.completeDays++;
+    } else {
+      current.partialDays.push(dayKey);
+    }
+  }
+
+  // A streak still open at today is the current streak
+  const open: StreakPeriod | null = current;
+  if (open) {
+    history.push(open);
+  }
+
+  const thisWeekUsed = graceUsed.get(getWeekKey(todayKey)) ?? 0;
+
+  return {
+    history,
+    graceDaysRemaining: Math.max(0, settings.graceDaysPerWeek - thisWeekUsed),
+    currentStreak: open ? open.length : 0,
+    longestStreak: history.reduce((max, period) => Math.max(max, period.length), 0),
+    streakStartDate: open ? open.startDate : null,
+    isActive: open !== null && open.endDate === todayKey
+  };
+}
+
+/**
+ * Calculate the streak report from daily summaries
+ */
+export function calculateStreakReport(
+  summaries: DailySummary[],
+  settings: StreakSettings = DEFAULT_STREAK_SETTINGS,
+  dayStartHour: number = DEFAULT_DAY_START_HOUR,
+  today: Date = new Date()
+): StreakReport {
+  const todayKey = getDayKey(today, dayStartHour);
+  const dayCounts = new Map(summaries.map(summary => [summary.date, summary.entryIds.length]));
+  const last = summaries[summaries.length - 1];
+
+  return {
+    ...calculateStreakHistory(dayCounts, settings, todayKey),
+    lastEntryDate: last ? last.lastEntryAt.toISOString() : null,
+    todayKey,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    dayStartHour
+  };
+}
@@ -0,0 +1,329 @@
+/**
+ * CampusThrive Trend Engine
+ *
+ * Reads the direction of a daily metric three ways:
+ * - a linear fit with a significance test, which fills `TrendAnalysis`
+ * - a LOESS curve that follows bends the line misses
+ * - change points where the level shifts (e.g. the week midterms started)
+ *
+ * Weekly seasonality is separated from the LOESS trend so a reliably
+ * rough Monday is reported as a weekday pattern, not as a trend.
+ *
+ * Days are positioned by calendar distance, so gaps in logging do not
+ * compress time.
+ */
+
+import type { DailySummary, TrendAnalysis } from '@/types';
+import { daysBetweenKeys } from './scoring';
+import { getDayDate } from './daily';
+import { mean, sampleVariance, welchTTest, cohensD, oneWayAnova, linearRegression } from './statistics';
+
+/**
+ * Daily metrics the trend engine can analyze
+ */
+export type TrendMetric = 'MC' | 'DSS' | 'LM' | 'RI' | 'CN';
+
+/**
+ * Trend engine configuration
+ */
+export const TREND_CONFIG = {
+  /** Days needed before any trend is reported */
+  MIN_DAYS: 5,
+  /** Fraction of days in each LOESS neighbourhood */
+  LOESS_SPAN: 0.5,
+  /** Significance level for trends, change points and seasonality */
+  SIGNIFICANCE_LEVEL: 0.05,
+  /** Fitted change, in standard deviations, below which a trend reads as stable */
+  STABLE_MAGNITUDE: 0.1,
+  /** Days required on each side of a change point */
+  MIN_SEGMENT_DAYS: 3,
+  /** Smallest level shift (Cohen's d) reported as a change point */
+  MIN_CHANGE_EFFECT: 0.8,
+  MAX_CHANGE_POINTS: 3,
+  /** Calendar days needed before weekly seasonality is estimated */
+  MIN_SEASONAL_DAYS: 14
+} as const;
+
+/**
+ * Weekday labels indexed like `Date.getDay()` (Sunday = 0)
+ */
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Least-squares line through a metric
+ */
+export interface LinearTrend {
+  /** Change per day */
+  slope: number;
+  intercept: number;
+  /** Two-sided p-value of the slope being zero */
+  pValue: number;
+  rSquared: number;
+}
+
+/**
+ * Day on which a metric's level shifted
+ */
+export interface ChangePoint {
+  /** First day of the new level */
+  date: string;
+  /** Mean before and after the shift, within the surrounding segment */
+  before: number;
+  after: number;
+  shift: number;
+  /** Cohen's d of the shift */
+  effectSize: number;
+  /** p-value corrected for the number of candidate days */
+  pValue: number;
+  confidence: number;
+}
+
+/**
+ * Weekly pattern left after removing the trend
+ */
+export interface WeeklySeasonality {
+  /** Mean deviation from trend per weekday, indexed like `Date.getDay()` */
+  effects: number[];
+  /** Share of detrended variance explained by the weekday (0-1) */
+  strength: number;
+  /** One-way ANOVA p-value across weekdays */
+  pValue: number;
+  confidence: number;
+  isSignificant: boolean;
+  peakDay: number;
+  lowDay: number;
+}
+
+/**
+ * Full trend analysis of one metric
+ */
+export interface MetricTrend {
+  metric: TrendMetric;
+  analysis: TrendAnalysis;
+  linear: LinearTrend;
+  /** Fitted change from the first to the last day */
+  change: number;
+  /** LOESS trend per logged day */
+  smoothed: Array<{ date: string; value: number }>;
+  changePoints: ChangePoint[];
+  /** Null until there are enough days */
+  seasonality: WeeklySeasonality | null;
+  days: number;
+}
+
+const round = (value: number) => parseFloat(value.toFixed(3));
+
+/**
+ * Fit a straight line through (x, y)
+ *
+ * Returns null for fewer than three points or when every x is equal.
+ */
+export function fitLinearTrend(x: number[], y: number[]): LinearTrend | null {
+  const fit = linearRegression(x.map(value => [1, value]), y);
+  if (!fit) {
+    return null;
+  }
+
+  const slope = fit.coefficients[1]!;
+  // A perfect fit has no standard error; any slope is then certain
+  const pValue = fit.standardErrors[1] === 0 && slope !== 0 ? 0 : fit.pValues[1]!;
+
+  return { slope, intercept: fit.coefficients[0]!, pValue, rSquared: fit.rSquared };
+}
+
+/**
+ * LOESS smoothing: a tricube-weighted local line at every x
+ *
+ * Each neighbourhood holds `span` of the points (at least three).
+ */
+export function loessSmooth(x: number[], y: number[], span: number = TREND_CONFIG.LOESS_SPAN): number[] {
+  const n = x.length;
+  if (n < 3) {
+    return [...y];
+  }
+  const k = Math.min(n, Math.max(3, Math.ceil(span * n)));
+
+  return x.map(x0 => {
+    const distances = x.map(value => Math.abs(value - x0));
+    const radius = [...distances].sort((a, b) => a - b)[k - 1]! * 1.0001 || 1;
+    const weights = distances.map(d => (d < radius ? Math.pow(1 - Math.pow(d / radius, 3), 3) : 0));
+
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const xMean = weights.reduce((sum, w, i) => sum + w * x[i]!, 0) / totalWeight;
+    const yMean = weights.reduce((sum, w, i) => sum + w * y[i]!, 0) / totalWeight;
+    const sxx = weights.reduce((sum, w, i) => sum + w * Math.pow(x[i]! - xMean, 2), 0);
+    const sxy = weights.reduce((sum, w, i) => sum + w * (x[i]! - xMean) * (y[i]! - yMean), 0);
+
+    return sxx > 0 ? yMean + (sxy / sxx) * (x0 - xMean) : yMean;
+  });
+}
+
+/**
+ * Find level shifts by binary segmentation
+ *
+ * Each segment is split where a Welch t-test between the two sides is
+ * strongest. A split is kept when its p-value, Bonferroni-corrected for
+ * the number of candidate days, clears the significance level and the
+ * shift is large. The strongest `MAX_CHANGE_POINTS` are returned in time
+ * order.
+ */
+export function detectChangePoints(
+  values: number[],
+  dates: string[]
+): ChangePoint[] {
+  const minSegment = TREND_CONFIG.MIN_SEGMENT_DAYS;
+  const found: Array<{ index: number; changePoint: ChangePoint }> = [];
+
+  const split = (start: number, end: number) => {
+    const candidates = end - start - 2 * minSegment + 1;
+    if (candidates < 1) {
+      return;
+    }
+
+    let best: { index: number; t: number; pValue: number } | null = null;
+    for (let index = start + minSegment; index <= end - minSegment; index++) {
+      const { t, pValue } = welchTTest(values.slice(index, end), values.slice(start, index));
+      if (!best || Math.abs(t) > Math.abs(best.t)) {
+        best = { index, t, pValue };
+      }
+    }
+    if (!best) {
+      return;
+    }
+
+    const before = values.slice(start, best.index);
+    const after = values.slice(best.index, end);
+    const pValue = Math.min(1, best.pValue * candidates);
+    const effectSize = cohensD(after, before);
+
+    if (pValue > TREND_CONFIG.SIGNIFICANCE_LEVEL || Math.abs(effectSize) < TREND_CONFIG.MIN_CHANGE_EFFECT) {
+      return;
+    }
+
+    found.push({
+      index: best.index,
+      changePoint: {
+        date: dates[best.index]!,
+        before: round(mean(before)),
+        after: round(mean(after)),
+        shift: round(mean(after) - mean(before)),
+        effectSize: round(effectSize),
+        pValue,
+        confidence: round(1 - pValue)
+      }
+    });
+    split(start, best.index);
+    split(best.index, end);
+  };
+
+  split(0, values.length);
+
+  return found
+    .sort((a, b) => a.changePoint.pValue - b.changePoint.pValue)
+    .slice(0, TREND_CONFIG.MAX_CHANGE_POINTS)
+    .sort((a, b) => a.index - b.index)
+    .map(({ changePoint }) => changePoint);
+}
+
+/**
+ * Estimate the weekly pattern in a metric's deviations from trend
+ *
+ * Returns null until the days span `MIN_SEASONAL_DAYS` and at least two
+ * weekdays have been logged twice.
+ */
+export function decomposeWeeklySeasonality(
+  dates: string[],
+  residuals: number[]
+): WeeklySeasonality | null {
+  if (dates.length < 2 || daysBetweenKeys(dates[0]!, dates[dates.length - 1]!) + 1 < TREND_CONFIG.MIN_SEASONAL_DAYS) {
+    return null;
+  }
+
+  const groups: number[][] = WEEKDAY_LABELS.map(() => []);
+  dates.forEach((date, i) => groups[getDayDate(date).getDay()]!.push(residuals[i]!));
+  if (groups.filter(group => group.length >= 2).length < 2) {
+    return null;
+  }
+
+  // Center the weekday means so the pattern sums to zero over logged weekdays
+  const logged = groups.filter(group => group.length > 0);
+  const center = mean(logged.map(group => mean(group)));
+  const effects = groups.map(group => (group.length > 0 ? round(mean(group) - center) : 0));
+
+  const residualVariance = sampleVariance(residuals);
+  const remainder = dates.map((date, i) => residuals[i]! - effects[getDayDate(date).getDay()]!);
+  const strength = residualVariance > 0 ? Math.max(0, 1 - sampleVariance(remainder) / residualVariance) : 0;
+
+  const { pValue } = oneWayAnova(groups);
+  const loggedDays = groups.map((group, day) => ({ day, logged: group.length > 0 })).filter(d => d.logged).map(d => d.day);
+  const peakDay = loggedDays.reduce((best, day) => (effects[day]! > effects[best]! ? day : best));
+  const lowDay = loggedDays.reduce((worst, day) => (effects[day]! < effects[worst]! ? day : worst));
+
+  return {
+    effects,
+    strength: round(strength),
+    pValue,
+    confidence: round(1 - pValue),
+    isSignificant: pValue <= TREND_CONFIG.SIGNIFICANCE_LEVEL,
+    peakDay,
+    lowDay
+  };
+}
+
+/**
+ * Granularity a trend over this many days is read at
+ */
+function getTrendPeriod(spanDays: number): TrendAnalysis['period'] {
+  if (spanDays <= 14) return 'daily';
+  if (spanDays <= 90) return 'weekly';
+  return 'monthly';
+}
+
+/**
+ * Analyze the trend of one daily metric
+ *
+ * `magnitude` is the fitted change over the period relative to two
+ * standard deviations of the metric (capped at 1); `confidence` is one
+ * minus the slope's p-value. A trend that is not significant, or too small
+ * to matter, reads as stable. Returns null for fewer than `MIN_DAYS` days.
+ */
+export function analyzeMetricTrend(summaries: DailySummary[], metric: TrendMetric): MetricTrend | null {
+  const days = [...summaries].sort((a, b) => a.date.localeCompare(b.date));
+  if (days.length < TREND_CONFIG.MIN_DAYS) {
+    return null;
+  }
+
+  const dates = days.map(day => day.date);
+  const values = days.map(day => day.scores[metric]);
+  const x = dates.map(date => daysBetweenKeys(dates[0]!, date));
+
+  const linear = fitLinearTrend(x, values);
+  if (!linear) {
+    return null;
+  }
+
+  const spanDays = x[x.length - 1]!;
+  const change = linear.slope * spanDays;
+  const sd = Math.sqrt(sampleVariance(values));
+  const magnitude = sd > 0 ? Math.min(1, Math.abs(change) / (2 * sd)) : 0;
+  const isTrending = linear.pValue <= TREND_CONFIG.SIGNIFICANCE_LEVEL && magnitude >= TREND_CONFIG.STABLE_MAGNITUDE;
+
+  const smoothed = loessSmooth(x, values);
+  const seasonality = decomposeWeeklySeasonality(dates, values.map((value, i) => value - smoothed[i]!));
+
+  return {
+    metric,
+    analysis: {
+      direction: isTrending ? (change > 0 ? 'up' : 'down') : 'stable',
+      magnitude: round(magnitude),
+      confidence: round(1 - linear.pValue),
+      period: getTrendPeriod(spanDays + 1)
+    },
+    linear,
+    change: round(change),
+    smoothed: dates.map((date, i) => ({ date, value: round(smoothed[i]!) })),
+    changePoints: detectChangePoints(values, dates),
+    seasonality,
+    days: days.length
+  };
+}
@@ -11,6 +11,7 @@ import type {
   CreateMoodEntry,
   MoodEntryFilters
 } from '@/types';
+import { scoreEntry, generatePowerHours } from '@/lib/scoring';
 
 // Example: Creating a new mood entry
 const createNewMoodEntry = (): CreateMoodEntry => {
@@ -29,7 +30,7 @@ const createNewMoodEntry = (): CreateMoodEntry => {
   };
 };
 
-// Example: Computing scores from mood entries
+// Example: Computing scores from mood entries via the canonical scoring service
 const computeScores = (entries: MoodEntry[]): ComputedScores => {
   if (entries.length === 0) {
     return {
@@ -43,33 +44,11 @@ const computeScores = (entries: MoodEntry[]): ComputedScores => {
   
   const latestEntry = entries[entries.length - 1]!;
   
-  // Mood Composite Score calculation
-  const MC = (latestEntry.valence + latestEntry.energy + latestEntry.focus - latestEntry.stress) / 4;
+  // Scores the entry against every earlier entry; with fewer than three
+  // earlier entries MC and DSS fall back to 0 (at baseline)
+  const { MC, DSS, LM, RI, CN } = scoreEntry(latestEntry, entries);
   
-  // Daily Success Score calculation
-  const DSS = (latestEntry.tasksCompleted || 0) * 0.4 + 
-              (latestEntry.deepworkMinutes || 0) * 0.01 + 
-              MC * 0.3;
-  
-  // Learning Momentum calculation (simplified)
-  const LM = latestEntry.focus + ((latestEntry.deepworkMinutes || 0) * 0.1);
-  
-  // Recovery Index calculation
-  const RI = (latestEntry.sleepHours || 0) * 0.3 + 
-             (latestEntry.recoveryAction ? 0.2 : 0) + 
-             (5 - latestEntry.stress) * 0.1;
-  
-  // Connection Score calculation
-  const CN = (latestEntry.socialTouchpoints || 0) * 0.1 + 
-             (latestEntry.valence > 3 ? 0.2 : 0);
-  
-  return {
-    MC: Math.max(-1.25, Math.min(5, MC)),
-    DSS: Math.max(0, DSS),
-    LM: Math.max(0, LM),
-    RI: Math.max(0, Math.min(5, RI)),
-    CN: Math.max(0, CN)
-  };
+  return { MC, DSS, LM, RI, CN };
 };
 
 // Example: Filtering mood entries
@@ -107,72 +86,9 @@ const filterMoodEntries = (entries: MoodEntry[], filters: MoodEntryFilters): Moo
   });
 };
 
-// Example: Creating a PowerHour heatmap
+// Example: Creating a PowerHour heatmap of focus, smoothed toward weekday and hour averages
 const createPowerHourHeatmap = (entries: MoodEntry[]): PowerHourHeatmap => {
-  const matrix: number[][] = Array(7).fill(null).map(() => Array(24).fill(0));
-  const hourCounts: number[][] = Array(7).fill(null).map(() => Array(24).fill(0));
-  
-  // Process entries to build productivity matrix
-  entries.forEach(entry => {
-    const date = new Date(entry.timestamp);
-    const weekday = date.getDay();
-    const hour = date.getHours();
-    
-    // Calculate productivity score based on focus and energy
-    const productivityScore = (entry.focus + entry.energy) / 2;
-    
-    const matrixRow = matrix[weekday];
-    const countRow = hourCounts[weekday];
-    
-    if (matrixRow && countRow) {
-      matrixRow[hour]! += productivityScore;
-      countRow[hour]! += 1;
-    }
-  });
-  
-  // Average the scores
-  for (let day = 0; day < 7; day++) {
-    const matrixRow = matrix[day];
-    const countRow = hourCounts[day];
-    
-    if (matrixRow && countRow) {
-      for (let hour = 0; hour < 24; hour++) {
-        if (countRow[hour]! > 0) {
-          matrixRow[hour] = matrixRow[hour]! / countRow[hour]!;
-        }
-      }
-    }
-  }
-  
-  // Find peak and low hours
-  const allHours: { weekday: number; hour: number; score: number }[] = [];
-  for (let day = 0; day < 7; day++) {
-    const matrixRow = matrix[day];
-    const countRow = hourCounts[day];
-    
-    if (matrixRow && countRow) {
-      for (let hour = 0; hour < 24; hour++) {
-        if (countRow[hour]! > 0) {
-          allHours.push({ weekday: day, hour, score: matrixRow[hour]! });
-        }
-      }
-    }
-  }
-  
-  const peakHours = allHours
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 10);
-  
-  const lowHours = allHours
-    .sort((a, b) => a.score - b.score)
-    .slice(0, 10);
-  
-  return {
-    matrix,
-    peakHours,
-    lowHours,
-    lastUpdated: new Date()
-  };
+  return generatePowerHours(entries, undefined, undefined, { metric: 'focus' });
 };
 
 // Example: Creating a coach tip
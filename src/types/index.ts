@@ -2,7 +2,7 @@
  * CampusThrive TypeScript Types and Interfaces
  * 
  * This file contains all the type definitions for the CampusThrive student wellness tracking app.
- * All data is stored locally in localStorage with no external server communication.
+ * All data is stored locally in browser storage (IndexedDB or localStorage) with no external server communication.
  */
 
 /**
@@ -76,6 +76,18 @@ export interface MoodEntry {
    */
   sleepHours?: number;
   
+  /** 
+   * Optional: Bedtime the previous night, 24-hour local time (HH:mm)
+   * Used for sleep regularity
+   */
+  bedTime?: string;
+  
+  /** 
+   * Optional: Wake time this morning, 24-hour local time (HH:mm)
+   * Used for sleep regularity
+   */
+  wakeTime?: string;
+  
   /** 
    * Optional: Whether a recovery action was taken (exercise, meditation, etc.)
    * Used for recovery index calculations
@@ -99,40 +111,271 @@ export interface MoodEntry {
 export interface ComputedScores {
   /** 
    * Mood Composite Score (MC)
-   * Calculated as: (valence + energy + focus - stress) / 4
-   * Range: -1.25 to 5, where higher values indicate better overall mood
+   * Calculated as: 0.4*zValence + 0.3*zEnergy + 0.2*zFocus - 0.2*zStress
+   * z-scores are against the personal baseline; 0 means "typical for you"
    */
   MC: number;
   
   /** 
    * Daily Success Score (DSS)
-   * Calculated as: (tasksCompleted * 0.4) + (deepworkMinutes * 0.01) + (MC * 0.3)
-   * Range: 0 to 10+, where higher values indicate more productive days
+   * Calculated as: 0.5*zLM + 0.3*zRI + 0.2*zCN
+   * z-scores are against the personal baseline; 0 means "typical for you"
    */
   DSS: number;
   
   /** 
    * Learning Momentum (LM)
-   * Calculated as: Average focus over last 7 days + (deepworkMinutes trend * 0.1)
-   * Range: 0 to 5+, indicates sustained learning and focus capacity
+   * Calculated as: deepworkMinutes + 10 * tasksCompleted
+   * Raw value, 0 or more
    */
   LM: number;
   
   /** 
    * Recovery Index (RI)
-   * Calculated as: (sleepHours * 0.3) + (recoveryActions * 0.2) + (stress reduction trend * 0.5)
-   * Range: 0 to 5, where higher values indicate better recovery and resilience
+   * Calculated as: sleepHours + (recoveryAction ? 1 : 0)
+   * Raw value, 0 or more
    */
   RI: number;
   
   /** 
    * Connection Score (CN)
-   * Calculated as: (socialTouchpoints * 0.1) + (positive social interactions * 0.2)
-   * Range: 0 to 5+, measures social wellness and connectedness
+   * Calculated as: average socialTouchpoints over the last 7 entries
+   * Raw value, 0 or more
    */
   CN: number;
 }
 
+/**
+ * Mean and sigma of one scored dimension in a baseline
+ */
+export interface BaselineStat {
+  mean: number;
+  sigma: number;
+}
+
+/**
+ * Cached per-entry scores persisted under the computed scores storage key
+ * 
+ * @interface CachedEntryScores
+ * @description One row per mood entry, oldest first. Fingerprints let the
+ * cache detect edited entries and changed scoring profiles so only the
+ * affected rows are recomputed.
+ */
+export interface CachedEntryScores extends ComputedScores {
+  /** ID of the scored mood entry */
+  entryId: string;
+  
+  /** Timestamp of the scored mood entry */
+  timestamp: Date;
+  
+  /** Fingerprint of the entry fields that feed the scores */
+  entryFingerprint: string;
+  
+  /** Fingerprint of the scoring profile the row was computed with */
+  configFingerprint: string;
+  
+  /** False when the insufficient-history fallback was applied */
+  isValid: boolean;
+  
+  /** Entry is an outlier against its baseline (only when an outlier limit is set) */
+  isOutlier: boolean;
+  
+  /** Baseline statistics the z-scores were computed against */
+  baseline: {
+    mode: BaselineMode;
+    entriesUsed: number;
+    valence: BaselineStat;
+    energy: BaselineStat;
+    focus: BaselineStat;
+    stress: BaselineStat;
+    lm: BaselineStat;
+    ri: BaselineStat;
+    cn: BaselineStat;
+  };
+}
+
+/**
+ * Day-end fields that can be reported more than once per day
+ */
+export type DayEndField = 'deepworkMinutes' | 'tasksCompleted' | 'sleepHours' | 'recoveryAction' | 'socialTouchpoints';
+
+/**
+ * How duplicate values of a day-end field are merged
+ * - sum: add every reported value
+ * - max: keep the largest value
+ * - latest: keep the most recently reported value
+ * - any: true if any entry reported true (booleans only)
+ */
+export type DayEndMergeRule = 'sum' | 'max' | 'latest' | 'any';
+
+/**
+ * One calendar day of check-ins merged into a single record
+ * 
+ * @interface DailySummary
+ * @description Aggregate mood, merged day-end metrics and daily MC/DSS for
+ * one logical day. Entries before the day-boundary hour belong to the
+ * previous day.
+ */
+export interface DailySummary {
+  /** Logical day in YYYY-MM-DD format (local time) */
+  date: string;
+  
+  /** IDs of the entries merged into this day, oldest first */
+  entryIds: string[];
+  
+  /** Time buckets checked in during the day */
+  timeBuckets: TimeBucket[];
+  
+  /** Timestamp of the day's first and last entries */
+  firstEntryAt: Date;
+  lastEntryAt: Date;
+  
+  /** Average mood dimensions across the day's entries */
+  mood: {
+    valence: number;
+    energy: number;
+    focus: number;
+    stress: number;
+  };
+  
+  /** Day-end metrics merged with the configured rules; undefined when never reported */
+  dayEnd: {
+    deepworkMinutes?: number;
+    tasksCompleted?: number;
+    sleepHours?: number;
+    recoveryAction?: boolean;
+    socialTouchpoints?: number;
+    /** Latest reported bed and wake times (HH:mm) */
+    bedTime?: string;
+    wakeTime?: string;
+  };
+  
+  /** Every tag used during the day */
+  tags: string[];
+  
+  /** Daily scores: the merged day scored against previous days */
+  scores: ComputedScores;
+  
+  /** False when fewer than the minimum number of earlier days exist */
+  isValid: boolean;
+  
+  /** Label of the baseline the daily scores were normalized against */
+  baselineLabel: string;
+  
+  /** Dimensions on which the day was an outlier against earlier days */
+  outlierDimensions: string[];
+  
+  /** Why the daily MC and DSS came out as they did */
+  explanation: {
+    MC: ScoreExplanation;
+    DSS: ScoreExplanation;
+  };
+}
+
+/**
+ * One component's share of a composite score
+ * 
+ * @interface ScoreContribution
+ * @description Weight × z-score of a component (e.g. stress in MC), with the
+ * raw value and the baseline mean/sigma it was compared against
+ */
+export interface ScoreContribution {
+  /** Component key, e.g. 'stress' or 'lm' */
+  component: string;
+  
+  /** Display label */
+  label: string;
+  
+  /** Profile weight applied to the z-score */
+  weight: number;
+  
+  /** Value being scored */
+  raw: number;
+  
+  /** Baseline mean and sigma the raw value was compared with */
+  mean: number;
+  sigma: number;
+  
+  /** Standard deviations from the baseline mean */
+  zScore: number;
+  
+  /** weight × zScore; the contributions add up to the score */
+  contribution: number;
+}
+
+/**
+ * Explanation of an MC or DSS score
+ * 
+ * @interface ScoreExplanation
+ * @description Contributions ranked by size and a plain-language summary,
+ * answering "why is my MC −0.8 today?"
+ */
+export interface ScoreExplanation {
+  /** Score being explained */
+  metric: 'MC' | 'DSS';
+  
+  /** The score */
+  value: number;
+  
+  /** Contributions, largest absolute contribution first */
+  contributions: ScoreContribution[];
+  
+  /** One or two sentences naming what moved the score */
+  summary: string;
+  
+  /** Label of the baseline the score was normalized against */
+  baselineLabel: string;
+  
+  /** False when the insufficient-history fallback was applied */
+  isValid: boolean;
+}
+
+/**
+ * How far after a tag its outcome is measured
+ * 
+ * - same-entry: the entry the tag was logged on
+ * - next-bucket: the next check-in on the same day
+ * - next-day / two-days: the daily summary one or two days later
+ */
+export type DriverLag = 'same-entry' | 'next-bucket' | 'next-day' | 'two-days';
+
+/**
+ * Statistical test of one driver's effect on one metric
+ * 
+ * @interface DriverSignificance
+ * @description Welch t-test, effect size and bootstrap interval for the
+ * difference between entries with and without a tag
+ */
+export interface DriverSignificance {
+  /** Mean with the tag minus mean without it */
+  meanDifference: number;
+  
+  /** Welch t statistic */
+  tStatistic: number;
+  
+  /** Welch–Satterthwaite degrees of freedom */
+  degreesOfFreedom: number;
+  
+  /** Two-sided p-value before multiple-comparison correction */
+  pValue: number;
+  
+  /** Benjamini–Hochberg adjusted p-value across all analyzed tags */
+  adjustedPValue: number;
+  
+  /** Cohen's d effect size (0.2 small, 0.5 medium, 0.8 large) */
+  cohensD: number;
+  
+  /** Bootstrap confidence interval for the mean difference */
+  confidenceInterval: {
+    lower: number;
+    upper: number;
+    level: number;
+  };
+  
+  /** True when the adjusted p-value is below the false discovery rate */
+  isSignificant: boolean;
+}
+
 /**
  * Driver analysis interface for identifying performance influencers
  * 
@@ -150,6 +393,8 @@ export interface DriverAnalysis {
     mcImprovement: number;
     /** Number of occurrences analyzed */
     occurrences: number;
+    /** Significance of the MC difference */
+    significance: DriverSignificance;
   }[];
   
   /** Tags that consistently correlate with decreased performance */
@@ -161,6 +406,8 @@ export interface DriverAnalysis {
     mcDecrease: number;
     /** Number of occurrences analyzed */
     occurrences: number;
+    /** Significance of the MC difference */
+    significance: DriverSignificance;
   }[];
   
   /** 
@@ -173,41 +420,66 @@ export interface DriverAnalysis {
   lastUpdated: Date;
 }
 
+/**
+ * Metric a power hour heatmap can show
+ */
+export type PowerHourMetric = 'MC' | 'DSS' | 'focus' | 'energy';
+
+/**
+ * One weekday × hour cell of a power hour heatmap
+ */
+export interface PowerHourCell {
+  weekday: number;
+  hour: number;
+  /** Smoothed 0-5 score */
+  score: number;
+  /** Entries logged in the cell */
+  count: number;
+  /** Confidence in the cell's own data (0-1) */
+  confidence: number;
+}
+
 /**
  * PowerHour heatmap data structure for productivity visualization
  * 
  * @interface PowerHourHeatmap
  * @description Represents productivity patterns across weekdays and hours
- * in a 7x24 matrix format for heatmap visualization
+ * in a 7x24 matrix format for heatmap visualization. Cell averages are
+ * shrunk toward the weekday and hour averages, so a cell with one entry
+ * cannot stand out on its own.
  */
 export interface PowerHourHeatmap {
+  /** Metric the scores are based on */
+  metric: PowerHourMetric;
+  
   /** 
    * Matrix of productivity scores [weekday][hour]
    * weekday: 0=Sunday, 1=Monday, ..., 6=Saturday
    * hour: 0-23 (24-hour format)
-   * value: 0-5 productivity score
+   * value: 0-5 productivity score, smoothed; 0 for cells without entries
    */
   matrix: number[][];
   
+  /** Entries per cell [weekday][hour] */
+  counts: number[][];
+  
+  /** 
+   * Confidence per cell [weekday][hour] (0-1)
+   * Share of the smoothed score that comes from the cell's own entries
+   */
+  confidence: number[][];
+  
   /** 
    * Peak productivity hours identified by the algorithm
    * Sorted by productivity score (highest first)
    */
-  peakHours: {
-    weekday: number;
-    hour: number;
-    score: number;
-  }[];
+  peakHours: PowerHourCell[];
   
   /** 
    * Low productivity hours that might need attention
    * Sorted by productivity score (lowest first)
    */
-  lowHours: {
-    weekday: number;
-    hour: number;
-    score: number;
-  }[];
+  lowHours: PowerHourCell[];
   
   /** Last updated timestamp for the heatmap data */
   lastUpdated: Date;
@@ -229,7 +501,7 @@ export interface CoachTip {
    * Conditions that trigger this tip (e.g., { score: 'MC', operator: '<', value: 2 }).
    */
   conditions: {
-    score: keyof ComputedScores | 'sleepHours' | 'stress' | 'valence' | 'energy' | 'focus' | 'socialTouchpoints' | 'recoveryAction';
+    score: keyof ComputedScores | 'burnoutRisk' | 'sleepDebt' | 'sleepRegularity' | 'goalsAtRisk' | 'sleepHours' | 'stress' | 'valence' | 'energy' | 'focus' | 'socialTouchpoints' | 'recoveryAction';
     operator: '<' | '>' | '=' | '<=' | '>=';
     value: number;
   }[];
@@ -257,6 +529,14 @@ export interface CoachTip {
    * Optional: Required tags for this tip to be relevant.
    */
   requiredTags?: string[];
+  /**
+   * Optional: Explanation of the anomaly that surfaced this tip.
+   */
+  triggeredBy?: string;
+  /**
+   * Optional: Active goal the tip can help with, and how it is going.
+   */
+  relatedGoal?: string;
   /**
    * Optional: Timestamp when the tip was last acknowledged by the user.
    */
@@ -409,6 +689,8 @@ export interface AppSettings {
     moodEntriesDays: number;
     /** Days to keep computed scores (0 = forever) */
     scoresDays: number;
+    /** Days to keep deleted entries in the trash (0 = until emptied) */
+    trashDays?: number;
   };
   
   /** Privacy settings */
@@ -418,6 +700,668 @@ export interface AppSettings {
     /** Whether to enable crash reporting */
     crashReporting: boolean;
   };
+  
+  /** User-created scoring profiles (built-in profiles are not stored) */
+  scoringProfiles?: ScoringProfile[];
+  
+  /** ID of the scoring profile applied to all scores */
+  activeScoringProfileId?: string;
+  
+  /** Hour (0-23) a new day starts; earlier entries count toward the previous day */
+  dayStartHour?: number;
+  
+  /** Rules for what keeps a streak going */
+  streakSettings?: StreakSettings;
+  
+  /** Sleep target and debt window */
+  sleepSettings?: SleepSettings;
+
+  /** Semester phases and whether baselines stay within a phase */
+  academicCalendar?: AcademicCalendar;
+}
+
+/**
+ * Kind of academic period
+ */
+export type AcademicPhaseType = 'classes' | 'midterms' | 'finals' | 'break';
+
+/**
+ * One user-defined period of the academic calendar
+ *
+ * @interface AcademicPhase
+ * @description Inclusive range of calendar days (YYYY-MM-DD) with the kind
+ * of period it is, e.g. "Fall finals", 2024-12-09 to 2024-12-20
+ */
+export interface AcademicPhase {
+  /** Unique identifier for the phase */
+  id: string;
+
+  /** Kind of period */
+  type: AcademicPhaseType;
+
+  /** Display name */
+  name: string;
+
+  /** First day of the phase */
+  start: string;
+
+  /** Last day of the phase */
+  end: string;
+}
+
+/**
+ * Academic calendar settings
+ *
+ * @interface AcademicCalendar
+ * @description Semester phases, and whether scores are compared only with
+ * check-ins from the same kind of phase (finals against earlier finals)
+ */
+export interface AcademicCalendar {
+  /** User-defined phases; they must not overlap */
+  phases: AcademicPhase[];
+
+  /** Whether MC/DSS baselines only use check-ins from the same phase type */
+  samePhaseBaselines: boolean;
+}
+
+/**
+ * Rules for counting streak days
+ * 
+ * @interface StreakSettings
+ * @description Grace ("freeze") days bridge missed days, and a day only
+ * counts in full once it has enough check-ins
+ */
+export interface StreakSettings {
+  /** Missed days per week (Monday to Sunday) that do not break a streak */
+  graceDaysPerWeek: number;
+  
+  /** Check-ins a day needs to count as a full streak day */
+  minEntriesPerDay: number;
+  
+  /** Whether days with some check-ins, but fewer than the minimum, keep a streak alive */
+  partialDaysKeepStreak: boolean;
+}
+
+/**
+ * Sleep goals for the sleep metrics
+ * 
+ * @interface SleepSettings
+ * @description Nightly sleep target that sleep debt is measured against,
+ * and how far back debt accumulates
+ */
+export interface SleepSettings {
+  /** Hours of sleep the user aims for each night */
+  targetHours: number;
+  
+  /** Days over which sleep debt accumulates */
+  debtWindowDays: number;
+}
+
+/**
+ * Circadian preference inferred from when energy peaks
+ */
+export type Chronotype = 'morning' | 'intermediate' | 'evening' | 'unknown';
+
+/**
+ * One past or current streak
+ * 
+ * @interface StreakPeriod
+ * @description Span of logical days (YYYY-MM-DD) from the first to the last
+ * logged day of a streak
+ */
+export interface StreakPeriod {
+  /** First day of the streak */
+  startDate: string;
+  
+  /** Last logged day of the streak */
+  endDate: string;
+  
+  /** Days from start to end, inclusive */
+  length: number;
+  
+  /** Days that met the check-in minimum */
+  completeDays: number;
+  
+  /** Days with some check-ins but fewer than the minimum */
+  partialDays: string[];
+  
+  /** Missed days bridged by grace days */
+  graceDays: string[];
+}
+
+/**
+ * Measures the anomaly detector watches
+ */
+export type AnomalyMetric = 'MC' | 'DSS' | 'stress' | 'sleepHours' | 'valence' | 'energy';
+
+/**
+ * Unusual value or multi-day pattern in the user's data
+ * 
+ * @interface Anomaly
+ * @description An entry or day that deviates strongly from the personal
+ * baseline, or a run of days that breaks a pattern (e.g. three days of
+ * rising stress). Stored with a plain-language explanation.
+ */
+export interface Anomaly {
+  /** Stable identifier derived from the kind, metric and entry or day */
+  id: string;
+  
+  /** Single extreme value, or a multi-day run */
+  kind: 'spike' | 'run';
+  
+  metric: AnomalyMetric;
+  
+  /** Logical day (YYYY-MM-DD) the anomaly belongs to; the last day of a run */
+  date: string;
+  
+  /** Entry the value came from; absent for day-level anomalies */
+  entryId?: string;
+  
+  /** The unusual value (for runs, the last day's value) */
+  value: number;
+  
+  /** Personal baseline (median) the value was compared with */
+  baseline: number;
+  
+  /** Robust z-score against the baseline (for runs, of the last day) */
+  zScore: number;
+  
+  direction: 'high' | 'low' | 'rising' | 'falling';
+  
+  severity: 'notable' | 'extreme';
+  
+  /** Plain-language explanation shown to the user */
+  explanation: string;
+  
+  /** When the anomaly was first detected */
+  detectedAt: Date;
+  
+  /** Whether the user dismissed the alert */
+  dismissed: boolean;
+}
+
+/**
+ * Burnout risk band, from the thresholds in the burnout engine
+ */
+export type BurnoutLevel = 'low' | 'moderate' | 'high' | 'severe';
+
+/**
+ * Burnout risk as of one logical day
+ * 
+ * @interface BurnoutRisk
+ * @description Composite 0-100 score for a slow slide rather than a single
+ * bad entry: sustained high stress, accumulated sleep debt, days without a
+ * recovery action and declining social contact over the preceding days.
+ * Each component is normalized to 0-1 before weighting.
+ */
+export interface BurnoutRisk {
+  /** Logical day (YYYY-MM-DD) the risk is computed for */
+  date: string;
+  
+  /**
+   * Burnout risk (0-100)
+   * Calculated as: 100 * (w_stress * stress + w_sleep * sleepDebt + w_recovery * recoveryGap + w_social * socialDecline)
+   */
+  score: number;
+  
+  level: BurnoutLevel;
+  
+  /** Normalized components (0-1) */
+  components: {
+    /** Average stress above neutral over the recent window */
+    stress: number;
+    /** Accumulated sleep debt relative to the cap */
+    sleepDebt: number;
+    /** Share of recent days without a recovery action */
+    recoveryGap: number;
+    /** Relative drop in social touchpoints versus the earlier weeks */
+    socialDecline: number;
+  };
+  
+  /** Accumulated sleep debt in hours */
+  sleepDebtHours: number;
+  
+  /** Logged days in the recent window */
+  daysInWindow: number;
+  
+  /** False when too few recent days were logged to judge */
+  isValid: boolean;
+}
+
+/**
+ * Kind of study task, which decides where the planner puts it
+ * - deep: focused work, placed in peak focus hours
+ * - light: routine work, placed in the earliest free hours
+ * - recovery: rest and recharge, placed in low focus hours
+ */
+export type StudyTaskKind = 'deep' | 'light' | 'recovery';
+
+/**
+ * Task to be planned into the week
+ * 
+ * @interface StudyTask
+ * @description A piece of work or recovery the user wants time for, with
+ * an estimated duration and an optional deadline. The schedule recommender
+ * splits it into blocks of at most a couple of hours.
+ */
+export interface StudyTask {
+  /** Unique identifier for the task */
+  id: string;
+  
+  title: string;
+  
+  kind: StudyTaskKind;
+  
+  /** Estimated time needed, in minutes */
+  durationMinutes: number;
+  
+  /** Every block must end by this time */
+  deadline?: Date;
+  
+  createdAt: Date;
+}
+
+/**
+ * Planned block of time for a task
+ * 
+ * @interface ScheduleBlock
+ * @description One contiguous block in the weekly plan. Blocks start on
+ * the hour and never cross midnight.
+ */
+export interface ScheduleBlock {
+  /** Unique identifier for the block */
+  id: string;
+  
+  /** ID of the planned task */
+  taskId: string;
+  
+  /** Task title at planning time */
+  title: string;
+  
+  kind: StudyTaskKind;
+  
+  start: Date;
+  
+  durationMinutes: number;
+  
+  /** Moved by the user; kept in place when the plan is regenerated */
+  pinned: boolean;
+}
+
+/**
+ * Suggested weekly study plan
+ * 
+ * @interface StudyPlan
+ * @description Blocks for one Monday-to-Sunday week, placed using the
+ * power hour heatmap, plus the time that could not be fitted before a
+ * task's deadline.
+ */
+export interface StudyPlan {
+  /** Logical day (YYYY-MM-DD) of the Monday the plan starts on */
+  weekStart: string;
+  
+  /** Heatmap metric the blocks were placed by */
+  metric: PowerHourMetric;
+  
+  /** Planned blocks, earliest first */
+  blocks: ScheduleBlock[];
+  
+  /** Minutes per task that did not fit into the week */
+  unscheduled: Array<{ taskId: string; minutes: number }>;
+  
+  generatedAt: Date;
+}
+
+/**
+ * Daily value a goal is measured on
+ * Mood dimensions are daily averages; day-end fields are merged per day;
+ * recoveryAction counts as 1 on days with a recovery action.
+ */
+export type GoalMetric =
+  | 'stress' | 'valence' | 'energy' | 'focus'
+  | 'MC' | 'DSS'
+  | 'deepworkMinutes' | 'tasksCompleted' | 'sleepHours' | 'socialTouchpoints' | 'recoveryAction';
+
+/**
+ * How a goal combines the days of a week
+ * - average: mean of the logged days
+ * - total: sum of the logged days
+ * - days: number of days whose value passes `dayThreshold`
+ */
+export type GoalAggregation = 'average' | 'total' | 'days';
+
+/**
+ * Weekly goal status
+ * - met / missed: decided, either because the week is over or the outcome can no longer change
+ * - on-track / at-risk: week in progress
+ * - no-data: nothing logged for the metric this week
+ */
+export type GoalStatus = 'met' | 'missed' | 'on-track' | 'at-risk' | 'no-data';
+
+/**
+ * Weekly target set by the user
+ * 
+ * @interface Goal
+ * @description A target for one metric over a Monday-to-Sunday week, such
+ * as "average stress ≤ 2.5", "≥ 600 deep-work minutes" or "7+ hours sleep
+ * on 5 nights".
+ */
+export interface Goal {
+  /** Unique identifier for the goal */
+  id: string;
+  
+  title: string;
+  
+  metric: GoalMetric;
+  
+  aggregation: GoalAggregation;
+  
+  /**
+   * Direction of the target
+   * For `days` goals it applies to each day's value against `dayThreshold`;
+   * the number of passing days must then reach `target`.
+   */
+  comparator: 'atMost' | 'atLeast';
+  
+  /** Weekly average, weekly total or number of days */
+  target: number;
+  
+  /** Daily value a day must reach (or stay under) to count; `days` goals only */
+  dayThreshold?: number;
+  
+  /** Inactive goals are kept with their history but not tracked */
+  active: boolean;
+  
+  createdAt: Date;
+}
+
+/**
+ * Progress on a goal for one week
+ * 
+ * @interface GoalProgress
+ * @description Evaluated from daily summaries. Results for finished weeks
+ * are persisted, so history survives the cleanup of old mood entries.
+ */
+export interface GoalProgress {
+  goalId: string;
+  
+  /** Logical day (YYYY-MM-DD) of the Monday the week starts on */
+  weekStart: string;
+  
+  /** Weekly average, weekly total or number of passing days; null without data */
+  value: number | null;
+  
+  target: number;
+  
+  /** Progress toward the target (0-1) */
+  progress: number;
+  
+  status: GoalStatus;
+  
+  /** Days with a value for the metric */
+  daysLogged: number;
+  
+  /** True once the week is over */
+  complete: boolean;
+}
+
+/**
+ * Named set of weights used to compute MC and DSS
+ * 
+ * @interface ScoringProfile
+ * @description Lets users tune how mood dimensions and DSS components are
+ * weighted (e.g. "exam season", "athlete") without changing the formulas
+ */
+export interface ScoringProfile {
+  /** Unique identifier for the profile */
+  id: string;
+  
+  /** Display name */
+  name: string;
+  
+  /** Short explanation of when to use this profile */
+  description: string;
+  
+  /** MC weights applied to the valence/energy/focus/stress z-scores (stress is negative) */
+  mcWeights: {
+    valence: number;
+    energy: number;
+    focus: number;
+    stress: number;
+  };
+  
+  /** DSS weights applied to the LM/RI/CN z-scores, summing to 1 */
+  dssWeights: {
+    lm: number;
+    ri: number;
+    cn: number;
+  };
+  
+  /** Multipliers used when building raw DSS components */
+  dssMultipliers: {
+    /** LM added per completed task */
+    tasksToLM: number;
+    /** RI added when a recovery action was taken */
+    recoveryToRI: number;
+  };
+  
+  /** How the personal baseline for z-scores is built (all history when omitted) */
+  baseline?: BaselineConfig;
+  
+  /** How z-scores are normalized (mean/standard deviation when omitted) */
+  normalization?: NormalizationConfig;
+  
+  /** Whether the profile ships with the app and cannot be edited or deleted */
+  builtIn: boolean;
+}
+
+/**
+ * Baseline strategy used for z-score normalization
+ * - all-history: every earlier entry counts equally
+ * - rolling: only entries from the last N days count
+ * - ewma: exponentially weighted, recent entries count more
+ */
+export type BaselineMode = 'all-history' | 'rolling' | 'ewma';
+
+/**
+ * Baseline configuration for z-score normalization
+ * 
+ * @interface BaselineConfig
+ * @description Selects which earlier entries form the personal baseline
+ * and how much each one weighs
+ */
+export interface BaselineConfig {
+  /** Baseline strategy */
+  mode: BaselineMode;
+  
+  /** Window length in days (rolling mode) */
+  windowDays: number;
+  
+  /** Days for an entry's weight to halve (ewma mode) */
+  halfLifeDays: number;
+
+  /**
+   * Academic phases for a same-phase baseline: when set, only entries from
+   * the same phase type (or from outside every phase) count. Filled in from
+   * the academic calendar settings rather than stored with a profile.
+   */
+  phases?: AcademicPhase[];
+
+  /**
+   * Hour at which a day starts when placing entries in phases, so the
+   * baseline agrees with the daily summaries. Set together with `phases`.
+   */
+  dayStartHour?: number;
+}
+
+/**
+ * Statistic used to center and scale z-scores
+ * - mean-sd: mean and standard deviation (the specification)
+ * - median-mad: median and scaled median absolute deviation, robust to outliers
+ */
+export type NormalizationMethod = 'mean-sd' | 'median-mad';
+
+/**
+ * Normalization configuration for z-scores
+ * 
+ * @interface NormalizationConfig
+ * @description Opt-in robust statistics: a robust center/scale and
+ * winsorization of outlying baseline values
+ */
+export interface NormalizationConfig {
+  /** Center/scale statistic */
+  method: NormalizationMethod;
+  
+  /**
+   * Outlier limit in robust sigmas (1.4826 * MAD) from the baseline median.
+   * Baseline values beyond it are clamped (winsorized) and entries beyond it
+   * are flagged as outliers; 0 disables both.
+   */
+  winsorizeLimit: number;
+}
+
+/**
+ * One run of the storage migration pipeline
+ * 
+ * @interface MigrationLogEntry
+ * @description Persisted after every run that had migrations to apply, so
+ * the Data page can show what changed and whether a run was rolled back
+ */
+export interface MigrationLogEntry {
+  id: string;
+
+  /** Stored data version before the run */
+  fromVersion: string;
+
+  /** Version the run migrated (or tried to migrate) to */
+  toVersion: string;
+
+  /** Versions of the migrations applied, in order */
+  steps: string[];
+
+  /** Storage keys whose contents changed */
+  changedKeys: string[];
+
+  /** 'rolledBack' when a step failed and the snapshot was restored */
+  status: 'success' | 'rolledBack';
+
+  /** Failure message for rolled back runs */
+  error?: string;
+
+  startedAt: Date;
+
+  finishedAt: Date;
+}
+
+/**
+ * One way a stored value fails its schema
+ * 
+ * @interface SchemaIssue
+ * @description Path-level validation error, e.g. path "[3].valence",
+ * expected "number from 0 to 5", received "number 7"
+ */
+export interface SchemaIssue {
+  /** Location in the value ("" for the value itself) */
+  path: string;
+  
+  /** What the schema accepts at this path */
+  expected: string;
+  
+  /** Short description of what was found */
+  received: string;
+}
+
+/**
+ * Stored record set aside because it failed validation
+ * 
+ * @interface QuarantinedRecord
+ * @description Kept under its own storage key instead of being discarded,
+ * so the user can repair it back into place or drop it
+ */
+export interface QuarantinedRecord {
+  id: string;
+  
+  /** Storage key the record was read from */
+  key: string;
+  
+  /** True for one record of a collection, false for a whole stored value */
+  isElement: boolean;
+  
+  /** The record as stored (parsed JSON) */
+  value: unknown;
+  
+  issues: SchemaIssue[];
+  
+  quarantinedAt: Date;
+}
+
+/**
+ * Mood entry in the trash
+ * 
+ * @interface TrashedEntry
+ * @description Deleted entries are kept here for the trash retention
+ * period and can be restored one at a time
+ */
+export interface TrashedEntry {
+  entry: MoodEntry;
+  
+  deletedAt: Date;
+}
+
+/**
+ * Change to one mood entry within an undoable action
+ * 
+ * @interface EntryChange
+ * @description `before` is null for added entries and `after` is null
+ * for removed ones
+ */
+export interface EntryChange {
+  entryId: string;
+  
+  before: MoodEntry | null;
+  
+  after: MoodEntry | null;
+}
+
+/**
+ * Undoable change to the mood entry collection
+ * 
+ * @interface EntryHistoryAction
+ * @description One step on the undo/redo stack. Entries removed by a
+ * 'delete' action go to the trash, and undoing it takes them back out.
+ */
+export interface EntryHistoryAction {
+  id: string;
+  
+  kind: 'edit' | 'import' | 'delete' | 'restore';
+  
+  /** Short description for undo/redo buttons, e.g. "Delete 3 entries" */
+  label: string;
+  
+  changes: EntryChange[];
+  
+  performedAt: Date;
+}
+
+/**
+ * One edit to a stored mood entry
+ * 
+ * @interface EntryRevision
+ * @description Audit trail record written whenever an entry's fields
+ * change, including reverts and undo/redo of edits. Fields listed in
+ * `changedFields` but missing from `previousValues` were unset before.
+ */
+export interface EntryRevision {
+  id: string;
+  
+  entryId: string;
+  
+  editedAt: Date;
+  
+  changedFields: Array<keyof MoodEntry>;
+  
+  /** Values of the changed fields before the edit */
+  previousValues: Partial<MoodEntry>;
 }
 
 /**